@@ -1,5 +1,5 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getBalance } from '../../lib/orderkuota.js';
+import { getProvider } from '../../lib/providers/index.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === 'OPTIONS') {
@@ -23,11 +23,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    const result = await getBalance(username, token) as {
-      account?: { results?: { balance?: number; qris_balance?: number } };
-    };
-
-    const accountData = result?.account?.results;
+    const accountData = await getProvider('orderkuota').getBalance({ username, token });
     if (!accountData) {
       return res.status(500).json({
         success: false,
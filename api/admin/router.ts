@@ -1,7 +1,9 @@
 import express from 'express';
 import path from 'path';
 import fs from 'fs';
-import { validateQris, generateDynamicQris } from '../../lib/qris';
+import { validateQris, generateDynamicQris, getQrisErrors } from '../../lib/qris';
+import { decodeQris } from '../../lib/qris_codec';
+import { sealSecret, openSecret, isVaultConfigured } from '../../lib/vault';
 
 import {
   initDb,
@@ -29,13 +31,17 @@ import {
 
   // Webhook deliveries (admin)
   listWebhookDeliveries,
-  getMerchantWebhookConfig,
+  listWebhookEndpoints,
+  getWebhookEndpoint,
+  getWebhookDelivery,
+  listWebhookUrlAllowlist,
+  addWebhookUrlAllowlistEntry,
+  removeWebhookUrlAllowlistEntry,
+  listWebhookDeliveryChain,
+  getInvoiceById,
 
   // Operations
   listRefundsByStatus,
-  approveRefund,
-  rejectRefund,
-  processRefund,
   listDisputesByStatus,
   updateDisputeAdmin,
   runSettlementForDate,
@@ -48,7 +54,34 @@ import {
   exportWebhookDeliveriesCsv,
   listOpenAlerts,
   resolveAlert,
+  getAdminAccess,
+  getAdminUser,
+  listAdminUsers,
+  upsertAdminUser,
+  deleteAdminUser,
+  countActiveSuperadmins,
+  getAdminRole,
+  listAdminRoles,
+  upsertAdminRole,
+  getRefundById,
+  getDisputeById,
+  getSettlementById,
+  getPayoutById,
+  getAlertById,
+  searchAuditLog,
+  exportAuditLogCsv,
+  listMatchReviews,
+  getMatchReview,
+  closeMatchReview,
+  type AuditLogFilter,
 } from '../../lib/db';
+import { appendAuditLog, verifyAuditChain } from '../../lib/audit';
+import { transitionRefund, type RefundAction } from '../../lib/invoice_lifecycle';
+import { resolveMatchReview } from '../../lib/matching';
+import { parseAllowlistEntry } from '../../lib/url_guard';
+import { replayFailedWebhookDeliveries, replayInvoiceWebhookEvents, resendWebhookDelivery, webhookDeliveryRootId, withWebhookAttempts } from '../../lib/webhook_replay';
+import { loadSession, getSessionEmail } from '../app/session';
+import { ADMIN_PERMISSIONS, SUPERADMIN_ROLE, isAdminPermission, type AdminPermission } from '../../lib/admin_rbac';
 
 const router = express.Router();
 
@@ -61,31 +94,48 @@ router.use(async (_req, _res, next) => {
   }
 });
 
-function getUserEmail(req: express.Request): string | null {
-  const email = (req.headers['x-user-email'] as string | undefined)?.trim();
-  return email ? email.toLowerCase() : null;
-}
+router.use(loadSession());
 
-function isAdminEmail(email: string): boolean {
-  const raw = String(process.env.ADMIN_EMAILS || '').trim();
-  if (!raw) return false;
-  const set = new Set(raw.split(',').map(s => s.trim().toLowerCase()).filter(Boolean));
-  return set.has(email.toLowerCase());
+function getUserEmail(req: express.Request): string | null {
+  return getSessionEmail(req);
 }
 
-function requireAdmin(req: express.Request, res: express.Response): string | null {
+// Every route names the permission it needs; roles are resolved from admin_users/admin_roles
+async function requireAdmin(req: express.Request, res: express.Response, permission: AdminPermission): Promise<string | null> {
   const email = getUserEmail(req);
   if (!email) {
-    res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+    res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
     return null;
   }
-  if (!isAdminEmail(email)) {
+  const access = await getAdminAccess(email);
+  if (!access) {
     res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: 'Admin only' } });
     return null;
   }
+  if (!access.permissions.includes(permission)) {
+    res.status(403).json({ success: false, error: { code: 'FORBIDDEN', message: `Missing permission ${permission}`, details: { permission, role: access.role } } });
+    return null;
+  }
+  res.locals.adminRole = access.role;
   return email;
 }
 
+// Privileged changes go to the hash-chained audit log (lib/audit.ts) with before/after snapshots
+async function audit(
+  req: express.Request,
+  res: express.Response,
+  actorEmail: string,
+  entry: { action: string; target_type: string; target_id?: string | null; before?: unknown; after?: unknown }
+) {
+  await appendAuditLog({
+    ...entry,
+    actor_email: actorEmail,
+    actor_role: res.locals.adminRole ?? null,
+    ip: req.ip || null,
+    user_agent: req.header('user-agent') || null,
+  });
+}
+
 
 
 
@@ -98,38 +148,61 @@ function maskSecret(v: string, head = 6, tail = 4): string {
   return v.slice(0, head) + '…' + v.slice(-tail);
 }
 
-// GET current (masked)
-router.get('/settings/orderkuota', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
-  if (!adminEmail) return;
+// audit_log is append-only: secret-looking fields of a settings value are masked before they get there
+const SECRET_FIELD_RE = /token|secret|passw|^pw|pin|qris_static/i;
+
+function maskSettingForAudit(value: any): any {
+  if (Array.isArray(value)) return value.map(maskSettingForAudit);
+  if (!value || typeof value !== 'object') return value;
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = SECRET_FIELD_RE.test(k) && v != null && typeof v !== 'object' ? maskSecret(String(v)) : maskSettingForAudit(v);
+  }
+  return out;
+}
 
+// Only reachable through /settings/orderkuota (operator.read / operator.write), never the generic CMS settings routes
+const OPERATOR_SETTING_KEYS = new Set(['orderkuota_operator']);
+
+// Secrets (token, password, PIN, QRIS static) are sealed with lib/vault.
+// Older rows stored them as plain JSON; those stay readable until the next save.
+async function readOrderkuotaOperator(): Promise<any | null> {
   const s = (await getSettingRaw('orderkuota_operator')) || null;
+  if (!s) return null;
+  if (!s.secrets_sealed) return s;
+  const secrets = JSON.parse(openSecret(String(s.secrets_sealed)));
+  return { ...s, ...secrets };
+}
+
+function maskedOrderkuotaOperator(s: any | null) {
   const token = s?.token ? String(s.token) : '';
   const staticQris = s?.qris_static ? String(s.qris_static) : '';
-  const usn = s?.usn ? String(s.usn) : '';
-  const idOrkut = s?.idOrkut ? String(s.idOrkut) : '';
-  const baseUrl = s?.base_url ? String(s.base_url) : '';
+  return {
+    connected: !!token,
+    base_url: s?.base_url ? String(s.base_url) : '',
+    usn: s?.usn ? String(s.usn) : '',
+    idOrkut: s?.idOrkut ? String(s.idOrkut) : '',
+    token_masked: token ? maskSecret(token) : null,
+    pw_masked: s?.pwOrkut ? maskSecret(String(s.pwOrkut)) : null,
+    pin_masked: s?.pinOrkut ? maskSecret(String(s.pinOrkut), 2, 1) : null,
+    qris_static_masked: staticQris ? maskSecret(staticQris, 12, 8) : null,
+    qris_static_valid: staticQris ? validateQris(staticQris) : false,
+    sealed: !!s?.secrets_sealed,
+    updated_at: s?.updated_at || null,
+  };
+}
 
-  res.json({
-    success: true,
-    data: {
-      connected: !!token,
-      base_url: baseUrl,
-      usn,
-      idOrkut,
-      token_masked: token ? maskSecret(token) : null,
-      pw_masked: s?.pwOrkut ? maskSecret(String(s.pwOrkut)) : null,
-      pin_masked: s?.pinOrkut ? maskSecret(String(s.pinOrkut), 2, 1) : null,
-      qris_static_masked: staticQris ? maskSecret(staticQris, 12, 8) : null,
-      qris_static_valid: staticQris ? validateQris(staticQris) : false,
-      updated_at: s?.updated_at || null,
-    }
-  });
+// GET current (masked)
+router.get('/settings/orderkuota', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'operator.read');
+  if (!adminEmail) return;
+
+  res.json({ success: true, data: maskedOrderkuotaOperator(await readOrderkuotaOperator()) });
 });
 
 // PUT update (secrets stored in DB settings)
 router.put('/settings/orderkuota', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'operator.write');
   if (!adminEmail) return;
 
   const body = req.body || {};
@@ -145,19 +218,32 @@ router.put('/settings/orderkuota', async (req, res) => {
 
   if (!next.token) return res.status(400).json({ success: false, error: { code: 'INVALID', message: 'token wajib' } });
   if (!next.qris_static) return res.status(400).json({ success: false, error: { code: 'INVALID', message: 'qris_static wajib (string QRIS statis)' } });
-  if (!validateQris(next.qris_static)) {
-    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: 'QRIS statis tidak valid (CRC mismatch). Pastikan paste payload string, bukan gambar.' } });
+  const qrisErrors = getQrisErrors(next.qris_static);
+  if (qrisErrors.length) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `QRIS statis tidak valid: ${qrisErrors[0].message}. Pastikan paste payload string, bukan gambar.`, details: qrisErrors } });
   }
 
+  if (!isVaultConfigured()) {
+    return res.status(503).json({ success: false, error: { code: 'VAULT_NOT_CONFIGURED', message: 'VAULT_MASTER_KEY belum diset di server' } });
+  }
+
+  const before = maskedOrderkuotaOperator(await readOrderkuotaOperator());
   const now = Math.floor(Date.now() / 1000);
-  await setSetting('orderkuota_operator', { ...next, updated_at: now });
+  const { token, pwOrkut, pinOrkut, qris_static, ...plain } = next;
+  await setSetting('orderkuota_operator', {
+    ...plain,
+    secrets_sealed: sealSecret(JSON.stringify({ token, pwOrkut, pinOrkut, qris_static })),
+    updated_at: now,
+  });
+  const after = maskedOrderkuotaOperator(await readOrderkuotaOperator());
+  await audit(req, res, adminEmail, { action: 'settings.orderkuota.update', target_type: 'setting', target_id: 'orderkuota_operator', before, after });
 
   res.json({ success: true, data: { ok: true } });
 });
 
 // POST test generate QRIS dinamis dari QRIS statis yang disimpan
 router.post('/tools/qris-test', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'operator.read');
   if (!adminEmail) return;
 
   const amount = Number(req.body?.amount);
@@ -165,13 +251,14 @@ router.post('/tools/qris-test', async (req, res) => {
     return res.status(400).json({ success: false, error: { code: 'INVALID_AMOUNT', message: 'amount tidak valid' } });
   }
 
-  const s = (await getSettingRaw('orderkuota_operator')) || null;
+  const s = await readOrderkuotaOperator();
   const staticQris = s?.qris_static ? String(s.qris_static) : '';
   if (!staticQris) {
     return res.status(400).json({ success: false, error: { code: 'NOT_CONFIGURED', message: 'QRIS statis belum diset di Admin Settings' } });
   }
-  if (!validateQris(staticQris)) {
-    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: 'QRIS statis tersimpan invalid (CRC mismatch)' } });
+  const decoded = decodeQris(staticQris);
+  if (!decoded.ok) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `QRIS statis tersimpan invalid: ${decoded.errors[0].message}`, details: decoded.errors } });
   }
 
   const dynamic = generateDynamicQris(staticQris, amount);
@@ -182,6 +269,7 @@ router.post('/tools/qris-test', async (req, res) => {
     data: {
       amount,
       qris_static_valid: true,
+      qris_static_fields: decoded.fields,
       qris_dynamic: dynamic,
       qris_dynamic_valid: dynamicValid,
     }
@@ -192,14 +280,14 @@ router.post('/tools/qris-test', async (req, res) => {
 // Verification Review
 // =====================
 router.get('/verification/queue', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.read');
   if (!adminEmail) return;
   const items = await listSubmittedVerificationRequests();
   res.json({ success: true, data: { items } });
 });
 
 router.get('/verification/:id', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.read');
   if (!adminEmail) return;
   const vr = await getVerificationRequestById(String(req.params.id));
   if (!vr) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Not found' } });
@@ -209,7 +297,7 @@ router.get('/verification/:id', async (req, res) => {
 });
 
 router.get('/verification/:id/screenshot', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.read');
   if (!adminEmail) return;
   const vr = await getVerificationRequestById(String(req.params.id));
   if (!vr) return res.status(404).end();
@@ -219,40 +307,54 @@ router.get('/verification/:id/screenshot', async (req, res) => {
 });
 
 router.post('/verification/:id/approve', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.review');
   if (!adminEmail) return;
   const wa = typeof req.body?.wa_number === 'string' ? String(req.body.wa_number).trim() : undefined;
+  const before = await getVerificationRequestById(String(req.params.id));
   const { merchant, credentials } = await approveVerification({ id: String(req.params.id), reviewed_by: adminEmail, wa_number: wa });
+  await audit(req, res, adminEmail, {
+    action: 'verification.approve',
+    target_type: 'verification',
+    target_id: String(req.params.id),
+    before,
+    after: { verification: await getVerificationRequestById(String(req.params.id)), merchant_status: merchant?.status ?? null },
+  });
   res.json({ success: true, data: { merchant, credentials } });
 });
 
 router.post('/verification/:id/reject', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.review');
   if (!adminEmail) return;
   const reason = String(req.body?.reason || '').trim();
   if (!reason) return res.status(400).json({ success: false, error: { code: 'INVALID_REASON', message: 'Reason wajib' } });
   const wa = typeof req.body?.wa_number === 'string' ? String(req.body.wa_number).trim() : undefined;
+  const before = await getVerificationRequestById(String(req.params.id));
   await rejectVerification({ id: String(req.params.id), reviewed_by: adminEmail, reason, wa_number: wa });
+  await audit(req, res, adminEmail, { action: 'verification.reject', target_type: 'verification', target_id: String(req.params.id), before, after: await getVerificationRequestById(String(req.params.id)) });
   res.json({ success: true, data: { ok: true } });
 });
 
 router.post('/verification/:id/need-more-info', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'verification.review');
   if (!adminEmail) return;
   const reason = String(req.body?.reason || '').trim();
   if (!reason) return res.status(400).json({ success: false, error: { code: 'INVALID_REASON', message: 'Reason wajib' } });
   const wa = typeof req.body?.wa_number === 'string' ? String(req.body.wa_number).trim() : undefined;
+  const before = await getVerificationRequestById(String(req.params.id));
   await needMoreInfoVerification({ id: String(req.params.id), reviewed_by: adminEmail, reason, wa_number: wa });
+  await audit(req, res, adminEmail, { action: 'verification.need_more_info', target_type: 'verification', target_id: String(req.params.id), before, after: await getVerificationRequestById(String(req.params.id)) });
   res.json({ success: true, data: { ok: true } });
 });
 
 router.patch('/merchants/:id/wa', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'merchants.manage');
   if (!adminEmail) return;
   const wa = typeof req.body?.wa_number === 'string' ? String(req.body.wa_number).trim() : null;
   const enabled = req.body?.wa_enabled === false ? false : true;
+  const before = await getMerchantById(String(req.params.id));
   await updateMerchantWa(String(req.params.id), wa, enabled);
   const merchant = await getMerchantById(String(req.params.id));
+  await audit(req, res, adminEmail, { action: 'merchant.wa.update', target_type: 'merchant', target_id: String(req.params.id), before, after: merchant });
   res.json({ success: true, data: { merchant } });
 });
 
@@ -260,30 +362,35 @@ router.patch('/merchants/:id/wa', async (req, res) => {
 // CMS + Settings
 // =====================
 router.get('/settings', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.read');
   if (!adminEmail) return;
-  const settings = await listAllSettings();
+  const settings = (await listAllSettings()).filter((s) => !OPERATOR_SETTING_KEYS.has(s.key));
   res.json({ success: true, data: { settings } });
 });
 
 router.put('/settings/:key', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.write');
   if (!adminEmail) return;
   const key = String(req.params.key || '').trim();
+  if (OPERATOR_SETTING_KEYS.has(key)) {
+    return res.status(403).json({ success: false, error: { code: 'PROTECTED_SETTING', message: 'Use /settings/orderkuota (operator.write)' } });
+  }
+  const before = await getSettingRaw(key);
   await setSetting(key, req.body?.value);
   const value = await getSettingRaw(key);
+  await audit(req, res, adminEmail, { action: 'settings.update', target_type: 'setting', target_id: key, before: maskSettingForAudit(before), after: maskSettingForAudit(value) });
   res.json({ success: true, data: { key, value } });
 });
 
 router.get('/pages', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.read');
   if (!adminEmail) return;
   const pages = await listSitePages();
   res.json({ success: true, data: { pages } });
 });
 
 router.get('/pages/:slug', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.read');
   if (!adminEmail) return;
   const slug = String(req.params.slug || '').trim();
   const page = await getSitePage(slug);
@@ -292,34 +399,38 @@ router.get('/pages/:slug', async (req, res) => {
 });
 
 router.put('/pages/:slug', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.write');
   if (!adminEmail) return;
   const slug = String(req.params.slug || '').trim();
   const title = String(req.body?.title || '').trim() || slug;
   const content_md = String(req.body?.content_md || '').trim();
   if (!content_md) return res.status(400).json({ success: false, error: { code: 'INVALID_CONTENT', message: 'content_md required' } });
+  const before = await getSitePage(slug);
   await upsertSitePage(slug, title, content_md);
   const page = await getSitePage(slug);
+  await audit(req, res, adminEmail, { action: 'page.upsert', target_type: 'page', target_id: slug, before, after: page });
   res.json({ success: true, data: { page } });
 });
 
 router.delete('/pages/:slug', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.write');
   if (!adminEmail) return;
   const slug = String(req.params.slug || '').trim();
+  const before = await getSitePage(slug);
   await deleteSitePage(slug);
+  await audit(req, res, adminEmail, { action: 'page.delete', target_type: 'page', target_id: slug, before, after: null });
   res.json({ success: true, data: { ok: true } });
 });
 
 router.get('/templates', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.read');
   if (!adminEmail) return;
   const templates = await listMessageTemplates();
   res.json({ success: true, data: { templates } });
 });
 
 router.get('/templates/:key', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.read');
   if (!adminEmail) return;
   const key = String(req.params.key || '').trim();
   const t = await getMessageTemplate(key);
@@ -328,13 +439,15 @@ router.get('/templates/:key', async (req, res) => {
 });
 
 router.put('/templates/:key', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'cms.write');
   if (!adminEmail) return;
   const key = String(req.params.key || '').trim();
   const template_text = String(req.body?.template_text || '').trim();
   if (!template_text) return res.status(400).json({ success: false, error: { code: 'INVALID_TEMPLATE', message: 'template_text required' } });
+  const before = await getMessageTemplate(key);
   await upsertMessageTemplate(key, template_text);
   const t = await getMessageTemplate(key);
+  await audit(req, res, adminEmail, { action: 'template.upsert', target_type: 'template', target_id: key, before, after: t });
   res.json({ success: true, data: { template: t } });
 });
 
@@ -342,22 +455,104 @@ router.put('/templates/:key', async (req, res) => {
 // Webhook deliveries (admin)
 // =====================
 router.get('/webhooks/deliveries', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'webhooks.read');
   if (!adminEmail) return;
   const merchantId = typeof req.query.merchant_id === 'string' ? req.query.merchant_id : null;
   if (!merchantId) return res.status(400).json({ success: false, error: { code: 'MISSING_MERCHANT', message: 'merchant_id query required' } });
   const limit = Math.min(200, Math.max(1, Number(req.query.limit || 100)));
   const offset = Math.max(0, Number(req.query.offset || 0));
   const deliveries = await listWebhookDeliveries(String(merchantId), limit, offset);
-  const cfg = await getMerchantWebhookConfig(String(merchantId));
-  res.json({ success: true, data: { deliveries, webhook_config: cfg } });
+  // Secrets stay with the merchant
+  const endpoints = (await listWebhookEndpoints(String(merchantId))).map(({ secret, ...e }) => ({ ...e, has_secret: !!secret }));
+  res.json({ success: true, data: { deliveries, webhook_endpoints: endpoints } });
+});
+
+// Exceptions to the webhook SSRF guard (hostname, IP or CIDR), e.g. a merchant ERP on a private network
+router.get('/webhooks/url-allowlist', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.read');
+  if (!adminEmail) return;
+  res.json({ success: true, data: { entries: await listWebhookUrlAllowlist() } });
+});
+
+router.post('/webhooks/url-allowlist', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.manage');
+  if (!adminEmail) return;
+  const entry = parseAllowlistEntry(req.body?.entry);
+  if (!entry) return res.status(400).json({ success: false, error: { code: 'INVALID_ENTRY', message: 'entry must be a hostname, IP or CIDR' } });
+  const note = typeof req.body?.note === 'string' && req.body.note.trim() ? String(req.body.note).trim().slice(0, 200) : null;
+  await addWebhookUrlAllowlistEntry(entry, note, adminEmail);
+  await audit(req, res, adminEmail, { action: 'webhook.allowlist.add', target_type: 'webhook_url_allowlist', target_id: entry, before: null, after: { entry, note } });
+  res.json({ success: true, data: { entries: await listWebhookUrlAllowlist() } });
+});
+
+router.delete('/webhooks/url-allowlist', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.manage');
+  if (!adminEmail) return;
+  const entry = parseAllowlistEntry(req.body?.entry ?? req.query.entry);
+  if (!entry || !(await removeWebhookUrlAllowlistEntry(entry))) {
+    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Entry not found' } });
+  }
+  await audit(req, res, adminEmail, { action: 'webhook.allowlist.remove', target_type: 'webhook_url_allowlist', target_id: entry, before: { entry }, after: null });
+  res.json({ success: true, data: { entries: await listWebhookUrlAllowlist() } });
+});
+
+router.get('/webhooks/deliveries/:id', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.read');
+  if (!adminEmail) return;
+  const delivery = await getWebhookDelivery(String(req.params.id));
+  if (!delivery) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery not found' } });
+  const history = await withWebhookAttempts(await listWebhookDeliveryChain(webhookDeliveryRootId(delivery)));
+  res.json({ success: true, data: { delivery, history } });
+});
+
+router.post('/webhooks/deliveries/:id/resend', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.manage');
+  if (!adminEmail) return;
+  const delivery = await getWebhookDelivery(String(req.params.id));
+  if (!delivery) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery not found' } });
+  const endpointId = typeof req.body?.endpoint_id === 'string' ? req.body.endpoint_id : null;
+  const r = await resendWebhookDelivery(delivery, endpointId);
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  await audit(req, res, adminEmail, { action: 'webhook.resend', target_type: 'webhook_delivery', target_id: delivery.id, before: null, after: r.data });
+  res.json({ success: true, data: r.data });
+});
+
+router.post('/webhooks/replay', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.manage');
+  if (!adminEmail) return;
+  const merchantId = typeof req.body?.merchant_id === 'string' ? req.body.merchant_id : null;
+  if (!merchantId) return res.status(400).json({ success: false, error: { code: 'MISSING_MERCHANT', message: 'merchant_id required' } });
+  const input = {
+    merchant_id: merchantId,
+    env: (req.body?.env === 'sandbox' ? 'sandbox' : 'production') as 'production' | 'sandbox',
+    from: req.body?.from,
+    to: req.body?.to,
+    endpoint_id: typeof req.body?.endpoint_id === 'string' ? req.body.endpoint_id : null,
+  };
+  const r = await replayFailedWebhookDeliveries(input);
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  await audit(req, res, adminEmail, { action: 'webhook.replay', target_type: 'merchant', target_id: merchantId, before: null, after: { ...input, queued: r.data.queued, skipped: r.data.skipped } });
+  res.json({ success: true, data: r.data });
+});
+
+router.post('/webhooks/replay-invoice', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'webhooks.manage');
+  if (!adminEmail) return;
+  const invoice = await getInvoiceById(String(req.body?.invoice_id || ''));
+  if (!invoice) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  const endpoint = await getWebhookEndpoint(String(req.body?.endpoint_id || ''), invoice.merchant_id);
+  if (!endpoint) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint not found' } });
+  const r = await replayInvoiceWebhookEvents(invoice, endpoint);
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  await audit(req, res, adminEmail, { action: 'webhook.replay_invoice', target_type: 'invoice', target_id: invoice.id, before: null, after: { endpoint_id: endpoint.id, queued: r.data.queued } });
+  res.json({ success: true, data: r.data });
 });
 
 // =====================
 // Operations: stats, refunds, disputes, settlements, exports, alerts
 // =====================
 router.get('/stats', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'stats.read');
   if (!adminEmail) return;
   const days = Math.min(365, Math.max(1, Number(req.query.days || 30)));
   const stats = await getGlobalStats(days);
@@ -366,37 +561,41 @@ router.get('/stats', async (req, res) => {
 
 // Refunds
 router.get('/refunds', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'refunds.read');
   if (!adminEmail) return;
   const status = String(req.query.status || 'requested') as any;
   const items = await listRefundsByStatus(status, 200);
   res.json({ success: true, data: { items } });
 });
 
-router.post('/refunds/:id/approve', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
-  if (!adminEmail) return;
-  await approveRefund(String(req.params.id), adminEmail);
-  res.json({ success: true, data: { ok: true } });
-});
-
-router.post('/refunds/:id/reject', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+async function handleRefundTransition(req: express.Request, res: express.Response, action: RefundAction) {
+  const adminEmail = await requireAdmin(req, res, 'refunds.manage');
   if (!adminEmail) return;
-  await rejectRefund(String(req.params.id), adminEmail);
-  res.json({ success: true, data: { ok: true } });
-});
+  const before = await getRefundById(String(req.params.id));
+  const result = await transitionRefund(String(req.params.id), action, adminEmail);
+  if (!result.ok) {
+    if (result.code === 'NOT_FOUND') {
+      return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Refund not found' } });
+    }
+    return res.status(409).json({ success: false, error: { code: 'INVALID_REFUND_STATE', message: `Refund status does not allow ${action}` } });
+  }
+  await audit(req, res, adminEmail, {
+    action: `refund.${action}`,
+    target_type: 'refund',
+    target_id: String(req.params.id),
+    before,
+    after: { ...result.refund, invoice_status: result.invoice_status },
+  });
+  res.json({ success: true, data: { refund: result.refund, invoice_status: result.invoice_status } });
+}
 
-router.post('/refunds/:id/process', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
-  if (!adminEmail) return;
-  await processRefund(String(req.params.id), adminEmail);
-  res.json({ success: true, data: { ok: true } });
-});
+router.post('/refunds/:id/approve', (req, res) => handleRefundTransition(req, res, 'approve'));
+router.post('/refunds/:id/reject', (req, res) => handleRefundTransition(req, res, 'reject'));
+router.post('/refunds/:id/process', (req, res) => handleRefundTransition(req, res, 'process'));
 
 // Disputes
 router.get('/disputes', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'disputes.read');
   if (!adminEmail) return;
   const status = String(req.query.status || 'open') as any;
   const items = await listDisputesByStatus(status, 200);
@@ -404,58 +603,66 @@ router.get('/disputes', async (req, res) => {
 });
 
 router.patch('/disputes/:id', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'disputes.manage');
   if (!adminEmail) return;
   const status = String(req.body?.status || '').trim();
   if (!status) return res.status(400).json({ success: false, error: { code: 'MISSING_STATUS', message: 'status required' } });
   const admin_note = typeof req.body?.admin_note === 'string' ? String(req.body.admin_note) : null;
+  const before = await getDisputeById(String(req.params.id));
   await updateDisputeAdmin({ id: String(req.params.id), status: status as any, admin_note });
+  await audit(req, res, adminEmail, { action: 'dispute.update', target_type: 'dispute', target_id: String(req.params.id), before, after: await getDisputeById(String(req.params.id)) });
   res.json({ success: true, data: { ok: true } });
 });
 
 // Settlements
 router.post('/settlements/run', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'settlements.manage');
   if (!adminEmail) return;
   const date = String(req.body?.period_date || '').trim();
   if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return res.status(400).json({ success: false, error: { code: 'INVALID_DATE', message: 'period_date must be YYYY-MM-DD' } });
   const out = await runSettlementForDate(date);
+  await audit(req, res, adminEmail, { action: 'settlement.run', target_type: 'settlement_period', target_id: date, before: null, after: out });
   res.json({ success: true, data: out });
 });
 
 router.get('/settlements', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'settlements.read');
   if (!adminEmail) return;
   const items = await listSettlements(200);
   res.json({ success: true, data: { items } });
 });
 
 router.post('/settlements/:id/complete', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'settlements.manage');
   if (!adminEmail) return;
+  const before = await getSettlementById(String(req.params.id));
   await markSettlementCompleted(String(req.params.id));
+  await audit(req, res, adminEmail, { action: 'settlement.complete', target_type: 'settlement', target_id: String(req.params.id), before, after: await getSettlementById(String(req.params.id)) });
   res.json({ success: true, data: { ok: true } });
 });
 
 router.post('/settlements/:id/payout', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'payouts.manage');
   if (!adminEmail) return;
   const method = String(req.body?.method || 'manual').trim();
   const reference = String(req.body?.reference || '').trim() || 'manual';
   const id = await createPayout(String(req.params.id), method, reference);
+  await audit(req, res, adminEmail, { action: 'payout.create', target_type: 'payout', target_id: id, before: null, after: await getPayoutById(id) });
   res.json({ success: true, data: { payout_id: id } });
 });
 
 router.post('/payouts/:id/paid', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'payouts.manage');
   if (!adminEmail) return;
+  const before = await getPayoutById(String(req.params.id));
   await markPayoutPaid(String(req.params.id));
+  await audit(req, res, adminEmail, { action: 'payout.mark_paid', target_type: 'payout', target_id: String(req.params.id), before, after: await getPayoutById(String(req.params.id)) });
   res.json({ success: true, data: { ok: true } });
 });
 
 // Exports
 router.get('/exports/invoices.csv', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'exports.read');
   if (!adminEmail) return;
   const merchant_id = typeof req.query.merchant_id === 'string' ? String(req.query.merchant_id) : null;
   const from_ts = req.query.from_ts ? Number(req.query.from_ts) : null;
@@ -466,7 +673,7 @@ router.get('/exports/invoices.csv', async (req, res) => {
 });
 
 router.get('/exports/webhooks.csv', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'exports.read');
   if (!adminEmail) return;
   const merchant_id = typeof req.query.merchant_id === 'string' ? String(req.query.merchant_id) : null;
   if (!merchant_id) return res.status(400).json({ success: false, error: { code: 'MISSING_MERCHANT', message: 'merchant_id required' } });
@@ -479,17 +686,190 @@ router.get('/exports/webhooks.csv', async (req, res) => {
 
 // Alerts
 router.get('/alerts', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'alerts.read');
   if (!adminEmail) return;
   const items = await listOpenAlerts(100);
   res.json({ success: true, data: { items } });
 });
 
 router.post('/alerts/:id/resolve', async (req, res) => {
-  const adminEmail = requireAdmin(req, res);
+  const adminEmail = await requireAdmin(req, res, 'alerts.manage');
   if (!adminEmail) return;
+  const before = await getAlertById(String(req.params.id));
   await resolveAlert(String(req.params.id));
+  await audit(req, res, adminEmail, { action: 'alert.resolve', target_type: 'alert', target_id: String(req.params.id), before, after: await getAlertById(String(req.params.id)) });
+  res.json({ success: true, data: { ok: true } });
+});
+
+// =====================
+// Admin users & roles (superadmin)
+// =====================
+router.get('/admin-users', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'admins.manage');
+  if (!adminEmail) return;
+  const [items, roles] = await Promise.all([listAdminUsers(), listAdminRoles()]);
+  res.json({ success: true, data: { items, roles, permissions: ADMIN_PERMISSIONS } });
+});
+
+// Disabling, demoting or deleting the last active superadmin would lock everyone out
+async function isLastSuperadmin(email: string): Promise<boolean> {
+  const current = await getAdminUser(email);
+  if (!current || current.role !== SUPERADMIN_ROLE || current.status !== 'active') return false;
+  return (await countActiveSuperadmins()) <= 1;
+}
+
+router.put('/admin-users/:email', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'admins.manage');
+  if (!adminEmail) return;
+  const email = String(req.params.email || '').trim().toLowerCase();
+  const role = String(req.body?.role || '').trim();
+  const status = req.body?.status === 'disabled' ? 'disabled' : 'active';
+  if (!email.includes('@')) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_EMAIL', message: 'Email tidak valid' } });
+  }
+  if (!role || !(await getAdminRole(role))) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_ROLE', message: 'Unknown role' } });
+  }
+  if ((role !== SUPERADMIN_ROLE || status === 'disabled') && (await isLastSuperadmin(email))) {
+    return res.status(409).json({ success: false, error: { code: 'LAST_SUPERADMIN', message: 'At least one active superadmin is required' } });
+  }
+  const before = await getAdminUser(email);
+  await upsertAdminUser({ email, role, status, created_by: adminEmail });
+  const after = await getAdminUser(email);
+  await audit(req, res, adminEmail, { action: 'admin_user.upsert', target_type: 'admin_user', target_id: email, before, after });
+  res.json({ success: true, data: after });
+});
+
+router.delete('/admin-users/:email', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'admins.manage');
+  if (!adminEmail) return;
+  const email = String(req.params.email || '').trim().toLowerCase();
+  if (await isLastSuperadmin(email)) {
+    return res.status(409).json({ success: false, error: { code: 'LAST_SUPERADMIN', message: 'At least one active superadmin is required' } });
+  }
+  const before = await getAdminUser(email);
+  const ok = await deleteAdminUser(email);
+  if (!ok) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Admin user not found' } });
+  await audit(req, res, adminEmail, { action: 'admin_user.delete', target_type: 'admin_user', target_id: email, before, after: null });
   res.json({ success: true, data: { ok: true } });
 });
 
+router.get('/admin-roles', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'admins.manage');
+  if (!adminEmail) return;
+  res.json({ success: true, data: { items: await listAdminRoles(), permissions: ADMIN_PERMISSIONS } });
+});
+
+// Create or edit a custom role (the superadmin role always has every permission)
+router.put('/admin-roles/:name', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'admins.manage');
+  if (!adminEmail) return;
+  const name = String(req.params.name || '').trim().toLowerCase();
+  if (!/^[a-z][a-z0-9_-]{1,31}$/.test(name)) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_ROLE', message: 'Role name must be 2-32 chars [a-z0-9_-]' } });
+  }
+  if (name === SUPERADMIN_ROLE) {
+    return res.status(409).json({ success: false, error: { code: 'ROLE_LOCKED', message: 'superadmin role cannot be edited' } });
+  }
+  const raw = Array.isArray(req.body?.permissions) ? req.body.permissions : null;
+  const invalid = raw ? raw.filter((p: unknown) => !isAdminPermission(p)) : [];
+  if (!raw || invalid.length) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_PERMISSIONS', message: 'permissions must be a list of known permissions', details: { invalid } } });
+  }
+  const description = typeof req.body?.description === 'string' ? String(req.body.description).slice(0, 200) : null;
+  const before = await getAdminRole(name);
+  await upsertAdminRole({ name, description, permissions: raw });
+  const after = await getAdminRole(name);
+  await audit(req, res, adminEmail, { action: 'admin_role.upsert', target_type: 'admin_role', target_id: name, before, after });
+  res.json({ success: true, data: after });
+});
+
+// =====================
+// Match review queue (ambiguous mutations, see lib/matching.ts)
+// =====================
+router.get('/match-reviews', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'matching.read');
+  if (!adminEmail) return;
+  const raw = String(req.query.status || 'open');
+  const status = raw === 'all' ? null : raw === 'resolved' || raw === 'dismissed' ? raw : 'open';
+  res.json({ success: true, data: { items: await listMatchReviews(status, 200) } });
+});
+
+// Settle one of the candidate invoices with the queued mutation
+router.post('/match-reviews/:id/resolve', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'matching.manage');
+  if (!adminEmail) return;
+  const before = await getMatchReview(String(req.params.id));
+  if (!before) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Review item not found' } });
+  const invoiceId = String(req.body?.invoice_id || '').trim();
+  if (!invoiceId) return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'invoice_id required' } });
+  const note = req.body?.note ? String(req.body.note).slice(0, 500) : null;
+
+  const r = await resolveMatchReview(before, invoiceId, adminEmail, note);
+  if (!r.ok) {
+    const status = r.code === 'NOT_A_CANDIDATE' ? 400 : 409;
+    return res.status(status).json({ success: false, error: { code: r.code, message: 'Cannot resolve this review item', details: { invoice_id: invoiceId } } });
+  }
+  const after = await getMatchReview(before.id);
+  await audit(req, res, adminEmail, { action: 'match_review.resolve', target_type: 'match_review', target_id: before.id, before, after });
+  res.json({ success: true, data: { item: after, invoice_id: r.invoice.id, invoice_status: r.invoice.status } });
+});
+
+// Not a payment for any candidate (e.g. personal transfer); the mutation is never auto-matched again
+router.post('/match-reviews/:id/dismiss', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'matching.manage');
+  if (!adminEmail) return;
+  const before = await getMatchReview(String(req.params.id));
+  if (!before) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Review item not found' } });
+  const note = req.body?.note ? String(req.body.note).slice(0, 500) : null;
+  if (!(await closeMatchReview(before.id, 'dismissed', adminEmail, null, note))) {
+    return res.status(409).json({ success: false, error: { code: 'REVIEW_CLOSED', message: `Review item is ${before.status}` } });
+  }
+  const after = await getMatchReview(before.id);
+  await audit(req, res, adminEmail, { action: 'match_review.dismiss', target_type: 'match_review', target_id: before.id, before, after });
+  res.json({ success: true, data: after });
+});
+
+// =====================
+// Audit log (read-only)
+// =====================
+function auditFilterFromQuery(q: any): AuditLogFilter {
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  const num = (v: unknown) => (v != null && v !== '' && Number.isFinite(Number(v)) ? Number(v) : null);
+  return {
+    actor_email: str(q.actor),
+    action: str(q.action),
+    target_type: str(q.target_type),
+    target_id: str(q.target_id),
+    from_ts: num(q.from_ts),
+    to_ts: num(q.to_ts),
+    q: str(q.q),
+  };
+}
+
+router.get('/audit-log', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'audit.read');
+  if (!adminEmail) return;
+  const limit = Math.min(500, Math.max(1, Number(req.query.limit || 100)));
+  const beforeSeq = req.query.before_seq ? Number(req.query.before_seq) : null;
+  const items = await searchAuditLog(auditFilterFromQuery(req.query), { limit, before_seq: beforeSeq });
+  const next_before_seq = items.length === limit ? items[items.length - 1].seq : null;
+  res.json({ success: true, data: { items, next_before_seq } });
+});
+
+router.get('/audit-log/export.csv', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'audit.read');
+  if (!adminEmail) return;
+  const csv = await exportAuditLogCsv(auditFilterFromQuery(req.query));
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', 'attachment; filename="audit-log.csv"');
+  res.send(csv);
+});
+
+router.get('/audit-log/verify', async (req, res) => {
+  const adminEmail = await requireAdmin(req, res, 'audit.read');
+  if (!adminEmail) return;
+  res.json({ success: true, data: await verifyAuditChain() });
+});
+
 export default router;
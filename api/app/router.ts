@@ -14,10 +14,15 @@ import {
   getMerchantCredentials,
   createOrRotateCredentials,
   createOrRotateSandboxCredentials,
-  getMerchantWebhookConfig,
-  setMerchantWebhookConfig,
   getMerchantWebhookConfigEnv,
   setMerchantWebhookConfigEnv,
+  createWebhookEndpoint,
+  getWebhookEndpoint,
+  rotateWebhookEndpointSecret,
+  rotateMerchantWebhookSecret,
+  listWebhookEndpoints,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
   listIpWhitelist,
   addIpWhitelist,
   removeIpWhitelist,
@@ -28,12 +33,66 @@ import {
   exportWebhookDeliveriesCsv,
   listSettlementsForMerchant,
   listWebhookDeliveries,
+  getWebhookDelivery,
+  listWebhookDeliveryChain,
+  getInvoiceById,
+  listOrderkuotaAccounts,
+  createOrderkuotaAccount,
+  getOrderkuotaAccount,
+  getOrderkuotaAccountByUsername,
+  getOrderkuotaAccountCredentials,
+  updateOrderkuotaAccount,
+  deleteOrderkuotaAccount,
+  createOrderkuotaLinkSession,
+  getOrderkuotaLinkSession,
+  getOrderkuotaLinkSessionToken,
+  markOrderkuotaLinkSessionVerified,
+  markOrderkuotaLinkSessionLinked,
+  getMerchantAmountStrategy,
+  setMerchantAmountStrategy,
+  getMerchantPaymentProvider,
+  setMerchantPaymentProvider,
+  getMerchantStaticQris,
+  insertBankMutations,
+  listBankMutations,
+  listUnmatchedFunds,
+  getUnmatchedFunds,
+  setMerchantPasswordHash,
+  getAdminAccess,
+  createPaymentLink,
+  getPaymentLink,
+  getPaymentLinkUsage,
+  listPaymentLinks,
+  listPaymentLinkInvoices,
+  updatePaymentLink,
 } from "../../lib/db";
+import { AMOUNT_STRATEGIES, isAmountStrategy } from "../../lib/amount_strategy";
+import { isVaultConfigured } from "../../lib/vault";
+import { checkToken, requestOtp, getToken, parseLoginResult } from "../../lib/orderkuota";
+import { getQrisErrors } from "../../lib/qris";
+import { MERCHANT_PROVIDERS, getProvider, isProviderName } from "../../lib/providers";
+import { parseBankMutationCsv } from "../../lib/providers/static_qris_csv";
+import { acceptUnmatchedFunds, refundUnmatchedFunds } from "../../lib/unmatched_funds";
+import { checkPaymentLinkAccount, newPaymentLinkSlug, parsePaymentLinkInput, toPaymentLinkView } from "../../lib/payment_links";
+import { checkWebhookUrl } from "../../lib/url_guard";
+import { MAX_WEBHOOK_ENDPOINTS, parseSecretOverlap, parseWebhookEndpointInput, toWebhookEndpointView } from "../../lib/webhook_endpoints";
+import { replayFailedWebhookDeliveries, replayInvoiceWebhookEvents, resendWebhookDelivery, webhookDeliveryRootId, withWebhookAttempts } from "../../lib/webhook_replay";
+import { loadSession, getSessionEmail, startSession, endSession, rotateSessions, parseSessionMode } from "./session";
 
 const router = express.Router();
 
 import bcrypt from 'bcryptjs';
 
+// Ensure tables exist
+router.use(async (_req, _res, next) => {
+  try {
+    await initDb();
+    next();
+  } catch (e) {
+    next(e);
+  }
+});
+
 // === Register (email + password) ===
 router.post('/auth/register', async (req, res) => {
   const email = String(req.body?.email || '').trim().toLowerCase();
@@ -46,13 +105,12 @@ router.post('/auth/register', async (req, res) => {
     return res.status(409).json({ success: false, error: { code: 'EMAIL_EXISTS', message: 'Email sudah terdaftar' } });
   }
   const hash = await bcrypt.hash(password, 10);
-  let merchant = existing;
   if (!existing) {
-    merchant = await getOrCreateMerchantByEmail(email);
+    await getOrCreateMerchantByEmail(email);
   }
-  const db = await import('../../lib/db');
-  await db.default.getDb().then(dbInst => dbInst.run('UPDATE merchants SET password_hash = ? WHERE owner_email = ?', hash, email));
-  return res.json({ success: true, data: { email } });
+  await setMerchantPasswordHash(email, hash);
+  const session = await startSession(req, res, email, parseSessionMode(req.body?.mode));
+  return res.json({ success: true, data: { email, ...session } });
 });
 
 // === Login (email + password) ===
@@ -70,61 +128,78 @@ router.post('/auth/login', async (req, res) => {
   if (!ok) {
     return res.status(401).json({ success: false, error: { code: 'INVALID_PASSWORD', message: 'Password salah' } });
   }
-  return res.json({ success: true, data: { email } });
+  const session = await startSession(req, res, email, parseSessionMode(req.body?.mode));
+  return res.json({ success: true, data: { email, ...session } });
 });
 
-// Ensure tables exist
-router.use(async (_req, _res, next) => {
-  try {
-    await initDb();
-    next();
-  } catch (e) {
-    next(e);
-  }
-});
+router.use(loadSession());
 
 function getUserEmail(req: express.Request): string | null {
-  // Sementara (MVP): frontend simpan email dari "Login Google" mock.
-  // Nanti bisa diganti ke Google OAuth session.
-  const email = (req.headers["x-user-email"] as string | undefined)?.trim();
-  return email ? email.toLowerCase() : null;
+  return getSessionEmail(req);
 }
 
-// === Mock Google login (sementara) ===
-router.post("/auth/mock-google", async (req, res) => {
-  const email = String(req.body?.email || "").trim().toLowerCase();
-  if (!email || !email.includes("@")) {
-    return res.status(400).json({ success: false, error: { code: "INVALID_EMAIL", message: "Email tidak valid" } });
-  }
-
-  // Create merchant profile if doesn't exist
-  await getOrCreateMerchantByEmail(email);
-  // Frontend expects a simple ok flag for mock login
+// === Logout (revokes the current session) ===
+router.post('/auth/logout', async (req, res) => {
+  await endSession(req, res);
   return res.json({ success: true, data: { ok: true } });
 });
 
+// === Change password (all sessions are revoked, caller gets a new one) ===
+router.post('/auth/password', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const currentPassword = String(req.body?.current_password || '');
+  const newPassword = String(req.body?.new_password || '');
+  if (newPassword.length < 6) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_INPUT', message: 'Password baru minimal 6 karakter' } });
+  }
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant || !merchant.password_hash || !(await bcrypt.compare(currentPassword, merchant.password_hash))) {
+    return res.status(401).json({ success: false, error: { code: 'INVALID_PASSWORD', message: 'Password salah' } });
+  }
+  await setMerchantPasswordHash(email, await bcrypt.hash(newPassword, 10));
+  const session = await rotateSessions(req, res, email);
+  return res.json({ success: true, data: { email, ...session } });
+});
+
+// === Mock Google login (sementara, dev only) ===
+// Creates a merchant for any email without verification, which /auth/register could
+// then claim: never registered in production.
+if (process.env.NODE_ENV !== 'production') {
+  router.post("/auth/mock-google", async (req, res) => {
+    const email = String(req.body?.email || "").trim().toLowerCase();
+    if (!email || !email.includes("@")) {
+      return res.status(400).json({ success: false, error: { code: "INVALID_EMAIL", message: "Email tidak valid" } });
+    }
+
+    // Create merchant profile if doesn't exist
+    await getOrCreateMerchantByEmail(email);
+    // Frontend expects a simple ok flag for mock login
+    return res.json({ success: true, data: { ok: true } });
+  });
+}
+
 // === Get current merchant profile ===
 router.get("/me", async (req, res) => {
   const email = getUserEmail(req);
   if (!email) {
-    return res.status(401).json({ success: false, error: { code: "UNAUTH", message: "Missing x-user-email" } });
+    return res.status(401).json({ success: false, error: { code: "UNAUTH", message: "Login required" } });
   }
   const merchant = await getMerchantByEmail(email);
   if (!merchant) {
     return res.status(404).json({ success: false, error: { code: "NOT_FOUND", message: "Merchant not found" } });
   }
   const vr = await getVerificationRequestByMerchantId(merchant.id);
-  const rawAdmins = String(process.env.ADMIN_EMAILS || '').trim();
-  const is_admin = rawAdmins
-    ? new Set(rawAdmins.split(',').map(s => s.trim().toLowerCase()).filter(Boolean)).has(email)
-    : false;
+  const adminAccess = await getAdminAccess(email);
   const creds = merchant.status === 'active' ? await getMerchantCredentials(merchant.id) : null;
   // Keep the response shape friendly for the Bolt UI (email + merchant summary)
   return res.json({
     success: true,
     data: {
       email,
-      is_admin,
+      is_admin: !!adminAccess,
+      admin_role: adminAccess?.role ?? null,
+      admin_permissions: adminAccess?.permissions ?? [],
       merchant: { id: merchant.id, status: merchant.status },
       // extra fields used by dashboard pages
       merchant_full: merchant,
@@ -138,7 +213,7 @@ router.get("/me", async (req, res) => {
 router.get('/credentials', async (req, res) => {
   const email = getUserEmail(req);
   if (!email) {
-    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   }
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
@@ -152,7 +227,7 @@ router.get('/credentials', async (req, res) => {
 router.post('/credentials/rotate-sandbox', async (req, res) => {
   const email = getUserEmail(req);
   if (!email) {
-    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   }
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
@@ -162,11 +237,11 @@ router.post('/credentials/rotate-sandbox', async (req, res) => {
 });
 
 
-// Rotate API key (+ webhook secret) (active only)
+// Rotate API key (active only); the webhook secret has its own rotation with an overlap window
 router.post('/credentials/rotate', async (req, res) => {
   const email = getUserEmail(req);
   if (!email) {
-    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+    return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   }
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
@@ -175,6 +250,21 @@ router.post('/credentials/rotate', async (req, res) => {
   return res.json({ success: true, data: { merchant, credentials: creds } });
 });
 
+// Rotate the credentials webhook secret (signs legacy webhook endpoints) without touching the API key
+router.post('/credentials/rotate-webhook-secret', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const env = req.body?.env === 'sandbox' ? 'sandbox' : 'production';
+  const overlap = parseSecretOverlap(req.body?.overlap_seconds, await getSettingNumber('webhook_secret_overlap_seconds', 86400));
+  if (overlap.error) return res.status(400).json({ success: false, error: overlap.error });
+  const rotated = await rotateMerchantWebhookSecret(merchant.id, env, overlap.seconds);
+  if (!rotated) return res.status(404).json({ success: false, error: { code: 'NO_CREDENTIALS', message: 'Credentials belum dibuat' } });
+  return res.json({ success: true, data: { env, ...rotated } });
+});
+
 // === Verification submit (1x) ===
 const uploadDir = path.join(process.cwd(), "uploads", "verification");
 fs.mkdirSync(uploadDir, { recursive: true });
@@ -202,7 +292,7 @@ const upload = multer({
 router.post("/verification/submit", upload.single("screenshot"), async (req, res) => {
   const email = getUserEmail(req);
   if (!email) {
-    return res.status(401).json({ success: false, error: { code: "UNAUTH", message: "Missing x-user-email" } });
+    return res.status(401).json({ success: false, error: { code: "UNAUTH", message: "Login required" } });
   }
 
   const merchant = await getOrCreateMerchantByEmail(email);
@@ -250,7 +340,7 @@ router.post("/verification/submit", upload.single("screenshot"), async (req, res
 // === Webhook config (active only) ===
 router.get('/webhook/config', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -261,7 +351,7 @@ router.get('/webhook/config', async (req, res) => {
 
 router.post('/webhook/config', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -273,16 +363,345 @@ router.post('/webhook/config', async (req, res) => {
     return res.status(400).json({ success: false, error: { code: 'INVALID_URL', message: 'webhook_url harus http/https' } });
   }
 
-  await setMerchantWebhookConfig(merchant.id, { webhook_url, webhook_enabled });
   const env = (typeof req.query.env === 'string' && req.query.env === 'sandbox') ? 'sandbox' : 'production';
+  if (webhook_url) {
+    const guard = await checkWebhookUrl(webhook_url, env);
+    if (!guard.ok) return res.status(400).json({ success: false, error: { code: guard.code, message: guard.message } });
+  }
+  await setMerchantWebhookConfigEnv(merchant.id, env, { webhook_url, webhook_enabled });
   const cfg = await getMerchantWebhookConfigEnv(merchant.id, env);
   return res.json({ success: true, data: { webhook_config: cfg } });
 });
 
+// === Webhook endpoints: several receivers per env, each with own secret + event filter (active only) ===
+router.get('/webhook/endpoints', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const env = req.query.env === 'sandbox' ? 'sandbox' : 'production';
+  const items = (await listWebhookEndpoints(merchant.id, env)).map(toWebhookEndpointView);
+  return res.json({ success: true, data: { items, max_endpoints: MAX_WEBHOOK_ENDPOINTS } });
+});
+
+router.post('/webhook/endpoints', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const env = req.body?.env === 'sandbox' ? 'sandbox' : 'production';
+
+  const parsed = parseWebhookEndpointInput(req.body, null);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  const guard = await checkWebhookUrl(parsed.fields.url!, env);
+  if (!guard.ok) return res.status(400).json({ success: false, error: { code: guard.code, message: guard.message } });
+  if ((await listWebhookEndpoints(merchant.id, env)).length >= MAX_WEBHOOK_ENDPOINTS) {
+    return res.status(409).json({ success: false, error: { code: 'ENDPOINT_LIMIT', message: `Maksimal ${MAX_WEBHOOK_ENDPOINTS} webhook endpoint per env` } });
+  }
+  const f = parsed.fields;
+  const endpoint = await createWebhookEndpoint({
+    merchant_id: merchant.id,
+    env,
+    url: f.url!,
+    description: f.description ?? null,
+    event_types: f.event_types ?? ['*'],
+    enabled: f.enabled ?? true,
+  });
+  return res.json({ success: true, data: toWebhookEndpointView(endpoint) });
+});
+
+router.patch('/webhook/endpoints/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const endpoint = await getWebhookEndpoint(String(req.params.id), merchant.id);
+  if (!endpoint) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint tidak ditemukan' } });
+
+  const parsed = parseWebhookEndpointInput(req.body, endpoint);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  if (parsed.fields.url !== undefined) {
+    const guard = await checkWebhookUrl(parsed.fields.url, endpoint.env);
+    if (!guard.ok) return res.status(400).json({ success: false, error: { code: guard.code, message: guard.message } });
+  }
+  const updated = await updateWebhookEndpoint(endpoint.id, merchant.id, parsed.fields);
+  return res.json({ success: true, data: toWebhookEndpointView(updated!) });
+});
+
+// New signing secret; the old one keeps signing for overlap_seconds. Legacy endpoints rotate the credentials secret.
+router.post('/webhook/endpoints/:id/rotate-secret', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const endpoint = await getWebhookEndpoint(String(req.params.id), merchant.id);
+  if (!endpoint) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint tidak ditemukan' } });
+  const overlap = parseSecretOverlap(req.body?.overlap_seconds, await getSettingNumber('webhook_secret_overlap_seconds', 86400));
+  if (overlap.error) return res.status(400).json({ success: false, error: overlap.error });
+
+  if (!endpoint.secret) {
+    const rotated = await rotateMerchantWebhookSecret(merchant.id, endpoint.env, overlap.seconds);
+    if (!rotated) return res.status(404).json({ success: false, error: { code: 'NO_CREDENTIALS', message: 'Credentials belum dibuat' } });
+    return res.json({ success: true, data: { ...toWebhookEndpointView(endpoint), ...rotated } });
+  }
+  const updated = await rotateWebhookEndpointSecret(endpoint.id, merchant.id, overlap.seconds);
+  return res.json({ success: true, data: toWebhookEndpointView(updated!) });
+});
+
+router.delete('/webhook/endpoints/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const ok = await deleteWebhookEndpoint(String(req.params.id), merchant.id);
+  if (!ok) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint tidak ditemukan' } });
+  return res.json({ success: true, data: { deleted: true } });
+});
+
+// === Unique-amount strategy (active only) ===
+router.get('/settings/amount-strategy', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const amount_strategy = await getMerchantAmountStrategy(merchant.id);
+  return res.json({ success: true, data: { amount_strategy, available: AMOUNT_STRATEGIES } });
+});
+
+router.put('/settings/amount-strategy', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const strategy = req.body?.amount_strategy;
+  if (!isAmountStrategy(strategy)) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_STRATEGY', message: `amount_strategy harus salah satu dari: ${AMOUNT_STRATEGIES.join(', ')}` } });
+  }
+  await setMerchantAmountStrategy(merchant.id, strategy);
+  return res.json({ success: true, data: { amount_strategy: strategy, available: AMOUNT_STRATEGIES } });
+});
+
+// Payment provider (production invoices; sandbox keys always use the simulator)
+router.get('/settings/payment-provider', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const payment_provider = await getMerchantPaymentProvider(merchant.id);
+  const staticQris = await getMerchantStaticQris(merchant.id);
+  // OrderKuota health is per vault account (POST /orderkuota-accounts/:id/check)
+  const health = payment_provider === 'orderkuota' ? null : await getProvider(payment_provider).health({ merchant_id: merchant.id, username: '' });
+  return res.json({ success: true, data: { payment_provider, static_qris_configured: !!staticQris, health, available: MERCHANT_PROVIDERS } });
+});
+
+router.put('/settings/payment-provider', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const provider = req.body?.payment_provider;
+  if (!isProviderName(provider) || !MERCHANT_PROVIDERS.includes(provider)) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_PROVIDER', message: `payment_provider harus salah satu dari: ${MERCHANT_PROVIDERS.join(', ')}` } });
+  }
+
+  let staticQris: string | null | undefined = undefined;
+  if (req.body?.static_qris !== undefined) {
+    staticQris = req.body.static_qris ? String(req.body.static_qris).trim() : null;
+    const qrisErrors = staticQris ? getQrisErrors(staticQris) : [];
+    if (qrisErrors.length) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `static_qris invalid: ${qrisErrors[0].message}`, details: qrisErrors } });
+    }
+  }
+  const effectiveQris = staticQris === undefined ? await getMerchantStaticQris(merchant.id) : staticQris;
+  if (provider === 'static_qris_csv' && !effectiveQris) {
+    return res.status(400).json({ success: false, error: { code: 'MISSING_STATIC_QRIS', message: 'static_qris wajib untuk provider static_qris_csv' } });
+  }
+
+  await setMerchantPaymentProvider(merchant.id, provider, staticQris);
+  return res.json({ success: true, data: { payment_provider: provider, static_qris_configured: !!effectiveQris, available: MERCHANT_PROVIDERS } });
+});
+
+// Bank statement CSV import (static_qris_csv provider): multipart "file" or JSON { csv }
+const csvUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 * 1024 * 1024 } });
+
+router.post('/bank-mutations/import', csvUpload.single('file'), async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const text = req.file ? req.file.buffer.toString('utf8') : (typeof req.body?.csv === 'string' ? req.body.csv : '');
+  if (!text.trim()) return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'Upload file CSV (field "file") atau kirim { csv }' } });
+
+  const { rows, errors } = parseBankMutationCsv(text);
+  if (!rows.length) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_CSV', message: errors[0]?.message || 'Tidak ada baris mutasi', details: errors.slice(0, 50) } });
+  }
+  const result = await insertBankMutations(merchant.id, rows);
+  return res.json({ success: true, data: { ...result, parsed: rows.length, errors: errors.slice(0, 50) } });
+});
+
+router.get('/bank-mutations', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const limit = Math.min(500, Math.max(1, Number(req.query.limit || 100)));
+  const offset = Math.max(0, Number(req.query.offset || 0));
+  const items = await listBankMutations(merchant.id, { limit, offset, unmatched_only: req.query.unmatched === '1' });
+  return res.json({ success: true, data: { items, limit, offset } });
+});
+
+// Unmatched funds: late payments + near-miss amounts found by the reconciler (active only).
+// Production only: sandbox funds are handled with the sandbox API key.
+router.get('/unmatched-funds', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit || 100)));
+  const offset = Math.max(0, Number(req.query.offset || 0));
+  const raw = String(req.query.status || '');
+  const status = raw === 'open' || raw === 'accepted' || raw === 'refunded' ? raw : null;
+  const items = await listUnmatchedFunds(merchant.id, 'production', { status, limit, offset });
+  return res.json({ success: true, data: { items, limit, offset } });
+});
+
+router.post('/unmatched-funds/:id/accept', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const funds = await getUnmatchedFunds(String(req.params.id), merchant.id);
+  if (!funds || funds.env !== 'production') return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Dana tidak ditemukan' } });
+
+  const invoiceId = req.body?.invoice_id ? String(req.body.invoice_id).trim() : null;
+  const r = await acceptUnmatchedFunds(funds, invoiceId, req.body?.note ? String(req.body.note).slice(0, 500) : null);
+  if (!r.ok) {
+    const status = r.code === 'INVOICE_REQUIRED' ? 400 : r.code === 'INVOICE_NOT_FOUND' ? 404 : 409;
+    return res.status(status).json({ success: false, error: { code: r.code, message: 'Dana tidak bisa diterima ke invoice ini' } });
+  }
+  return res.json({ success: true, data: { funds: await getUnmatchedFunds(funds.id, merchant.id), invoice_id: r.invoice.id, invoice_status: r.invoice.status } });
+});
+
+router.post('/unmatched-funds/:id/refund', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const funds = await getUnmatchedFunds(String(req.params.id), merchant.id);
+  if (!funds || funds.env !== 'production') return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Dana tidak ditemukan' } });
+
+  const r = await refundUnmatchedFunds(
+    funds,
+    req.body?.refund_reference ? String(req.body.refund_reference).slice(0, 200) : null,
+    req.body?.note ? String(req.body.note).slice(0, 500) : null
+  );
+  if (!r.ok) return res.status(409).json({ success: false, error: { code: r.code, message: `Dana sudah ${funds.status}` } });
+  return res.json({ success: true, data: await getUnmatchedFunds(funds.id, merchant.id) });
+});
+
+// Payment links (active only); ?env=sandbox for links served with sandbox settlement
+router.get('/payment-links', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const env = req.query.env === 'sandbox' ? 'sandbox' : 'production';
+  const links = await listPaymentLinks(merchant.id, { env, include_archived: req.query.include_archived === '1', limit: 200, offset: 0 });
+  const items = await Promise.all(links.map(async (l) => toPaymentLinkView(l, await getPaymentLinkUsage(l.id))));
+  return res.json({ success: true, data: { items } });
+});
+
+router.post('/payment-links', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const env = req.body?.env === 'sandbox' ? 'sandbox' : 'production';
+  const parsed = parsePaymentLinkInput(req.body, null);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  const f = parsed.fields;
+  const accountError = await checkPaymentLinkAccount(merchant.id, env, f.account_id ?? null);
+  if (accountError) return res.status(400).json({ success: false, error: accountError });
+
+  const link = await createPaymentLink({
+    merchant_id: merchant.id,
+    env,
+    slug: newPaymentLinkSlug(),
+    title: f.title!,
+    description: f.description ?? null,
+    amount: f.amount ?? null,
+    min_amount: f.min_amount ?? null,
+    max_amount: f.max_amount ?? null,
+    max_uses: f.max_uses ?? null,
+    account_id: f.account_id ?? null,
+    success_url: f.success_url ?? null,
+    failure_url: f.failure_url ?? null,
+    active_from: f.active_from ?? null,
+    active_until: f.active_until ?? null,
+  });
+  return res.json({ success: true, data: toPaymentLinkView(link, { used: 0, pending: 0, paid_total: 0 }) });
+});
+
+router.get('/payment-links/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const link = await getPaymentLink(String(req.params.id), merchant.id);
+  if (!link) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link tidak ditemukan' } });
+  const invoices = await listPaymentLinkInvoices(link.id, merchant.id, 50);
+  return res.json({ success: true, data: { ...toPaymentLinkView(link, await getPaymentLinkUsage(link.id)), invoices } });
+});
+
+// Same fields as create plus status: active|inactive|archived
+router.patch('/payment-links/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const link = await getPaymentLink(String(req.params.id), merchant.id);
+  if (!link) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link tidak ditemukan' } });
+  if (link.status === 'archived') return res.status(409).json({ success: false, error: { code: 'LINK_ARCHIVED', message: 'Payment link sudah diarsipkan' } });
+
+  const parsed = parsePaymentLinkInput(req.body, link);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  const status = req.body?.status;
+  if (status !== undefined && status !== 'active' && status !== 'inactive' && status !== 'archived') {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_STATUS', message: 'status harus active, inactive atau archived' } });
+  }
+  if (parsed.fields.account_id !== undefined) {
+    const accountError = await checkPaymentLinkAccount(merchant.id, link.env, parsed.fields.account_id);
+    if (accountError) return res.status(400).json({ success: false, error: accountError });
+  }
+  const updated = await updatePaymentLink(link.id, merchant.id, { ...parsed.fields, status });
+  return res.json({ success: true, data: toPaymentLinkView(updated!, await getPaymentLinkUsage(link.id)) });
+});
+
 // Webhook deliveries log (active only)
 router.get('/webhook/deliveries', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -293,12 +712,338 @@ router.get('/webhook/deliveries', async (req, res) => {
   return res.json({ success: true, data: { deliveries, limit, offset } });
 });
 
+// One delivery + its resend history (original first)
+router.get('/webhook/deliveries/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const delivery = await getWebhookDelivery(String(req.params.id), merchant.id);
+  if (!delivery) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery tidak ditemukan' } });
+  const history = await withWebhookAttempts(await listWebhookDeliveryChain(webhookDeliveryRootId(delivery)));
+  return res.json({ success: true, data: { delivery, history } });
+});
+
+router.post('/webhook/deliveries/:id/resend', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const delivery = await getWebhookDelivery(String(req.params.id), merchant.id);
+  if (!delivery) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Delivery tidak ditemukan' } });
+  const endpointId = typeof req.body?.endpoint_id === 'string' ? req.body.endpoint_id : null;
+  const r = await resendWebhookDelivery(delivery, endpointId);
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  return res.json({ success: true, data: r.data });
+});
+
+// Bulk replay: failed deliveries created in [from, to] (unix seconds)
+router.post('/webhook/replay', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const r = await replayFailedWebhookDeliveries({
+    merchant_id: merchant.id,
+    env: req.body?.env === 'sandbox' ? 'sandbox' : 'production',
+    from: req.body?.from,
+    to: req.body?.to,
+    endpoint_id: typeof req.body?.endpoint_id === 'string' ? req.body.endpoint_id : null,
+  });
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  return res.json({ success: true, data: r.data });
+});
+
+// Every event of one invoice, re-sent to one endpoint
+router.post('/webhook/replay-invoice', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const invoice = await getInvoiceById(String(req.body?.invoice_id || ''), merchant.id);
+  if (!invoice) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice tidak ditemukan' } });
+  const endpoint = await getWebhookEndpoint(String(req.body?.endpoint_id || ''), merchant.id);
+  if (!endpoint) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint tidak ditemukan' } });
+  const r = await replayInvoiceWebhookEvents(invoice, endpoint);
+  if (!r.ok) return res.status(r.error.status).json({ success: false, error: { code: r.error.code, message: r.error.message } });
+  return res.json({ success: true, data: r.data });
+});
+
+
+
+// === OrderKuota accounts vault (active only) ===
+// Tokens are sealed with lib/vault and never returned by these endpoints.
+router.get('/orderkuota-accounts', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const accounts = await listOrderkuotaAccounts(merchant.id);
+  return res.json({ success: true, data: { accounts } });
+});
+
+router.post('/orderkuota-accounts', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const username = typeof req.body?.username === 'string' ? String(req.body.username).trim() : '';
+  const token = typeof req.body?.token === 'string' ? String(req.body.token).trim() : '';
+  const label = typeof req.body?.label === 'string' ? String(req.body.label).trim() || null : null;
+  const qris_static = typeof req.body?.qris_static === 'string' ? String(req.body.qris_static).trim() || null : null;
+  if (!username || !token) {
+    return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'username and token required' } });
+  }
+  const qrisErrors = qris_static ? getQrisErrors(qris_static) : [];
+  if (qrisErrors.length) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `QRIS statis tidak valid: ${qrisErrors[0].message}`, details: qrisErrors } });
+  }
+  if (!isVaultConfigured()) {
+    return res.status(503).json({ success: false, error: { code: 'VAULT_NOT_CONFIGURED', message: 'VAULT_MASTER_KEY belum diset di server' } });
+  }
+  if (await getOrderkuotaAccountByUsername(merchant.id, username)) {
+    return res.status(409).json({ success: false, error: { code: 'ACCOUNT_EXISTS', message: 'Akun OrderKuota sudah terdaftar' } });
+  }
+
+  const check = await checkToken(username, token);
+  if (!check.valid) {
+    return res.status(422).json({ success: false, error: { code: 'INVALID_TOKEN', message: check.error || 'Token OrderKuota tidak valid' } });
+  }
+
+  const account = await createOrderkuotaAccount({ merchant_id: merchant.id, username, token, label, qris_static, token_status: 'valid' });
+  return res.json({ success: true, data: { account } });
+});
+
+router.get('/orderkuota-accounts/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const account = await getOrderkuotaAccount(String(req.params.id), merchant.id);
+  if (!account) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } });
+  return res.json({ success: true, data: { account } });
+});
+
+router.patch('/orderkuota-accounts/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const existing = await getOrderkuotaAccount(String(req.params.id), merchant.id);
+  if (!existing) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } });
+
+  const patch: { label?: string | null; token?: string; qris_static?: string | null; token_status?: 'valid' } = {};
+  if (typeof req.body?.label === 'string') patch.label = String(req.body.label).trim() || null;
+  if (typeof req.body?.qris_static === 'string') {
+    const q = String(req.body.qris_static).trim();
+    const qrisErrors = q ? getQrisErrors(q) : [];
+    if (qrisErrors.length) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `QRIS statis tidak valid: ${qrisErrors[0].message}`, details: qrisErrors } });
+    }
+    patch.qris_static = q || null;
+  }
+  if (typeof req.body?.token === 'string' && String(req.body.token).trim()) {
+    const token = String(req.body.token).trim();
+    if (!isVaultConfigured()) {
+      return res.status(503).json({ success: false, error: { code: 'VAULT_NOT_CONFIGURED', message: 'VAULT_MASTER_KEY belum diset di server' } });
+    }
+    const check = await checkToken(existing.username, token);
+    if (!check.valid) {
+      return res.status(422).json({ success: false, error: { code: 'INVALID_TOKEN', message: check.error || 'Token OrderKuota tidak valid' } });
+    }
+    patch.token = token;
+    patch.token_status = 'valid';
+  }
+
+  const account = await updateOrderkuotaAccount(existing.id, merchant.id, patch);
+  return res.json({ success: true, data: { account } });
+});
+
+router.delete('/orderkuota-accounts/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const ok = await deleteOrderkuotaAccount(String(req.params.id), merchant.id);
+  if (!ok) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } });
+  return res.json({ success: true, data: { ok: true } });
+});
+
+// Re-check token validity against OrderKuota (getBalance)
+router.post('/orderkuota-accounts/:id/check', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const existing = await getOrderkuotaAccount(String(req.params.id), merchant.id);
+  if (!existing) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } });
+
+  const creds = await getOrderkuotaAccountCredentials(existing.id);
+  if (!creds) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Account not found' } });
+  const check = await checkToken(creds.username, creds.token);
+  const account = await updateOrderkuotaAccount(existing.id, merchant.id, { token_status: check.valid ? 'valid' : 'invalid' });
+  return res.json({ success: true, data: { account, valid: check.valid, balance: check.balance ?? null, qris_balance: check.qris_balance ?? null, error: check.error ?? null } });
+});
+
+// === OrderKuota linking wizard: start (password) -> otp -> confirm ===
+// The password is only forwarded to OrderKuota, never stored. The token obtained
+// from the OTP step is sealed on the session row until the merchant confirms.
+const LINK_SESSION_TTL_SECONDS = 10 * 60;
+
+router.post('/orderkuota-accounts/link/start', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const username = typeof req.body?.username === 'string' ? String(req.body.username).trim() : '';
+  const password = typeof req.body?.password === 'string' ? String(req.body.password) : '';
+  if (!username || !password) {
+    return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'username and password required' } });
+  }
+  if (!isVaultConfigured()) {
+    return res.status(503).json({ success: false, error: { code: 'VAULT_NOT_CONFIGURED', message: 'VAULT_MASTER_KEY belum diset di server' } });
+  }
+
+  let login;
+  try {
+    login = parseLoginResult(await requestOtp(username, password));
+  } catch (e: any) {
+    return res.status(502).json({ success: false, error: { code: 'ORDERKUOTA_ERROR', message: e?.message || 'OrderKuota tidak merespon' } });
+  }
+  if (!login.ok && !login.token) {
+    return res.status(422).json({ success: false, error: { code: 'OTP_REQUEST_FAILED', message: login.message || 'Gagal meminta OTP' } });
+  }
+
+  let session = await createOrderkuotaLinkSession(merchant.id, username, LINK_SESSION_TTL_SECONDS);
+
+  // Some accounts get a token straight from the password login (no OTP step)
+  if (login.token) {
+    const check = await checkToken(username, login.token);
+    session = (await markOrderkuotaLinkSessionVerified(session.id, merchant.id, {
+      token: login.token,
+      qris_static: check.qris_static ?? null,
+      balance: check.balance ?? null,
+      qris_balance: check.qris_balance ?? null,
+    }))!;
+  }
 
+  return res.json({ success: true, data: { session, otp_hint: login.otp_hint } });
+});
+
+router.get('/orderkuota-accounts/link/:id', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+  const session = await getOrderkuotaLinkSession(String(req.params.id), merchant.id);
+  if (!session) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Link session not found' } });
+  return res.json({ success: true, data: { session } });
+});
+
+router.post('/orderkuota-accounts/link/:id/otp', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const session = await getOrderkuotaLinkSession(String(req.params.id), merchant.id);
+  if (!session) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Link session not found' } });
+  if (session.expires_at <= Math.floor(Date.now() / 1000)) {
+    return res.status(410).json({ success: false, error: { code: 'LINK_EXPIRED', message: 'Sesi kadaluarsa, ulangi dari awal' } });
+  }
+  if (session.status !== 'otp_sent') {
+    return res.status(409).json({ success: false, error: { code: 'INVALID_STATE', message: `Session is ${session.status}` } });
+  }
+
+  const otp = typeof req.body?.otp === 'string' || typeof req.body?.otp === 'number' ? String(req.body.otp).trim() : '';
+  if (!otp) return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'otp required' } });
+
+  let login;
+  try {
+    login = parseLoginResult(await getToken(session.username, otp));
+  } catch (e: any) {
+    return res.status(502).json({ success: false, error: { code: 'ORDERKUOTA_ERROR', message: e?.message || 'OrderKuota tidak merespon' } });
+  }
+  if (!login.token) {
+    return res.status(422).json({ success: false, error: { code: 'INVALID_OTP', message: login.message || 'OTP salah atau kadaluarsa' } });
+  }
+
+  const check = await checkToken(session.username, login.token);
+  if (!check.valid) {
+    return res.status(422).json({ success: false, error: { code: 'INVALID_TOKEN', message: check.error || 'Token OrderKuota tidak valid' } });
+  }
+
+  const updated = await markOrderkuotaLinkSessionVerified(session.id, merchant.id, {
+    token: login.token,
+    qris_static: check.qris_static ?? null,
+    balance: check.balance ?? null,
+    qris_balance: check.qris_balance ?? null,
+  });
+  const existing = await getOrderkuotaAccountByUsername(merchant.id, session.username);
+  return res.json({ success: true, data: { session: updated, existing_account_id: existing?.id ?? null } });
+});
+
+// Creates the account, or re-links (new token) if the username is already registered
+router.post('/orderkuota-accounts/link/:id/confirm', async (req, res) => {
+  const email = getUserEmail(req);
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
+  const merchant = await getMerchantByEmail(email);
+  if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
+  if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
+
+  const session = await getOrderkuotaLinkSession(String(req.params.id), merchant.id);
+  if (!session) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Link session not found' } });
+  if (session.expires_at <= Math.floor(Date.now() / 1000)) {
+    return res.status(410).json({ success: false, error: { code: 'LINK_EXPIRED', message: 'Sesi kadaluarsa, ulangi dari awal' } });
+  }
+  if (session.status !== 'verified') {
+    return res.status(409).json({ success: false, error: { code: 'INVALID_STATE', message: `Session is ${session.status}` } });
+  }
+
+  const label = typeof req.body?.label === 'string' ? String(req.body.label).trim() || null : null;
+  const qrisOverride = typeof req.body?.qris_static === 'string' ? String(req.body.qris_static).trim() : '';
+  const qrisErrors = qrisOverride ? getQrisErrors(qrisOverride) : [];
+  if (qrisErrors.length) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_QRIS', message: `QRIS statis tidak valid: ${qrisErrors[0].message}`, details: qrisErrors } });
+  }
+  const qris_static = qrisOverride || session.qris_static;
+
+  const token = await getOrderkuotaLinkSessionToken(session.id, merchant.id);
+  if (!token) return res.status(409).json({ success: false, error: { code: 'INVALID_STATE', message: 'Session has no token' } });
+
+  const existing = await getOrderkuotaAccountByUsername(merchant.id, session.username);
+  const account = existing
+    ? await updateOrderkuotaAccount(existing.id, merchant.id, {
+        token,
+        token_status: 'valid',
+        ...(qris_static ? { qris_static } : {}),
+        ...(label ? { label } : {}),
+      })
+    : await createOrderkuotaAccount({ merchant_id: merchant.id, username: session.username, token, label, qris_static, token_status: 'valid' });
+
+  await markOrderkuotaLinkSessionLinked(session.id, merchant.id, account!.id);
+  return res.json({ success: true, data: { account, relinked: !!existing } });
+});
 
 // === Security: IP whitelist (active only) ===
 router.get('/security/ip-whitelist', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -309,7 +1054,7 @@ router.get('/security/ip-whitelist', async (req, res) => {
 
 router.post('/security/ip-whitelist', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -327,7 +1072,7 @@ router.post('/security/ip-whitelist', async (req, res) => {
 
 router.delete('/security/ip-whitelist', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -344,7 +1089,7 @@ router.delete('/security/ip-whitelist', async (req, res) => {
 // === Stats, settlements, exports (active only) ===
 router.get('/stats', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   const days = Math.min(365, Math.max(1, Number(req.query.days || 30)));
@@ -354,7 +1099,7 @@ router.get('/stats', async (req, res) => {
 
 router.get('/settlements', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -364,7 +1109,7 @@ router.get('/settlements', async (req, res) => {
 
 router.get('/exports/invoices.csv', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
@@ -377,7 +1122,7 @@ router.get('/exports/invoices.csv', async (req, res) => {
 
 router.get('/exports/webhooks.csv', async (req, res) => {
   const email = getUserEmail(req);
-  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Missing x-user-email' } });
+  if (!email) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Login required' } });
   const merchant = await getMerchantByEmail(email);
   if (!merchant) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Merchant not found' } });
   if (merchant.status !== 'active') return res.status(403).json({ success: false, error: { code: 'NOT_APPROVED', message: 'Merchant belum aktif' } });
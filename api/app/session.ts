@@ -0,0 +1,168 @@
+import type express from 'express';
+import crypto from 'crypto';
+import {
+  createSession,
+  getActiveSessionByTokenHash,
+  touchSession,
+  revokeSession,
+  revokeSessionsForEmail,
+  type DashboardSession,
+  type SessionMode,
+} from '../../lib/db';
+
+/**
+ * Dashboard sessions for /api/app and /api/admin.
+ *
+ * The SPA uses an httpOnly cookie; scripts/CLI can ask for a bearer token
+ * instead (`mode: 'bearer'` on login). Cookie sessions must echo the CSRF token
+ * (readable `pg_csrf` cookie) in `x-csrf-token` on every non-GET request.
+ */
+
+export const SESSION_COOKIE = 'pg_session';
+export const CSRF_COOKIE = 'pg_csrf';
+
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS || 7 * 86400);
+// last_seen_at is only written once per minute per session
+const TOUCH_INTERVAL_SECONDS = 60;
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export type SessionRequest = express.Request & {
+  authSession?: DashboardSession;
+};
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex');
+}
+
+function timingSafeEqualStr(a: string, b: string): boolean {
+  const ab = Buffer.from(a, 'utf8');
+  const bb = Buffer.from(b, 'utf8');
+  if (ab.length !== bb.length) return false;
+  return crypto.timingSafeEqual(ab, bb);
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const part of String(header || '').split(';')) {
+    const i = part.indexOf('=');
+    if (i <= 0) continue;
+    const k = part.slice(0, i).trim();
+    try {
+      out[k] = decodeURIComponent(part.slice(i + 1).trim());
+    } catch {
+      // ignore malformed cookie values
+    }
+  }
+  return out;
+}
+
+function cookieSecure(): boolean {
+  const v = String(process.env.SESSION_COOKIE_SECURE || '').trim().toLowerCase();
+  if (v) return v === '1' || v === 'true';
+  return process.env.NODE_ENV === 'production';
+}
+
+function setSessionCookies(res: express.Response, token: string, csrfToken: string) {
+  const base = { path: '/', sameSite: 'lax' as const, secure: cookieSecure(), maxAge: SESSION_TTL_SECONDS * 1000 };
+  res.cookie(SESSION_COOKIE, token, { ...base, httpOnly: true });
+  res.cookie(CSRF_COOKIE, csrfToken, { ...base, httpOnly: false });
+}
+
+function clearSessionCookies(res: express.Response) {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+  res.clearCookie(CSRF_COOKIE, { path: '/' });
+}
+
+function readToken(req: express.Request): { token: string; mode: SessionMode } | null {
+  const auth = String(req.header('authorization') || '').trim();
+  const m = /^Bearer\s+(.+)$/i.exec(auth);
+  if (m) return { token: m[1].trim(), mode: 'bearer' };
+  const cookie = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  if (cookie) return { token: cookie, mode: 'cookie' };
+  return null;
+}
+
+/**
+ * Resolve the session (if any) onto req.authSession.
+ * Unauthenticated requests pass through; routes decide whether to 401.
+ */
+export function loadSession() {
+  return async (req: SessionRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const presented = readToken(req);
+      if (!presented) return next();
+
+      const session = await getActiveSessionByTokenHash(hashToken(presented.token));
+      // A token must be used the way it was issued (bearer tokens never ride in cookies and vice versa)
+      if (!session || session.mode !== presented.mode) {
+        if (presented.mode === 'cookie') clearSessionCookies(res);
+        return next();
+      }
+
+      if (session.mode === 'cookie' && !SAFE_METHODS.has(req.method.toUpperCase())) {
+        const csrf = String(req.header('x-csrf-token') || '').trim();
+        if (!csrf || !timingSafeEqualStr(csrf, session.csrf_token)) {
+          return res.status(403).json({ success: false, error: { code: 'CSRF_FAILED', message: 'Missing or invalid x-csrf-token' } });
+        }
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (now - session.last_seen_at >= TOUCH_INTERVAL_SECONDS) await touchSession(session.id, now);
+
+      req.authSession = session;
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
+
+export function getSessionEmail(req: express.Request): string | null {
+  return (req as SessionRequest).authSession?.email ?? null;
+}
+
+/**
+ * Issue a new session. Cookie mode sets the cookies; bearer mode returns the token
+ * (it is never readable by page scripts in cookie mode).
+ */
+export async function startSession(
+  req: express.Request,
+  res: express.Response,
+  email: string,
+  mode: SessionMode
+): Promise<{ token?: string; csrf_token?: string; expires_at: number }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const csrfToken = crypto.randomBytes(24).toString('base64url');
+  const session = await createSession({
+    token_hash: hashToken(token),
+    email,
+    mode,
+    csrf_token: csrfToken,
+    ttl_seconds: SESSION_TTL_SECONDS,
+    user_agent: String(req.header('user-agent') || '').slice(0, 255) || null,
+    ip: req.ip || null,
+  });
+  if (mode === 'bearer') return { token, expires_at: session.expires_at };
+  setSessionCookies(res, token, csrfToken);
+  return { csrf_token: csrfToken, expires_at: session.expires_at };
+}
+
+export async function endSession(req: express.Request, res: express.Response): Promise<void> {
+  const session = (req as SessionRequest).authSession;
+  if (session) await revokeSession(session.id);
+  clearSessionCookies(res);
+}
+
+/**
+ * Password change: revoke every session of the account, then hand the caller a
+ * fresh one in the same mode.
+ */
+export async function rotateSessions(req: express.Request, res: express.Response, email: string) {
+  const mode = (req as SessionRequest).authSession?.mode ?? 'cookie';
+  await revokeSessionsForEmail(email);
+  return startSession(req, res, email, mode);
+}
+
+export function parseSessionMode(v: unknown): SessionMode {
+  return v === 'bearer' ? 'bearer' : 'cookie';
+}
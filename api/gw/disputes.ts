@@ -1,25 +1,47 @@
 import type express from 'express';
-import { createDispute, listDisputesForMerchant, getInvoiceById } from '../../lib/db';
+import { createDispute, listDisputesForMerchant, getDisputeById, getInvoiceById } from '../../lib/db';
+import { emitInvoiceEvent } from '../../lib/invoice_lifecycle';
 
-type AuthedRequest = express.Request & { merchantId?: string };
+type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
 
 export async function openDispute(req: AuthedRequest, res: express.Response) {
   const merchantId = req.merchantId;
+  const env = (req as any).gwEnv || 'production';
   if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
   const invoiceId = String(req.params.id || '').trim();
   const inv = await getInvoiceById(invoiceId, merchantId);
-  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  if (!inv || inv.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
 
   const { message, evidence_url } = req.body || {};
   if (!message) return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'message required' } });
 
   const id = await createDispute({ invoice_id: invoiceId, merchant_id: merchantId, message: String(message), evidence_url: evidence_url ? String(evidence_url) : null });
+
+  await emitInvoiceEvent({
+    invoice_id: invoiceId,
+    merchant_id: merchantId,
+    env: inv.env,
+    event_type: 'dispute.opened',
+    payload: { dispute_id: id, invoice_id: invoiceId, status: 'open' },
+  });
+
   return res.json({ success: true, data: { dispute_id: id, status: 'open' } });
 }
 
 export async function listMyDisputes(req: AuthedRequest, res: express.Response) {
   const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
   if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
-  const items = await listDisputesForMerchant(merchantId, 200);
+  const items = await listDisputesForMerchant(merchantId, env, 200);
   return res.json({ success: true, data: { items } });
 }
+
+export async function getMyDispute(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const dispute = await getDisputeById(String(req.params.id || '').trim(), merchantId);
+  const inv = dispute ? await getInvoiceById(String(dispute.invoice_id), merchantId) : null;
+  if (!dispute || inv?.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Dispute not found' } });
+  return res.json({ success: true, data: dispute });
+}
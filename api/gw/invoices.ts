@@ -1,29 +1,34 @@
 import type express from 'express';
-import { randomUUID } from 'crypto';
 import {
-  createInvoiceEvent,
-  createInvoiceRecord,
   getInvoiceById,
   listInvoiceEvents,
   listInvoices,
-  updateInvoiceStatus,
-  getAvailableSuffix,
-  createPendingTransaction,
   getPendingTransaction,
-  deletePendingTransaction,
-  createPaidTransaction,
   getPaidTransaction,
-  enqueueWebhookDelivery,
-  getMerchantWebhookConfigEnv,
+  getOrderkuotaAccount,
+  getOrderkuotaAccountCredentials,
+  listPendingInvoicesForMerchant,
+  listPendingInvoicesForUsername,
+  listRecentlyExpiredInvoicesForMerchant,
+  listRecentlyExpiredInvoicesForUsername,
 } from '../../lib/db';
-import { generateDynamicQris } from '../../lib/qris';
-import { getQrisHistory } from '../../lib/orderkuota';
+import { getProvider, type ProviderAccount } from '../../lib/providers';
+import { LATE_PAYMENT_WINDOW_SECONDS, MATCH_GRACE_SECONDS, reconcileInvoices } from '../../lib/matching';
+import { checkoutUrl } from '../../lib/checkout';
+import { streamInvoiceEvents } from '../../lib/invoice_stream';
+import { createMerchantInvoice } from '../../lib/invoice_service';
+import { applyDueSandboxPlan } from '../../lib/sandbox';
+import {
+  cancelInvoice as cancelPendingInvoice,
+  extendInvoice as extendPendingInvoice,
+  markInvoiceExpired,
+  markInvoicePaid,
+  parseRequestedExpiry,
+} from '../../lib/invoice_lifecycle';
+import { checkSandboxInvoice } from './sandbox';
 
 type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
 
-const EXPIRY_SECONDS = Number(process.env.INVOICE_EXPIRY_SECONDS || 600); // default 10m
-const PAID_EXPIRY_SECONDS = Number(process.env.PAID_EXPIRY_SECONDS || 3600); // default 1h
-
 export async function createInvoice(req: AuthedRequest, res: express.Response) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: { code: 'METHOD_NOT_ALLOWED', message: 'Only POST allowed' } });
@@ -35,88 +40,30 @@ export async function createInvoice(req: AuthedRequest, res: express.Response) {
     return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
   }
 
-  const { username, token, amount, qris_static, reference_id, metadata } = req.body || {};
-  if (!username || !token || !amount || !qris_static) {
-    return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'username, token, amount, qris_static required' } });
-  }
-
-  const baseAmount = parseInt(String(amount), 10);
-  if (!Number.isFinite(baseAmount) || baseAmount <= 0) {
-    return res.status(400).json({ success: false, error: { code: 'INVALID_AMOUNT', message: 'amount must be positive number' } });
-  }
-
-  // NOTE: token is not stored. We only use it to allow the merchant to check status later.
-  const now = Math.floor(Date.now() / 1000);
-  const invoiceId = randomUUID();
-
-  // Reuse the same suffix logic used by legacy QRIS generator
-  const suffix = await getAvailableSuffix(String(username));
-  const finalAmount = baseAmount + suffix;
-  const qrisString = generateDynamicQris(String(qris_static), finalAmount);
-
-  await createPendingTransaction({
-    id: invoiceId,
-    username: String(username),
-    base_amount: baseAmount,
-    unique_suffix: suffix,
-    final_amount: finalAmount,
-    qris_string: qrisString,
-    created_at: now,
-    expires_at: now + EXPIRY_SECONDS,
-  });
-
-  await createInvoiceRecord({
-    id: invoiceId,
+  const body = req.body || {};
+  const r = await createMerchantInvoice({
     merchant_id: merchantId,
     env,
-    username: String(username),
-    reference_id: reference_id ? String(reference_id) : null,
-    base_amount: baseAmount,
-    unique_suffix: suffix,
-    final_amount: finalAmount,
-    status: 'pending',
-    qris_string: qrisString,
-    created_at: now,
-    expires_at: now + EXPIRY_SECONDS,
-    metadata: metadata ?? null,
+    account_id: body.account_id,
+    username: body.username,
+    token: body.token,
+    amount: body.amount,
+    qris_static: body.qris_static,
+    reference_id: body.reference_id,
+    metadata: body.metadata,
+    tip: body.tip,
+    qris_references: body.qris_references,
+    sandbox_delay_seconds: body.sandbox_delay_seconds,
+    success_url: body.success_url,
+    failure_url: body.failure_url,
+    expires_in: body.expires_in,
+    expires_at: body.expires_at,
   });
-
-  await createInvoiceEvent({
-    id: randomUUID(),
-    invoice_id: invoiceId,
-    merchant_id: merchantId,
-    event_type: 'payment.created',
-    payload: { invoice_id: invoiceId, reference_id: reference_id ?? null, amount: baseAmount, final_amount: finalAmount },
-    created_at: now,
-  });
-
-
-  // Enqueue webhook (if enabled)
-  const whCfg = await getMerchantWebhookConfigEnv(merchantId, env);
-  if (whCfg.webhook_enabled && whCfg.webhook_url) {
-    await enqueueWebhookDelivery({
-      merchant_id: merchantId,
-      env,
-      invoice_id: invoiceId,
-      event_type: 'payment.created',
-      payload: { event_type: 'payment.created', invoice_id: invoiceId, reference_id: reference_id ?? null, base_amount: baseAmount, final_amount: finalAmount, created_at: now },
-      run_at: now,
-    });
+  if (!r.ok) {
+    const { status, ...error } = r.error;
+    return res.status(status).json({ success: false, error });
   }
-
-  return res.status(200).json({
-    success: true,
-    data: {
-      invoice_id: invoiceId,
-      reference_id: reference_id ?? null,
-      base_amount: baseAmount,
-      unique_suffix: suffix,
-      final_amount: finalAmount,
-      qris_string: qrisString,
-      status: 'pending',
-      expires_at: now + EXPIRY_SECONDS,
-    },
-  });
+  return res.status(200).json({ success: true, data: r.data });
 }
 
 export async function getInvoice(req: AuthedRequest, res: express.Response) {
@@ -126,7 +73,7 @@ export async function getInvoice(req: AuthedRequest, res: express.Response) {
   const invoiceId = String(req.params.id || '').trim();
   const inv = await getInvoiceById(invoiceId, merchantId);
   if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
-  return res.json({ success: true, data: inv });
+  return res.json({ success: true, data: { ...inv, checkout_url: checkoutUrl(inv) } });
 }
 
 export async function listMyInvoices(req: AuthedRequest, res: express.Response) {
@@ -146,142 +93,150 @@ export async function listEvents(req: AuthedRequest, res: express.Response) {
   return res.json({ success: true, data: { items } });
 }
 
+// GET /invoices/:id/stream — Server-Sent Events of invoice_events (Last-Event-ID resumes)
+export async function streamInvoice(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const invoiceId = String(req.params.id || '').trim();
+  const inv = await getInvoiceById(invoiceId, merchantId);
+  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+
+  streamInvoiceEvents(req, res, inv.id, {
+    serialize: (e) => ({ id: e.id, invoice_id: inv.id, event_type: e.event_type, payload: e.payload, created_at: e.created_at }),
+    onTick: inv.env === 'sandbox' ? () => applyDueSandboxPlan(inv.id) : undefined,
+  });
+}
+
+// POST /invoices/:id/cancel { reason? } — pending only; frees the unique amount right away
+export async function cancelInvoice(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const inv = await getInvoiceById(String(req.params.id || '').trim(), merchantId);
+  // A sandbox key must not cancel/extend live invoices (and the other way around)
+  if (!inv || inv.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+
+  const rawReason = req.body?.reason;
+  const reason = rawReason == null || rawReason === '' ? null : String(rawReason).slice(0, 500);
+  const r = await cancelPendingInvoice(inv, reason);
+  if (!r.ok) {
+    return res.status(409).json({ success: false, error: { code: r.code, message: `Invoice is ${inv.status}, only pending invoices can be cancelled` } });
+  }
+  return res.json({ success: true, data: { invoice_id: inv.id, status: 'cancelled', reason, cancelled_at: r.cancelled_at } });
+}
+
+// POST /invoices/:id/extend { expires_in | expires_at } — pending and not yet expired only
+export async function extendInvoice(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const inv = await getInvoiceById(String(req.params.id || '').trim(), merchantId);
+  if (!inv || inv.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+
+  // expires_in counts from now; the total lifetime (from created_at) stays within the admin maximum
+  const now = Math.floor(Date.now() / 1000);
+  const body = req.body || {};
+  const expiry = await parseRequestedExpiry({ expires_in: body.expires_in, expires_at: body.expires_at }, now, inv.created_at);
+  if (expiry.error || expiry.expires_at == null) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_EXPIRY', message: expiry.error || 'expires_in or expires_at required' } });
+  }
+
+  const r = await extendPendingInvoice(inv, expiry.expires_at);
+  if (!r.ok) {
+    if (r.code === 'EXPIRY_NOT_LATER') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_EXPIRY', message: 'new expiry must be later than the current expires_at', details: { expires_at: inv.expires_at } } });
+    }
+    const message = r.code === 'INVOICE_EXPIRED' ? 'Invoice has already expired' : `Invoice is ${inv.status}, only pending invoices can be extended`;
+    return res.status(409).json({ success: false, error: { code: r.code, message } });
+  }
+  return res.json({ success: true, data: { invoice_id: inv.id, status: 'pending', previous_expires_at: inv.expires_at, expires_at: expiry.expires_at } });
+}
+
 // Check payment status and update invoice lifecycle
 export async function checkInvoice(req: AuthedRequest, res: express.Response) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: { code: 'METHOD_NOT_ALLOWED', message: 'Only POST allowed' } });
   }
   const merchantId = req.merchantId;
-  const env = (req as any).gwEnv || 'production';
   if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
 
   const invoiceId = String(req.params.id || '').trim();
-  const { username, token } = req.body || {};
-  if (!username || !token) {
-    return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'username and token required' } });
-  }
-
   const inv = await getInvoiceById(invoiceId, merchantId);
   if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  if (inv.env === 'sandbox') return checkSandboxInvoice(inv, res);
+
+  const provider = getProvider(inv.provider);
+  const providerAccount: ProviderAccount = { merchant_id: merchantId, username: inv.username };
+  if (provider.name === 'orderkuota') {
+    // Credentials: vault account linked to the invoice, else legacy username + token in body
+    let username: string | null = null;
+    let token: string | null = null;
+    const accountId = inv.account_id || (req.body?.account_id ? String(req.body.account_id) : null);
+    if (accountId) {
+      const account = await getOrderkuotaAccount(accountId, merchantId);
+      const creds = account ? await getOrderkuotaAccountCredentials(account.id) : null;
+      if (creds) { username = creds.username; token = creds.token; }
+    }
+    if (!token && req.body?.username && req.body?.token) {
+      username = String(req.body.username);
+      token = String(req.body.token);
+    }
+    if (!username || !token) {
+      return res.status(400).json({ success: false, error: { code: 'MISSING_PARAMS', message: 'account_id or username and token required' } });
+    }
+    providerAccount.username = username;
+    providerAccount.token = token;
+  }
 
   const now = Math.floor(Date.now() / 1000);
 
-  // already paid cached
+  // already paid cached (e.g. by the legacy /api/qris/check); a no-op unless still pending
   const paidTx = await getPaidTransaction(invoiceId);
   if (paidTx) {
-    if (inv.status !== 'paid') {
-      await updateInvoiceStatus(invoiceId, merchantId, 'paid', paidTx.paid_at);
-      await createInvoiceEvent({
-        id: randomUUID(),
-        invoice_id: invoiceId,
-        merchant_id: merchantId,
-        event_type: 'payment.paid',
-        payload: { invoice_id: invoiceId, final_amount: paidTx.final_amount, paid_at: paidTx.paid_at },
-        created_at: now,
-      });
-
-      // Enqueue webhook (if enabled)
-      const whCfg = await getMerchantWebhookConfigEnv(merchantId, env);
-      if (whCfg.webhook_enabled && whCfg.webhook_url) {
-        await enqueueWebhookDelivery({
-          merchant_id: merchantId,
-          env,
-          invoice_id: invoiceId,
-          event_type: 'payment.paid',
-          payload: { event_type: 'payment.paid', invoice_id: invoiceId, final_amount: paidTx.final_amount, paid_at: paidTx.paid_at, created_at: now },
-          run_at: now,
-        });
-      }
-
-    }
-    return res.json({ success: true, data: { status: 'paid', final_amount: paidTx.final_amount, paid_at: paidTx.paid_at } });
+    if (inv.status === 'pending') await markInvoicePaid(inv, paidTx.paid_at);
+    const cur = (await getInvoiceById(invoiceId, merchantId)) ?? inv;
+    return res.json({ success: true, data: { status: cur.status, final_amount: paidTx.final_amount, paid_at: cur.paid_at ?? paidTx.paid_at } });
   }
 
   const pending = await getPendingTransaction(invoiceId);
-  if (!pending) {
+  if (!pending && inv.status !== 'pending') {
     // If invoice exists but tx missing, treat as not_found/expired
-    return res.json({ success: true, data: { status: inv.status === 'expired' ? 'expired' : 'not_found' } });
+    return res.json({ success: true, data: { status: inv.status === 'expired' || inv.status === 'cancelled' ? inv.status : 'not_found' } });
   }
 
-  if (now > pending.expires_at) {
-    await deletePendingTransaction(invoiceId);
-    if (inv.status !== 'expired') {
-      await updateInvoiceStatus(invoiceId, merchantId, 'expired', null);
-      await createInvoiceEvent({
-        id: randomUUID(),
-        invoice_id: invoiceId,
-        merchant_id: merchantId,
-        event_type: 'payment.expired',
-        payload: { invoice_id: invoiceId },
-        created_at: now,
-      });
-
-      // Enqueue webhook (if enabled)
-      const whCfg = await getMerchantWebhookConfigEnv(merchantId, env);
-      if (whCfg.webhook_enabled && whCfg.webhook_url) {
-        await enqueueWebhookDelivery({
-          merchant_id: merchantId,
-          env,
-          invoice_id: invoiceId,
-          event_type: 'payment.expired',
-          payload: { event_type: 'payment.expired', invoice_id: invoiceId, created_at: now },
-          run_at: now,
-        });
-      }
+  // Past expiry the invoice stays payable for MATCH_GRACE_SECONDS (late-visible mutations)
+  if (now > inv.expires_at + MATCH_GRACE_SECONDS) {
+    if (await markInvoiceExpired(inv, now, { due_by: now - MATCH_GRACE_SECONDS })) {
+      return res.json({ success: true, data: { status: 'expired' } });
     }
-    return res.json({ success: true, data: { status: 'expired' } });
+    // Lost a race (paid, cancelled or extended meanwhile): report what the invoice is now
+    const cur = (await getInvoiceById(invoiceId, merchantId)) ?? inv;
+    if (cur.status !== 'pending') return res.json({ success: true, data: { status: cur.status, final_amount: cur.final_amount, paid_at: cur.paid_at } });
+    return res.json({ success: true, data: { status: 'pending', final_amount: cur.final_amount, expires_in: Math.max(0, cur.expires_at - now) } });
   }
 
-  // Pull OrderKuota history and match amount as in legacy check
-  const historyResult = (await getQrisHistory(String(username), String(token))) as Record<string, unknown>;
-  const historyData = (historyResult?.qris_ajaib_history as Record<string, unknown>)?.results
-    || (historyResult?.qris_history as Record<string, unknown>)?.results
-    || [];
-
-  const history = Array.isArray(historyData) ? historyData : [];
-  const found = history.find((h: any) => {
-    const kreditStr = String(h.kredit || '').replace(/\./g, '');
-    const amt = parseInt(kreditStr, 10) || 0;
-    return amt === pending.final_amount && h.status === 'IN';
-  });
-
-  if (found) {
-    await deletePendingTransaction(invoiceId);
-    await createPaidTransaction({
-      id: invoiceId,
-      username: String(username),
-      final_amount: pending.final_amount,
-      paid_at: now,
-      expires_at: now + PAID_EXPIRY_SECONDS,
-    });
-    await updateInvoiceStatus(invoiceId, merchantId, 'paid', now);
-    await createInvoiceEvent({
-      id: randomUUID(),
-      invoice_id: invoiceId,
-      merchant_id: merchantId,
-      event_type: 'payment.paid',
-      payload: { invoice_id: invoiceId, final_amount: pending.final_amount, paid_at: now },
-      created_at: now,
-    });
-
-    // Enqueue webhook (if enabled)
-    const whCfg = await getMerchantWebhookConfigEnv(merchantId, env);
-    if (whCfg.webhook_enabled && whCfg.webhook_url) {
-      await enqueueWebhookDelivery({
-        merchant_id: merchantId,
-        env,
-        invoice_id: invoiceId,
-        event_type: 'payment.paid',
-        payload: { event_type: 'payment.paid', invoice_id: invoiceId, final_amount: pending.final_amount, paid_at: now, created_at: now },
-        run_at: now,
-      });
-    }
-
-    return res.json({ success: true, data: { status: 'paid', final_amount: pending.final_amount, paid_at: now } });
+  // Match against the account's mutations together with its other pending (and
+  // recently expired) invoices, so a shared amount is flagged for review instead
+  // of paying the wrong one
+  const expiredSince = now - LATE_PAYMENT_WINDOW_SECONDS;
+  const siblings = provider.name === 'orderkuota'
+    ? [
+        ...(await listPendingInvoicesForUsername(merchantId, providerAccount.username)),
+        ...(await listRecentlyExpiredInvoicesForUsername(merchantId, providerAccount.username, expiredSince)),
+      ]
+    : [
+        ...(await listPendingInvoicesForMerchant(merchantId, provider.name)),
+        ...(await listRecentlyExpiredInvoicesForMerchant(merchantId, provider.name, expiredSince)),
+      ];
+  const accountKey = provider.name === 'orderkuota' ? providerAccount.username : merchantId;
+  const r = await reconcileInvoices(provider, providerAccount, accountKey, siblings.some((x) => x.id === inv.id) ? siblings : [inv, ...siblings]);
+
+  if (r.paid.includes(inv.id)) {
+    return res.json({ success: true, data: { status: 'paid', final_amount: inv.final_amount, paid_at: now } });
   }
 
   return res.json({
     success: true,
-    data: { status: 'pending', final_amount: pending.final_amount, expires_in: pending.expires_at - now },
+    data: { status: 'pending', final_amount: inv.final_amount, expires_in: Math.max(0, inv.expires_at - now) },
   });
 }
@@ -0,0 +1,111 @@
+import type express from 'express';
+import {
+  createPaymentLink,
+  getPaymentLink,
+  getPaymentLinkUsage,
+  listPaymentLinkInvoices,
+  listPaymentLinks,
+  updatePaymentLink,
+  type PaymentLink,
+  type PaymentLinkStatus,
+} from '../../lib/db';
+import { checkPaymentLinkAccount, newPaymentLinkSlug, parsePaymentLinkInput, toPaymentLinkView } from '../../lib/payment_links';
+
+type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
+
+// Links belong to the env of the key that created them
+async function loadLink(req: AuthedRequest): Promise<PaymentLink | null> {
+  const env = (req as any).gwEnv || 'production';
+  const link = await getPaymentLink(String(req.params.id || '').trim(), req.merchantId);
+  return link && link.env === env ? link : null;
+}
+
+// POST /payment-links { title, description?, amount? | min_amount?, max_amount?, max_uses?, active_from?, active_until?, account_id?, success_url?, failure_url? }
+export async function createLink(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = (req as any).gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+
+  const parsed = parsePaymentLinkInput(req.body, null);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  const f = parsed.fields;
+  const accountError = await checkPaymentLinkAccount(merchantId, env, f.account_id ?? null);
+  if (accountError) return res.status(accountError.code === 'ACCOUNT_NOT_FOUND' ? 404 : 400).json({ success: false, error: accountError });
+
+  const link = await createPaymentLink({
+    merchant_id: merchantId,
+    env,
+    slug: newPaymentLinkSlug(),
+    title: f.title!,
+    description: f.description ?? null,
+    amount: f.amount ?? null,
+    min_amount: f.min_amount ?? null,
+    max_amount: f.max_amount ?? null,
+    max_uses: f.max_uses ?? null,
+    account_id: f.account_id ?? null,
+    success_url: f.success_url ?? null,
+    failure_url: f.failure_url ?? null,
+    active_from: f.active_from ?? null,
+    active_until: f.active_until ?? null,
+  });
+  return res.json({ success: true, data: toPaymentLinkView(link, { used: 0, pending: 0, paid_total: 0 }) });
+}
+
+// GET /payment-links?include_archived=1
+export async function listLinks(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = (req as any).gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit || 50)));
+  const offset = Math.max(0, Number(req.query.offset || 0));
+  const links = await listPaymentLinks(merchantId, { env, include_archived: req.query.include_archived === '1', limit, offset });
+  const items = await Promise.all(links.map(async (l) => toPaymentLinkView(l, await getPaymentLinkUsage(l.id))));
+  return res.json({ success: true, data: { items, limit, offset } });
+}
+
+// GET /payment-links/:id — includes the latest child invoices
+export async function getLink(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const link = await loadLink(req);
+  if (!link) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link not found' } });
+  const invoices = await listPaymentLinkInvoices(link.id, merchantId, 50);
+  return res.json({ success: true, data: { ...toPaymentLinkView(link, await getPaymentLinkUsage(link.id)), invoices } });
+}
+
+// PATCH /payment-links/:id — same fields as create plus status (active|inactive)
+export async function updateLink(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = (req as any).gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const link = await loadLink(req);
+  if (!link) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link not found' } });
+  if (link.status === 'archived') return res.status(409).json({ success: false, error: { code: 'LINK_ARCHIVED', message: 'Payment link is archived' } });
+
+  const parsed = parsePaymentLinkInput(req.body, link);
+  if (parsed.error) return res.status(400).json({ success: false, error: parsed.error });
+  let status: PaymentLinkStatus | undefined;
+  if (req.body?.status !== undefined) {
+    if (req.body.status !== 'active' && req.body.status !== 'inactive') {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_STATUS', message: 'status must be active or inactive' } });
+    }
+    status = req.body.status;
+  }
+  if (parsed.fields.account_id !== undefined) {
+    const accountError = await checkPaymentLinkAccount(merchantId, env, parsed.fields.account_id);
+    if (accountError) return res.status(accountError.code === 'ACCOUNT_NOT_FOUND' ? 404 : 400).json({ success: false, error: accountError });
+  }
+
+  const updated = await updatePaymentLink(link.id, merchantId, { ...parsed.fields, status });
+  return res.json({ success: true, data: toPaymentLinkView(updated!, await getPaymentLinkUsage(link.id)) });
+}
+
+// DELETE /payment-links/:id — archived, not removed (child invoices keep pointing at it)
+export async function archiveLink(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const link = await loadLink(req);
+  if (!link) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link not found' } });
+  const updated = await updatePaymentLink(link.id, merchantId, { status: 'archived' });
+  return res.json({ success: true, data: toPaymentLinkView(updated!, await getPaymentLinkUsage(link.id)) });
+}
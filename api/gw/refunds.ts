@@ -1,16 +1,18 @@
 import type express from 'express';
-import { randomUUID } from 'crypto';
 import {
   getInvoiceById,
-  createInvoiceEvent,
-  enqueueWebhookDelivery,
-  getMerchantWebhookConfigEnv,
   createRefundRequest,
+  getRefundForMerchant,
+  getRefundTotals,
   listRefundsForMerchant,
+  listRefundsForInvoice,
 } from '../../lib/db';
+import { emitInvoiceEvent } from '../../lib/invoice_lifecycle';
 
 type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
 
+const REFUNDABLE_STATUSES = new Set(['paid', 'partially_refunded']);
+
 export async function requestRefund(req: AuthedRequest, res: express.Response) {
   const merchantId = req.merchantId;
   const env = (req as any).gwEnv || 'production';
@@ -18,44 +20,66 @@ export async function requestRefund(req: AuthedRequest, res: express.Response) {
 
   const invoiceId = String(req.params.id || '').trim();
   const inv = await getInvoiceById(invoiceId, merchantId);
-  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  // A sandbox key never sees production invoices, and the other way around
+  if (!inv || inv.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  if (!REFUNDABLE_STATUSES.has(inv.status)) {
+    return res.status(409).json({ success: false, error: { code: 'INVOICE_NOT_REFUNDABLE', message: `Invoice is ${inv.status}; only paid invoices can be refunded` } });
+  }
 
   const { amount, reason } = req.body || {};
-  const amt = amount == null ? Number(inv.final_amount) : Number(amount);
-  if (!Number.isFinite(amt) || amt <= 0) {
+  const totals = await getRefundTotals(invoiceId);
+  const remaining = Number(inv.final_amount) - totals.committed;
+  // Default: refund whatever is left
+  const amt = amount == null ? remaining : Number(amount);
+  if (!Number.isFinite(amt) || Math.floor(amt) <= 0) {
     return res.status(400).json({ success: false, error: { code: 'INVALID_AMOUNT', message: 'amount must be positive' } });
   }
 
-  const refundId = await createRefundRequest({ invoice_id: invoiceId, merchant_id: merchantId, amount: Math.floor(amt), reason: reason ? String(reason) : null });
+  const refundAmount = Math.floor(amt);
+  const refundId = await createRefundRequest({ invoice_id: invoiceId, merchant_id: merchantId, amount: refundAmount, reason: reason ? String(reason) : null });
+  if (!refundId) {
+    return res.status(422).json({
+      success: false,
+      error: { code: 'REFUND_EXCEEDS_AMOUNT', message: 'Total refunds would exceed the invoice final_amount', details: { final_amount: inv.final_amount, refundable: Math.max(0, remaining) } },
+    });
+  }
 
-  const now = Math.floor(Date.now() / 1000);
-  await createInvoiceEvent({
-    id: randomUUID(),
+  await emitInvoiceEvent({
     invoice_id: invoiceId,
     merchant_id: merchantId,
+    env: inv.env,
     event_type: 'refund.requested',
-    payload: { refund_id: refundId, invoice_id: invoiceId, amount: Math.floor(amt), reason: reason ?? null },
-    created_at: now,
+    payload: { refund_id: refundId, invoice_id: invoiceId, amount: refundAmount, reason: reason ?? null },
   });
 
-  const whCfg = await getMerchantWebhookConfigEnv(merchantId, env);
-  if (whCfg.webhook_enabled && whCfg.webhook_url) {
-    await enqueueWebhookDelivery({
-      merchant_id: merchantId,
-      env,
-      invoice_id: invoiceId,
-      event_type: 'refund.requested',
-      payload: { event_type: 'refund.requested', refund_id: refundId, invoice_id: invoiceId, amount: Math.floor(amt), reason: reason ?? null, created_at: now },
-      run_at: now,
-    });
-  }
-
-  return res.json({ success: true, data: { refund_id: refundId, status: 'requested' } });
+  return res.json({ success: true, data: { refund_id: refundId, status: 'requested', amount: refundAmount } });
 }
 
 export async function listMyRefunds(req: AuthedRequest, res: express.Response) {
   const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
   if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
-  const items = await listRefundsForMerchant(merchantId, 200);
+  const items = await listRefundsForMerchant(merchantId, env, 200);
   return res.json({ success: true, data: { items } });
 }
+
+export async function getMyRefund(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const refund = await getRefundForMerchant(String(req.params.id || '').trim(), merchantId, env);
+  if (!refund) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Refund not found' } });
+  return res.json({ success: true, data: refund });
+}
+
+export async function listInvoiceRefunds(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const invoiceId = String(req.params.id || '').trim();
+  const inv = await getInvoiceById(invoiceId, merchantId);
+  if (!inv || inv.env !== env) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  const items = await listRefundsForInvoice(invoiceId, merchantId);
+  const totals = await getRefundTotals(invoiceId);
+  return res.json({ success: true, data: { items, refunded_total: totals.processed, refundable: Math.max(0, inv.final_amount - totals.committed) } });
+}
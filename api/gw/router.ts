@@ -15,8 +15,13 @@ import qrisCheck from '../qris/check';
 import qrisImage from '../qris/image';
 import balance from '../account/balance';
 
-import { requireSignedRequest } from './security';
-import { createInvoice, getInvoice, listMyInvoices, checkInvoice, listEvents } from './invoices';
+import { requireSignedRequest, requireIdempotency } from './security';
+import { createInvoice, getInvoice, listMyInvoices, checkInvoice, listEvents, streamInvoice, cancelInvoice, extendInvoice } from './invoices';
+import { requestRefund, listMyRefunds, getMyRefund, listInvoiceRefunds } from './refunds';
+import { openDispute, listMyDisputes, getMyDispute } from './disputes';
+import { simulateInvoice } from './sandbox';
+import { listMyUnmatchedFunds, getMyUnmatchedFunds, acceptFunds, refundFunds } from './unmatched_funds';
+import { createLink, listLinks, getLink, updateLink, archiveLink } from './payment_links';
 
 declare global {
   // eslint-disable-next-line no-var
@@ -132,6 +137,11 @@ router.use(
   })
 );
 
+// --- Idempotency-Key on mutating routes (after rate limit so 429s are never cached) ---
+router.use(requireIdempotency({
+  ttlSeconds: Number(process.env.IDEMPOTENCY_TTL_SECONDS || 86400),
+}));
+
 // Health (authenticated)
 router.get('/health', (req: AuthedRequest, res) => {
   res.json({ success: true, data: { ok: true, merchant_id: req.merchantId } });
@@ -150,6 +160,42 @@ router.post('/invoices', (req, res) => createInvoice(req as any, res));
 router.get('/invoices', (req, res) => listMyInvoices(req as any, res));
 router.get('/invoices/:id', (req, res) => getInvoice(req as any, res));
 router.post('/invoices/:id/check', (req, res) => checkInvoice(req as any, res));
+router.post('/invoices/:id/cancel', (req, res) => cancelInvoice(req as any, res));
+router.post('/invoices/:id/extend', (req, res) => extendInvoice(req as any, res));
 router.get('/invoices/:id/events', (req, res) => listEvents(req as any, res));
+router.get('/invoices/:id/stream', (req, res) => streamInvoice(req as any, res));
+
+// -----------------
+// Refunds / Disputes
+// -----------------
+router.post('/invoices/:id/refunds', (req, res) => requestRefund(req as any, res));
+router.get('/invoices/:id/refunds', (req, res) => listInvoiceRefunds(req as any, res));
+router.get('/refunds', (req, res) => listMyRefunds(req as any, res));
+router.get('/refunds/:id', (req, res) => getMyRefund(req as any, res));
+router.post('/invoices/:id/disputes', (req, res) => openDispute(req as any, res));
+router.get('/disputes', (req, res) => listMyDisputes(req as any, res));
+router.get('/disputes/:id', (req, res) => getMyDispute(req as any, res));
+
+// -----------------
+// Unmatched funds (late payments, under/overpayments)
+// -----------------
+router.get('/unmatched-funds', (req, res) => listMyUnmatchedFunds(req as any, res));
+router.get('/unmatched-funds/:id', (req, res) => getMyUnmatchedFunds(req as any, res));
+router.post('/unmatched-funds/:id/accept', (req, res) => acceptFunds(req as any, res));
+router.post('/unmatched-funds/:id/refund', (req, res) => refundFunds(req as any, res));
+
+// -----------------
+// Payment links (reusable; each payment is a child invoice)
+// -----------------
+router.post('/payment-links', (req, res) => createLink(req as any, res));
+router.get('/payment-links', (req, res) => listLinks(req as any, res));
+router.get('/payment-links/:id', (req, res) => getLink(req as any, res));
+router.patch('/payment-links/:id', (req, res) => updateLink(req as any, res));
+router.delete('/payment-links/:id', (req, res) => archiveLink(req as any, res));
+
+// -----------------
+// Sandbox (sandbox API key only; simulated payments, no OrderKuota calls)
+// -----------------
+router.post('/sandbox/invoices/:id/simulate', (req, res) => simulateInvoice(req as any, res));
 
 export default router;
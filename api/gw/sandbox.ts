@@ -0,0 +1,84 @@
+import type express from 'express';
+import { getInvoiceById, getSandboxPlan, type Invoice } from '../../lib/db';
+import { markInvoiceExpired } from '../../lib/invoice_lifecycle';
+import {
+  SANDBOX_MAX_DELAY_SECONDS,
+  applyDueSandboxPlan,
+  applySandboxOutcome,
+  isSandboxOutcome,
+  scheduleSandboxOutcome,
+} from '../../lib/sandbox';
+
+type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
+
+// POST /sandbox/invoices/:id/simulate { outcome: paid|expired|partial, delay_seconds?, paid_amount? }
+export async function simulateInvoice(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = (req as any).gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  if (env !== 'sandbox') {
+    return res.status(403).json({ success: false, error: { code: 'SANDBOX_ONLY', message: 'Simulation requires a sandbox API key' } });
+  }
+
+  const inv = await getInvoiceById(String(req.params.id || '').trim(), merchantId);
+  if (!inv || inv.env !== 'sandbox') {
+    return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } });
+  }
+
+  const { outcome, delay_seconds, paid_amount } = req.body || {};
+  if (!isSandboxOutcome(outcome)) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_OUTCOME', message: 'outcome must be paid, expired or partial' } });
+  }
+  const delay = delay_seconds == null ? 0 : Number(delay_seconds);
+  if (!Number.isInteger(delay) || delay < 0 || delay > SANDBOX_MAX_DELAY_SECONDS) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_DELAY', message: `delay_seconds must be an integer between 0 and ${SANDBOX_MAX_DELAY_SECONDS}` } });
+  }
+  const paidAmount = paid_amount == null ? null : parseInt(String(paid_amount), 10);
+  if (paidAmount != null && (!Number.isFinite(paidAmount) || paidAmount <= 0 || paidAmount >= inv.final_amount)) {
+    return res.status(400).json({ success: false, error: { code: 'INVALID_AMOUNT', message: 'paid_amount must be between 1 and final_amount - 1' } });
+  }
+  if (inv.status !== 'pending') {
+    return res.status(409).json({ success: false, error: { code: 'INVOICE_NOT_PENDING', message: `Invoice is ${inv.status}`, details: { status: inv.status } } });
+  }
+
+  if (delay > 0) {
+    const plan = await scheduleSandboxOutcome(inv, outcome, { delay_seconds: delay, paid_amount: paidAmount, source: 'simulate' });
+    return res.status(202).json({ success: true, data: { invoice_id: inv.id, status: inv.status, scheduled: plan } });
+  }
+
+  const r = await applySandboxOutcome(inv, outcome, paidAmount);
+  if (!r.ok) {
+    return res.status(409).json({ success: false, error: { code: r.code, message: 'Invoice is no longer pending' } });
+  }
+  return res.json({ success: true, data: { invoice_id: inv.id, outcome, status: r.status } });
+}
+
+/**
+ * Sandbox branch of POST /invoices/:id/check: applies a due plan, expires on
+ * time, and never calls OrderKuota.
+ */
+export async function checkSandboxInvoice(inv: Invoice, res: express.Response) {
+  const now = Math.floor(Date.now() / 1000);
+  await applyDueSandboxPlan(inv.id);
+
+  let cur = (await getInvoiceById(inv.id, inv.merchant_id)) ?? inv;
+  if (cur.status === 'pending' && now > cur.expires_at) {
+    await markInvoiceExpired(cur, now, { due_by: now });
+    cur = (await getInvoiceById(inv.id, inv.merchant_id)) ?? cur;
+  }
+
+  if (cur.status === 'pending') {
+    const plan = await getSandboxPlan(cur.id);
+    return res.json({
+      success: true,
+      data: {
+        status: 'pending',
+        final_amount: cur.final_amount,
+        expires_in: cur.expires_at - now,
+        sandbox_plan: plan && plan.applied_at == null ? { outcome: plan.outcome, run_at: plan.run_at } : null,
+      },
+    });
+  }
+  if (cur.status === 'expired' || cur.status === 'cancelled') return res.json({ success: true, data: { status: cur.status } });
+  return res.json({ success: true, data: { status: cur.status, final_amount: cur.final_amount, paid_at: cur.paid_at } });
+}
@@ -4,10 +4,16 @@ import {
   getMerchantSecretForSigning,
   markNonceUsed,
   isNonceUsed,
+  getIdempotencyRecord,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+  type IdempotencyRecord,
 } from '../../lib/db';
 
 export type AuthedRequest = express.Request & {
   merchantId?: string;
+  gwEnv?: 'production' | 'sandbox';
   rawBody?: string;
 };
 
@@ -104,3 +110,96 @@ export function requireSignedRequest(opts?: { windowSeconds?: number; nonceTtlSe
     }
   };
 }
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+/**
+ * Idempotency-Key support for mutating requests (runs after requireSignedRequest):
+ * - Same key + same request (method, path, raw body) -> cached response is replayed
+ * - Same key + different request -> 422 IDEMPOTENCY_KEY_REUSED
+ * - Same key while the first request is still running -> 409 IDEMPOTENCY_IN_PROGRESS
+ * 5xx responses are not cached, so the client can retry with the same key. A
+ * request that never finished (crash) holds the key for lockSeconds only; after
+ * that a retry of the same request takes it over.
+ */
+export function requireIdempotency(opts?: { ttlSeconds?: number; lockSeconds?: number }) {
+  const ttlSeconds = opts?.ttlSeconds ?? Number(process.env.IDEMPOTENCY_TTL_SECONDS || 86400);
+  const lockSeconds = opts?.lockSeconds ?? Number(process.env.IDEMPOTENCY_LOCK_SECONDS || 60);
+
+  return async (req: AuthedRequest, res: express.Response, next: express.NextFunction) => {
+    try {
+      const method = (req.method || 'GET').toUpperCase();
+      const key = String(req.header('idempotency-key') || '').trim();
+      if (!MUTATING_METHODS.has(method) || !key || !req.merchantId) return next();
+
+      if (key.length > 255 || !/^[\x21-\x7E]+$/.test(key)) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'INVALID_IDEMPOTENCY_KEY', message: 'Idempotency-Key must be 1-255 printable ASCII chars' },
+        });
+      }
+
+      const merchantId = req.merchantId;
+      const env = req.gwEnv || 'production';
+      const path = req.originalUrl || req.url || '/';
+      const body = typeof req.rawBody === 'string' ? req.rawBody : '';
+      const fingerprint = crypto.createHash('sha256').update(`${method}\n${path}\n${body}`).digest('hex');
+
+      const replay = (rec: IdempotencyRecord) => {
+        if (rec.fingerprint !== fingerprint) {
+          return res.status(422).json({
+            success: false,
+            error: { code: 'IDEMPOTENCY_KEY_REUSED', message: 'Idempotency-Key already used with a different request' },
+          });
+        }
+        if (rec.status !== 'completed' || rec.response_status == null) {
+          return res.status(409).json({
+            success: false,
+            error: { code: 'IDEMPOTENCY_IN_PROGRESS', message: 'A request with this Idempotency-Key is still being processed' },
+          });
+        }
+        res.setHeader('Idempotency-Replayed', 'true');
+        return res.status(rec.response_status).type('application/json').send(rec.response_body ?? '');
+      };
+
+      const existing = await getIdempotencyRecord(merchantId, env, key);
+      const stale = existing?.status === 'processing' && (existing.locked_until ?? 0) <= Math.floor(Date.now() / 1000);
+      if (existing && !(stale && existing.fingerprint === fingerprint)) return replay(existing);
+
+      const acquired = await beginIdempotentRequest({
+        merchant_id: merchantId,
+        env,
+        idem_key: key,
+        method,
+        path,
+        fingerprint,
+        ttl_seconds: ttlSeconds,
+        lock_seconds: lockSeconds,
+      });
+      if (!acquired) {
+        const raced = await getIdempotencyRecord(merchantId, env, key);
+        if (raced) return replay(raced);
+      }
+
+      // Capture the JSON body the handler sends so it can be replayed later
+      let captured: unknown;
+      const originalJson = res.json.bind(res);
+      res.json = ((payload: unknown) => {
+        captured = payload;
+        return originalJson(payload);
+      }) as typeof res.json;
+
+      res.on('close', () => {
+        const cacheable = res.writableFinished && res.statusCode < 500 && captured !== undefined;
+        const persist = cacheable
+          ? completeIdempotentRequest(merchantId, env, key, res.statusCode, JSON.stringify(captured))
+          : releaseIdempotentRequest(merchantId, env, key);
+        persist.catch((e) => console.error('idempotency persist error', e?.message || e));
+      });
+
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import type express from 'express';
+import { getUnmatchedFunds, listUnmatchedFunds, type UnmatchedFunds, type UnmatchedFundsStatus } from '../../lib/db';
+import { acceptUnmatchedFunds, refundUnmatchedFunds } from '../../lib/unmatched_funds';
+
+type AuthedRequest = express.Request & { merchantId?: string; gwEnv?: 'production' | 'sandbox' };
+
+const STATUSES: UnmatchedFundsStatus[] = ['open', 'accepted', 'refunded'];
+
+function parseStatus(v: unknown): UnmatchedFundsStatus | null {
+  return typeof v === 'string' && (STATUSES as string[]).includes(v) ? (v as UnmatchedFundsStatus) : null;
+}
+
+// GET /unmatched-funds?status=open|accepted|refunded (funds of the key's env)
+export async function listMyUnmatchedFunds(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit || 100)));
+  const offset = Math.max(0, Number(req.query.offset || 0));
+  const items = await listUnmatchedFunds(merchantId, env, { status: parseStatus(req.query.status), limit, offset });
+  return res.json({ success: true, data: { items, limit, offset } });
+}
+
+// A sandbox key only sees sandbox funds (simulated partial payments), and the other way around
+async function findFunds(req: AuthedRequest, merchantId: string, env: 'production' | 'sandbox'): Promise<UnmatchedFunds | null> {
+  const funds = await getUnmatchedFunds(String(req.params.id || '').trim(), merchantId);
+  return funds && funds.env === env ? funds : null;
+}
+
+export async function getMyUnmatchedFunds(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const funds = await findFunds(req, merchantId, env);
+  if (!funds) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Unmatched funds not found' } });
+  return res.json({ success: true, data: funds });
+}
+
+// POST /unmatched-funds/:id/accept { invoice_id?, note? } — invoice_id defaults to the suggested one
+export async function acceptFunds(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const funds = await findFunds(req, merchantId, env);
+  if (!funds) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Unmatched funds not found' } });
+  const invoiceId = req.body?.invoice_id ? String(req.body.invoice_id).trim() : null;
+  const note = req.body?.note ? String(req.body.note).slice(0, 500) : null;
+
+  const r = await acceptUnmatchedFunds(funds, invoiceId, note);
+  if (!r.ok) {
+    const status = r.code === 'INVOICE_REQUIRED' ? 400 : r.code === 'INVOICE_NOT_FOUND' ? 404 : 409;
+    return res.status(status).json({ success: false, error: { code: r.code, message: 'Cannot accept these funds', details: { invoice_id: invoiceId ?? funds.invoice_id } } });
+  }
+  return res.json({ success: true, data: { funds: await getUnmatchedFunds(funds.id, merchantId), invoice_id: r.invoice.id, invoice_status: r.invoice.status } });
+}
+
+// POST /unmatched-funds/:id/refund { refund_reference?, note? }
+export async function refundFunds(req: AuthedRequest, res: express.Response) {
+  const merchantId = req.merchantId;
+  const env = req.gwEnv || 'production';
+  if (!merchantId) return res.status(401).json({ success: false, error: { code: 'UNAUTH', message: 'Merchant unauthenticated' } });
+  const funds = await findFunds(req, merchantId, env);
+  if (!funds) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Unmatched funds not found' } });
+  const reference = req.body?.refund_reference ? String(req.body.refund_reference).slice(0, 200) : null;
+  const note = req.body?.note ? String(req.body.note).slice(0, 500) : null;
+
+  const r = await refundUnmatchedFunds(funds, reference, note);
+  if (!r.ok) return res.status(409).json({ success: false, error: { code: r.code, message: `Funds are ${funds.status}` } });
+  return res.json({ success: true, data: await getUnmatchedFunds(funds.id, merchantId) });
+}
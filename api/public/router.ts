@@ -1,10 +1,19 @@
 import express from 'express';
+import rateLimit from 'express-rate-limit';
+import * as QRCode from 'qrcode';
 import {
   initDb,
   getSitePage,
   listSitePages,
   getSettingRaw,
+  getInvoiceForCheckout,
+  getPaymentLinkBySlug,
+  getPaymentLinkUsage,
 } from '../../lib/db';
+import { loadCheckoutInvoice, toCheckoutView } from '../../lib/checkout';
+import { applyDueSandboxPlan } from '../../lib/sandbox';
+import { streamInvoiceEvents } from '../../lib/invoice_stream';
+import { payPaymentLink, toPublicPaymentLinkView } from '../../lib/payment_links';
 
 const router = express.Router();
 
@@ -44,4 +53,81 @@ router.get('/config', async (_req, res) => {
   });
 });
 
+// =====================
+// Hosted checkout (token from the checkout_url, see lib/checkout.ts)
+// =====================
+const checkoutLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: Number(process.env.CHECKOUT_RATE_LIMIT_PER_MINUTE || 120),
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req, res) => {
+    res.status(429).json({ success: false, error: { code: 'RATE_LIMIT', message: 'Too many requests' } });
+  },
+});
+
+router.get('/checkout/:id', checkoutLimiter, async (req, res) => {
+  const invoiceId = String(req.params.id || '').trim();
+  let inv = await loadCheckoutInvoice(invoiceId, String(req.query.t || ''));
+  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Checkout not found' } });
+  // Sandbox invoices settle from local plans; apply a due one so the page updates without waiting for the scheduler
+  if (inv.env === 'sandbox' && inv.status === 'pending' && (await applyDueSandboxPlan(inv.id))) {
+    inv = (await loadCheckoutInvoice(invoiceId, String(req.query.t || ''))) ?? inv;
+  }
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ success: true, data: toCheckoutView(inv) });
+});
+
+// Server-Sent Events: each invoice event carries the refreshed checkout view (never the raw payload)
+router.get('/checkout/:id/stream', checkoutLimiter, async (req, res) => {
+  const inv = await loadCheckoutInvoice(String(req.params.id || '').trim(), String(req.query.t || ''));
+  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Checkout not found' } });
+  streamInvoiceEvents(req, res, inv.id, {
+    serialize: async (e) => {
+      const current = (await getInvoiceForCheckout(inv.id)) ?? inv;
+      return { event_type: e.event_type, checkout: toCheckoutView(current) };
+    },
+    onTick: inv.env === 'sandbox' ? () => applyDueSandboxPlan(inv.id) : undefined,
+  });
+});
+
+// QR as PNG; ?download=1 serves it as an attachment
+router.get('/checkout/:id/qr.png', checkoutLimiter, async (req, res) => {
+  const inv = await loadCheckoutInvoice(String(req.params.id || '').trim(), String(req.query.t || ''));
+  if (!inv) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Checkout not found' } });
+  if (inv.status !== 'pending') {
+    return res.status(409).json({ success: false, error: { code: 'INVOICE_NOT_PENDING', message: `Invoice is ${inv.status}` } });
+  }
+  const size = Math.min(Math.max(Number(req.query.size || 400) || 400, 100), 1000);
+  const png = await QRCode.toBuffer(inv.qris_string, { type: 'png', width: size, margin: 2 });
+  res.setHeader('Content-Type', 'image/png');
+  res.setHeader('Cache-Control', 'no-store');
+  if (req.query.download === '1') {
+    res.setHeader('Content-Disposition', `attachment; filename="qris-${inv.id.slice(0, 8)}-${inv.final_amount}.png"`);
+  }
+  res.send(png);
+});
+
+// =====================
+// Payment links (/link/:slug in the SPA); archived links are gone for the public
+// =====================
+router.get('/links/:slug', checkoutLimiter, async (req, res) => {
+  const link = await getPaymentLinkBySlug(String(req.params.slug || '').trim());
+  if (!link || link.status === 'archived') return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link not found' } });
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ success: true, data: toPublicPaymentLinkView(link, await getPaymentLinkUsage(link.id)) });
+});
+
+// { amount? } -> fresh child invoice; the page continues on its checkout_url
+router.post('/links/:slug/pay', checkoutLimiter, async (req, res) => {
+  const link = await getPaymentLinkBySlug(String(req.params.slug || '').trim());
+  if (!link || link.status === 'archived') return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Payment link not found' } });
+  const r = await payPaymentLink(link, req.body?.amount);
+  if (!r.ok) {
+    const { status, ...error } = r.error;
+    return res.status(status).json({ success: false, error });
+  }
+  res.json({ success: true, data: { invoice_id: r.invoice.invoice_id, final_amount: r.invoice.final_amount, expires_at: r.invoice.expires_at, checkout_url: r.invoice.checkout_url } });
+});
+
 export default router;
@@ -1,12 +1,16 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getQrisHistory } from '../../lib/orderkuota.js';
+import { getProvider } from '../../lib/providers/index.js';
 import {
   initDb,
   getPendingTransaction,
   deletePendingTransaction,
   createPaidTransaction,
   getPaidTransaction,
+  listConsumedMutationIds,
+  claimMutation,
+  withTransaction,
 } from '../../lib/db.js';
+import { MATCH_CLOCK_SKEW_SECONDS, planMatches } from '../../lib/matching.js';
 
 const PAID_EXPIRY_SECONDS = 3600; // 1 hour
 
@@ -66,24 +70,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    // Check history from OrderKuota
-    const historyResult = await getQrisHistory(username, token) as Record<string, unknown>;
+    // Check history from OrderKuota: time window + consumed mutations (lib/matching.ts).
+    // Legacy transactions have no merchant, so ambiguous matches simply stay pending.
+    const mutations = await getProvider('orderkuota').fetchMutations({ username, token }, { since: tx.created_at - MATCH_CLOCK_SKEW_SECONDS });
+    const consumed = await listConsumedMutationIds('orderkuota', username, mutations.map((m) => m.id));
+    const { matches } = planMatches([tx], mutations.filter((m) => !consumed.has(m.id)));
+    const found = matches[0]?.mutation;
 
-    // Try multiple possible response structures
-    const historyData = (historyResult?.qris_ajaib_history as Record<string, unknown>)?.results 
-      || (historyResult?.qris_history as Record<string, unknown>)?.results
-      || [];
-    
-    const history = Array.isArray(historyData) ? historyData : [];
-    
-    const found = history.find((h: Record<string, unknown>) => {
-      // Parse kredit field (format: "1.001" with dot as thousand separator)
-      const kreditStr = String(h.kredit || '').replace(/\./g, '');
-      const amt = parseInt(kreditStr, 10) || 0;
-      return amt === tx.final_amount && h.status === 'IN';
-    });
-
-    if (found) {
+    // Claim and the paid row commit together
+    const paid = found && (await withTransaction(async () => {
+      const claimed = await claimMutation({
+        provider: 'orderkuota',
+        account_key: username,
+        mutation_id: found.id,
+        merchant_id: null,
+        invoice_id: transaction_id,
+        amount: found.amount,
+        occurred_at: found.occurred_at,
+      });
+      if (!claimed) return false;
       await deletePendingTransaction(transaction_id);
       await createPaidTransaction({
         id: transaction_id,
@@ -92,7 +97,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         paid_at: now,
         expires_at: now + PAID_EXPIRY_SECONDS,
       });
-
+      return true;
+    }));
+    if (paid) {
       return res.status(200).json({
         success: true,
         data: {
@@ -1,6 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { v4 as uuidv4 } from 'uuid';
-import { initDb, getAvailableSuffix, createPendingTransaction } from '../../lib/db.js';
+import { initDb, allocateFinalAmount, createPendingTransaction, withTransaction } from '../../lib/db.js';
 import { generateDynamicQris } from '../../lib/qris.js';
 
 const EXPIRY_SECONDS = 600; // 10 minutes
@@ -46,24 +46,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     await initDb();
 
-    const suffix = await getAvailableSuffix(username);
-    const finalAmount = baseAmount + suffix;
-
-    const qrisString = generateDynamicQris(qris_static, finalAmount);
-
     const now = Math.floor(Date.now() / 1000);
     const txId = uuidv4();
 
-    await createPendingTransaction({
-      id: txId,
-      username,
-      base_amount: baseAmount,
-      unique_suffix: suffix,
-      final_amount: finalAmount,
-      qris_string: qrisString,
-      created_at: now,
-      expires_at: now + EXPIRY_SECONDS,
+    // Pick and insert in one transaction so concurrent requests cannot take the same amount
+    const reserved = await withTransaction(async () => {
+      const allocated = await allocateFinalAmount(username, baseAmount, 'add_suffix');
+      if (!allocated) return null;
+      const suffix = allocated.unique_suffix;
+      const finalAmount = allocated.final_amount;
+      const qrisString = generateDynamicQris(qris_static, finalAmount);
+      await createPendingTransaction({
+        id: txId,
+        username,
+        base_amount: baseAmount,
+        unique_suffix: suffix,
+        final_amount: finalAmount,
+        qris_string: qrisString,
+        created_at: now,
+        expires_at: now + EXPIRY_SECONDS,
+      });
+      return { suffix, finalAmount, qrisString };
     });
+    if (!reserved) {
+      return res.status(409).json({
+        success: false,
+        error: { code: 'AMOUNT_EXHAUSTED', message: 'No unique amount left for this username. Wait for pending transactions to settle or expire.' },
+      });
+    }
+    const { suffix, finalAmount, qrisString } = reserved;
 
     return res.status(200).json({
       success: true,
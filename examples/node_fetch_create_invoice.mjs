@@ -23,6 +23,8 @@ const { headers, bodyRaw } = signGatewayRequest({
   method: 'POST',
   urlOrPath: path,
   body: bodyObj,
+  // Safe to retry: same key + same body returns the first response instead of a new invoice
+  idempotencyKey: 'create-order_123',
 });
 
 const res = await fetch(`${BASE_URL}${path}`, {
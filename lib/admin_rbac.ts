@@ -0,0 +1,80 @@
+/**
+ * Admin console roles & permissions.
+ *
+ * Roles live in the admin_roles table (seeded from DEFAULT_ADMIN_ROLES, editable
+ * by a superadmin); admin_users maps an email to one role. ADMIN_EMAILS only
+ * bootstraps superadmins on an empty install.
+ */
+
+export const ADMIN_PERMISSIONS = [
+  'verification.read',
+  'verification.review',
+  'merchants.manage',
+  'operator.read',
+  'operator.write',
+  'cms.read',
+  'cms.write',
+  'webhooks.read',
+  'webhooks.manage',
+  'stats.read',
+  'refunds.read',
+  'refunds.manage',
+  'disputes.read',
+  'disputes.manage',
+  'settlements.read',
+  'settlements.manage',
+  'payouts.manage',
+  'exports.read',
+  'alerts.read',
+  'alerts.manage',
+  'matching.read',
+  'matching.manage',
+  'audit.read',
+  'admins.manage',
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+export const SUPERADMIN_ROLE = 'superadmin';
+
+const READ_ONLY: AdminPermission[] = ADMIN_PERMISSIONS.filter((p) => p.endsWith('.read') && p !== 'operator.read');
+
+export const DEFAULT_ADMIN_ROLES: Array<{ name: string; description: string; permissions: AdminPermission[] }> = [
+  { name: SUPERADMIN_ROLE, description: 'Full access, manages admin users', permissions: [...ADMIN_PERMISSIONS] },
+  {
+    name: 'reviewer',
+    description: 'Merchant verification and disputes',
+    permissions: ['verification.read', 'verification.review', 'merchants.manage', 'disputes.read', 'disputes.manage', 'stats.read', 'alerts.read'],
+  },
+  {
+    name: 'finance',
+    description: 'Refunds, settlements and payouts',
+    permissions: [
+      'refunds.read',
+      'refunds.manage',
+      'settlements.read',
+      'settlements.manage',
+      'payouts.manage',
+      'disputes.read',
+      'exports.read',
+      'stats.read',
+      'webhooks.read',
+      'webhooks.manage',
+      'alerts.read',
+      'matching.read',
+      'matching.manage',
+      'audit.read',
+    ],
+  },
+  { name: 'support', description: 'Read-only access', permissions: READ_ONLY },
+];
+
+export function isAdminPermission(v: unknown): v is AdminPermission {
+  return typeof v === 'string' && (ADMIN_PERMISSIONS as readonly string[]).includes(v);
+}
+
+export function bootstrapAdminEmails(): string[] {
+  const raw = String(process.env.ADMIN_EMAILS || '').trim();
+  if (!raw) return [];
+  return Array.from(new Set(raw.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean)));
+}
@@ -0,0 +1,46 @@
+/**
+ * Unique-amount strategies.
+ *
+ * Payments are matched on the amount that lands in the OrderKuota mutation
+ * history, so every pending invoice of one OrderKuota username needs a distinct
+ * final amount. Each strategy yields candidate final amounts in preference
+ * order; the first one not used by a pending transaction wins.
+ */
+
+export type AmountStrategy = 'add_suffix' | 'subtract_suffix' | 'round_hundreds' | 'exact';
+
+export const AMOUNT_STRATEGIES: AmountStrategy[] = ['add_suffix', 'subtract_suffix', 'round_hundreds', 'exact'];
+
+export const DEFAULT_AMOUNT_STRATEGY: AmountStrategy = 'add_suffix';
+
+// add_suffix / subtract_suffix: up to AMOUNT_SUFFIX_MAX rupiah away from the base
+const MAX_SUFFIX = Number(process.env.AMOUNT_SUFFIX_MAX || 999);
+// round_hundreds: up to +ROUND_HUNDREDS_STEPS x 100 above the rounded base
+const ROUND_HUNDREDS_STEPS = Number(process.env.ROUND_HUNDREDS_STEPS || 50);
+
+export function isAmountStrategy(v: unknown): v is AmountStrategy {
+  return typeof v === 'string' && (AMOUNT_STRATEGIES as string[]).includes(v);
+}
+
+export function* candidateAmounts(strategy: AmountStrategy, baseAmount: number): Generator<number> {
+  switch (strategy) {
+    case 'add_suffix':
+      // base + 1..MAX_SUFFIX
+      for (let i = 1; i <= MAX_SUFFIX; i++) yield baseAmount + i;
+      return;
+    case 'subtract_suffix':
+      // base - 1..MAX_SUFFIX; the customer pays slightly less
+      for (let i = 1; i <= MAX_SUFFIX && baseAmount - i > 0; i++) yield baseAmount - i;
+      return;
+    case 'round_hundreds': {
+      // Round up to the next hundred, then step by 100 (e.g. 10.050 -> 10.100, 10.200, ...)
+      const start = Math.ceil(baseAmount / 100) * 100;
+      for (let i = 0; i <= ROUND_HUNDREDS_STEPS; i++) yield start + i * 100;
+      return;
+    }
+    case 'exact':
+      // Only one pending invoice per amount
+      yield baseAmount;
+      return;
+  }
+}
@@ -0,0 +1,105 @@
+import { createHash, randomUUID } from 'crypto';
+import { getAuditLogHead, insertAuditLogRow, listAuditLogAfter, type AuditLogRow } from './db';
+
+/**
+ * Admin audit log.
+ *
+ * Rows are append-only (UPDATE/DELETE are rejected by triggers) and chained:
+ * hash = sha256(prev_hash + canonical row). Editing or removing any row breaks
+ * every hash after it, which verifyAuditChain() reports. Keep the latest
+ * head_hash from each monthly export to also detect truncation of the tail.
+ */
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export type AuditEntry = {
+  actor_email: string;
+  actor_role?: string | null;
+  action: string;
+  target_type: string;
+  target_id?: string | null;
+  before?: unknown;
+  after?: unknown;
+  ip?: string | null;
+  user_agent?: string | null;
+};
+
+function toJson(v: unknown): string | null {
+  return v === undefined || v === null ? null : JSON.stringify(v);
+}
+
+export function computeAuditHash(row: Omit<AuditLogRow, 'seq' | 'hash'>): string {
+  const canonical = JSON.stringify([
+    row.id,
+    row.created_at,
+    row.actor_email,
+    row.actor_role,
+    row.action,
+    row.target_type,
+    row.target_id,
+    row.before_json,
+    row.after_json,
+    row.ip,
+    row.user_agent,
+  ]);
+  return createHash('sha256').update(`${row.prev_hash}\n${canonical}`, 'utf8').digest('hex');
+}
+
+// Appends read the chain head and insert the next row; serialize them so two
+// concurrent admin actions never link to the same prev_hash (single process, single connection).
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+export function appendAuditLog(entry: AuditEntry): Promise<AuditLogRow> {
+  const run = async (): Promise<AuditLogRow> => {
+    const head = await getAuditLogHead();
+    const row: Omit<AuditLogRow, 'seq' | 'hash'> = {
+      id: randomUUID(),
+      created_at: Math.floor(Date.now() / 1000),
+      actor_email: entry.actor_email.toLowerCase(),
+      actor_role: entry.actor_role ?? null,
+      action: entry.action,
+      target_type: entry.target_type,
+      target_id: entry.target_id ?? null,
+      before_json: toJson(entry.before),
+      after_json: toJson(entry.after),
+      ip: entry.ip ?? null,
+      user_agent: entry.user_agent ? entry.user_agent.slice(0, 255) : null,
+      prev_hash: head?.hash ?? AUDIT_GENESIS_HASH,
+    };
+    const hash = computeAuditHash(row);
+    const seq = await insertAuditLogRow({ ...row, hash });
+    return { ...row, seq, hash };
+  };
+  const p = appendQueue.then(run, run);
+  appendQueue = p.catch(() => undefined);
+  return p;
+}
+
+export async function verifyAuditChain(): Promise<{
+  ok: boolean;
+  checked: number;
+  head_seq: number | null;
+  head_hash: string | null;
+  broken_at_seq?: number;
+  reason?: 'PREV_HASH_MISMATCH' | 'HASH_MISMATCH';
+}> {
+  let prevHash = AUDIT_GENESIS_HASH;
+  let lastSeq = 0;
+  let checked = 0;
+  for (;;) {
+    const rows = await listAuditLogAfter(lastSeq, 1000);
+    if (!rows.length) break;
+    for (const row of rows) {
+      if (row.prev_hash !== prevHash) {
+        return { ok: false, checked, head_seq: lastSeq || null, head_hash: checked ? prevHash : null, broken_at_seq: row.seq, reason: 'PREV_HASH_MISMATCH' };
+      }
+      if (computeAuditHash(row) !== row.hash) {
+        return { ok: false, checked, head_seq: lastSeq || null, head_hash: checked ? prevHash : null, broken_at_seq: row.seq, reason: 'HASH_MISMATCH' };
+      }
+      prevHash = row.hash;
+      lastSeq = row.seq;
+      checked++;
+    }
+  }
+  return { ok: true, checked, head_seq: lastSeq || null, head_hash: checked ? prevHash : null };
+}
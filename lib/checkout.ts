@@ -0,0 +1,83 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { getInvoiceForCheckout, type Invoice } from './db';
+import { decodeQris } from './qris_codec';
+
+/**
+ * Hosted checkout (/pay/:invoice_id?t=checkout_token, rendered by the SPA).
+ *
+ * The token is the only credential: anyone holding the link sees the amount,
+ * the QR and the status of that one invoice, nothing else.
+ */
+
+// Absolute origin for checkout links (e.g. https://pay.example.com); relative links without it
+export const CHECKOUT_BASE_URL = String(process.env.CHECKOUT_BASE_URL || '').replace(/\/+$/, '');
+
+const MAX_REDIRECT_URL_LENGTH = 2048;
+
+export function newCheckoutToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function checkoutUrl(inv: Pick<Invoice, 'id' | 'checkout_token'>): string | null {
+  if (!inv.checkout_token) return null;
+  return `${CHECKOUT_BASE_URL}/pay/${encodeURIComponent(inv.id)}?t=${encodeURIComponent(inv.checkout_token)}`;
+}
+
+/** success_url / failure_url: absolute http(s) URL or nothing. */
+export function parseRedirectUrl(v: unknown): { url: string | null; error?: string } {
+  if (v == null || v === '') return { url: null };
+  const raw = String(v).trim();
+  if (raw.length > MAX_REDIRECT_URL_LENGTH) return { url: null, error: `must be at most ${MAX_REDIRECT_URL_LENGTH} characters` };
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return { url: null, error: 'must be an absolute URL' };
+  }
+  if (u.protocol !== 'https:' && u.protocol !== 'http:') return { url: null, error: 'must use http or https' };
+  return { url: u.toString() };
+}
+
+// Where the checkout sends the customer once the invoice is final
+export function redirectTarget(inv: Invoice): string | null {
+  const base = inv.status === 'paid' ? inv.success_url : inv.status === 'expired' || inv.status === 'cancelled' ? inv.failure_url : null;
+  if (!base) return null;
+  const u = new URL(base);
+  u.searchParams.set('invoice_id', inv.id);
+  u.searchParams.set('status', inv.status);
+  if (inv.reference_id) u.searchParams.set('reference_id', inv.reference_id);
+  return u.toString();
+}
+
+export async function loadCheckoutInvoice(invoiceId: string, token: string): Promise<Invoice | null> {
+  if (!invoiceId || !token) return null;
+  const inv = await getInvoiceForCheckout(invoiceId);
+  if (!inv?.checkout_token) return null;
+  const a = Buffer.from(inv.checkout_token);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b) ? inv : null;
+}
+
+/** What the public checkout page may see (no merchant ids, usernames or metadata). */
+export function toCheckoutView(inv: Invoice) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    invoice_id: inv.id,
+    reference_id: inv.reference_id,
+    // Name printed in the QRIS itself, i.e. what the customer's banking app will show
+    merchant_name: decodeQris(inv.qris_string).fields.merchant_name,
+    base_amount: inv.base_amount,
+    unique_suffix: inv.unique_suffix,
+    final_amount: inv.final_amount,
+    tip_fee: inv.tip_fee,
+    amount_strategy: inv.amount_strategy,
+    status: inv.status,
+    qris_string: inv.status === 'pending' ? inv.qris_string : null,
+    created_at: inv.created_at,
+    expires_at: inv.expires_at,
+    paid_at: inv.paid_at,
+    server_time: now,
+    redirect_url: redirectTarget(inv),
+    sandbox: inv.env === 'sandbox',
+  };
+}
@@ -4,32 +4,48 @@ import { PendingTransaction, PaidTransaction } from './types.js';
 import fs from 'fs';
 import path from 'path';
 import { createHash, randomBytes, randomUUID } from 'crypto';
+import { sealSecret, openSecret } from './vault';
+import { candidateAmounts, isAmountStrategy, DEFAULT_AMOUNT_STRATEGY, type AmountStrategy } from './amount_strategy';
+import { DEFAULT_PROVIDER, isProviderName, type PaymentMutation, type ProviderName } from './providers/types';
+import { ADMIN_PERMISSIONS, DEFAULT_ADMIN_ROLES, SUPERADMIN_ROLE, bootstrapAdminEmails, isAdminPermission, type AdminPermission } from './admin_rbac';
+import { AsyncLocalStorage } from 'async_hooks';
+import { publishInvoiceEvent, type InvoiceEventNotice } from './event_bus';
+import { webhookEventMatches } from './webhook_endpoints';
 
 let dbPromise: Promise<Database> | null = null;
+let gatedDb: Database | null = null;
 
 function getDbPath(): string {
   // Default location inside the project (good for Pterodactyl volume)
   return process.env.SQLITE_PATH || path.join(process.cwd(), 'data', 'orderkuota.sqlite');
 }
 
-async function getDb(): Promise<Database> {
-  if (!dbPromise) {
-    const filename = getDbPath();
-    fs.mkdirSync(path.dirname(filename), { recursive: true });
-
-    dbPromise = open({
-      filename,
-      driver: sqlite3.Database,
-    });
+async function openDb(): Promise<Database> {
+  const filename = getDbPath();
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
 
-    // Helpful pragmas for small/medium workloads
-    const db = await dbPromise;
-    await db.exec('PRAGMA journal_mode=WAL;');
-    await db.exec('PRAGMA synchronous=NORMAL;');
-    await db.exec('PRAGMA foreign_keys=ON;');
-  }
+  const db = await open({
+    filename,
+    driver: sqlite3.Database,
+  });
+  // Statements run one by one in the order they were issued (see Transactions below)
+  db.getDatabaseInstance().serialize();
+
+  // Helpful pragmas for small/medium workloads
+  await db.exec('PRAGMA journal_mode=WAL;');
+  await db.exec('PRAGMA synchronous=NORMAL;');
+  await db.exec('PRAGMA foreign_keys=ON;');
+  // Other processes (scheduler, serverless) may hold the write lock of a transaction
+  await db.exec('PRAGMA busy_timeout=5000;');
+  return db;
+}
 
-  return dbPromise;
+async function getDb(): Promise<Database> {
+  if (!dbPromise) dbPromise = openDb();
+  const db = await dbPromise;
+  // Inside withTransaction the statements belong to the open transaction
+  if (txContext.getStore()) return db;
+  return (gatedDb ??= gateStatements(db));
 }
 
 export async function initDb(): Promise<void> {
@@ -70,6 +86,32 @@ export async function initDb(): Promise<void> {
     now
   );
 
+  // Bounds for per-invoice expires_in / expires_at and extend (seconds)
+  await db.run(
+    `INSERT OR IGNORE INTO settings(key, value_json, updated_at) VALUES(?, ?, ?)`
+    ,
+    'invoice_min_expiry_seconds',
+    JSON.stringify(60),
+    now
+  );
+
+  await db.run(
+    `INSERT OR IGNORE INTO settings(key, value_json, updated_at) VALUES(?, ?, ?)`
+    ,
+    'invoice_max_expiry_seconds',
+    JSON.stringify(48 * 3600),
+    now
+  );
+
+  // How long the old webhook secret keeps signing after a rotation (seconds)
+  await db.run(
+    `INSERT OR IGNORE INTO settings(key, value_json, updated_at) VALUES(?, ?, ?)`
+    ,
+    'webhook_secret_overlap_seconds',
+    JSON.stringify(24 * 3600),
+    now
+  );
+
   await db.exec(`
     CREATE TABLE IF NOT EXISTS pending_transactions (
       id TEXT PRIMARY KEY,
@@ -93,10 +135,18 @@ export async function initDb(): Promise<void> {
     );
   `);
 
-  await db.exec(`
-    CREATE UNIQUE INDEX IF NOT EXISTS idx_user_suffix
-    ON pending_transactions(username, unique_suffix);
-  `);
+  // Uniqueness is on the final amount (what shows up in the mutation history),
+  // not on the suffix, so every amount strategy can share the same table.
+  await db.exec(`DROP INDEX IF EXISTS idx_user_suffix;`);
+  try {
+    await db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_user_final
+      ON pending_transactions(username, final_amount);
+    `);
+  } catch {
+    // Legacy rows may collide (same final amount from different base+suffix); they expire quickly
+    await db.exec(`CREATE INDEX IF NOT EXISTS idx_pending_user_final_legacy ON pending_transactions(username, final_amount);`);
+  }
 
   await db.exec(`
     CREATE INDEX IF NOT EXISTS idx_pending_expires
@@ -174,6 +224,120 @@ export async function initDb(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_used_nonces_expires ON used_nonces(expires_at);
   `);
 
+  // Idempotency-Key for mutating /api/gw requests (fingerprint + cached response)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      merchant_id TEXT NOT NULL,
+      env TEXT NOT NULL DEFAULT 'production',
+      idem_key TEXT NOT NULL,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'processing',
+      response_status INTEGER,
+      response_body TEXT,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      PRIMARY KEY (merchant_id, env, idem_key),
+      FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_idempotency_expires ON idempotency_keys(expires_at);
+  `);
+  // A 'processing' row past locked_until was left by a crashed request; a retry may take it over
+  try { await db.exec(`ALTER TABLE idempotency_keys ADD COLUMN locked_until INTEGER;`); } catch {}
+
+  // Dashboard sessions (/api/app, /api/admin). Only the sha256 of the token is stored
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      email TEXT NOT NULL,
+      mode TEXT NOT NULL DEFAULT 'cookie',
+      csrf_token TEXT NOT NULL,
+      user_agent TEXT,
+      ip TEXT,
+      created_at INTEGER NOT NULL,
+      last_seen_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_sessions_email ON sessions(email);
+    CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at);
+  `);
+
+  // ---- Admin RBAC: roles (permission sets) + admin users ----
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS admin_roles (
+      name TEXT PRIMARY KEY,
+      description TEXT,
+      permissions_json TEXT NOT NULL,
+      built_in INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS admin_users (
+      email TEXT PRIMARY KEY,
+      role TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'active',
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (role) REFERENCES admin_roles(name)
+    );
+  `);
+
+  for (const role of DEFAULT_ADMIN_ROLES) {
+    await db.run(
+      `INSERT OR IGNORE INTO admin_roles(name, description, permissions_json, built_in, created_at, updated_at) VALUES(?, ?, ?, 1, ?, ?)`,
+      role.name,
+      role.description,
+      JSON.stringify(role.permissions),
+      now,
+      now
+    );
+  }
+
+  // ---- Admin audit log (append-only, hash-chained; see lib/audit.ts) ----
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      id TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL,
+      actor_email TEXT NOT NULL,
+      actor_role TEXT,
+      action TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id TEXT,
+      before_json TEXT,
+      after_json TEXT,
+      ip TEXT,
+      user_agent TEXT,
+      prev_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_audit_created ON audit_log(created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_actor ON audit_log(actor_email, created_at);
+    CREATE INDEX IF NOT EXISTS idx_audit_target ON audit_log(target_type, target_id);
+    CREATE TRIGGER IF NOT EXISTS trg_audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    CREATE TRIGGER IF NOT EXISTS trg_audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+  `);
+
+  // ADMIN_EMAILS only seeds the first superadmins; afterwards admin_users is the source of truth
+  const adminCount = await db.get<any>('SELECT COUNT(1) AS c FROM admin_users');
+  if (!Number(adminCount?.c || 0)) {
+    for (const email of bootstrapAdminEmails()) {
+      await db.run(
+        `INSERT OR IGNORE INTO admin_users(email, role, status, created_by, created_at, updated_at) VALUES(?, ?, 'active', 'ADMIN_EMAILS', ?, ?)`,
+        email,
+        SUPERADMIN_ROLE,
+        now,
+        now
+      );
+    }
+  }
+
   // ---- Invoice / Payment Object (gateway) ----
   await db.exec(`
     CREATE TABLE IF NOT EXISTS invoices (
@@ -219,6 +383,65 @@ export async function initDb(): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_invoice_events_invoice ON invoice_events(invoice_id, created_at);
   `);
 
+  // ---- OrderKuota accounts per merchant (token sealed with lib/vault) ----
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS merchant_orderkuota_accounts (
+      id TEXT PRIMARY KEY,
+      merchant_id TEXT NOT NULL,
+      username TEXT NOT NULL,
+      token_sealed TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      last_polled_at INTEGER,
+      last_error TEXT,
+      UNIQUE(merchant_id, username),
+      FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+    );
+  `);
+  await db.exec(`CREATE INDEX IF NOT EXISTS idx_invoices_pending_user ON invoices(merchant_id, username, status);`);
+  try { await db.exec(`ALTER TABLE merchant_orderkuota_accounts ADD COLUMN label TEXT;`); } catch {}
+  try { await db.exec(`ALTER TABLE merchant_orderkuota_accounts ADD COLUMN qris_static TEXT;`); } catch {}
+  try { await db.exec(`ALTER TABLE merchant_orderkuota_accounts ADD COLUMN token_status TEXT NOT NULL DEFAULT 'unchecked';`); } catch {}
+  try { await db.exec(`ALTER TABLE merchant_orderkuota_accounts ADD COLUMN token_checked_at INTEGER;`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN account_id TEXT;`); } catch {}
+  // QRIS tag 62 references embedded in the dynamic QRIS (62.01 bill number, 62.05 reference label)
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN qris_bill_number TEXT;`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN qris_reference_label TEXT;`); } catch {}
+  // Fixed/percentage convenience fee (QRIS tag 55/56/57) paid on top of final_amount
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN tip_fee INTEGER NOT NULL DEFAULT 0;`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN amount_strategy TEXT NOT NULL DEFAULT 'add_suffix';`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN provider TEXT NOT NULL DEFAULT 'orderkuota';`); } catch {}
+  // Hosted checkout (/pay/:id?t=checkout_token) + redirect targets
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN checkout_token TEXT;`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN success_url TEXT;`); } catch {}
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN failure_url TEXT;`); } catch {}
+  // Child invoices of a reusable payment link
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN payment_link_id TEXT;`); } catch {}
+  await db.exec(`CREATE INDEX IF NOT EXISTS idx_invoices_payment_link ON invoices(payment_link_id, status);`);
+  try { await db.exec(`ALTER TABLE invoices ADD COLUMN cancelled_at INTEGER;`); } catch {}
+  await db.exec(`CREATE INDEX IF NOT EXISTS idx_invoices_qris_bill ON invoices(qris_bill_number);`);
+  await db.exec(`CREATE INDEX IF NOT EXISTS idx_invoices_reference ON invoices(merchant_id, env, reference_id);`);
+
+  // ---- OrderKuota OTP linking sessions (dashboard wizard) ----
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS orderkuota_link_sessions (
+      id TEXT PRIMARY KEY,
+      merchant_id TEXT NOT NULL,
+      username TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'otp_sent',
+      token_sealed TEXT,
+      qris_static TEXT,
+      balance INTEGER,
+      qris_balance INTEGER,
+      account_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+    );
+    CREATE INDEX IF NOT EXISTS idx_ok_link_sessions_merchant ON orderkuota_link_sessions(merchant_id, created_at);
+  `);
+
   await db.exec(`
     CREATE TABLE IF NOT EXISTS verification_requests (
       id TEXT PRIMARY KEY,
@@ -292,6 +515,9 @@ try { await db.exec(`ALTER TABLE merchants ADD COLUMN fee_fixed INTEGER NOT NULL
 try { await db.exec(`ALTER TABLE merchants ADD COLUMN suspended_reason TEXT;`); } catch {}
 try { await db.exec(`ALTER TABLE merchants ADD COLUMN sandbox_webhook_url TEXT;`); } catch {}
 try { await db.exec(`ALTER TABLE merchants ADD COLUMN sandbox_webhook_enabled INTEGER NOT NULL DEFAULT 0;`); } catch {}
+try { await db.exec(`ALTER TABLE merchants ADD COLUMN amount_strategy TEXT NOT NULL DEFAULT 'add_suffix';`); } catch {}
+try { await db.exec(`ALTER TABLE merchants ADD COLUMN payment_provider TEXT NOT NULL DEFAULT 'orderkuota';`); } catch {}
+try { await db.exec(`ALTER TABLE merchants ADD COLUMN static_qris TEXT;`); } catch {}
 
 await db.exec(`
   CREATE TABLE IF NOT EXISTS merchant_ip_whitelist (
@@ -310,6 +536,11 @@ try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_api_key
 try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_api_key_prefix TEXT;`); } catch {}
 try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_api_secret TEXT;`); } catch {}
 try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_webhook_secret TEXT;`); } catch {}
+// Webhook secret rotation: the old secret keeps signing until *_expires_at
+try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN previous_webhook_secret TEXT;`); } catch {}
+try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN previous_webhook_secret_expires_at INTEGER;`); } catch {}
+try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_previous_webhook_secret TEXT;`); } catch {}
+try { await db.exec(`ALTER TABLE merchant_credentials ADD COLUMN sandbox_previous_webhook_secret_expires_at INTEGER;`); } catch {}
 
 // ---- Refunds & disputes ----
 await db.exec(`
@@ -407,6 +638,312 @@ await db.exec(`
 `);
 await db.exec(`CREATE INDEX IF NOT EXISTS idx_alerts_open ON alerts(resolved_at, created_at);`);
 
+// ---- Bank mutations imported from statement CSV (static_qris_csv provider) ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS bank_mutations (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    dedupe_hash TEXT NOT NULL,
+    occurred_at INTEGER,
+    amount INTEGER NOT NULL,
+    direction TEXT NOT NULL, -- in|out
+    description TEXT,
+    reference TEXT,
+    imported_at INTEGER NOT NULL,
+    matched_invoice_id TEXT,
+    matched_at INTEGER,
+    UNIQUE(merchant_id, dedupe_hash),
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_bank_mutations_open ON bank_mutations(merchant_id, matched_invoice_id, occurred_at);`);
+
+// ---- Matching engine (lib/matching.ts): consumed mutations + ambiguous match review ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS consumed_mutations (
+    provider TEXT NOT NULL,
+    account_key TEXT NOT NULL, -- OrderKuota username, or merchant id for static_qris_csv
+    mutation_id TEXT NOT NULL,
+    merchant_id TEXT,
+    invoice_id TEXT NOT NULL, -- invoice id (or legacy pending transaction id)
+    amount INTEGER NOT NULL,
+    occurred_at INTEGER,
+    consumed_at INTEGER NOT NULL,
+    PRIMARY KEY (provider, account_key, mutation_id)
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_consumed_mutations_invoice ON consumed_mutations(invoice_id);`);
+
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS match_review_queue (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    account_key TEXT NOT NULL,
+    mutation_id TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    occurred_at INTEGER,
+    description TEXT,
+    reason TEXT NOT NULL, -- MULTIPLE_INVOICES|MULTIPLE_MUTATIONS|NO_TIMESTAMP
+    candidate_invoice_ids_json TEXT NOT NULL,
+    status TEXT NOT NULL, -- open|resolved|dismissed
+    resolved_invoice_id TEXT,
+    resolved_by TEXT,
+    note TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    resolved_at INTEGER,
+    UNIQUE(provider, account_key, mutation_id),
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_match_review_status ON match_review_queue(status, created_at);`);
+
+// ---- Unmatched funds: late payments + near-miss amounts (lib/unmatched_funds.ts) ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS unmatched_funds (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    account_key TEXT NOT NULL,
+    mutation_id TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    occurred_at INTEGER,
+    description TEXT,
+    kind TEXT NOT NULL, -- late|underpaid|overpaid
+    invoice_id TEXT, -- best guess; NULL when several invoices fit
+    expected_amount INTEGER,
+    candidate_invoice_ids_json TEXT NOT NULL,
+    status TEXT NOT NULL, -- open|accepted|refunded
+    resolved_invoice_id TEXT,
+    refund_reference TEXT,
+    note TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    resolved_at INTEGER,
+    UNIQUE(provider, account_key, mutation_id),
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_unmatched_funds_merchant ON unmatched_funds(merchant_id, status, created_at);`);
+// Sandbox 'partial' outcomes are recorded here too (lib/sandbox.ts)
+try { await db.exec(`ALTER TABLE unmatched_funds ADD COLUMN env TEXT NOT NULL DEFAULT 'production';`); } catch {}
+
+// ---- Sandbox: scheduled simulated outcomes (lib/sandbox.ts) ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS sandbox_invoice_plans (
+    invoice_id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    outcome TEXT NOT NULL, -- paid|expired|partial
+    paid_amount INTEGER,
+    source TEXT NOT NULL, -- magic_amount|simulate
+    run_at INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    applied_at INTEGER,
+    FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_sandbox_plans_due ON sandbox_invoice_plans(applied_at, run_at);`);
+
+// ---- Payment links: reusable pages, each payment is a child invoice (lib/payment_links.ts) ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS payment_links (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    env TEXT NOT NULL DEFAULT 'production',
+    slug TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    description TEXT,
+    amount INTEGER, -- fixed amount; NULL = entered by the customer
+    min_amount INTEGER,
+    max_amount INTEGER,
+    max_uses INTEGER, -- paid child invoices; NULL = unlimited
+    account_id TEXT,
+    success_url TEXT,
+    failure_url TEXT,
+    active_from INTEGER,
+    active_until INTEGER,
+    status TEXT NOT NULL, -- active|inactive|archived
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_payment_links_merchant ON payment_links(merchant_id, env, created_at);`);
+
+// ---- Webhook endpoints: many per merchant + env, each with secret + event filter (lib/webhook_endpoints.ts) ----
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id TEXT PRIMARY KEY,
+    merchant_id TEXT NOT NULL,
+    env TEXT NOT NULL DEFAULT 'production',
+    url TEXT NOT NULL,
+    description TEXT,
+    secret TEXT, -- NULL = credentials webhook secret (legacy endpoint)
+    event_types_json TEXT NOT NULL DEFAULT '["*"]',
+    enabled INTEGER NOT NULL DEFAULT 1,
+    legacy INTEGER NOT NULL DEFAULT 0, -- backs /api/app/webhook/config (old single webhook_url)
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (merchant_id) REFERENCES merchants(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_merchant ON webhook_endpoints(merchant_id, env);`);
+try { await db.exec(`ALTER TABLE webhook_endpoints ADD COLUMN previous_secret TEXT;`); } catch {}
+try { await db.exec(`ALTER TABLE webhook_endpoints ADD COLUMN previous_secret_expires_at INTEGER;`); } catch {}
+try { await db.exec(`ALTER TABLE webhook_deliveries ADD COLUMN endpoint_id TEXT;`); } catch {}
+// Manual resend / replay: points at the original delivery (lib/webhook_replay.ts)
+try { await db.exec(`ALTER TABLE webhook_deliveries ADD COLUMN replay_of TEXT;`); } catch {}
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_replay_of ON webhook_deliveries(replay_of);`);
+
+// Every delivery attempt as sent/received (webhook_deliveries only keeps the last result)
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+    id TEXT PRIMARY KEY,
+    delivery_id TEXT NOT NULL,
+    merchant_id TEXT NOT NULL,
+    attempt_number INTEGER NOT NULL,
+    request_url TEXT,
+    request_headers_json TEXT,
+    request_body TEXT,
+    resolved_ip TEXT,
+    status_code INTEGER,
+    response_headers_json TEXT,
+    response_body TEXT,
+    response_truncated INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    duration_ms INTEGER,
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (delivery_id) REFERENCES webhook_deliveries(id) ON DELETE CASCADE
+  );
+`);
+await db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_attempts_delivery ON webhook_delivery_attempts(delivery_id, attempt_number);`);
+
+// Admin-approved exceptions to the webhook SSRF guard (lib/url_guard.ts): hostname, IP or CIDR
+await db.exec(`
+  CREATE TABLE IF NOT EXISTS webhook_url_allowlist (
+    entry TEXT PRIMARY KEY,
+    note TEXT,
+    created_by TEXT,
+    created_at INTEGER NOT NULL
+  );
+`);
+
+// One-time move of merchants.webhook_url / sandbox_webhook_url into a legacy endpoint;
+// queued deliveries follow it. The column is cleared so this never runs twice.
+const legacyWebhooks = await db.all<any[]>(
+  `SELECT id, webhook_url, webhook_enabled, sandbox_webhook_url, sandbox_webhook_enabled FROM merchants
+   WHERE webhook_url IS NOT NULL OR sandbox_webhook_url IS NOT NULL`
+);
+for (const m of legacyWebhooks) {
+  for (const env of ['production', 'sandbox'] as const) {
+    const url = env === 'sandbox' ? m.sandbox_webhook_url : m.webhook_url;
+    if (!url) continue;
+    const enabled = Number((env === 'sandbox' ? m.sandbox_webhook_enabled : m.webhook_enabled) || 0) === 1 ? 1 : 0;
+    const endpointId = randomUUID();
+    await db.run(
+      `INSERT INTO webhook_endpoints (id, merchant_id, env, url, description, secret, event_types_json, enabled, legacy, created_at, updated_at)
+       VALUES (?, ?, ?, ?, NULL, NULL, '["*"]', ?, 1, ?, ?)`,
+      endpointId,
+      String(m.id),
+      env,
+      String(url),
+      enabled,
+      now,
+      now
+    );
+    await db.run(
+      `UPDATE webhook_deliveries SET endpoint_id = ? WHERE merchant_id = ? AND env = ? AND endpoint_id IS NULL AND status = 'queued'`,
+      endpointId,
+      String(m.id),
+      env
+    );
+  }
+  await db.run('UPDATE merchants SET webhook_url = NULL, sandbox_webhook_url = NULL WHERE id = ?', String(m.id));
+}
+
+}
+
+// -----------------
+// Transactions
+// -----------------
+/**
+ * All helpers share one connection, so a transaction would also swallow (and
+ * on ROLLBACK undo) whatever other requests run meanwhile. Outside a
+ * transaction, getDb() hands out a view whose statements wait while one is
+ * open; the connection runs statements in issue order, so nothing issued
+ * before BEGIN can land after it. Transactions are queued in process and
+ * BEGIN IMMEDIATE takes the write lock against other processes. Everything
+ * waits on an open transaction: keep bodies short and DB-only. A nested call
+ * runs in a SAVEPOINT, so its failure undoes only its own writes. Invoice event
+ * notices are held back until COMMIT so SSE listeners never see a row that
+ * gets rolled back.
+ */
+const txContext = new AsyncLocalStorage<{ notices: InvoiceEventNotice[]; savepoints: number }>();
+let txQueue: Promise<unknown> = Promise.resolve();
+// Settles when the open transaction ends; null when none is open
+let openTx: Promise<void> | null = null;
+
+const GATED_METHODS = new Set(['run', 'get', 'all', 'exec', 'each']);
+
+function gateStatements(db: Database): Database {
+  return new Proxy(db, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== 'string' || !GATED_METHODS.has(prop) || typeof value !== 'function') return value;
+      return async (...args: unknown[]) => {
+        while (openTx) await openTx;
+        // No await between the check and issuing the statement
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const outer = txContext.getStore();
+  if (outer) {
+    const db = await getDb();
+    const name = `sp_${++outer.savepoints}`;
+    const noticeCount = outer.notices.length;
+    await db.exec(`SAVEPOINT ${name}`);
+    try {
+      const out = await fn();
+      await db.exec(`RELEASE ${name}`);
+      return out;
+    } catch (e) {
+      await db.exec(`ROLLBACK TO ${name}`).catch(() => {});
+      await db.exec(`RELEASE ${name}`).catch(() => {});
+      outer.notices.length = noticeCount;
+      throw e;
+    }
+  }
+
+  const run = txQueue.then(async () => {
+    if (!dbPromise) dbPromise = openDb();
+    const db = await dbPromise;
+    const ctx = { notices: [] as InvoiceEventNotice[], savepoints: 0 };
+    let done!: () => void;
+    openTx = new Promise<void>((resolve) => (done = resolve));
+    let out: T;
+    try {
+      await db.exec('BEGIN IMMEDIATE');
+      try {
+        out = await txContext.run(ctx, fn);
+        await db.exec('COMMIT');
+      } catch (e) {
+        await db.exec('ROLLBACK').catch(() => {});
+        throw e;
+      }
+    } finally {
+      openTx = null;
+      done();
+    }
+    for (const notice of ctx.notices) publishInvoiceEvent(notice);
+    return out;
+  });
+  txQueue = run.catch(() => undefined);
+  return run;
 }
 
 // -----------------
@@ -448,23 +985,6 @@ export type MerchantCredentials = {
   rotated_at: number | null;
 };
 
-export type Invoice = {
-  id: string;
-  merchant_id: string;
-  env?: 'production' | 'sandbox';
-  username: string;
-  reference_id: string | null;
-  base_amount: number;
-  unique_suffix: number;
-  final_amount: number;
-  status: 'created' | 'pending' | 'paid' | 'expired' | 'refunded';
-  qris_string: string;
-  created_at: number;
-  expires_at: number;
-  paid_at: number | null;
-  metadata_json: string | null;
-};
-
 export type VerificationRequest = {
   id: string;
   merchant_id: string;
@@ -495,6 +1015,12 @@ export async function getMerchantByEmail(email: string): Promise<Merchant | null
   };
 }
 
+export async function setMerchantPasswordHash(email: string, passwordHash: string): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run('UPDATE merchants SET password_hash = ?, updated_at = ? WHERE owner_email = ?', passwordHash, now, email.toLowerCase());
+}
+
 export async function getMerchantById(id: string): Promise<Merchant | null> {
   const db = await getDb();
   const row = await db.get<any>('SELECT * FROM merchants WHERE id = ?', id);
@@ -593,18 +1119,19 @@ export async function createOrRotateCredentials(merchantId: string): Promise<{ a
       now
     );
   } else {
+    // The webhook secret is rotated on its own (rotateMerchantWebhookSecret) so receivers get an overlap window
     await db.run(
-      'UPDATE merchant_credentials SET api_key_hash = ?, api_key_prefix = ?, api_secret = ?, webhook_secret = ?, rotated_at = ? WHERE merchant_id = ?',
+      'UPDATE merchant_credentials SET api_key_hash = ?, api_key_prefix = ?, api_secret = ?, rotated_at = ? WHERE merchant_id = ?',
       apiKeyHash,
       apiKeyPrefix,
       apiSecret,
-      webhookSecret,
       now,
       merchantId
     );
   }
 
-  return { api_key: apiKey, api_key_prefix: apiKeyPrefix, api_secret: apiSecret, webhook_secret: webhookSecret };
+  const current = existing ? await getMerchantWebhookSecret(merchantId, 'production') : null;
+  return { api_key: apiKey, api_key_prefix: apiKeyPrefix, api_secret: apiSecret, webhook_secret: current || webhookSecret };
 
 }
 
@@ -622,8 +1149,9 @@ export async function createOrRotateSandboxCredentials(merchantId: string): Prom
     // Ensure a production row exists first
     await createOrRotateCredentials(merchantId);
   }
+  // Only the first sandbox key gets a webhook secret here; later ones keep it (see rotateMerchantWebhookSecret)
   await db.run(
-    'UPDATE merchant_credentials SET sandbox_api_key_hash = ?, sandbox_api_key_prefix = ?, sandbox_api_secret = ?, sandbox_webhook_secret = ? WHERE merchant_id = ?',
+    'UPDATE merchant_credentials SET sandbox_api_key_hash = ?, sandbox_api_key_prefix = ?, sandbox_api_secret = ?, sandbox_webhook_secret = COALESCE(sandbox_webhook_secret, ?) WHERE merchant_id = ?',
     apiKeyHash,
     apiKeyPrefix,
     apiSecret,
@@ -631,7 +1159,8 @@ export async function createOrRotateSandboxCredentials(merchantId: string): Prom
     merchantId
   );
 
-  return { api_key: apiKey, api_key_prefix: apiKeyPrefix, api_secret: apiSecret, webhook_secret: webhookSecret };
+  const current = await getMerchantWebhookSecret(merchantId, 'sandbox');
+  return { api_key: apiKey, api_key_prefix: apiKeyPrefix, api_secret: apiSecret, webhook_secret: current || webhookSecret };
 }
 
 export type ApiKeyVerification = { merchant_id: string; env: 'production' | 'sandbox' };
@@ -672,36 +1201,69 @@ export async function getMerchantWebhookSecret(merchantId: string, env: 'product
   return sec || null;
 }
 
-export async function getMerchantWebhookConfigEnv(merchantId: string, env: 'production' | 'sandbox' = 'production'): Promise<{ webhook_url: string | null; webhook_enabled: boolean }> {
+/** Secrets that sign a webhook right now: current first, then the previous one while its overlap lasts. */
+export async function getMerchantWebhookSecrets(merchantId: string, env: 'production' | 'sandbox' = 'production', now = Math.floor(Date.now() / 1000)): Promise<string[]> {
   const db = await getDb();
-  const row = await db.get<any>('SELECT webhook_url, webhook_enabled, sandbox_webhook_url, sandbox_webhook_enabled FROM merchants WHERE id = ?', merchantId);
-  if (!row) return { webhook_url: null, webhook_enabled: false };
-  if (env === 'sandbox') {
-    return { webhook_url: row.sandbox_webhook_url ? String(row.sandbox_webhook_url) : null, webhook_enabled: Number(row.sandbox_webhook_enabled || 0) === 1 };
-  }
-  return { webhook_url: row.webhook_url ? String(row.webhook_url) : null, webhook_enabled: Number(row.webhook_enabled || 0) === 1 };
+  const row = await db.get<any>('SELECT * FROM merchant_credentials WHERE merchant_id = ?', merchantId);
+  if (!row) return [];
+  const p = env === 'sandbox' ? 'sandbox_' : '';
+  const current = String(row[`${p}webhook_secret`] || '');
+  const previous = String(row[`${p}previous_webhook_secret`] || '');
+  const previousUntil = Number(row[`${p}previous_webhook_secret_expires_at`] || 0);
+  return [current, previousUntil > now ? previous : ''].filter(Boolean);
 }
 
-export async function setMerchantWebhookConfigEnv(merchantId: string, env: 'production' | 'sandbox', params: { webhook_url?: string | null; webhook_enabled?: boolean }): Promise<void> {
+/**
+ * New credentials webhook secret (used by legacy endpoints); the current one
+ * moves to previous_* and keeps signing for overlapSeconds (0 = drop it now).
+ */
+export async function rotateMerchantWebhookSecret(merchantId: string, env: 'production' | 'sandbox', overlapSeconds: number): Promise<{ webhook_secret: string; previous_secret_expires_at: number | null } | null> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  if (env === 'sandbox') {
-    await db.run(
-      'UPDATE merchants SET sandbox_webhook_url = COALESCE(?, sandbox_webhook_url), sandbox_webhook_enabled = COALESCE(?, sandbox_webhook_enabled), updated_at = ? WHERE id = ?',
-      params.webhook_url ?? null,
-      typeof params.webhook_enabled === 'boolean' ? (params.webhook_enabled ? 1 : 0) : null,
-      now,
-      merchantId
-    );
-  } else {
-    await db.run(
-      'UPDATE merchants SET webhook_url = COALESCE(?, webhook_url), webhook_enabled = COALESCE(?, webhook_enabled), updated_at = ? WHERE id = ?',
-      params.webhook_url ?? null,
-      typeof params.webhook_enabled === 'boolean' ? (params.webhook_enabled ? 1 : 0) : null,
-      now,
-      merchantId
-    );
+  const p = env === 'sandbox' ? 'sandbox_' : '';
+  const secret = randomToken(env === 'sandbox' ? 'whsec_test_' : 'whsec_', 24);
+  const previousUntil = overlapSeconds > 0 ? now + overlapSeconds : null;
+  const r = await db.run(
+    `UPDATE merchant_credentials
+     SET ${p}previous_webhook_secret = CASE WHEN ? IS NULL THEN NULL ELSE ${p}webhook_secret END,
+         ${p}previous_webhook_secret_expires_at = ?,
+         ${p}webhook_secret = ?
+     WHERE merchant_id = ?`,
+    previousUntil,
+    previousUntil,
+    secret,
+    merchantId
+  );
+  if (Number(r.changes || 0) === 0) return null;
+  return { webhook_secret: secret, previous_secret_expires_at: previousUntil };
+}
+
+// Old single-URL config (/api/app/webhook/config), backed by the legacy webhook endpoint
+export async function getMerchantWebhookConfigEnv(merchantId: string, env: 'production' | 'sandbox' = 'production'): Promise<{ webhook_url: string | null; webhook_enabled: boolean }> {
+  const endpoint = await getLegacyWebhookEndpoint(merchantId, env);
+  return { webhook_url: endpoint?.url ?? null, webhook_enabled: !!endpoint?.enabled };
+}
+
+// null / undefined keep the current value; the legacy endpoint is created on first URL
+export async function setMerchantWebhookConfigEnv(merchantId: string, env: 'production' | 'sandbox', params: { webhook_url?: string | null; webhook_enabled?: boolean }): Promise<void> {
+  const endpoint = await getLegacyWebhookEndpoint(merchantId, env);
+  if (endpoint) {
+    await updateWebhookEndpoint(endpoint.id, merchantId, {
+      url: params.webhook_url ?? undefined,
+      enabled: typeof params.webhook_enabled === 'boolean' ? params.webhook_enabled : undefined,
+    });
+    return;
   }
+  if (!params.webhook_url) return;
+  await createWebhookEndpoint({
+    merchant_id: merchantId,
+    env,
+    url: params.webhook_url,
+    description: null,
+    event_types: ['*'],
+    enabled: params.webhook_enabled ?? false,
+    legacy: true,
+  });
 }
 
 
@@ -898,25 +1460,28 @@ export async function cleanupExpired(): Promise<void> {
   await db.run('DELETE FROM paid_transactions WHERE expires_at < ?', now);
 }
 
-export async function getAvailableSuffix(username: string): Promise<number> {
+/**
+ * Pick the first candidate final amount (per strategy) not used by a pending
+ * transaction of this OrderKuota username. Returns null when exhausted.
+ */
+export async function allocateFinalAmount(
+  username: string,
+  baseAmount: number,
+  strategy: AmountStrategy
+): Promise<{ final_amount: number; unique_suffix: number } | null> {
   await cleanupExpired();
 
   const db = await getDb();
-  const rows = await db.all<{ unique_suffix: number }[]>(
-    'SELECT unique_suffix FROM pending_transactions WHERE username = ?',
+  const rows = await db.all<{ final_amount: number }[]>(
+    'SELECT final_amount FROM pending_transactions WHERE username = ?',
     username
   );
+  const used = new Set<number>(rows.map(r => Number(r.final_amount)));
 
-  const usedSet = new Set<number>(rows.map(r => Number((r as any).unique_suffix)));
-
-  for (let i = 1; i <= 500; i++) {
-    if (!usedSet.has(i)) return i;
+  for (const finalAmount of candidateAmounts(strategy, baseAmount)) {
+    if (!used.has(finalAmount)) return { final_amount: finalAmount, unique_suffix: finalAmount - baseAmount };
   }
-  for (let i = 501; i <= 999; i++) {
-    if (!usedSet.has(i)) return i;
-  }
-
-  throw new Error('No suffix available');
+  return null;
 }
 
 export async function createPendingTransaction(tx: PendingTransaction): Promise<void> {
@@ -958,10 +1523,11 @@ export async function deletePendingTransaction(id: string): Promise<void> {
   await db.run('DELETE FROM pending_transactions WHERE id = ?', id);
 }
 
+// A row cached earlier (legacy /api/qris/check on an invoice id) is kept as is
 export async function createPaidTransaction(tx: PaidTransaction): Promise<void> {
   const db = await getDb();
   await db.run(
-    `INSERT INTO paid_transactions (id, username, final_amount, paid_at, expires_at)
+    `INSERT OR IGNORE INTO paid_transactions (id, username, final_amount, paid_at, expires_at)
      VALUES (?, ?, ?, ?, ?)`,
     tx.id,
     tx.username,
@@ -1003,43 +1569,376 @@ export async function markNonceUsed(merchantId: string, nonce: string, expiresAt
   await db.run('INSERT OR REPLACE INTO used_nonces(merchant_id, nonce, expires_at) VALUES(?, ?, ?)', merchantId, nonce, expiresAt);
 }
 
-export async function getMerchantSecretForSigning(merchantId: string, env: 'production' | 'sandbox' = 'production'): Promise<string | null> {
-  return getMerchantSigningSecret(merchantId, env);
-}
-
 // -----------------
-// Invoice / Payment Object helpers
+// Dashboard session helpers
 // -----------------
-export type InvoiceStatus = 'created' | 'pending' | 'paid' | 'expired' | 'refunded';
+export type SessionMode = 'cookie' | 'bearer';
 
-export type Invoice = {
+export type DashboardSession = {
   id: string;
-  merchant_id: string;
-  env?: 'production' | 'sandbox';
-  username: string;
-  reference_id: string | null;
-  base_amount: number;
-  unique_suffix: number;
-  final_amount: number;
-  status: InvoiceStatus;
-  qris_string: string;
+  email: string;
+  mode: SessionMode;
+  csrf_token: string;
   created_at: number;
+  last_seen_at: number;
   expires_at: number;
-  paid_at: number | null;
-  metadata_json: string | null;
 };
 
-export async function createInvoiceRecord(input: {
-  id: string;
-  merchant_id: string;
-  env?: 'production' | 'sandbox';
-  username: string;
-  reference_id?: string | null;
-  base_amount: number;
-  unique_suffix: number;
-  final_amount: number;
+function mapSession(row: any): DashboardSession {
+  return {
+    id: String(row.id),
+    email: String(row.email),
+    mode: String(row.mode) === 'bearer' ? 'bearer' : 'cookie',
+    csrf_token: String(row.csrf_token),
+    created_at: Number(row.created_at),
+    last_seen_at: Number(row.last_seen_at),
+    expires_at: Number(row.expires_at),
+  };
+}
+
+export async function createSession(input: {
+  token_hash: string;
+  email: string;
+  mode: SessionMode;
+  csrf_token: string;
+  ttl_seconds: number;
+  user_agent?: string | null;
+  ip?: string | null;
+}): Promise<DashboardSession> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const id = randomUUID();
+  const expiresAt = now + input.ttl_seconds;
+  await db.run(
+    `INSERT INTO sessions(id, token_hash, email, mode, csrf_token, user_agent, ip, created_at, last_seen_at, expires_at, revoked_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)`,
+    id,
+    input.token_hash,
+    input.email.toLowerCase(),
+    input.mode,
+    input.csrf_token,
+    input.user_agent ?? null,
+    input.ip ?? null,
+    now,
+    now,
+    expiresAt
+  );
+  return { id, email: input.email.toLowerCase(), mode: input.mode, csrf_token: input.csrf_token, created_at: now, last_seen_at: now, expires_at: expiresAt };
+}
+
+export async function getActiveSessionByTokenHash(tokenHash: string): Promise<DashboardSession | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const row = await db.get<any>('SELECT * FROM sessions WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > ?', tokenHash, now);
+  return row ? mapSession(row) : null;
+}
+
+export async function touchSession(id: string, now: number): Promise<void> {
+  const db = await getDb();
+  await db.run('UPDATE sessions SET last_seen_at = ? WHERE id = ?', now, id);
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', now, id);
+}
+
+export async function revokeSessionsForEmail(email: string): Promise<number> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const r = await db.run('UPDATE sessions SET revoked_at = ? WHERE email = ? AND revoked_at IS NULL', now, email.toLowerCase());
+  return Number(r.changes || 0);
+}
+
+// -----------------
+// Admin RBAC helpers
+// -----------------
+export type AdminRole = {
+  name: string;
+  description: string | null;
+  permissions: AdminPermission[];
+  built_in: boolean;
+  updated_at: number;
+};
+
+export type AdminUser = {
+  email: string;
+  role: string;
+  status: 'active' | 'disabled';
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+function parsePermissions(json: unknown): AdminPermission[] {
+  try {
+    const arr = JSON.parse(String(json || '[]'));
+    return Array.isArray(arr) ? arr.filter(isAdminPermission) : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapAdminRole(row: any): AdminRole {
+  return {
+    name: String(row.name),
+    description: row.description ? String(row.description) : null,
+    permissions: String(row.name) === SUPERADMIN_ROLE ? [...ADMIN_PERMISSIONS] : parsePermissions(row.permissions_json),
+    built_in: Number(row.built_in) === 1,
+    updated_at: Number(row.updated_at),
+  };
+}
+
+function mapAdminUser(row: any): AdminUser {
+  return {
+    email: String(row.email),
+    role: String(row.role),
+    status: String(row.status) === 'disabled' ? 'disabled' : 'active',
+    created_by: row.created_by ? String(row.created_by) : null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+  };
+}
+
+export async function listAdminRoles(): Promise<AdminRole[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM admin_roles ORDER BY built_in DESC, name ASC');
+  return rows.map(mapAdminRole);
+}
+
+export async function getAdminRole(name: string): Promise<AdminRole | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM admin_roles WHERE name = ?', name);
+  return row ? mapAdminRole(row) : null;
+}
+
+export async function upsertAdminRole(input: { name: string; description?: string | null; permissions: AdminPermission[] }): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO admin_roles(name, description, permissions_json, built_in, created_at, updated_at) VALUES(?, ?, ?, 0, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET description = excluded.description, permissions_json = excluded.permissions_json, updated_at = excluded.updated_at`,
+    input.name,
+    input.description ?? null,
+    JSON.stringify(Array.from(new Set(input.permissions))),
+    now,
+    now
+  );
+}
+
+export async function listAdminUsers(): Promise<AdminUser[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM admin_users ORDER BY created_at ASC');
+  return rows.map(mapAdminUser);
+}
+
+export async function getAdminUser(email: string): Promise<AdminUser | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM admin_users WHERE email = ?', email.toLowerCase());
+  return row ? mapAdminUser(row) : null;
+}
+
+/**
+ * Role + permissions of an active admin (null for non-admins and disabled admins)
+ */
+export async function getAdminAccess(email: string): Promise<{ email: string; role: string; permissions: AdminPermission[] } | null> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    `SELECT u.email, u.role, r.permissions_json
+     FROM admin_users u JOIN admin_roles r ON r.name = u.role
+     WHERE u.email = ? AND u.status = 'active'`,
+    email.toLowerCase()
+  );
+  if (!row) return null;
+  const role = String(row.role);
+  return { email: String(row.email), role, permissions: role === SUPERADMIN_ROLE ? [...ADMIN_PERMISSIONS] : parsePermissions(row.permissions_json) };
+}
+
+export async function upsertAdminUser(input: { email: string; role: string; status: 'active' | 'disabled'; created_by: string }): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO admin_users(email, role, status, created_by, created_at, updated_at) VALUES(?, ?, ?, ?, ?, ?)
+     ON CONFLICT(email) DO UPDATE SET role = excluded.role, status = excluded.status, updated_at = excluded.updated_at`,
+    input.email.toLowerCase(),
+    input.role,
+    input.status,
+    input.created_by,
+    now,
+    now
+  );
+}
+
+export async function deleteAdminUser(email: string): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.run('DELETE FROM admin_users WHERE email = ?', email.toLowerCase());
+  return Number(r.changes || 0) > 0;
+}
+
+export async function countActiveSuperadmins(): Promise<number> {
+  const db = await getDb();
+  const row = await db.get<any>(`SELECT COUNT(1) AS c FROM admin_users WHERE role = ? AND status = 'active'`, SUPERADMIN_ROLE);
+  return Number(row?.c || 0);
+}
+
+export type IdempotencyRecord = {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  idem_key: string;
+  method: string;
+  path: string;
+  fingerprint: string;
+  status: 'processing' | 'completed';
+  response_status: number | null;
+  response_body: string | null;
+  created_at: number;
+  expires_at: number;
+  locked_until: number | null;
+};
+
+export async function getIdempotencyRecord(merchantId: string, env: 'production' | 'sandbox', key: string): Promise<IdempotencyRecord | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const row = await db.get<any>(
+    'SELECT * FROM idempotency_keys WHERE merchant_id = ? AND env = ? AND idem_key = ? AND expires_at > ?',
+    merchantId,
+    env,
+    key,
+    now
+  );
+  if (!row) return null;
+  return {
+    merchant_id: String(row.merchant_id),
+    env: String(row.env) === 'sandbox' ? 'sandbox' : 'production',
+    idem_key: String(row.idem_key),
+    method: String(row.method),
+    path: String(row.path),
+    fingerprint: String(row.fingerprint),
+    status: String(row.status) === 'completed' ? 'completed' : 'processing',
+    response_status: row.response_status == null ? null : Number(row.response_status),
+    response_body: row.response_body == null ? null : String(row.response_body),
+    created_at: Number(row.created_at),
+    expires_at: Number(row.expires_at),
+    locked_until: row.locked_until == null ? null : Number(row.locked_until),
+  };
+}
+
+// Returns false if another request already holds the key (a stale 'processing' lock does not count)
+export async function beginIdempotentRequest(input: {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  idem_key: string;
+  method: string;
+  path: string;
+  fingerprint: string;
+  ttl_seconds: number;
+  lock_seconds: number;
+}): Promise<boolean> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  // An expired row, or one whose request died while processing, no longer counts
+  await db.run(
+    `DELETE FROM idempotency_keys WHERE merchant_id = ? AND env = ? AND idem_key = ?
+       AND (expires_at <= ? OR (status = 'processing' AND COALESCE(locked_until, 0) <= ?))`,
+    input.merchant_id,
+    input.env,
+    input.idem_key,
+    now,
+    now
+  );
+  const r = await db.run(
+    `INSERT OR IGNORE INTO idempotency_keys(merchant_id, env, idem_key, method, path, fingerprint, status, created_at, expires_at, locked_until)
+     VALUES(?, ?, ?, ?, ?, ?, 'processing', ?, ?, ?)`,
+    input.merchant_id,
+    input.env,
+    input.idem_key,
+    input.method,
+    input.path,
+    input.fingerprint,
+    now,
+    now + input.ttl_seconds,
+    now + input.lock_seconds
+  );
+  return Number(r.changes || 0) > 0;
+}
+
+export async function completeIdempotentRequest(merchantId: string, env: 'production' | 'sandbox', key: string, status: number, body: string): Promise<void> {
+  const db = await getDb();
+  await db.run(
+    `UPDATE idempotency_keys SET status = 'completed', response_status = ?, response_body = ? WHERE merchant_id = ? AND env = ? AND idem_key = ?`,
+    status,
+    body,
+    merchantId,
+    env,
+    key
+  );
+}
+
+// Server errors are not cached; the client may retry with the same key
+export async function releaseIdempotentRequest(merchantId: string, env: 'production' | 'sandbox', key: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM idempotency_keys WHERE merchant_id = ? AND env = ? AND idem_key = ?', merchantId, env, key);
+}
+
+export async function getMerchantSecretForSigning(merchantId: string, env: 'production' | 'sandbox' = 'production'): Promise<string | null> {
+  return getMerchantSigningSecret(merchantId, env);
+}
+
+// -----------------
+// Invoice / Payment Object helpers
+// -----------------
+export type InvoiceStatus = 'created' | 'pending' | 'paid' | 'expired' | 'cancelled' | 'partially_refunded' | 'refunded';
+
+export type Invoice = {
+  id: string;
+  merchant_id: string;
+  env?: 'production' | 'sandbox';
+  account_id: string | null;
+  username: string;
+  reference_id: string | null;
+  base_amount: number;
+  unique_suffix: number;
+  final_amount: number;
   status: InvoiceStatus;
   qris_string: string;
+  qris_bill_number: string | null;
+  qris_reference_label: string | null;
+  tip_fee: number;
+  amount_strategy: AmountStrategy;
+  provider: ProviderName;
+  checkout_token: string | null;
+  success_url: string | null;
+  failure_url: string | null;
+  payment_link_id: string | null;
+  created_at: number;
+  expires_at: number;
+  paid_at: number | null;
+  cancelled_at: number | null;
+  metadata_json: string | null;
+};
+
+export async function createInvoiceRecord(input: {
+  id: string;
+  merchant_id: string;
+  env?: 'production' | 'sandbox';
+  account_id?: string | null;
+  username: string;
+  reference_id?: string | null;
+  base_amount: number;
+  unique_suffix: number;
+  final_amount: number;
+  status: InvoiceStatus;
+  qris_string: string;
+  qris_bill_number?: string | null;
+  qris_reference_label?: string | null;
+  tip_fee?: number;
+  amount_strategy?: AmountStrategy;
+  provider?: ProviderName;
+  checkout_token?: string | null;
+  success_url?: string | null;
+  failure_url?: string | null;
+  payment_link_id?: string | null;
   created_at: number;
   expires_at: number;
   metadata?: any;
@@ -1047,12 +1946,13 @@ export async function createInvoiceRecord(input: {
   const db = await getDb();
   await db.run(
     `INSERT INTO invoices
-      (id, merchant_id, env, username, reference_id, base_amount, unique_suffix, final_amount, status, qris_string, created_at, expires_at, paid_at, metadata_json)
-     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)`
+      (id, merchant_id, env, account_id, username, reference_id, base_amount, unique_suffix, final_amount, status, qris_string, qris_bill_number, qris_reference_label, tip_fee, amount_strategy, provider, checkout_token, success_url, failure_url, payment_link_id, created_at, expires_at, paid_at, metadata_json)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)`
     ,
     input.id,
     input.merchant_id,
     (input.env ?? 'production'),
+    input.account_id ?? null,
     input.username,
     input.reference_id ?? null,
     input.base_amount,
@@ -1060,21 +1960,27 @@ export async function createInvoiceRecord(input: {
     input.final_amount,
     input.status,
     input.qris_string,
+    input.qris_bill_number ?? null,
+    input.qris_reference_label ?? null,
+    input.tip_fee ?? 0,
+    input.amount_strategy ?? DEFAULT_AMOUNT_STRATEGY,
+    input.provider ?? DEFAULT_PROVIDER,
+    input.checkout_token ?? null,
+    input.success_url ?? null,
+    input.failure_url ?? null,
+    input.payment_link_id ?? null,
     input.created_at,
     input.expires_at,
     input.metadata ? JSON.stringify(input.metadata) : null
   );
 }
 
-export async function getInvoiceById(invoiceId: string, merchantId?: string): Promise<Invoice | null> {
-  const db = await getDb();
-  const row = merchantId
-    ? await db.get<any>('SELECT * FROM invoices WHERE id = ? AND merchant_id = ?', invoiceId, merchantId)
-    : await db.get<any>('SELECT * FROM invoices WHERE id = ?', invoiceId);
-  if (!row) return null;
+function mapInvoiceRow(row: any): Invoice {
   return {
     id: String(row.id),
     merchant_id: String(row.merchant_id),
+    env: String(row.env || 'production') === 'sandbox' ? 'sandbox' : 'production',
+    account_id: row.account_id ? String(row.account_id) : null,
     username: String(row.username),
     reference_id: row.reference_id ? String(row.reference_id) : null,
     base_amount: Number(row.base_amount),
@@ -1082,20 +1988,77 @@ export async function getInvoiceById(invoiceId: string, merchantId?: string): Pr
     final_amount: Number(row.final_amount),
     status: String(row.status) as InvoiceStatus,
     qris_string: String(row.qris_string),
+    qris_bill_number: row.qris_bill_number ? String(row.qris_bill_number) : null,
+    qris_reference_label: row.qris_reference_label ? String(row.qris_reference_label) : null,
+    tip_fee: Number(row.tip_fee || 0),
+    amount_strategy: isAmountStrategy(row.amount_strategy) ? row.amount_strategy : DEFAULT_AMOUNT_STRATEGY,
+    provider: isProviderName(row.provider) ? row.provider : DEFAULT_PROVIDER,
+    checkout_token: row.checkout_token ? String(row.checkout_token) : null,
+    success_url: row.success_url ? String(row.success_url) : null,
+    failure_url: row.failure_url ? String(row.failure_url) : null,
+    payment_link_id: row.payment_link_id ? String(row.payment_link_id) : null,
     created_at: Number(row.created_at),
     expires_at: Number(row.expires_at),
     paid_at: row.paid_at ? Number(row.paid_at) : null,
+    cancelled_at: row.cancelled_at ? Number(row.cancelled_at) : null,
     metadata_json: row.metadata_json ? String(row.metadata_json) : null,
   };
 }
 
-export async function updateInvoiceStatus(invoiceId: string, merchantId: string, status: InvoiceStatus, paidAt?: number | null): Promise<void> {
+// Public lookup for the hosted checkout; the caller checks the checkout token
+export async function getInvoiceForCheckout(invoiceId: string): Promise<Invoice | null> {
   const db = await getDb();
-  if (status === 'paid') {
-    await db.run('UPDATE invoices SET status = ?, paid_at = ? WHERE id = ? AND merchant_id = ?', status, paidAt ?? Math.floor(Date.now() / 1000), invoiceId, merchantId);
-  } else {
-    await db.run('UPDATE invoices SET status = ? WHERE id = ? AND merchant_id = ?', status, invoiceId, merchantId);
-  }
+  const row = await db.get<any>('SELECT * FROM invoices WHERE id = ?', invoiceId);
+  return row ? mapInvoiceRow(row) : null;
+}
+
+export async function getInvoiceByReferenceId(merchantId: string, env: 'production' | 'sandbox', referenceId: string): Promise<Invoice | null> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    'SELECT * FROM invoices WHERE merchant_id = ? AND env = ? AND reference_id = ? ORDER BY created_at ASC LIMIT 1',
+    merchantId,
+    env,
+    referenceId
+  );
+  return row ? mapInvoiceRow(row) : null;
+}
+
+export async function getInvoiceById(invoiceId: string, merchantId?: string): Promise<Invoice | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM invoices WHERE id = ? AND merchant_id = ?', invoiceId, merchantId)
+    : await db.get<any>('SELECT * FROM invoices WHERE id = ?', invoiceId);
+  if (!row) return null;
+  return mapInvoiceRow(row);
+}
+
+/**
+ * Conditional status change: applies only while the invoice is still in one of
+ * `from` (and, with due_by, only if expires_at <= due_by). Returns false when
+ * another writer got there first. Go through lib/invoice_state.ts.
+ */
+export async function transitionInvoiceStatus(input: {
+  invoice_id: string;
+  merchant_id: string;
+  from: readonly InvoiceStatus[];
+  to: InvoiceStatus;
+  paid_at?: number;
+  cancelled_at?: number;
+  due_by?: number;
+}): Promise<boolean> {
+  if (!input.from.length) return false;
+  const db = await getDb();
+  const sets: string[] = ['status = ?'];
+  const args: any[] = [input.to];
+  if (input.paid_at !== undefined) { sets.push('paid_at = ?'); args.push(input.paid_at); }
+  if (input.cancelled_at !== undefined) { sets.push('cancelled_at = ?'); args.push(input.cancelled_at); }
+
+  const where: string[] = ['id = ?', 'merchant_id = ?', `status IN (${input.from.map(() => '?').join(', ')})`];
+  args.push(input.invoice_id, input.merchant_id, ...input.from);
+  if (input.due_by !== undefined) { where.push('expires_at <= ?'); args.push(input.due_by); }
+
+  const r = await db.run(`UPDATE invoices SET ${sets.join(', ')} WHERE ${where.join(' AND ')}`, ...args);
+  return Number(r.changes || 0) > 0;
 }
 
 export async function listInvoices(merchantId: string, limit = 50, offset = 0): Promise<Invoice[]> {
@@ -1106,21 +2069,7 @@ export async function listInvoices(merchantId: string, limit = 50, offset = 0):
     limit,
     offset
   );
-  return rows.map((row: any) => ({
-    id: String(row.id),
-    merchant_id: String(row.merchant_id),
-    username: String(row.username),
-    reference_id: row.reference_id ? String(row.reference_id) : null,
-    base_amount: Number(row.base_amount),
-    unique_suffix: Number(row.unique_suffix),
-    final_amount: Number(row.final_amount),
-    status: String(row.status) as InvoiceStatus,
-    qris_string: String(row.qris_string),
-    created_at: Number(row.created_at),
-    expires_at: Number(row.expires_at),
-    paid_at: row.paid_at ? Number(row.paid_at) : null,
-    metadata_json: row.metadata_json ? String(row.metadata_json) : null,
-  }));
+  return rows.map(mapInvoiceRow);
 }
 
 export async function createInvoiceEvent(input: { id: string; invoice_id: string; merchant_id: string; event_type: string; payload?: any; created_at: number }): Promise<void> {
@@ -1136,6 +2085,10 @@ export async function createInvoiceEvent(input: { id: string; invoice_id: string
     input.payload ? JSON.stringify(input.payload) : null,
     input.created_at
   );
+  const notice = { id: input.id, invoice_id: input.invoice_id, merchant_id: input.merchant_id, event_type: input.event_type };
+  const tx = txContext.getStore();
+  if (tx) tx.notices.push(notice);
+  else publishInvoiceEvent(notice);
 }
 
 export async function listInvoiceEvents(invoiceId: string, merchantId: string, limit = 50): Promise<Array<{ id: string; event_type: string; payload_json: string | null; created_at: number }>> {
@@ -1154,83 +2107,509 @@ export async function listInvoiceEvents(invoiceId: string, merchantId: string, l
   }));
 }
 
+/**
+ * Events of one invoice in insertion order, after the event with id afterId
+ * (SSE Last-Event-ID). An unknown or missing afterId replays from the start.
+ */
+export async function listInvoiceEventsAfter(
+  invoiceId: string,
+  afterId: string | null,
+  limit = 100
+): Promise<Array<{ id: string; event_type: string; payload_json: string | null; created_at: number }>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT id, event_type, payload_json, created_at FROM invoice_events
+     WHERE invoice_id = ?
+       AND rowid > COALESCE((SELECT rowid FROM invoice_events WHERE id = ? AND invoice_id = ?), 0)
+     ORDER BY rowid ASC LIMIT ?`,
+    invoiceId,
+    afterId ?? '',
+    invoiceId,
+    limit
+  );
+  return rows.map((r: any) => ({
+    id: String(r.id),
+    event_type: String(r.event_type),
+    payload_json: r.payload_json ? String(r.payload_json) : null,
+    created_at: Number(r.created_at),
+  }));
+}
+
 // -----------------
-// Webhook config + deliveries
+// OrderKuota accounts (server-side credentials for the reconciler)
 // -----------------
-export type WebhookConfig = {
-  webhook_url: string | null;
-  webhook_enabled: number; // 0/1
-};
-
-export type WebhookDelivery = {
+export type OrderkuotaAccount = {
   id: string;
   merchant_id: string;
-  env: 'production' | 'sandbox';
-  invoice_id: string | null;
-  event_type: string;
-  payload_json: string;
-  status: 'queued' | 'delivered' | 'failed';
-  attempt_count: number;
-  next_retry_at: number;
-  last_status_code: number | null;
-  last_error: string | null;
-  response_snippet: string | null;
+  label: string | null;
+  username: string;
+  qris_static: string | null;
+  token_status: 'unchecked' | 'valid' | 'invalid';
+  token_checked_at: number | null;
   created_at: number;
   updated_at: number;
+  last_polled_at: number | null;
+  last_error: string | null;
 };
 
-export async function getMerchantWebhookConfig(merchantId: string): Promise<WebhookConfig> {
-  const db = await getDb();
-  const row = await db.get<any>('SELECT webhook_url, webhook_enabled FROM merchants WHERE id = ?', merchantId);
+function mapOrderkuotaAccountRow(row: any): OrderkuotaAccount {
   return {
-    webhook_url: row?.webhook_url ? String(row.webhook_url) : null,
-    webhook_enabled: Number(row?.webhook_enabled || 0),
+    id: String(row.id),
+    merchant_id: String(row.merchant_id),
+    label: row.label ? String(row.label) : null,
+    username: String(row.username),
+    qris_static: row.qris_static ? String(row.qris_static) : null,
+    token_status: (String(row.token_status || 'unchecked') as OrderkuotaAccount['token_status']),
+    token_checked_at: row.token_checked_at ? Number(row.token_checked_at) : null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    last_polled_at: row.last_polled_at ? Number(row.last_polled_at) : null,
+    last_error: row.last_error ? String(row.last_error) : null,
   };
 }
 
-export async function setMerchantWebhookConfig(merchantId: string, cfg: { webhook_url?: string | null; webhook_enabled?: boolean }): Promise<void> {
-  const db = await getDb();
+export async function createOrderkuotaAccount(params: {
+  merchant_id: string;
+  username: string;
+  token: string;
+  label?: string | null;
+  qris_static?: string | null;
+  token_status?: OrderkuotaAccount['token_status'];
+}): Promise<OrderkuotaAccount> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const id = randomUUID();
+  const status = params.token_status ?? 'unchecked';
+  await db.run(
+    `INSERT INTO merchant_orderkuota_accounts(id, merchant_id, label, username, token_sealed, qris_static, token_status, token_checked_at, created_at, updated_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    id,
+    params.merchant_id,
+    params.label ?? null,
+    params.username,
+    sealSecret(params.token),
+    params.qris_static ?? null,
+    status,
+    status === 'unchecked' ? null : now,
+    now,
+    now
+  );
+  const row = await db.get<any>('SELECT * FROM merchant_orderkuota_accounts WHERE id = ?', id);
+  return mapOrderkuotaAccountRow(row);
+}
+
+export async function getOrderkuotaAccount(accountId: string, merchantId?: string): Promise<OrderkuotaAccount | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM merchant_orderkuota_accounts WHERE id = ? AND merchant_id = ?', accountId, merchantId)
+    : await db.get<any>('SELECT * FROM merchant_orderkuota_accounts WHERE id = ?', accountId);
+  return row ? mapOrderkuotaAccountRow(row) : null;
+}
+
+export async function getOrderkuotaAccountByUsername(merchantId: string, username: string): Promise<OrderkuotaAccount | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM merchant_orderkuota_accounts WHERE merchant_id = ? AND username = ?', merchantId, username);
+  return row ? mapOrderkuotaAccountRow(row) : null;
+}
+
+export async function updateOrderkuotaAccount(accountId: string, merchantId: string, patch: {
+  label?: string | null;
+  token?: string;
+  qris_static?: string | null;
+  token_status?: OrderkuotaAccount['token_status'];
+}): Promise<OrderkuotaAccount | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const sets: string[] = ['updated_at = ?'];
+  const args: any[] = [now];
+  if (patch.label !== undefined) { sets.push('label = ?'); args.push(patch.label); }
+  if (patch.qris_static !== undefined) { sets.push('qris_static = ?'); args.push(patch.qris_static); }
+  if (patch.token !== undefined) { sets.push('token_sealed = ?', 'last_error = NULL'); args.push(sealSecret(patch.token)); }
+  if (patch.token_status !== undefined) { sets.push('token_status = ?', 'token_checked_at = ?'); args.push(patch.token_status, now); }
+  await db.run(`UPDATE merchant_orderkuota_accounts SET ${sets.join(', ')} WHERE id = ? AND merchant_id = ?`, ...args, accountId, merchantId);
+  return getOrderkuotaAccount(accountId, merchantId);
+}
+
+export async function deleteOrderkuotaAccount(accountId: string, merchantId: string): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.run('DELETE FROM merchant_orderkuota_accounts WHERE id = ? AND merchant_id = ?', accountId, merchantId);
+  return Number(r.changes || 0) > 0;
+}
+
+export async function listOrderkuotaAccounts(merchantId: string): Promise<OrderkuotaAccount[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM merchant_orderkuota_accounts WHERE merchant_id = ? ORDER BY created_at ASC', merchantId);
+  return rows.map(mapOrderkuotaAccountRow);
+}
+
+export async function getOrderkuotaAccountCredentials(accountId: string): Promise<{ username: string; token: string } | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT username, token_sealed FROM merchant_orderkuota_accounts WHERE id = ?', accountId);
+  if (!row) return null;
+  return { username: String(row.username), token: openSecret(String(row.token_sealed)) };
+}
+
+// Accounts that currently have at least one pending invoice (reconciler work list)
+export async function listOrderkuotaAccountsWithPendingInvoices(): Promise<OrderkuotaAccount[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT a.* FROM merchant_orderkuota_accounts a
+     WHERE EXISTS (
+       SELECT 1 FROM invoices i
+       WHERE i.merchant_id = a.merchant_id AND i.username = a.username AND i.status = 'pending' AND i.env = 'production'
+     )
+     ORDER BY COALESCE(a.last_polled_at, 0) ASC`
+  );
+  return rows.map(mapOrderkuotaAccountRow);
+}
+
+// Accounts with no pending invoice left but one that expired after expiredSince (late payment watch)
+export async function listOrderkuotaAccountsWithOnlyExpiredInvoices(expiredSince: number): Promise<OrderkuotaAccount[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT a.* FROM merchant_orderkuota_accounts a
+     WHERE EXISTS (
+       SELECT 1 FROM invoices i
+       WHERE i.merchant_id = a.merchant_id AND i.username = a.username AND i.status = 'expired' AND i.env = 'production' AND i.expires_at >= ?
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM invoices i
+       WHERE i.merchant_id = a.merchant_id AND i.username = a.username AND i.status = 'pending' AND i.env = 'production'
+     )
+     ORDER BY COALESCE(a.last_polled_at, 0) ASC`,
+    expiredSince
+  );
+  return rows.map(mapOrderkuotaAccountRow);
+}
+
+export async function markOrderkuotaAccountPolled(accountId: string, error: string | null): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run('UPDATE merchant_orderkuota_accounts SET last_polled_at = ?, last_error = ? WHERE id = ?', now, error, accountId);
+}
+
+// ---- OTP linking sessions: start -> otp_sent -> verified -> linked ----
+export type OrderkuotaLinkSession = {
+  id: string;
+  merchant_id: string;
+  username: string;
+  status: 'otp_sent' | 'verified' | 'linked';
+  qris_static: string | null;
+  balance: number | null;
+  qris_balance: number | null;
+  account_id: string | null;
+  created_at: number;
+  updated_at: number;
+  expires_at: number;
+};
+
+function mapOrderkuotaLinkSessionRow(row: any): OrderkuotaLinkSession {
+  return {
+    id: String(row.id),
+    merchant_id: String(row.merchant_id),
+    username: String(row.username),
+    status: String(row.status) as OrderkuotaLinkSession['status'],
+    qris_static: row.qris_static ? String(row.qris_static) : null,
+    balance: row.balance == null ? null : Number(row.balance),
+    qris_balance: row.qris_balance == null ? null : Number(row.qris_balance),
+    account_id: row.account_id ? String(row.account_id) : null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    expires_at: Number(row.expires_at),
+  };
+}
+
+export async function createOrderkuotaLinkSession(merchantId: string, username: string, ttlSeconds: number): Promise<OrderkuotaLinkSession> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const id = randomUUID();
+  await db.run(
+    `INSERT INTO orderkuota_link_sessions(id, merchant_id, username, status, created_at, updated_at, expires_at)
+     VALUES(?, ?, ?, 'otp_sent', ?, ?, ?)`,
+    id,
+    merchantId,
+    username,
+    now,
+    now,
+    now + ttlSeconds
+  );
+  const row = await db.get<any>('SELECT * FROM orderkuota_link_sessions WHERE id = ?', id);
+  return mapOrderkuotaLinkSessionRow(row);
+}
+
+export async function getOrderkuotaLinkSession(sessionId: string, merchantId: string): Promise<OrderkuotaLinkSession | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM orderkuota_link_sessions WHERE id = ? AND merchant_id = ?', sessionId, merchantId);
+  return row ? mapOrderkuotaLinkSessionRow(row) : null;
+}
+
+export async function markOrderkuotaLinkSessionVerified(sessionId: string, merchantId: string, input: {
+  token: string;
+  qris_static: string | null;
+  balance: number | null;
+  qris_balance: number | null;
+}): Promise<OrderkuotaLinkSession | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `UPDATE orderkuota_link_sessions
+     SET status = 'verified', token_sealed = ?, qris_static = ?, balance = ?, qris_balance = ?, updated_at = ?
+     WHERE id = ? AND merchant_id = ?`,
+    sealSecret(input.token),
+    input.qris_static,
+    input.balance,
+    input.qris_balance,
+    now,
+    sessionId,
+    merchantId
+  );
+  return getOrderkuotaLinkSession(sessionId, merchantId);
+}
+
+export async function getOrderkuotaLinkSessionToken(sessionId: string, merchantId: string): Promise<string | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT token_sealed FROM orderkuota_link_sessions WHERE id = ? AND merchant_id = ?', sessionId, merchantId);
+  return row?.token_sealed ? openSecret(String(row.token_sealed)) : null;
+}
+
+// Linked sessions drop their copy of the token; the account row owns it from now on
+export async function markOrderkuotaLinkSessionLinked(sessionId: string, merchantId: string, accountId: string): Promise<void> {
+  const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  const existing = await getMerchantWebhookConfig(merchantId);
-  const url = cfg.webhook_url !== undefined ? cfg.webhook_url : existing.webhook_url;
-  const enabled = cfg.webhook_enabled !== undefined ? (cfg.webhook_enabled ? 1 : 0) : existing.webhook_enabled;
-  await db.run('UPDATE merchants SET webhook_url = ?, webhook_enabled = ?, updated_at = ? WHERE id = ?', url, enabled, now, merchantId);
+  await db.run(
+    `UPDATE orderkuota_link_sessions SET status = 'linked', token_sealed = NULL, account_id = ?, updated_at = ? WHERE id = ? AND merchant_id = ?`,
+    accountId,
+    now,
+    sessionId,
+    merchantId
+  );
+}
+
+// Production only: sandbox invoices are settled by lib/sandbox.ts, never by real mutations
+export async function listPendingInvoicesForUsername(merchantId: string, username: string): Promise<Invoice[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM invoices WHERE merchant_id = ? AND username = ? AND status = 'pending' AND env = 'production' ORDER BY created_at ASC`,
+    merchantId,
+    username
+  );
+  return rows.map(mapInvoiceRow);
+}
+
+// -----------------
+// Webhook config + deliveries
+// -----------------
+export type WebhookEndpointFields = {
+  url: string;
+  description: string | null;
+  event_types: string[];
+  enabled: boolean;
+};
+
+export type WebhookEndpoint = WebhookEndpointFields & {
+  id: string;
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  secret: string | null;
+  previous_secret: string | null;
+  previous_secret_expires_at: number | null;
+  legacy: boolean;
+  created_at: number;
+  updated_at: number;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  endpoint_id: string | null;
+  replay_of: string | null;
+  invoice_id: string | null;
+  event_type: string;
+  payload_json: string;
+  status: 'queued' | 'delivered' | 'failed';
+  attempt_count: number;
+  next_retry_at: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  response_snippet: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+function mapWebhookEndpointRow(r: any): WebhookEndpoint {
+  let eventTypes: string[] = ['*'];
+  try {
+    const parsed = JSON.parse(String(r.event_types_json || '["*"]'));
+    if (Array.isArray(parsed)) eventTypes = parsed.map(String);
+  } catch {}
+  return {
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    env: String(r.env || 'production') === 'sandbox' ? 'sandbox' : 'production',
+    url: String(r.url),
+    description: r.description ? String(r.description) : null,
+    secret: r.secret ? String(r.secret) : null,
+    previous_secret: r.previous_secret ? String(r.previous_secret) : null,
+    previous_secret_expires_at: r.previous_secret_expires_at ? Number(r.previous_secret_expires_at) : null,
+    event_types: eventTypes,
+    enabled: Number(r.enabled || 0) === 1,
+    legacy: Number(r.legacy || 0) === 1,
+    created_at: Number(r.created_at),
+    updated_at: Number(r.updated_at),
+  };
 }
 
-export async function enqueueWebhookDelivery(input: { merchant_id: string; env?: 'production' | 'sandbox'; invoice_id?: string | null; event_type: string; payload: any; run_at?: number }): Promise<string> {
+export async function createWebhookEndpoint(input: WebhookEndpointFields & { merchant_id: string; env: 'production' | 'sandbox'; legacy?: boolean }): Promise<WebhookEndpoint> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
   const id = randomUUID();
+  // Legacy endpoint keeps signing with the credentials webhook secret
+  const secret = input.legacy ? null : randomToken(input.env === 'sandbox' ? 'whsec_test_' : 'whsec_', 24);
+  await db.run(
+    `INSERT INTO webhook_endpoints (id, merchant_id, env, url, description, secret, event_types_json, enabled, legacy, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    id,
+    input.merchant_id,
+    input.env,
+    input.url,
+    input.description,
+    secret,
+    JSON.stringify(input.event_types),
+    input.enabled ? 1 : 0,
+    input.legacy ? 1 : 0,
+    now,
+    now
+  );
+  return (await getWebhookEndpoint(id))!;
+}
+
+export async function getWebhookEndpoint(id: string, merchantId?: string): Promise<WebhookEndpoint | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM webhook_endpoints WHERE id = ? AND merchant_id = ?', id, merchantId)
+    : await db.get<any>('SELECT * FROM webhook_endpoints WHERE id = ?', id);
+  return row ? mapWebhookEndpointRow(row) : null;
+}
+
+export async function getLegacyWebhookEndpoint(merchantId: string, env: 'production' | 'sandbox'): Promise<WebhookEndpoint | null> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    'SELECT * FROM webhook_endpoints WHERE merchant_id = ? AND env = ? AND legacy = 1 ORDER BY created_at ASC LIMIT 1',
+    merchantId,
+    env
+  );
+  return row ? mapWebhookEndpointRow(row) : null;
+}
+
+export async function listWebhookEndpoints(merchantId: string, env?: 'production' | 'sandbox'): Promise<WebhookEndpoint[]> {
+  const db = await getDb();
+  const rows = env
+    ? await db.all<any[]>('SELECT * FROM webhook_endpoints WHERE merchant_id = ? AND env = ? ORDER BY created_at ASC', merchantId, env)
+    : await db.all<any[]>('SELECT * FROM webhook_endpoints WHERE merchant_id = ? ORDER BY env ASC, created_at ASC', merchantId);
+  return rows.map(mapWebhookEndpointRow);
+}
+
+// Endpoint-owned secret only (legacy endpoints rotate the credentials secret); same overlap rules
+export async function rotateWebhookEndpointSecret(id: string, merchantId: string, overlapSeconds: number): Promise<WebhookEndpoint | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const endpoint = await getWebhookEndpoint(id, merchantId);
+  if (!endpoint?.secret) return null;
+  const previousUntil = overlapSeconds > 0 ? now + overlapSeconds : null;
+  await db.run(
+    `UPDATE webhook_endpoints SET secret = ?, previous_secret = ?, previous_secret_expires_at = ?, updated_at = ? WHERE id = ? AND merchant_id = ? AND secret = ?`,
+    randomToken(endpoint.env === 'sandbox' ? 'whsec_test_' : 'whsec_', 24),
+    previousUntil ? endpoint.secret : null,
+    previousUntil,
+    now,
+    id,
+    merchantId,
+    endpoint.secret
+  );
+  return getWebhookEndpoint(id, merchantId);
+}
+
+export async function updateWebhookEndpoint(id: string, merchantId: string, patch: Partial<WebhookEndpointFields>): Promise<WebhookEndpoint | null> {
+  const db = await getDb();
+  const sets: string[] = [];
+  const args: any[] = [];
+  if (patch.url !== undefined) { sets.push('url = ?'); args.push(patch.url); }
+  if (patch.description !== undefined) { sets.push('description = ?'); args.push(patch.description); }
+  if (patch.event_types !== undefined) { sets.push('event_types_json = ?'); args.push(JSON.stringify(patch.event_types)); }
+  if (patch.enabled !== undefined) { sets.push('enabled = ?'); args.push(patch.enabled ? 1 : 0); }
+  if (sets.length) {
+    sets.push('updated_at = ?');
+    args.push(Math.floor(Date.now() / 1000));
+    await db.run(`UPDATE webhook_endpoints SET ${sets.join(', ')} WHERE id = ? AND merchant_id = ?`, ...args, id, merchantId);
+  }
+  return getWebhookEndpoint(id, merchantId);
+}
+
+// Queued deliveries of a deleted endpoint fail with ENDPOINT_DELETED in the worker
+export async function deleteWebhookEndpoint(id: string, merchantId: string): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.run('DELETE FROM webhook_endpoints WHERE id = ? AND merchant_id = ?', id, merchantId);
+  return Number(r.changes || 0) > 0;
+}
+
+/**
+ * Fan out: one delivery per enabled endpoint of merchant + env whose event
+ * filter matches. Returns the delivery ids (empty when nobody listens).
+ */
+export async function enqueueWebhookDelivery(input: { merchant_id: string; env?: 'production' | 'sandbox'; invoice_id?: string | null; event_type: string; payload: any; run_at?: number }): Promise<string[]> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const env = input.env ?? 'production';
   const runAt = input.run_at ?? now;
+  const endpoints = (await listWebhookEndpoints(input.merchant_id, env)).filter((e) => e.enabled && webhookEventMatches(e.event_types, input.event_type));
+  const ids: string[] = [];
+  for (const endpoint of endpoints) {
+    ids.push(await insertWebhookDelivery({ ...input, env, endpoint_id: endpoint.id, payload_json: JSON.stringify(input.payload ?? {}), run_at: runAt }));
+  }
+  return ids;
+}
+
+// Single queued row for one endpoint (fan-out above, manual resend / replay)
+export async function insertWebhookDelivery(input: {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  endpoint_id: string;
+  invoice_id?: string | null;
+  event_type: string;
+  payload_json: string;
+  replay_of?: string | null;
+  run_at?: number;
+}): Promise<string> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const id = randomUUID();
   await db.run(
-    `INSERT INTO webhook_deliveries (id, merchant_id, env, invoice_id, event_type, payload_json, status, attempt_count, next_retry_at, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, 'queued', 0, ?, ?, ?)`
+    `INSERT INTO webhook_deliveries (id, merchant_id, env, endpoint_id, replay_of, invoice_id, event_type, payload_json, status, attempt_count, next_retry_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'queued', 0, ?, ?, ?)`
     ,
     id,
     input.merchant_id,
-    (input.env ?? 'production'),
+    input.env,
+    input.endpoint_id,
+    input.replay_of ?? null,
     input.invoice_id ?? null,
     input.event_type,
-    JSON.stringify(input.payload ?? {}),
-    runAt,
+    input.payload_json,
+    input.run_at ?? now,
     now,
     now
   );
   return id;
 }
 
-export async function listWebhookDeliveries(merchantId: string, limit = 100, offset = 0): Promise<WebhookDelivery[]> {
-  const db = await getDb();
-  const rows = await db.all<any[]>(
-    `SELECT * FROM webhook_deliveries WHERE merchant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?`,
-    merchantId,
-    limit,
-    offset
-  );
-  return rows.map((r: any) => ({
+function mapWebhookDeliveryRow(r: any): WebhookDelivery {
+  return {
     id: String(r.id),
     merchant_id: String(r.merchant_id),
     env: (String(r.env || 'production') === 'sandbox' ? 'sandbox' : 'production'),
+    endpoint_id: r.endpoint_id ? String(r.endpoint_id) : null,
+    replay_of: r.replay_of ? String(r.replay_of) : null,
     invoice_id: r.invoice_id ? String(r.invoice_id) : null,
     event_type: String(r.event_type),
     payload_json: String(r.payload_json),
@@ -1242,7 +2621,85 @@ export async function listWebhookDeliveries(merchantId: string, limit = 100, off
     response_snippet: r.response_snippet ? String(r.response_snippet) : null,
     created_at: Number(r.created_at),
     updated_at: Number(r.updated_at),
-  }));
+  };
+}
+
+export async function getWebhookDelivery(id: string, merchantId?: string): Promise<WebhookDelivery | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM webhook_deliveries WHERE id = ? AND merchant_id = ?', id, merchantId)
+    : await db.get<any>('SELECT * FROM webhook_deliveries WHERE id = ?', id);
+  return row ? mapWebhookDeliveryRow(row) : null;
+}
+
+// The original delivery and every resend of it, oldest first
+export async function listWebhookDeliveryChain(rootId: string): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    'SELECT * FROM webhook_deliveries WHERE id = ? OR replay_of = ? ORDER BY created_at ASC, rowid ASC',
+    rootId,
+    rootId
+  );
+  return rows.map(mapWebhookDeliveryRow);
+}
+
+/**
+ * Failed deliveries in [from, to] (created_at) with nothing queued or delivered
+ * for the same original since: one row per original, so a replay is not sent
+ * twice.
+ */
+export async function listReplayableWebhookDeliveries(params: {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  from_ts: number;
+  to_ts: number;
+  endpoint_id?: string | null;
+  limit: number;
+}): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const where: string[] = [`d.merchant_id = ?`, `d.env = ?`, `d.status = 'failed'`, `d.created_at >= ?`, `d.created_at <= ?`];
+  const args: any[] = [params.merchant_id, params.env, params.from_ts, params.to_ts];
+  if (params.endpoint_id) { where.push('d.endpoint_id = ?'); args.push(params.endpoint_id); }
+  const rows = await db.all<any[]>(
+    `SELECT d.* FROM webhook_deliveries d
+     WHERE ${where.join(' AND ')}
+       AND NOT EXISTS (
+         SELECT 1 FROM webhook_deliveries r
+         WHERE COALESCE(r.replay_of, r.id) = COALESCE(d.replay_of, d.id) AND r.status IN ('queued', 'delivered')
+       )
+       AND d.rowid = (
+         SELECT MAX(x.rowid) FROM webhook_deliveries x WHERE COALESCE(x.replay_of, x.id) = COALESCE(d.replay_of, d.id)
+       )
+     ORDER BY d.created_at ASC LIMIT ?`,
+    ...args,
+    params.limit
+  );
+  return rows.map(mapWebhookDeliveryRow);
+}
+
+// Payload of the delivery originally enqueued for an invoice event (same type + created_at)
+export async function getOriginalWebhookPayload(invoiceId: string, eventType: string, createdAt: number): Promise<string | null> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    `SELECT payload_json FROM webhook_deliveries
+     WHERE invoice_id = ? AND event_type = ? AND created_at = ? AND replay_of IS NULL
+     ORDER BY rowid ASC LIMIT 1`,
+    invoiceId,
+    eventType,
+    createdAt
+  );
+  return row ? String(row.payload_json) : null;
+}
+
+export async function listWebhookDeliveries(merchantId: string, limit = 100, offset = 0): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM webhook_deliveries WHERE merchant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+    merchantId,
+    limit,
+    offset
+  );
+  return rows.map(mapWebhookDeliveryRow);
 }
 
 export async function getDueWebhookDeliveries(limit = 20): Promise<WebhookDelivery[]> {
@@ -1253,172 +2710,1019 @@ export async function getDueWebhookDeliveries(limit = 20): Promise<WebhookDelive
     now,
     limit
   );
+  return rows.map(mapWebhookDeliveryRow);
+}
+
+export type WebhookAttemptDetail = {
+  request_url: string | null;
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  resolved_ip: string | null;
+  response_headers: Record<string, string>;
+  response_body: string | null;
+  response_truncated: boolean;
+  duration_ms: number | null;
+};
+
+export type WebhookDeliveryAttempt = WebhookAttemptDetail & {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  status_code: number | null;
+  error: string | null;
+  created_at: number;
+};
+
+function parseJsonObject(v: unknown): Record<string, string> {
+  if (!v) return {};
+  try {
+    const o = JSON.parse(String(v));
+    return o && typeof o === 'object' && !Array.isArray(o) ? o : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function listWebhookDeliveryAttempts(deliveryIds: string[]): Promise<WebhookDeliveryAttempt[]> {
+  if (!deliveryIds.length) return [];
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM webhook_delivery_attempts WHERE delivery_id IN (${deliveryIds.map(() => '?').join(', ')})
+     ORDER BY created_at ASC, attempt_number ASC`,
+    ...deliveryIds
+  );
   return rows.map((r: any) => ({
     id: String(r.id),
-    merchant_id: String(r.merchant_id),
-    env: (String(r.env || 'production') === 'sandbox' ? 'sandbox' : 'production'),
-    invoice_id: r.invoice_id ? String(r.invoice_id) : null,
-    event_type: String(r.event_type),
-    payload_json: String(r.payload_json),
-    status: String(r.status) as any,
-    attempt_count: Number(r.attempt_count),
-    next_retry_at: Number(r.next_retry_at),
-    last_status_code: r.last_status_code == null ? null : Number(r.last_status_code),
-    last_error: r.last_error ? String(r.last_error) : null,
-    response_snippet: r.response_snippet ? String(r.response_snippet) : null,
+    delivery_id: String(r.delivery_id),
+    attempt_number: Number(r.attempt_number),
+    request_url: r.request_url ? String(r.request_url) : null,
+    request_headers: parseJsonObject(r.request_headers_json),
+    request_body: r.request_body != null ? String(r.request_body) : null,
+    resolved_ip: r.resolved_ip ? String(r.resolved_ip) : null,
+    status_code: r.status_code == null ? null : Number(r.status_code),
+    response_headers: parseJsonObject(r.response_headers_json),
+    response_body: r.response_body != null ? String(r.response_body) : null,
+    response_truncated: Number(r.response_truncated || 0) === 1,
+    error: r.error ? String(r.error) : null,
+    duration_ms: r.duration_ms == null ? null : Number(r.duration_ms),
+    created_at: Number(r.created_at),
+  }));
+}
+
+export async function markWebhookDeliveryResult(input: {
+  id: string;
+  delivered: boolean;
+  status_code?: number | null;
+  error?: string | null;
+  response_snippet?: string | null;
+  next_retry_at?: number | null;
+  attempt?: WebhookAttemptDetail;
+}): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const row = await db.get<any>('SELECT merchant_id, attempt_count FROM webhook_deliveries WHERE id = ?', input.id);
+  const attempt = Number(row?.attempt_count || 0) + 1;
+  if (row) {
+    const a = input.attempt;
+    await db.run(
+      `INSERT INTO webhook_delivery_attempts (id, delivery_id, merchant_id, attempt_number, request_url, request_headers_json, request_body,
+         resolved_ip, status_code, response_headers_json, response_body, response_truncated, error, duration_ms, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      randomUUID(),
+      input.id,
+      String(row.merchant_id),
+      attempt,
+      a?.request_url ?? null,
+      a ? JSON.stringify(a.request_headers) : null,
+      a?.request_body ?? null,
+      a?.resolved_ip ?? null,
+      input.status_code ?? null,
+      a ? JSON.stringify(a.response_headers) : null,
+      a?.response_body ?? null,
+      a?.response_truncated ? 1 : 0,
+      input.error ?? null,
+      a?.duration_ms ?? null,
+      now
+    );
+  }
+  const status = input.delivered ? 'delivered' : (input.next_retry_at === null ? 'failed' : 'queued');
+  const nextRetry = input.delivered ? null : (input.next_retry_at ?? (now + 60));
+  await db.run(
+    `UPDATE webhook_deliveries
+     SET status = ?, attempt_count = ?, next_retry_at = ?, last_status_code = ?, last_error = ?, response_snippet = ?, updated_at = ?
+     WHERE id = ?`,
+    status,
+    attempt,
+    nextRetry ?? now,
+    input.status_code ?? null,
+    input.error ?? null,
+    input.response_snippet ?? null,
+    now,
+    input.id
+  );
+  // If permanently failed, mark failed
+  if (!input.delivered && input.next_retry_at === null) {
+    await db.run(`UPDATE webhook_deliveries SET status = 'failed', updated_at = ? WHERE id = ?`, now, input.id);
+  }
+}
+
+// -----------------
+// CMS: pages + templates + settings
+// -----------------
+export async function upsertSitePage(slug: string, title: string, content_md: string): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO site_pages(slug, title, content_md, updated_at) VALUES(?, ?, ?, ?)
+     ON CONFLICT(slug) DO UPDATE SET title=excluded.title, content_md=excluded.content_md, updated_at=excluded.updated_at`,
+    slug,
+    title,
+    content_md,
+    now
+  );
+}
+
+export async function getSitePage(slug: string): Promise<{ slug: string; title: string; content_md: string; updated_at: number } | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT slug, title, content_md, updated_at FROM site_pages WHERE slug = ?', slug);
+  if (!row) return null;
+  return { slug: String(row.slug), title: String(row.title), content_md: String(row.content_md), updated_at: Number(row.updated_at) };
+}
+
+export async function listSitePages(): Promise<Array<{ slug: string; title: string; updated_at: number }>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT slug, title, updated_at FROM site_pages ORDER BY slug ASC');
+  return rows.map((r: any) => ({ slug: String(r.slug), title: String(r.title), updated_at: Number(r.updated_at) }));
+}
+
+export async function deleteSitePage(slug: string): Promise<void> {
+  const db = await getDb();
+  await db.run('DELETE FROM site_pages WHERE slug = ?', slug);
+}
+
+export async function upsertMessageTemplate(key: string, template_text: string): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO message_templates(key, template_text, updated_at) VALUES(?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET template_text=excluded.template_text, updated_at=excluded.updated_at`,
+    key,
+    template_text,
+    now
+  );
+}
+
+export async function getMessageTemplate(key: string): Promise<{ key: string; template_text: string; updated_at: number } | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT key, template_text, updated_at FROM message_templates WHERE key = ?', key);
+  if (!row) return null;
+  return { key: String(row.key), template_text: String(row.template_text), updated_at: Number(row.updated_at) };
+}
+
+export async function listMessageTemplates(): Promise<Array<{ key: string; template_text: string; updated_at: number }>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT key, template_text, updated_at FROM message_templates ORDER BY key ASC');
+  return rows.map((r: any) => ({ key: String(r.key), template_text: String(r.template_text), updated_at: Number(r.updated_at) }));
+}
+
+export async function setSetting(key: string, value: any): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO settings(key, value_json, updated_at) VALUES(?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET value_json=excluded.value_json, updated_at=excluded.updated_at`,
+    key,
+    JSON.stringify(value),
+    now
+  );
+}
+
+export async function getSettingRaw(key: string): Promise<any | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT value_json FROM settings WHERE key = ?', key);
+  if (!row) return null;
+  try {
+    return JSON.parse(String(row.value_json));
+  } catch {
+    return null;
+  }
+}
+
+
+
+
+
+
+// -----------------
+// Invoice maintenance helpers (scheduler)
+// -----------------
+// Production invoices expire graceSeconds late so the matching engine can still settle them
+export async function listInvoicesDueForExpiry(limit = 200, graceSeconds = 0): Promise<Array<{ id: string; merchant_id: string; env: 'production' | 'sandbox' }>> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const rows = await db.all<any[]>(
+    `SELECT id, merchant_id, env FROM invoices
+     WHERE status = 'pending' AND expires_at + (CASE WHEN env = 'sandbox' THEN 0 ELSE ? END) <= ?
+     ORDER BY expires_at ASC LIMIT ?`,
+    graceSeconds,
+    now,
+    limit
+  );
+  return rows.map((r: any) => ({
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    env: String(r.env || 'production') === 'sandbox' ? 'sandbox' : 'production',
+  }));
+}
+
+/**
+ * Move expires_at of a pending invoice that has not lapsed yet; the pending
+ * transaction keeps its unique amount reserved until the new time.
+ */
+export async function setInvoiceExpiresAt(invoiceId: string, merchantId: string, expiresAt: number, now: number): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.run(
+    `UPDATE invoices SET expires_at = ? WHERE id = ? AND merchant_id = ? AND status = 'pending' AND expires_at > ?`,
+    expiresAt,
+    invoiceId,
+    merchantId,
+    now
+  );
+  if (!Number(r.changes || 0)) return false;
+  await db.run('UPDATE pending_transactions SET expires_at = ? WHERE id = ?', expiresAt, invoiceId);
+  return true;
+}
+
+export async function cleanupExpiredRows(): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run('DELETE FROM used_nonces WHERE expires_at <= ?', now);
+  await db.run('DELETE FROM paid_transactions WHERE expires_at <= ?', now);
+  await db.run('DELETE FROM pending_transactions WHERE expires_at <= ?', now);
+  await db.run(`DELETE FROM orderkuota_link_sessions WHERE expires_at <= ? AND status != 'linked'`, now);
+  await db.run('DELETE FROM idempotency_keys WHERE expires_at <= ?', now);
+  await db.run('DELETE FROM sessions WHERE expires_at <= ? OR revoked_at IS NOT NULL', now);
+}
+
+export async function listAllSettings(): Promise<Array<{ key: string; value_json: string; updated_at: number }>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT key, value_json, updated_at FROM settings ORDER BY key ASC');
+  return rows.map((r: any) => ({ key: String(r.key), value_json: String(r.value_json), updated_at: Number(r.updated_at) }));
+}
+
+
+//
+// -----------------
+// Bank mutation helpers (static_qris_csv provider)
+// -----------------
+export type BankMutation = {
+  id: string;
+  merchant_id: string;
+  occurred_at: number | null;
+  amount: number;
+  direction: 'in' | 'out';
+  description: string | null;
+  reference: string | null;
+  imported_at: number;
+  matched_invoice_id: string | null;
+  matched_at: number | null;
+};
+
+function mapBankMutationRow(r: any): BankMutation {
+  return {
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    occurred_at: r.occurred_at == null ? null : Number(r.occurred_at),
+    amount: Number(r.amount),
+    direction: String(r.direction) === 'out' ? 'out' : 'in',
+    description: r.description ? String(r.description) : null,
+    reference: r.reference ? String(r.reference) : null,
+    imported_at: Number(r.imported_at),
+    matched_invoice_id: r.matched_invoice_id ? String(r.matched_invoice_id) : null,
+    matched_at: r.matched_at == null ? null : Number(r.matched_at),
+  };
+}
+
+// Rows already imported (same dedupe_hash) are skipped
+export async function insertBankMutations(
+  merchantId: string,
+  rows: Array<{ dedupe_hash: string; occurred_at: number | null; amount: number; direction: 'in' | 'out'; description: string | null; reference: string | null }>
+): Promise<{ inserted: number; duplicates: number }> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  let inserted = 0;
+  for (const r of rows) {
+    const res = await db.run(
+      `INSERT OR IGNORE INTO bank_mutations(id, merchant_id, dedupe_hash, occurred_at, amount, direction, description, reference, imported_at)
+       VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      randomUUID(),
+      merchantId,
+      r.dedupe_hash,
+      r.occurred_at,
+      r.amount,
+      r.direction,
+      r.description,
+      r.reference,
+      now
+    );
+    inserted += Number(res.changes || 0);
+  }
+  return { inserted, duplicates: rows.length - inserted };
+}
+
+export async function listBankMutations(merchantId: string, opts: { limit?: number; offset?: number; unmatched_only?: boolean } = {}): Promise<BankMutation[]> {
+  const db = await getDb();
+  const limit = Math.min(500, Math.max(1, Number(opts.limit || 100)));
+  const offset = Math.max(0, Number(opts.offset || 0));
+  const rows = await db.all<any[]>(
+    `SELECT * FROM bank_mutations WHERE merchant_id = ? ${opts.unmatched_only ? 'AND matched_invoice_id IS NULL' : ''}
+     ORDER BY COALESCE(occurred_at, imported_at) DESC LIMIT ? OFFSET ?`,
+    merchantId,
+    limit,
+    offset
+  );
+  return rows.map(mapBankMutationRow);
+}
+
+// Incoming, not yet matched to an invoice, newest first (PaymentProvider.fetchMutations shape)
+export async function listUnmatchedBankMutations(merchantId: string, limit = 1000): Promise<PaymentMutation[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM bank_mutations WHERE merchant_id = ? AND direction = 'in' AND matched_invoice_id IS NULL
+     ORDER BY COALESCE(occurred_at, imported_at) DESC LIMIT ?`,
+    merchantId,
+    limit
+  );
+  return rows.map((r) => {
+    const m = mapBankMutationRow(r);
+    return { id: m.id, amount: m.amount, direction: m.direction, occurred_at: m.occurred_at, description: m.description };
+  });
+}
+
+export async function markBankMutationMatched(mutationId: string, invoiceId: string): Promise<boolean> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const r = await db.run(
+    'UPDATE bank_mutations SET matched_invoice_id = ?, matched_at = ? WHERE id = ? AND matched_invoice_id IS NULL',
+    invoiceId,
+    now,
+    mutationId
+  );
+  return Number(r.changes || 0) > 0;
+}
+
+// Merchants with pending production invoices issued through a provider (reconciler)
+// With expiredSince, merchants whose invoices expired after that time are included too (late payments)
+export async function listMerchantsWithPendingInvoicesForProvider(provider: ProviderName, expiredSince?: number): Promise<string[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT DISTINCT merchant_id FROM invoices
+     WHERE provider = ? AND env = 'production' AND (status = 'pending' OR (status = 'expired' AND expires_at >= ?))`,
+    provider,
+    expiredSince ?? Number.MAX_SAFE_INTEGER
+  );
+  return rows.map((r) => String(r.merchant_id));
+}
+
+// Pending production invoices of one merchant + provider, oldest first
+export async function listPendingInvoicesForMerchant(merchantId: string, provider: ProviderName): Promise<Invoice[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM invoices WHERE merchant_id = ? AND provider = ? AND status = 'pending' AND env = 'production' ORDER BY created_at ASC`,
+    merchantId,
+    provider
+  );
+  return rows.map(mapInvoiceRow);
+}
+
+// -----------------
+// Matching helpers (consumed mutations + review queue, see lib/matching.ts)
+// -----------------
+export type MatchReviewReason = 'MULTIPLE_INVOICES' | 'MULTIPLE_MUTATIONS' | 'NO_TIMESTAMP';
+export type MatchReviewStatus = 'open' | 'resolved' | 'dismissed';
+
+export type MatchReviewItem = {
+  id: string;
+  merchant_id: string;
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+  description: string | null;
+  reason: MatchReviewReason;
+  candidate_invoice_ids: string[];
+  status: MatchReviewStatus;
+  resolved_invoice_id: string | null;
+  resolved_by: string | null;
+  note: string | null;
+  created_at: number;
+  updated_at: number;
+  resolved_at: number | null;
+};
+
+function mapMatchReviewRow(r: any): MatchReviewItem {
+  let candidates: string[] = [];
+  try { candidates = JSON.parse(String(r.candidate_invoice_ids_json || '[]')); } catch { candidates = []; }
+  return {
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    provider: isProviderName(r.provider) ? r.provider : DEFAULT_PROVIDER,
+    account_key: String(r.account_key),
+    mutation_id: String(r.mutation_id),
+    amount: Number(r.amount),
+    occurred_at: r.occurred_at == null ? null : Number(r.occurred_at),
+    description: r.description ? String(r.description) : null,
+    reason: String(r.reason) as MatchReviewReason,
+    candidate_invoice_ids: Array.isArray(candidates) ? candidates.map(String) : [],
+    status: String(r.status) as MatchReviewStatus,
+    resolved_invoice_id: r.resolved_invoice_id ? String(r.resolved_invoice_id) : null,
+    resolved_by: r.resolved_by ? String(r.resolved_by) : null,
+    note: r.note ? String(r.note) : null,
+    created_at: Number(r.created_at),
+    updated_at: Number(r.updated_at),
+    resolved_at: r.resolved_at == null ? null : Number(r.resolved_at),
+  };
+}
+
+export async function listConsumedMutationIds(provider: ProviderName, accountKey: string, mutationIds: string[]): Promise<Set<string>> {
+  const out = new Set<string>();
+  if (!mutationIds.length) return out;
+  const db = await getDb();
+  // Chunk to stay under SQLite's bound-parameter limit
+  for (let i = 0; i < mutationIds.length; i += 500) {
+    const chunk = mutationIds.slice(i, i + 500);
+    const rows = await db.all<any[]>(
+      `SELECT mutation_id FROM consumed_mutations WHERE provider = ? AND account_key = ? AND mutation_id IN (${chunk.map(() => '?').join(',')})`,
+      provider,
+      accountKey,
+      ...chunk
+    );
+    for (const r of rows) out.add(String(r.mutation_id));
+  }
+  return out;
+}
+
+// Claim a mutation for one invoice; false when another invoice already consumed it
+export async function claimMutation(input: {
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  merchant_id: string | null;
+  invoice_id: string;
+  amount: number;
+  occurred_at: number | null;
+}): Promise<boolean> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const r = await db.run(
+    `INSERT OR IGNORE INTO consumed_mutations(provider, account_key, mutation_id, merchant_id, invoice_id, amount, occurred_at, consumed_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?)`,
+    input.provider,
+    input.account_key,
+    input.mutation_id,
+    input.merchant_id,
+    input.invoice_id,
+    input.amount,
+    input.occurred_at,
+    now
+  );
+  return Number(r.changes || 0) > 0;
+}
+
+// Undo a claim when the invoice turned out to be no longer payable
+export async function releaseMutation(provider: ProviderName, accountKey: string, mutationId: string, invoiceId: string): Promise<void> {
+  const db = await getDb();
+  await db.run(
+    'DELETE FROM consumed_mutations WHERE provider = ? AND account_key = ? AND mutation_id = ? AND invoice_id = ?',
+    provider,
+    accountKey,
+    mutationId,
+    invoiceId
+  );
+}
+
+// One open item per mutation; later passes refresh the candidate list instead of duplicating
+export async function upsertMatchReview(input: {
+  merchant_id: string;
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+  description: string | null;
+  reason: MatchReviewReason;
+  candidate_invoice_ids: string[];
+}): Promise<{ id: string; created: boolean }> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const existing = await db.get<any>(
+    'SELECT id, status FROM match_review_queue WHERE provider = ? AND account_key = ? AND mutation_id = ?',
+    input.provider,
+    input.account_key,
+    input.mutation_id
+  );
+  if (existing) {
+    if (String(existing.status) === 'open') {
+      await db.run(
+        'UPDATE match_review_queue SET reason = ?, candidate_invoice_ids_json = ?, updated_at = ? WHERE id = ?',
+        input.reason,
+        JSON.stringify(input.candidate_invoice_ids),
+        now,
+        existing.id
+      );
+    }
+    return { id: String(existing.id), created: false };
+  }
+  const id = randomUUID();
+  await db.run(
+    `INSERT INTO match_review_queue(id, merchant_id, provider, account_key, mutation_id, amount, occurred_at, description, reason, candidate_invoice_ids_json, status, created_at, updated_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)`,
+    id,
+    input.merchant_id,
+    input.provider,
+    input.account_key,
+    input.mutation_id,
+    input.amount,
+    input.occurred_at,
+    input.description,
+    input.reason,
+    JSON.stringify(input.candidate_invoice_ids),
+    now,
+    now
+  );
+  return { id, created: true };
+}
+
+// Mutations already sitting in the queue (any status) are never auto-matched again
+export async function listReviewedMutationIds(provider: ProviderName, accountKey: string): Promise<Set<string>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    'SELECT mutation_id FROM match_review_queue WHERE provider = ? AND account_key = ?',
+    provider,
+    accountKey
+  );
+  return new Set(rows.map((r) => String(r.mutation_id)));
+}
+
+export async function getMatchReview(id: string): Promise<MatchReviewItem | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM match_review_queue WHERE id = ?', id);
+  return row ? mapMatchReviewRow(row) : null;
+}
+
+export async function listMatchReviews(status: MatchReviewStatus | null, limit = 200): Promise<MatchReviewItem[]> {
+  const db = await getDb();
+  const rows = status
+    ? await db.all<any[]>('SELECT * FROM match_review_queue WHERE status = ? ORDER BY created_at DESC LIMIT ?', status, limit)
+    : await db.all<any[]>('SELECT * FROM match_review_queue ORDER BY created_at DESC LIMIT ?', limit);
+  return rows.map(mapMatchReviewRow);
+}
+
+export async function closeMatchReview(id: string, status: 'resolved' | 'dismissed', adminEmail: string, invoiceId: string | null, note: string | null): Promise<boolean> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const r = await db.run(
+    `UPDATE match_review_queue SET status = ?, resolved_invoice_id = ?, resolved_by = ?, note = ?, resolved_at = ?, updated_at = ?
+     WHERE id = ? AND status = 'open'`,
+    status,
+    invoiceId,
+    adminEmail,
+    note,
+    now,
+    now,
+    id
+  );
+  return Number(r.changes || 0) > 0;
+}
+
+// -----------------
+// Unmatched funds helpers (see lib/unmatched_funds.ts)
+// -----------------
+export type UnmatchedFundsKind = 'late' | 'underpaid' | 'overpaid';
+export type UnmatchedFundsStatus = 'open' | 'accepted' | 'refunded';
+
+export type UnmatchedFunds = {
+  id: string;
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+  description: string | null;
+  kind: UnmatchedFundsKind;
+  invoice_id: string | null;
+  expected_amount: number | null;
+  candidate_invoice_ids: string[];
+  status: UnmatchedFundsStatus;
+  resolved_invoice_id: string | null;
+  refund_reference: string | null;
+  note: string | null;
+  created_at: number;
+  updated_at: number;
+  resolved_at: number | null;
+};
+
+function mapUnmatchedFundsRow(r: any): UnmatchedFunds {
+  let candidates: string[] = [];
+  try { candidates = JSON.parse(String(r.candidate_invoice_ids_json || '[]')); } catch { candidates = []; }
+  return {
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    env: String(r.env || 'production') === 'sandbox' ? 'sandbox' : 'production',
+    provider: isProviderName(r.provider) ? r.provider : DEFAULT_PROVIDER,
+    account_key: String(r.account_key),
+    mutation_id: String(r.mutation_id),
+    amount: Number(r.amount),
+    occurred_at: r.occurred_at == null ? null : Number(r.occurred_at),
+    description: r.description ? String(r.description) : null,
+    kind: String(r.kind) as UnmatchedFundsKind,
+    invoice_id: r.invoice_id ? String(r.invoice_id) : null,
+    expected_amount: r.expected_amount == null ? null : Number(r.expected_amount),
+    candidate_invoice_ids: Array.isArray(candidates) ? candidates.map(String) : [],
+    status: String(r.status) as UnmatchedFundsStatus,
+    resolved_invoice_id: r.resolved_invoice_id ? String(r.resolved_invoice_id) : null,
+    refund_reference: r.refund_reference ? String(r.refund_reference) : null,
+    note: r.note ? String(r.note) : null,
+    created_at: Number(r.created_at),
+    updated_at: Number(r.updated_at),
+    resolved_at: r.resolved_at == null ? null : Number(r.resolved_at),
+  };
+}
+
+// Returns null when the mutation is already recorded (one entry per mutation)
+export async function createUnmatchedFunds(input: {
+  merchant_id: string;
+  env?: 'production' | 'sandbox';
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+  description: string | null;
+  kind: UnmatchedFundsKind;
+  invoice_id: string | null;
+  expected_amount: number | null;
+  candidate_invoice_ids: string[];
+}): Promise<UnmatchedFunds | null> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const id = randomUUID();
+  const r = await db.run(
+    `INSERT OR IGNORE INTO unmatched_funds(id, merchant_id, env, provider, account_key, mutation_id, amount, occurred_at, description, kind, invoice_id, expected_amount, candidate_invoice_ids_json, status, created_at, updated_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)`,
+    id,
+    input.merchant_id,
+    input.env ?? 'production',
+    input.provider,
+    input.account_key,
+    input.mutation_id,
+    input.amount,
+    input.occurred_at,
+    input.description,
+    input.kind,
+    input.invoice_id,
+    input.expected_amount,
+    JSON.stringify(input.candidate_invoice_ids),
+    now,
+    now
+  );
+  if (!Number(r.changes || 0)) return null;
+  return getUnmatchedFunds(id);
+}
+
+export async function getUnmatchedFunds(id: string, merchantId?: string): Promise<UnmatchedFunds | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM unmatched_funds WHERE id = ? AND merchant_id = ?', id, merchantId)
+    : await db.get<any>('SELECT * FROM unmatched_funds WHERE id = ?', id);
+  return row ? mapUnmatchedFundsRow(row) : null;
+}
+
+export async function listUnmatchedFunds(
+  merchantId: string,
+  env: 'production' | 'sandbox',
+  opts: { status?: UnmatchedFundsStatus | null; limit: number; offset: number }
+): Promise<UnmatchedFunds[]> {
+  const db = await getDb();
+  const rows = opts.status
+    ? await db.all<any[]>(
+        'SELECT * FROM unmatched_funds WHERE merchant_id = ? AND env = ? AND status = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+        merchantId,
+        env,
+        opts.status,
+        opts.limit,
+        opts.offset
+      )
+    : await db.all<any[]>(
+        'SELECT * FROM unmatched_funds WHERE merchant_id = ? AND env = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+        merchantId,
+        env,
+        opts.limit,
+        opts.offset
+      );
+  return rows.map(mapUnmatchedFundsRow);
+}
+
+// Mutations already recorded as unmatched funds are left out of automatic matching
+export async function listUnmatchedFundsMutationIds(provider: ProviderName, accountKey: string): Promise<Set<string>> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    'SELECT mutation_id FROM unmatched_funds WHERE provider = ? AND account_key = ?',
+    provider,
+    accountKey
+  );
+  return new Set(rows.map((r) => String(r.mutation_id)));
+}
+
+export async function closeUnmatchedFunds(
+  id: string,
+  status: 'accepted' | 'refunded',
+  fields: { resolved_invoice_id?: string | null; refund_reference?: string | null; note?: string | null }
+): Promise<boolean> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  const r = await db.run(
+    `UPDATE unmatched_funds SET status = ?, resolved_invoice_id = ?, refund_reference = ?, note = ?, resolved_at = ?, updated_at = ?
+     WHERE id = ? AND status = 'open'`,
+    status,
+    fields.resolved_invoice_id ?? null,
+    fields.refund_reference ?? null,
+    fields.note ?? null,
+    now,
+    now,
+    id
+  );
+  return Number(r.changes || 0) > 0;
+}
+
+// Invoices that expired recently enough for a late payment to still be attributed to them
+export async function listRecentlyExpiredInvoicesForUsername(merchantId: string, username: string, expiredSince: number): Promise<Invoice[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM invoices WHERE merchant_id = ? AND username = ? AND status = 'expired' AND env = 'production' AND expires_at >= ? ORDER BY created_at ASC`,
+    merchantId,
+    username,
+    expiredSince
+  );
+  return rows.map(mapInvoiceRow);
+}
+
+export async function listRecentlyExpiredInvoicesForMerchant(merchantId: string, provider: ProviderName, expiredSince: number): Promise<Invoice[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>(
+    `SELECT * FROM invoices WHERE merchant_id = ? AND provider = ? AND status = 'expired' AND env = 'production' AND expires_at >= ? ORDER BY created_at ASC`,
+    merchantId,
+    provider,
+    expiredSince
+  );
+  return rows.map(mapInvoiceRow);
+}
+
+// -----------------
+// Payment link helpers (see lib/payment_links.ts)
+// -----------------
+export type PaymentLinkStatus = 'active' | 'inactive' | 'archived';
+
+export type PaymentLink = {
+  id: string;
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  slug: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  max_uses: number | null;
+  account_id: string | null;
+  success_url: string | null;
+  failure_url: string | null;
+  active_from: number | null;
+  active_until: number | null;
+  status: PaymentLinkStatus;
+  created_at: number;
+  updated_at: number;
+};
+
+export type PaymentLinkFields = Omit<PaymentLink, 'id' | 'merchant_id' | 'env' | 'slug' | 'status' | 'created_at' | 'updated_at'>;
+
+function mapPaymentLinkRow(r: any): PaymentLink {
+  return {
+    id: String(r.id),
+    merchant_id: String(r.merchant_id),
+    env: String(r.env) === 'sandbox' ? 'sandbox' : 'production',
+    slug: String(r.slug),
+    title: String(r.title),
+    description: r.description ? String(r.description) : null,
+    amount: r.amount == null ? null : Number(r.amount),
+    min_amount: r.min_amount == null ? null : Number(r.min_amount),
+    max_amount: r.max_amount == null ? null : Number(r.max_amount),
+    max_uses: r.max_uses == null ? null : Number(r.max_uses),
+    account_id: r.account_id ? String(r.account_id) : null,
+    success_url: r.success_url ? String(r.success_url) : null,
+    failure_url: r.failure_url ? String(r.failure_url) : null,
+    active_from: r.active_from == null ? null : Number(r.active_from),
+    active_until: r.active_until == null ? null : Number(r.active_until),
+    status: String(r.status) as PaymentLinkStatus,
     created_at: Number(r.created_at),
     updated_at: Number(r.updated_at),
-  }));
+  };
 }
 
-export async function markWebhookDeliveryResult(input: { id: string; delivered: boolean; status_code?: number | null; error?: string | null; response_snippet?: string | null; next_retry_at?: number | null }): Promise<void> {
+export async function createPaymentLink(input: PaymentLinkFields & { merchant_id: string; env: 'production' | 'sandbox'; slug: string }): Promise<PaymentLink> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  const row = await db.get<any>('SELECT attempt_count FROM webhook_deliveries WHERE id = ?', input.id);
-  const attempt = Number(row?.attempt_count || 0) + 1;
-  const status = input.delivered ? 'delivered' : (input.next_retry_at === null ? 'failed' : 'queued');
-  const nextRetry = input.delivered ? null : (input.next_retry_at ?? (now + 60));
+  const id = randomUUID();
   await db.run(
-    `UPDATE webhook_deliveries
-     SET status = ?, attempt_count = ?, next_retry_at = ?, last_status_code = ?, last_error = ?, response_snippet = ?, updated_at = ?
-     WHERE id = ?`,
-    status,
-    attempt,
-    nextRetry ?? now,
-    input.status_code ?? null,
-    input.error ?? null,
-    input.response_snippet ?? null,
+    `INSERT INTO payment_links(id, merchant_id, env, slug, title, description, amount, min_amount, max_amount, max_uses, account_id, success_url, failure_url, active_from, active_until, status, created_at, updated_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?)`,
+    id,
+    input.merchant_id,
+    input.env,
+    input.slug,
+    input.title,
+    input.description,
+    input.amount,
+    input.min_amount,
+    input.max_amount,
+    input.max_uses,
+    input.account_id,
+    input.success_url,
+    input.failure_url,
+    input.active_from,
+    input.active_until,
     now,
-    input.id
+    now
   );
-  // If permanently failed, mark failed
-  if (!input.delivered && input.next_retry_at === null) {
-    await db.run(`UPDATE webhook_deliveries SET status = 'failed', updated_at = ? WHERE id = ?`, now, input.id);
-  }
+  return (await getPaymentLink(id))!;
 }
 
-// -----------------
-// CMS: pages + templates + settings
-// -----------------
-export async function upsertSitePage(slug: string, title: string, content_md: string): Promise<void> {
+export async function getPaymentLink(id: string, merchantId?: string): Promise<PaymentLink | null> {
   const db = await getDb();
-  const now = Math.floor(Date.now() / 1000);
-  await db.run(
-    `INSERT INTO site_pages(slug, title, content_md, updated_at) VALUES(?, ?, ?, ?)
-     ON CONFLICT(slug) DO UPDATE SET title=excluded.title, content_md=excluded.content_md, updated_at=excluded.updated_at`,
-    slug,
-    title,
-    content_md,
-    now
-  );
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM payment_links WHERE id = ? AND merchant_id = ?', id, merchantId)
+    : await db.get<any>('SELECT * FROM payment_links WHERE id = ?', id);
+  return row ? mapPaymentLinkRow(row) : null;
 }
 
-export async function getSitePage(slug: string): Promise<{ slug: string; title: string; content_md: string; updated_at: number } | null> {
+// Public page lookup
+export async function getPaymentLinkBySlug(slug: string): Promise<PaymentLink | null> {
   const db = await getDb();
-  const row = await db.get<any>('SELECT slug, title, content_md, updated_at FROM site_pages WHERE slug = ?', slug);
-  if (!row) return null;
-  return { slug: String(row.slug), title: String(row.title), content_md: String(row.content_md), updated_at: Number(row.updated_at) };
+  const row = await db.get<any>('SELECT * FROM payment_links WHERE slug = ?', slug);
+  return row ? mapPaymentLinkRow(row) : null;
 }
 
-export async function listSitePages(): Promise<Array<{ slug: string; title: string; updated_at: number }>> {
+export async function listPaymentLinks(
+  merchantId: string,
+  opts: { env: 'production' | 'sandbox'; include_archived?: boolean; limit: number; offset: number }
+): Promise<PaymentLink[]> {
   const db = await getDb();
-  const rows = await db.all<any[]>('SELECT slug, title, updated_at FROM site_pages ORDER BY slug ASC');
-  return rows.map((r: any) => ({ slug: String(r.slug), title: String(r.title), updated_at: Number(r.updated_at) }));
+  const rows = await db.all<any[]>(
+    `SELECT * FROM payment_links WHERE merchant_id = ? AND env = ? ${opts.include_archived ? '' : "AND status != 'archived'"}
+     ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+    merchantId,
+    opts.env,
+    opts.limit,
+    opts.offset
+  );
+  return rows.map(mapPaymentLinkRow);
 }
 
-export async function deleteSitePage(slug: string): Promise<void> {
+export async function updatePaymentLink(
+  id: string,
+  merchantId: string,
+  patch: Partial<PaymentLinkFields> & { status?: PaymentLinkStatus }
+): Promise<PaymentLink | null> {
   const db = await getDb();
-  await db.run('DELETE FROM site_pages WHERE slug = ?', slug);
+  const sets: string[] = ['updated_at = ?'];
+  const args: any[] = [Math.floor(Date.now() / 1000)];
+  const columns = [
+    'title', 'description', 'amount', 'min_amount', 'max_amount', 'max_uses', 'account_id',
+    'success_url', 'failure_url', 'active_from', 'active_until', 'status',
+  ] as const;
+  for (const c of columns) {
+    if (patch[c] !== undefined) { sets.push(`${c} = ?`); args.push(patch[c]); }
+  }
+  await db.run(`UPDATE payment_links SET ${sets.join(', ')} WHERE id = ? AND merchant_id = ?`, ...args, id, merchantId);
+  return getPaymentLink(id, merchantId);
 }
 
-export async function upsertMessageTemplate(key: string, template_text: string): Promise<void> {
+/** used = paid child invoices (refunds included), pending = open checkouts. */
+export async function getPaymentLinkUsage(linkId: string): Promise<{ used: number; pending: number; paid_total: number }> {
   const db = await getDb();
-  const now = Math.floor(Date.now() / 1000);
-  await db.run(
-    `INSERT INTO message_templates(key, template_text, updated_at) VALUES(?, ?, ?)
-     ON CONFLICT(key) DO UPDATE SET template_text=excluded.template_text, updated_at=excluded.updated_at`,
-    key,
-    template_text,
-    now
+  const row = await db.get<any>(
+    `SELECT
+       SUM(CASE WHEN paid_at IS NOT NULL THEN 1 ELSE 0 END) AS used,
+       SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) AS pending,
+       SUM(CASE WHEN paid_at IS NOT NULL THEN final_amount ELSE 0 END) AS paid_total
+     FROM invoices WHERE payment_link_id = ?`,
+    linkId
   );
+  return { used: Number(row?.used || 0), pending: Number(row?.pending || 0), paid_total: Number(row?.paid_total || 0) };
 }
 
-export async function getMessageTemplate(key: string): Promise<{ key: string; template_text: string; updated_at: number } | null> {
+// Pending children of all the merchant's links on one account (null = the default account of the env)
+export async function countPendingPaymentLinkInvoices(merchantId: string, env: 'production' | 'sandbox', accountId: string | null): Promise<number> {
   const db = await getDb();
-  const row = await db.get<any>('SELECT key, template_text, updated_at FROM message_templates WHERE key = ?', key);
-  if (!row) return null;
-  return { key: String(row.key), template_text: String(row.template_text), updated_at: Number(row.updated_at) };
+  const row = await db.get<any>(
+    `SELECT COUNT(*) AS n FROM invoices
+     WHERE merchant_id = ? AND env = ? AND account_id IS ? AND status = 'pending' AND payment_link_id IS NOT NULL`,
+    merchantId,
+    env,
+    accountId
+  );
+  return Number(row?.n || 0);
 }
 
-export async function listMessageTemplates(): Promise<Array<{ key: string; template_text: string; updated_at: number }>> {
+export async function listPaymentLinkInvoices(linkId: string, merchantId: string, limit = 50, offset = 0): Promise<Invoice[]> {
   const db = await getDb();
-  const rows = await db.all<any[]>('SELECT key, template_text, updated_at FROM message_templates ORDER BY key ASC');
-  return rows.map((r: any) => ({ key: String(r.key), template_text: String(r.template_text), updated_at: Number(r.updated_at) }));
+  const rows = await db.all<any[]>(
+    'SELECT * FROM invoices WHERE payment_link_id = ? AND merchant_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?',
+    linkId,
+    merchantId,
+    limit,
+    offset
+  );
+  return rows.map(mapInvoiceRow);
 }
 
-export async function setSetting(key: string, value: any): Promise<void> {
+// -----------------
+// Sandbox plan helpers (simulated outcomes, see lib/sandbox.ts)
+// -----------------
+export type SandboxOutcome = 'paid' | 'expired' | 'partial';
+
+export type SandboxInvoicePlan = {
+  invoice_id: string;
+  merchant_id: string;
+  outcome: SandboxOutcome;
+  paid_amount: number | null;
+  source: 'magic_amount' | 'simulate';
+  run_at: number;
+  created_at: number;
+  applied_at: number | null;
+};
+
+function mapSandboxPlanRow(r: any): SandboxInvoicePlan {
+  return {
+    invoice_id: String(r.invoice_id),
+    merchant_id: String(r.merchant_id),
+    outcome: String(r.outcome) as SandboxOutcome,
+    paid_amount: r.paid_amount == null ? null : Number(r.paid_amount),
+    source: String(r.source) === 'simulate' ? 'simulate' : 'magic_amount',
+    run_at: Number(r.run_at),
+    created_at: Number(r.created_at),
+    applied_at: r.applied_at == null ? null : Number(r.applied_at),
+  };
+}
+
+// One plan per invoice; a newer simulate call replaces whatever was scheduled before
+export async function upsertSandboxPlan(input: Omit<SandboxInvoicePlan, 'created_at' | 'applied_at'>): Promise<SandboxInvoicePlan> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
   await db.run(
-    `INSERT INTO settings(key, value_json, updated_at) VALUES(?, ?, ?)
-     ON CONFLICT(key) DO UPDATE SET value_json=excluded.value_json, updated_at=excluded.updated_at`,
-    key,
-    JSON.stringify(value),
+    `INSERT INTO sandbox_invoice_plans(invoice_id, merchant_id, outcome, paid_amount, source, run_at, created_at, applied_at)
+     VALUES(?, ?, ?, ?, ?, ?, ?, NULL)
+     ON CONFLICT(invoice_id) DO UPDATE SET outcome = excluded.outcome, paid_amount = excluded.paid_amount,
+       source = excluded.source, run_at = excluded.run_at, created_at = excluded.created_at, applied_at = NULL`,
+    input.invoice_id,
+    input.merchant_id,
+    input.outcome,
+    input.paid_amount,
+    input.source,
+    input.run_at,
     now
   );
+  return { ...input, created_at: now, applied_at: null };
 }
 
-export async function getSettingRaw(key: string): Promise<any | null> {
+export async function getSandboxPlan(invoiceId: string): Promise<SandboxInvoicePlan | null> {
   const db = await getDb();
-  const row = await db.get<any>('SELECT value_json FROM settings WHERE key = ?', key);
-  if (!row) return null;
-  try {
-    return JSON.parse(String(row.value_json));
-  } catch {
-    return null;
-  }
+  const row = await db.get<any>('SELECT * FROM sandbox_invoice_plans WHERE invoice_id = ?', invoiceId);
+  return row ? mapSandboxPlanRow(row) : null;
 }
 
-
-
-
-
-
-// -----------------
-// Invoice maintenance helpers (scheduler)
-// -----------------
-export async function listInvoicesDueForExpiry(limit = 200): Promise<Array<{ id: string; merchant_id: string }>> {
+export async function listDueSandboxPlans(limit = 100): Promise<SandboxInvoicePlan[]> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
   const rows = await db.all<any[]>(
-    `SELECT id, merchant_id FROM invoices WHERE status = 'pending' AND expires_at <= ? ORDER BY expires_at ASC LIMIT ?`,
+    'SELECT * FROM sandbox_invoice_plans WHERE applied_at IS NULL AND run_at <= ? ORDER BY run_at ASC LIMIT ?',
     now,
     limit
   );
-  return rows.map((r: any) => ({ id: String(r.id), merchant_id: String(r.merchant_id) }));
+  return rows.map(mapSandboxPlanRow);
 }
 
-export async function setInvoiceExpired(invoiceId: string, merchantId: string, now: number): Promise<void> {
-  const db = await getDb();
-  await db.run(`UPDATE invoices SET status = 'expired' WHERE id = ? AND merchant_id = ?`, invoiceId, merchantId);
-}
-
-export async function cleanupExpiredRows(): Promise<void> {
+// Returns false when another caller (scheduler vs. check endpoint) already claimed the plan
+export async function markSandboxPlanApplied(invoiceId: string): Promise<boolean> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  await db.run('DELETE FROM used_nonces WHERE expires_at <= ?', now);
-  await db.run('DELETE FROM paid_transactions WHERE expires_at <= ?', now);
-  await db.run('DELETE FROM pending_transactions WHERE expires_at <= ?', now);
-}
-
-export async function listAllSettings(): Promise<Array<{ key: string; value_json: string; updated_at: number }>> {
-  const db = await getDb();
-  const rows = await db.all<any[]>('SELECT key, value_json, updated_at FROM settings ORDER BY key ASC');
-  return rows.map((r: any) => ({ key: String(r.key), value_json: String(r.value_json), updated_at: Number(r.updated_at) }));
+  const r = await db.run('UPDATE sandbox_invoice_plans SET applied_at = ? WHERE invoice_id = ? AND applied_at IS NULL', now, invoiceId);
+  return Number(r.changes || 0) > 0;
 }
 
-
-//
 // -----------------
 // IP whitelist helpers
 // -----------------
@@ -1451,6 +3755,76 @@ export async function isIpWhitelistEnabled(merchantId: string): Promise<boolean>
   return Number(row?.ip_whitelist_enabled || 0) === 1;
 }
 
+// -----------------
+// Webhook URL allowlist (admin)
+// -----------------
+export type WebhookUrlAllowlistEntry = { entry: string; note: string | null; created_by: string | null; created_at: number };
+
+export async function listWebhookUrlAllowlist(): Promise<WebhookUrlAllowlistEntry[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM webhook_url_allowlist ORDER BY entry ASC');
+  return rows.map((r: any) => ({
+    entry: String(r.entry),
+    note: r.note ? String(r.note) : null,
+    created_by: r.created_by ? String(r.created_by) : null,
+    created_at: Number(r.created_at),
+  }));
+}
+
+export async function addWebhookUrlAllowlistEntry(entry: string, note: string | null, createdBy: string): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run(
+    `INSERT INTO webhook_url_allowlist(entry, note, created_by, created_at) VALUES(?, ?, ?, ?)
+     ON CONFLICT(entry) DO UPDATE SET note = excluded.note`,
+    entry,
+    note,
+    createdBy,
+    now
+  );
+}
+
+export async function removeWebhookUrlAllowlistEntry(entry: string): Promise<boolean> {
+  const db = await getDb();
+  const r = await db.run('DELETE FROM webhook_url_allowlist WHERE entry = ?', entry);
+  return Number(r.changes || 0) > 0;
+}
+
+export async function getMerchantAmountStrategy(merchantId: string): Promise<AmountStrategy> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT amount_strategy FROM merchants WHERE id = ?', merchantId);
+  return isAmountStrategy(row?.amount_strategy) ? row.amount_strategy : DEFAULT_AMOUNT_STRATEGY;
+}
+
+export async function setMerchantAmountStrategy(merchantId: string, strategy: AmountStrategy): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  await db.run('UPDATE merchants SET amount_strategy = ?, updated_at = ? WHERE id = ?', strategy, now, merchantId);
+}
+
+export async function getMerchantPaymentProvider(merchantId: string): Promise<ProviderName> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT payment_provider FROM merchants WHERE id = ?', merchantId);
+  return isProviderName(row?.payment_provider) && row.payment_provider !== 'sandbox' ? row.payment_provider : DEFAULT_PROVIDER;
+}
+
+export async function getMerchantStaticQris(merchantId: string): Promise<string | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT static_qris FROM merchants WHERE id = ?', merchantId);
+  return row?.static_qris ? String(row.static_qris) : null;
+}
+
+// static_qris: undefined keeps the stored value, null clears it
+export async function setMerchantPaymentProvider(merchantId: string, provider: ProviderName, staticQris?: string | null): Promise<void> {
+  const db = await getDb();
+  const now = Math.floor(Date.now() / 1000);
+  if (staticQris === undefined) {
+    await db.run('UPDATE merchants SET payment_provider = ?, updated_at = ? WHERE id = ?', provider, now, merchantId);
+    return;
+  }
+  await db.run('UPDATE merchants SET payment_provider = ?, static_qris = ?, updated_at = ? WHERE id = ?', provider, staticQris, now, merchantId);
+}
+
 export async function createAlert(params: { merchant_id?: string | null; type: string; message: string }): Promise<void> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
@@ -1472,6 +3846,12 @@ export async function listOpenAlerts(limit = 50): Promise<any[]> {
   return rows;
 }
 
+export async function getAlertById(id: string): Promise<any | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM alerts WHERE id = ?', id);
+  return row || null;
+}
+
 export async function resolveAlert(id: string): Promise<void> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
@@ -1483,21 +3863,60 @@ export async function resolveAlert(id: string): Promise<void> {
 // -----------------
 export type RefundStatus = 'requested' | 'approved' | 'processed' | 'rejected';
 
-export async function createRefundRequest(params: { invoice_id: string; merchant_id: string; amount: number; reason?: string | null }): Promise<string> {
+/**
+ * Insert a refund request only if the invoice total stays within final_amount
+ * (requested + approved + processed refunds). Returns null when it would exceed.
+ */
+export async function createRefundRequest(params: { invoice_id: string; merchant_id: string; amount: number; reason?: string | null }): Promise<string | null> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
   const id = randomUUID();
-  await db.run(
-    'INSERT INTO refunds(id, invoice_id, merchant_id, amount, reason, status, requested_at) VALUES(?, ?, ?, ?, ?, ?, ?)',
+  const amount = Math.max(0, Math.floor(params.amount));
+  const r = await db.run(
+    `INSERT INTO refunds(id, invoice_id, merchant_id, amount, reason, status, requested_at)
+     SELECT ?, i.id, i.merchant_id, ?, ?, 'requested', ?
+     FROM invoices i
+     WHERE i.id = ? AND i.merchant_id = ?
+       AND (SELECT COALESCE(SUM(amount), 0) FROM refunds
+            WHERE invoice_id = i.id AND status IN ('requested', 'approved', 'processed')) + ? <= i.final_amount`,
     id,
+    amount,
+    params.reason ?? null,
+    now,
     params.invoice_id,
     params.merchant_id,
-    Math.max(0, Math.floor(params.amount)),
-    params.reason ?? null,
-    'requested',
-    now
+    amount
   );
-  return id;
+  return Number(r.changes || 0) > 0 ? id : null;
+}
+
+export async function getRefundTotals(invoiceId: string): Promise<{ committed: number; processed: number }> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    `SELECT
+       COALESCE(SUM(CASE WHEN status IN ('requested', 'approved', 'processed') THEN amount ELSE 0 END), 0) AS committed,
+       COALESCE(SUM(CASE WHEN status = 'processed' THEN amount ELSE 0 END), 0) AS processed
+     FROM refunds WHERE invoice_id = ?`,
+    invoiceId
+  );
+  return { committed: Number(row?.committed || 0), processed: Number(row?.processed || 0) };
+}
+
+// env: refunds belong to the env of their invoice
+export async function getRefundForMerchant(id: string, merchantId: string, env: 'production' | 'sandbox'): Promise<any | null> {
+  const db = await getDb();
+  const row = await db.get<any>(
+    'SELECT r.* FROM refunds r JOIN invoices i ON i.id = r.invoice_id WHERE r.id = ? AND r.merchant_id = ? AND i.env = ?',
+    id,
+    merchantId,
+    env
+  );
+  return row || null;
+}
+
+export async function listRefundsForInvoice(invoiceId: string, merchantId: string): Promise<any[]> {
+  const db = await getDb();
+  return db.all<any[]>('SELECT * FROM refunds WHERE invoice_id = ? AND merchant_id = ? ORDER BY requested_at ASC', invoiceId, merchantId);
 }
 
 export async function getRefundById(id: string): Promise<any | null> {
@@ -1506,11 +3925,12 @@ export async function getRefundById(id: string): Promise<any | null> {
   return row || null;
 }
 
-export async function listRefundsForMerchant(merchantId: string, limit = 100): Promise<any[]> {
+export async function listRefundsForMerchant(merchantId: string, env: 'production' | 'sandbox', limit = 100): Promise<any[]> {
   const db = await getDb();
   return db.all<any[]>(
-    'SELECT * FROM refunds WHERE merchant_id = ? ORDER BY requested_at DESC LIMIT ?',
+    'SELECT r.* FROM refunds r JOIN invoices i ON i.id = r.invoice_id WHERE r.merchant_id = ? AND i.env = ? ORDER BY r.requested_at DESC LIMIT ?',
     merchantId,
+    env,
     limit
   );
 }
@@ -1524,32 +3944,32 @@ export async function listRefundsByStatus(status: RefundStatus, limit = 100): Pr
   );
 }
 
-export async function approveRefund(id: string, adminEmail: string): Promise<void> {
+// Transitions return false when the refund was not in the expected state
+export async function approveRefund(id: string, adminEmail: string): Promise<boolean> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  await db.run('UPDATE refunds SET status = ?, approved_at = ?, approved_by = ? WHERE id = ? AND status = ?',
+  const r = await db.run('UPDATE refunds SET status = ?, approved_at = ?, approved_by = ? WHERE id = ? AND status = ?',
     'approved', now, adminEmail, id, 'requested'
   );
+  return Number(r.changes || 0) > 0;
 }
 
-export async function rejectRefund(id: string, adminEmail: string): Promise<void> {
+export async function rejectRefund(id: string, adminEmail: string): Promise<boolean> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  await db.run('UPDATE refunds SET status = ?, approved_at = ?, approved_by = ? WHERE id = ? AND status = ?',
+  const r = await db.run('UPDATE refunds SET status = ?, approved_at = ?, approved_by = ? WHERE id = ? AND status = ?',
     'rejected', now, adminEmail, id, 'requested'
   );
+  return Number(r.changes || 0) > 0;
 }
 
-export async function processRefund(id: string, adminEmail: string): Promise<void> {
+export async function processRefund(id: string, adminEmail: string): Promise<boolean> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
-  const r = await db.get<any>('SELECT * FROM refunds WHERE id = ?', id);
-  if (!r) throw new Error('Refund not found');
-  if (String(r.status) !== 'approved') throw new Error('Refund must be approved first');
-
-  await db.run('UPDATE refunds SET status = ?, processed_at = ?, processed_by = ? WHERE id = ?',
-    'processed', now, adminEmail, id
+  const r = await db.run('UPDATE refunds SET status = ?, processed_at = ?, processed_by = ? WHERE id = ? AND status = ?',
+    'processed', now, adminEmail, id, 'approved'
   );
+  return Number(r.changes || 0) > 0;
 }
 
 // -----------------
@@ -1575,9 +3995,22 @@ export async function createDispute(params: { invoice_id: string; merchant_id: s
   return id;
 }
 
-export async function listDisputesForMerchant(merchantId: string, limit = 100): Promise<any[]> {
+export async function getDisputeById(id: string, merchantId?: string): Promise<any | null> {
+  const db = await getDb();
+  const row = merchantId
+    ? await db.get<any>('SELECT * FROM disputes WHERE id = ? AND merchant_id = ?', id, merchantId)
+    : await db.get<any>('SELECT * FROM disputes WHERE id = ?', id);
+  return row || null;
+}
+
+export async function listDisputesForMerchant(merchantId: string, env: 'production' | 'sandbox', limit = 100): Promise<any[]> {
   const db = await getDb();
-  return db.all<any[]>('SELECT * FROM disputes WHERE merchant_id = ? ORDER BY created_at DESC LIMIT ?', merchantId, limit);
+  return db.all<any[]>(
+    'SELECT d.* FROM disputes d JOIN invoices i ON i.id = d.invoice_id WHERE d.merchant_id = ? AND i.env = ? ORDER BY d.created_at DESC LIMIT ?',
+    merchantId,
+    env,
+    limit
+  );
 }
 
 export async function listDisputesByStatus(status: DisputeStatus, limit = 100): Promise<any[]> {
@@ -1672,6 +4105,18 @@ export async function listSettlements(limit = 200): Promise<any[]> {
   return db.all<any[]>('SELECT * FROM settlements ORDER BY period_date DESC LIMIT ?', limit);
 }
 
+export async function getSettlementById(id: string): Promise<any | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM settlements WHERE id = ?', id);
+  return row || null;
+}
+
+export async function getPayoutById(id: string): Promise<any | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT * FROM payouts WHERE id = ?', id);
+  return row || null;
+}
+
 export async function markSettlementCompleted(settlementId: string): Promise<void> {
   const db = await getDb();
   const now = Math.floor(Date.now() / 1000);
@@ -1694,6 +4139,140 @@ export async function markPayoutPaid(payoutId: string): Promise<void> {
   await db.run('UPDATE payouts SET status = ?, paid_at = ? WHERE id = ?', 'paid', now, payoutId);
 }
 
+// -----------------
+// Audit log helpers (rows are written by lib/audit.ts only)
+// -----------------
+export type AuditLogRow = {
+  seq: number;
+  id: string;
+  created_at: number;
+  actor_email: string;
+  actor_role: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  prev_hash: string;
+  hash: string;
+};
+
+export type AuditLogFilter = {
+  actor_email?: string | null;
+  action?: string | null;
+  target_type?: string | null;
+  target_id?: string | null;
+  from_ts?: number | null;
+  to_ts?: number | null;
+  q?: string | null;
+};
+
+function mapAuditLogRow(row: any): AuditLogRow {
+  return {
+    seq: Number(row.seq),
+    id: String(row.id),
+    created_at: Number(row.created_at),
+    actor_email: String(row.actor_email),
+    actor_role: row.actor_role != null ? String(row.actor_role) : null,
+    action: String(row.action),
+    target_type: String(row.target_type),
+    target_id: row.target_id != null ? String(row.target_id) : null,
+    before_json: row.before_json != null ? String(row.before_json) : null,
+    after_json: row.after_json != null ? String(row.after_json) : null,
+    ip: row.ip != null ? String(row.ip) : null,
+    user_agent: row.user_agent != null ? String(row.user_agent) : null,
+    prev_hash: String(row.prev_hash),
+    hash: String(row.hash),
+  };
+}
+
+function auditLogWhere(f: AuditLogFilter): { clause: string; args: any[] } {
+  const where: string[] = [];
+  const args: any[] = [];
+  if (f.actor_email) { where.push('actor_email = ?'); args.push(f.actor_email.toLowerCase()); }
+  if (f.action) { where.push('action = ?'); args.push(f.action); }
+  if (f.target_type) { where.push('target_type = ?'); args.push(f.target_type); }
+  if (f.target_id) { where.push('target_id = ?'); args.push(f.target_id); }
+  if (f.from_ts != null) { where.push('created_at >= ?'); args.push(f.from_ts); }
+  if (f.to_ts != null) { where.push('created_at <= ?'); args.push(f.to_ts); }
+  if (f.q) {
+    where.push('(before_json LIKE ? OR after_json LIKE ? OR target_id LIKE ?)');
+    const like = `%${f.q}%`;
+    args.push(like, like, like);
+  }
+  return { clause: where.length ? 'WHERE ' + where.join(' AND ') : '', args };
+}
+
+export async function getAuditLogHead(): Promise<{ seq: number; hash: string } | null> {
+  const db = await getDb();
+  const row = await db.get<any>('SELECT seq, hash FROM audit_log ORDER BY seq DESC LIMIT 1');
+  return row ? { seq: Number(row.seq), hash: String(row.hash) } : null;
+}
+
+export async function insertAuditLogRow(row: Omit<AuditLogRow, 'seq'>): Promise<number> {
+  const db = await getDb();
+  const r = await db.run(
+    `INSERT INTO audit_log(id, created_at, actor_email, actor_role, action, target_type, target_id, before_json, after_json, ip, user_agent, prev_hash, hash)
+     VALUES(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    row.id,
+    row.created_at,
+    row.actor_email,
+    row.actor_role,
+    row.action,
+    row.target_type,
+    row.target_id,
+    row.before_json,
+    row.after_json,
+    row.ip,
+    row.user_agent,
+    row.prev_hash,
+    row.hash
+  );
+  return Number(r.lastID);
+}
+
+// Newest first; pass before_seq from the previous page to continue
+export async function searchAuditLog(filter: AuditLogFilter, opts: { limit?: number; before_seq?: number | null } = {}): Promise<AuditLogRow[]> {
+  const db = await getDb();
+  const { clause, args } = auditLogWhere(filter);
+  const limit = Math.min(500, Math.max(1, Number(opts.limit || 100)));
+  const seqClause = opts.before_seq ? (clause ? ' AND seq < ?' : 'WHERE seq < ?') : '';
+  const rows = await db.all<any[]>(
+    `SELECT * FROM audit_log ${clause}${seqClause} ORDER BY seq DESC LIMIT ?`,
+    ...args,
+    ...(opts.before_seq ? [opts.before_seq] : []),
+    limit
+  );
+  return rows.map(mapAuditLogRow);
+}
+
+// Oldest first, for chain verification
+export async function listAuditLogAfter(afterSeq: number, limit = 1000): Promise<AuditLogRow[]> {
+  const db = await getDb();
+  const rows = await db.all<any[]>('SELECT * FROM audit_log WHERE seq > ? ORDER BY seq ASC LIMIT ?', afterSeq, limit);
+  return rows.map(mapAuditLogRow);
+}
+
+export async function exportAuditLogCsv(filter: AuditLogFilter, limit = 50000): Promise<string> {
+  const db = await getDb();
+  const { clause, args } = auditLogWhere(filter);
+  const rows = await db.all<any[]>(`SELECT * FROM audit_log ${clause} ORDER BY seq ASC LIMIT ?`, ...args, Math.min(50000, Math.max(1, limit)));
+
+  const header = ['seq','id','created_at','actor_email','actor_role','action','target_type','target_id','before_json','after_json','ip','user_agent','prev_hash','hash'];
+  const esc = (v: any) => {
+    const s = v == null ? '' : String(v);
+    if (/[",\n]/.test(s)) return '"' + s.replace(/"/g,'""') + '"';
+    return s;
+  };
+  const lines = [header.join(',')];
+  for (const r of rows) {
+    lines.push(header.map((k) => esc(r[k])).join(','));
+  }
+  return lines.join('\n');
+}
+
 // -----------------
 // Stats helpers (basic observability)
 // -----------------
@@ -1706,6 +4285,7 @@ export async function getGlobalStats(days = 30): Promise<any> {
   const paid = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE status = ? AND created_at >= ?', 'paid', since);
   const expired = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE status = ? AND created_at >= ?', 'expired', since);
   const refunded = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE status = ? AND created_at >= ?', 'refunded', since);
+  const partRefunded = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE status = ? AND created_at >= ?', 'partially_refunded', since);
 
   const whFail = await db.get<any>("SELECT COUNT(1) as c FROM webhook_deliveries WHERE status != 'delivered' AND attempt_count >= ? AND created_at >= ?", Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8), since);
 
@@ -1715,6 +4295,7 @@ export async function getGlobalStats(days = 30): Promise<any> {
     invoices_paid: Number(paid?.c || 0),
     invoices_expired: Number(expired?.c || 0),
     invoices_refunded: Number(refunded?.c || 0),
+    invoices_partially_refunded: Number(partRefunded?.c || 0),
     webhook_failures: Number(whFail?.c || 0),
   };
 }
@@ -1728,6 +4309,7 @@ export async function getMerchantStats(merchantId: string, days = 30): Promise<a
   const paid = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE merchant_id = ? AND status = ? AND created_at >= ?', merchantId, 'paid', since);
   const expired = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE merchant_id = ? AND status = ? AND created_at >= ?', merchantId, 'expired', since);
   const refunded = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE merchant_id = ? AND status = ? AND created_at >= ?', merchantId, 'refunded', since);
+  const partRefunded = await db.get<any>('SELECT COUNT(1) as c FROM invoices WHERE merchant_id = ? AND status = ? AND created_at >= ?', merchantId, 'partially_refunded', since);
 
   const whFail = await db.get<any>("SELECT COUNT(1) as c FROM webhook_deliveries WHERE merchant_id = ? AND status != 'delivered' AND attempt_count >= ? AND created_at >= ?", merchantId, Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8), since);
 
@@ -1737,6 +4319,7 @@ export async function getMerchantStats(merchantId: string, days = 30): Promise<a
     invoices_paid: Number(paid?.c || 0),
     invoices_expired: Number(expired?.c || 0),
     invoices_refunded: Number(refunded?.c || 0),
+    invoices_partially_refunded: Number(partRefunded?.c || 0),
     webhook_failures: Number(whFail?.c || 0),
   };
 }
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+
+/**
+ * In-process notifications for invoice_events rows. createInvoiceEvent publishes
+ * after the INSERT; SSE streams subscribe per invoice and then read the rows
+ * from the DB, so the table stays the source of truth (ordering, replay).
+ *
+ * Only reaches listeners in the same process: streams also re-read the table on
+ * every heartbeat, which covers events written elsewhere.
+ */
+
+export type InvoiceEventNotice = { id: string; invoice_id: string; merchant_id: string; event_type: string };
+
+const bus = new EventEmitter();
+// One listener per open stream
+bus.setMaxListeners(0);
+
+export function publishInvoiceEvent(notice: InvoiceEventNotice): void {
+  bus.emit(`invoice:${notice.invoice_id}`, notice);
+}
+
+/** Returns the unsubscribe function. */
+export function subscribeInvoiceEvents(invoiceId: string, listener: (notice: InvoiceEventNotice) => void): () => void {
+  const name = `invoice:${invoiceId}`;
+  bus.on(name, listener);
+  return () => {
+    bus.off(name, listener);
+  };
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import {
+  claimMutation,
+  createInvoiceEvent,
+  enqueueWebhookDelivery,
+  deletePendingTransaction,
+  createPaidTransaction,
+  setInvoiceExpiresAt,
+  withTransaction,
+  getSettingNumber,
+  getInvoiceById,
+  getRefundById,
+  getRefundTotals,
+  approveRefund,
+  rejectRefund,
+  processRefund,
+  type Invoice,
+  type InvoiceStatus,
+} from './db';
+import type { ProviderName } from './providers/types';
+import { transitionInvoice } from './invoice_state';
+
+const PAID_EXPIRY_SECONDS = Number(process.env.PAID_EXPIRY_SECONDS || 3600); // default 1h
+export const DEFAULT_INVOICE_EXPIRY_SECONDS = Number(process.env.INVOICE_EXPIRY_SECONDS || 600); // default 10m
+
+/**
+ * Write an invoice_events row and enqueue a webhook delivery per subscribed endpoint.
+ * Webhook payload = { event_type, ...payload, created_at }.
+ */
+export async function emitInvoiceEvent(input: {
+  invoice_id: string;
+  merchant_id: string;
+  env?: 'production' | 'sandbox';
+  event_type: string;
+  payload: Record<string, unknown>;
+  now?: number;
+}): Promise<void> {
+  const now = input.now ?? Math.floor(Date.now() / 1000);
+  const env = input.env ?? 'production';
+
+  await createInvoiceEvent({
+    id: randomUUID(),
+    invoice_id: input.invoice_id,
+    merchant_id: input.merchant_id,
+    event_type: input.event_type,
+    payload: input.payload,
+    created_at: now,
+  });
+
+  await enqueueWebhookDelivery({
+    merchant_id: input.merchant_id,
+    env,
+    invoice_id: input.invoice_id,
+    event_type: input.event_type,
+    payload: { event_type: input.event_type, ...input.payload, created_at: now },
+    run_at: now,
+  });
+}
+
+// The provider mutation that pays an invoice (see consumed_mutations)
+export type PayingMutation = {
+  provider: ProviderName;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+};
+
+/**
+ * Pending -> paid. Shared by the merchant check endpoint and the background reconciler.
+ * Returns false if the invoice was no longer pending. Accepting late funds also
+ * allows expired -> paid; paid_amount is reported when it differs from final_amount
+ * plus tip_fee.
+ * With `mutation`, the mutation is claimed in the same transaction: if another
+ * invoice already consumed it, nothing changes and false is returned.
+ */
+export async function markInvoicePaid(
+  inv: Invoice,
+  paidAt: number,
+  opts: { allow_expired?: boolean; paid_amount?: number; mutation?: PayingMutation } = {}
+): Promise<boolean> {
+  const mutation = opts.mutation;
+  return transitionInvoice(inv, 'paid', {
+    from: opts.allow_expired ? ['pending', 'expired'] : ['pending'],
+    paid_at: paidAt,
+    apply: async () => {
+      if (mutation && !(await claimMutation({ ...mutation, merchant_id: inv.merchant_id, invoice_id: inv.id }))) return false;
+      await deletePendingTransaction(inv.id);
+      await createPaidTransaction({
+        id: inv.id,
+        username: inv.username,
+        final_amount: inv.final_amount,
+        paid_at: paidAt,
+        expires_at: paidAt + PAID_EXPIRY_SECONDS,
+      });
+      await emitInvoiceEvent({
+        invoice_id: inv.id,
+        merchant_id: inv.merchant_id,
+        env: inv.env,
+        event_type: 'payment.paid',
+        payload: {
+          invoice_id: inv.id,
+          final_amount: inv.final_amount,
+          ...(inv.tip_fee ? { tip_fee: inv.tip_fee } : {}),
+          paid_at: paidAt,
+          ...(opts.paid_amount != null && opts.paid_amount !== inv.final_amount + inv.tip_fee ? { paid_amount: opts.paid_amount } : {}),
+        },
+        now: paidAt,
+      });
+    },
+  });
+}
+
+/**
+ * Pending -> expired. Shared by the scheduler, the check endpoint and the
+ * sandbox simulator; the webhook goes out on the invoice's own env (sandbox
+ * URL + secret for sandbox). due_by skips invoices whose expires_at has been
+ * extended past it in the meantime. Returns false if nothing changed.
+ */
+export async function markInvoiceExpired(
+  inv: Pick<Invoice, 'id' | 'merchant_id' | 'env'>,
+  now: number,
+  opts: { due_by?: number } = {}
+): Promise<boolean> {
+  return transitionInvoice(inv, 'expired', {
+    due_by: opts.due_by,
+    apply: async () => {
+      await deletePendingTransaction(inv.id);
+      await emitInvoiceEvent({
+        invoice_id: inv.id,
+        merchant_id: inv.merchant_id,
+        env: inv.env,
+        event_type: 'payment.expired',
+        payload: { invoice_id: inv.id },
+        now,
+      });
+    },
+  });
+}
+
+/** Admin settings invoice_min_expiry_seconds / invoice_max_expiry_seconds. */
+export async function getInvoiceExpiryBounds(): Promise<{ min: number; max: number }> {
+  const min = await getSettingNumber('invoice_min_expiry_seconds', 60);
+  const max = await getSettingNumber('invoice_max_expiry_seconds', 48 * 3600);
+  return { min, max: Math.max(min, max) };
+}
+
+/**
+ * expires_in (seconds from now) or expires_at (unix seconds) from a request body.
+ * expires_at = null means "not given". The lifetime from `from` (now on create,
+ * created_at on extend) must stay within the admin bounds.
+ */
+export async function parseRequestedExpiry(
+  body: { expires_in?: unknown; expires_at?: unknown },
+  now: number,
+  from: number = now
+): Promise<{ expires_at: number | null; error?: string }> {
+  const hasIn = body.expires_in != null && body.expires_in !== '';
+  const hasAt = body.expires_at != null && body.expires_at !== '';
+  if (hasIn && hasAt) return { expires_at: null, error: 'use either expires_in or expires_at' };
+  if (!hasIn && !hasAt) return { expires_at: null };
+
+  const n = Number(hasIn ? body.expires_in : body.expires_at);
+  if (!Number.isInteger(n)) return { expires_at: null, error: `${hasIn ? 'expires_in' : 'expires_at'} must be an integer` };
+  const expiresAt = hasIn ? now + n : n;
+
+  const { min, max } = await getInvoiceExpiryBounds();
+  if (expiresAt - now < min) return { expires_at: null, error: `expiry must be at least ${min} seconds from now` };
+  if (expiresAt - from > max) return { expires_at: null, error: `invoice lifetime must not exceed ${max} seconds` };
+  return { expires_at: expiresAt };
+}
+
+/**
+ * Pending -> cancelled by the merchant. Deleting the pending transaction frees
+ * the unique amount for new invoices right away.
+ */
+export async function cancelInvoice(
+  inv: Invoice,
+  reason: string | null
+): Promise<{ ok: true; cancelled_at: number } | { ok: false; code: 'INVOICE_NOT_PENDING' }> {
+  const now = Math.floor(Date.now() / 1000);
+  const cancelled = await transitionInvoice(inv, 'cancelled', {
+    cancelled_at: now,
+    apply: async () => {
+      await deletePendingTransaction(inv.id);
+      await emitInvoiceEvent({
+        invoice_id: inv.id,
+        merchant_id: inv.merchant_id,
+        env: inv.env,
+        event_type: 'payment.cancelled',
+        payload: { invoice_id: inv.id, reason, cancelled_at: now },
+        now,
+      });
+    },
+  });
+  if (!cancelled) return { ok: false, code: 'INVOICE_NOT_PENDING' };
+  return { ok: true, cancelled_at: now };
+}
+
+/** Push expires_at of a pending invoice further out (never shortens, never revives a lapsed one). */
+export async function extendInvoice(
+  inv: Invoice,
+  expiresAt: number
+): Promise<{ ok: true } | { ok: false; code: 'INVOICE_NOT_PENDING' | 'INVOICE_EXPIRED' | 'EXPIRY_NOT_LATER' }> {
+  const now = Math.floor(Date.now() / 1000);
+  if (inv.status !== 'pending') return { ok: false, code: 'INVOICE_NOT_PENDING' };
+  if (inv.expires_at <= now) return { ok: false, code: 'INVOICE_EXPIRED' };
+  if (expiresAt <= inv.expires_at) return { ok: false, code: 'EXPIRY_NOT_LATER' };
+  // Not a status change, but the same guard: only while still pending and not lapsed
+  const extended = await withTransaction(async () => {
+    if (!(await setInvoiceExpiresAt(inv.id, inv.merchant_id, expiresAt, now))) return false;
+    await emitInvoiceEvent({
+      invoice_id: inv.id,
+      merchant_id: inv.merchant_id,
+      env: inv.env,
+      event_type: 'payment.extended',
+      payload: { invoice_id: inv.id, previous_expires_at: inv.expires_at, expires_at: expiresAt },
+      now,
+    });
+    return true;
+  });
+  if (!extended) return { ok: false, code: 'INVOICE_NOT_PENDING' };
+  return { ok: true };
+}
+
+const REFUND_ACTIONS = {
+  approve: { run: approveRefund, event: 'refund.approved' },
+  reject: { run: rejectRefund, event: 'refund.rejected' },
+  process: { run: processRefund, event: 'refund.processed' },
+} as const;
+
+export type RefundAction = keyof typeof REFUND_ACTIONS;
+
+/**
+ * Admin refund transitions (requested -> approved|rejected, approved -> processed).
+ * Emits refund.<status>; a processed refund moves the invoice to
+ * partially_refunded or refunded depending on the processed total. The refund
+ * update and the invoice transition commit together.
+ */
+export async function transitionRefund(
+  refundId: string,
+  action: RefundAction,
+  adminEmail: string
+): Promise<{ ok: true; refund: any; invoice_status: InvoiceStatus | null } | { ok: false; code: 'NOT_FOUND' | 'INVALID_STATE' }> {
+  const existing = await getRefundById(refundId);
+  if (!existing) return { ok: false, code: 'NOT_FOUND' };
+
+  const { run, event } = REFUND_ACTIONS[action];
+  return withTransaction(async () => {
+    if (!(await run(refundId, adminEmail))) return { ok: false as const, code: 'INVALID_STATE' as const };
+
+    const refund = await getRefundById(refundId);
+    const inv = await getInvoiceById(String(refund.invoice_id));
+    if (!inv) return { ok: true as const, refund, invoice_status: null };
+
+    const totals = await getRefundTotals(inv.id);
+    const emit = (invoiceStatus: InvoiceStatus) =>
+      emitInvoiceEvent({
+        invoice_id: inv.id,
+        merchant_id: inv.merchant_id,
+        env: inv.env,
+        event_type: event,
+        payload: {
+          refund_id: refundId,
+          invoice_id: inv.id,
+          amount: Number(refund.amount),
+          status: String(refund.status),
+          refunded_total: totals.processed,
+          invoice_status: invoiceStatus,
+        },
+      });
+
+    if (action === 'process') {
+      const next: InvoiceStatus = totals.processed >= inv.final_amount ? 'refunded' : 'partially_refunded';
+      if (await transitionInvoice(inv, next, { apply: () => emit(next) })) {
+        return { ok: true as const, refund, invoice_status: next };
+      }
+    }
+    await emit(inv.status);
+    return { ok: true as const, refund, invoice_status: inv.status };
+  });
+}
@@ -0,0 +1,321 @@
+import { randomUUID } from 'crypto';
+import {
+  createInvoiceEvent,
+  createInvoiceRecord,
+  getInvoiceById,
+  getInvoiceByReferenceId,
+  allocateFinalAmount,
+  getMerchantAmountStrategy,
+  createPendingTransaction,
+  enqueueWebhookDelivery,
+  getOrderkuotaAccount,
+  getOrderkuotaAccountByUsername,
+  getMerchantStaticQris,
+  withTransaction,
+} from './db';
+import { getQrisErrors, qrisTipFee, toQrisReference, type QrisTipOption } from './qris';
+import { getProvider, resolveProvider, type PaymentProvider } from './providers';
+import { checkoutUrl, newCheckoutToken, parseRedirectUrl } from './checkout';
+import {
+  SANDBOX_AUTO_PAY_DELAY_SECONDS,
+  SANDBOX_MAX_DELAY_SECONDS,
+  SANDBOX_STATIC_QRIS,
+  sandboxOutcomeForAmount,
+  sandboxUsername,
+  scheduleSandboxOutcome,
+} from './sandbox';
+import { DEFAULT_INVOICE_EXPIRY_SECONDS, parseRequestedExpiry } from './invoice_lifecycle';
+
+/**
+ * Invoice creation pipeline shared by POST /api/gw/invoices and payment links:
+ * provider + account resolution, unique amount, dynamic QRIS, pending tx,
+ * payment.created event/webhook and sandbox magic amounts.
+ */
+
+export type CreateInvoiceInput = {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  account_id?: unknown;
+  username?: unknown;
+  token?: unknown;
+  amount: unknown;
+  qris_static?: unknown;
+  reference_id?: unknown;
+  metadata?: unknown;
+  tip?: unknown;
+  qris_references?: unknown;
+  sandbox_delay_seconds?: unknown;
+  success_url?: unknown;
+  failure_url?: unknown;
+  expires_in?: unknown;
+  expires_at?: unknown;
+  payment_link_id?: string | null;
+};
+
+export type CreateInvoiceError = { status: number; code: string; message: string; details?: unknown };
+
+export type CreatedInvoice = {
+  invoice_id: string;
+  account_id: string | null;
+  reference_id: string | null;
+  base_amount: number;
+  unique_suffix: number;
+  final_amount: number;
+  amount_strategy: string;
+  provider: string;
+  qris_string: string;
+  qris_bill_number: string | null;
+  qris_reference_label: string | null;
+  tip_fee: number;
+  status: 'pending';
+  expires_at: number;
+  checkout_url: string | null;
+  success_url: string | null;
+  failure_url: string | null;
+  sandbox_plan?: { outcome: string; run_at: number } | null;
+};
+
+function fail(status: number, code: string, message: string, details?: unknown): { ok: false; error: CreateInvoiceError } {
+  return { ok: false, error: { status, code, message, ...(details !== undefined ? { details } : {}) } };
+}
+
+// tip: { indicator: 'fixed', amount } or { indicator: 'percentage', percent } (QRIS tag 55/56/57).
+// Both fees are known up front, so the invoice is matched on final_amount + fee; a
+// customer-entered tip ('prompt') is not, since the payer picks the amount.
+function parseTip(raw: unknown): { tip: QrisTipOption | null; error?: undefined } | { error: { code: string; message: string } } {
+  if (raw == null) return { tip: null };
+  const t = (typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  if (t.indicator === 'prompt') {
+    return { error: { code: 'TIP_NOT_SUPPORTED', message: 'tip indicator prompt is not supported: a customer-entered tip cannot be matched' } };
+  }
+  if (t.indicator === 'fixed') {
+    const amount = Number(t.amount);
+    if (!Number.isInteger(amount) || amount <= 0 || String(amount).length > 13) {
+      return { error: { code: 'INVALID_TIP', message: 'tip.amount must be a positive integer' } };
+    }
+    return { tip: { indicator: 'fixed', amount } };
+  }
+  if (t.indicator === 'percentage') {
+    const percent = Number(t.percent);
+    if (!/^\d{1,3}(\.\d{1,2})?$/.test(String(t.percent)) || percent <= 0 || percent > 100) {
+      return { error: { code: 'INVALID_TIP', message: 'tip.percent must be above 0 and at most 100, with up to 2 decimals' } };
+    }
+    return { tip: { indicator: 'percentage', percent } };
+  }
+  return { error: { code: 'INVALID_TIP', message: 'tip.indicator must be fixed or percentage' } };
+}
+
+export async function createMerchantInvoice(
+  input: CreateInvoiceInput
+): Promise<{ ok: true; data: CreatedInvoice } | { ok: false; error: CreateInvoiceError }> {
+  const merchantId = input.merchant_id;
+  const env = input.env;
+  const { account_id, username: rawUsername, token, amount, qris_static, reference_id, metadata, sandbox_delay_seconds } = input;
+
+  // Which upstream settles the invoice: sandbox keys -> simulator, explicit OrderKuota
+  // credentials -> orderkuota, otherwise the merchant's configured provider.
+  let provider: PaymentProvider;
+  if (env === 'sandbox') provider = getProvider('sandbox');
+  else if (account_id || token) provider = getProvider('orderkuota');
+  else provider = await resolveProvider(merchantId, env);
+
+  // Preferred: account_id from the OrderKuota vault (no token in the request).
+  // Legacy: raw username + token + qris_static.
+  let username: string;
+  let staticQris: string;
+  let accountId: string | null = null;
+  if (account_id) {
+    const account = await getOrderkuotaAccount(String(account_id), merchantId);
+    if (!account) return fail(404, 'ACCOUNT_NOT_FOUND', 'OrderKuota account not found');
+    username = account.username;
+    staticQris = qris_static ? String(qris_static) : (account.qris_static || '');
+    accountId = account.id;
+    if (!amount || !staticQris) return fail(400, 'MISSING_PARAMS', 'amount required (and qris_static if the account has none)');
+  } else if (env === 'sandbox' && !token) {
+    // Sandbox needs no OrderKuota credentials: payments are simulated (lib/sandbox.ts)
+    if (!amount) return fail(400, 'MISSING_PARAMS', 'amount required');
+    username = rawUsername ? String(rawUsername) : sandboxUsername(merchantId);
+    staticQris = qris_static ? String(qris_static) : SANDBOX_STATIC_QRIS;
+  } else if (provider.name === 'static_qris_csv') {
+    // Merchant's own static QRIS; payments come from imported bank mutations
+    username = `csv:${merchantId}`;
+    staticQris = qris_static ? String(qris_static) : ((await getMerchantStaticQris(merchantId)) || '');
+    if (!amount || !staticQris) return fail(400, 'MISSING_PARAMS', 'amount required (and qris_static if none is configured for the merchant)');
+  } else {
+    if (!rawUsername || !token || !amount || !qris_static) {
+      return fail(400, 'MISSING_PARAMS', 'account_id + amount, or username, token, amount, qris_static required');
+    }
+    username = String(rawUsername);
+    staticQris = String(qris_static);
+    accountId = (await getOrderkuotaAccountByUsername(merchantId, username))?.id ?? null;
+  }
+
+  const baseAmount = parseInt(String(amount), 10);
+  if (!Number.isFinite(baseAmount) || baseAmount <= 0) return fail(400, 'INVALID_AMOUNT', 'amount must be positive number');
+
+  const qrisErrors = getQrisErrors(staticQris);
+  if (qrisErrors.length) return fail(400, 'INVALID_QRIS', `qris_static invalid: ${qrisErrors[0].message}`, qrisErrors);
+
+  // reference_id is unique per merchant + env (second line of defence next to Idempotency-Key)
+  const referenceId = reference_id ? String(reference_id) : null;
+  if (referenceId) {
+    const dup = await getInvoiceByReferenceId(merchantId, env, referenceId);
+    if (dup) {
+      return fail(409, 'DUPLICATE_REFERENCE_ID', 'reference_id already used by another invoice', { invoice_id: dup.id, status: dup.status });
+    }
+  }
+
+  const tip = parseTip(input.tip);
+  if (tip.error) return fail(400, tip.error.code, tip.error.message);
+
+  if (input.qris_references != null && typeof input.qris_references !== 'boolean') {
+    return fail(400, 'INVALID_QRIS_REFERENCES', 'qris_references must be a boolean');
+  }
+  const qrisReferences = input.qris_references !== false;
+
+  const successUrl = parseRedirectUrl(input.success_url);
+  const failureUrl = parseRedirectUrl(input.failure_url);
+  if (successUrl.error || failureUrl.error) {
+    return fail(400, 'INVALID_REDIRECT_URL', successUrl.error ? `success_url ${successUrl.error}` : `failure_url ${failureUrl.error}`);
+  }
+
+  const sandboxDelay = sandbox_delay_seconds == null ? SANDBOX_AUTO_PAY_DELAY_SECONDS : Number(sandbox_delay_seconds);
+  if (env === 'sandbox' && (!Number.isInteger(sandboxDelay) || sandboxDelay < 0 || sandboxDelay > SANDBOX_MAX_DELAY_SECONDS)) {
+    return fail(400, 'INVALID_DELAY', `sandbox_delay_seconds must be an integer between 0 and ${SANDBOX_MAX_DELAY_SECONDS}`);
+  }
+
+  // Custom lifetime within the admin bounds, otherwise INVOICE_EXPIRY_SECONDS
+  const now = Math.floor(Date.now() / 1000);
+  const expiry = await parseRequestedExpiry({ expires_in: input.expires_in, expires_at: input.expires_at }, now);
+  if (expiry.error) return fail(400, 'INVALID_EXPIRY', expiry.error);
+  const expiresAt = expiry.expires_at ?? now + DEFAULT_INVOICE_EXPIRY_SECONDS;
+
+  // NOTE: token is not stored. Registered accounts are checked by the reconciler.
+  const invoiceId = randomUUID();
+  const checkoutToken = newCheckoutToken();
+
+  // Traceability on issuer receipts: 62.01 = invoice id (dashless, 25 chars max), 62.05 = reference_id.
+  // qris_references: false keeps tag 62 as it is in the static QRIS.
+  const qrisBillNumber = qrisReferences ? toQrisReference(invoiceId.replace(/-/g, '')) : null;
+  const qrisReferenceLabel = qrisReferences && referenceId ? toQrisReference(referenceId) || null : null;
+
+  // Unique final amount per OrderKuota username, per the merchant's amount strategy.
+  // Pick and insert in one transaction: idx_pending_user_final would otherwise
+  // fail the slower of two requests that picked the same free amount.
+  const amountStrategy = await getMerchantAmountStrategy(merchantId);
+  const reserved = await withTransaction(async () => {
+    const allocated = await allocateFinalAmount(username, baseAmount, amountStrategy);
+    if (!allocated) return null;
+    const { qris_string } = await provider.createPayment({
+      static_qris: staticQris,
+      amount: allocated.final_amount,
+      bill_number: qrisBillNumber,
+      reference_label: qrisReferenceLabel,
+      // null also strips a tip indicator the static QRIS carries: it was not priced in
+      tip: tip.tip,
+    });
+    await createPendingTransaction({
+      id: invoiceId,
+      username,
+      base_amount: baseAmount,
+      unique_suffix: allocated.unique_suffix,
+      final_amount: allocated.final_amount,
+      qris_string,
+      created_at: now,
+      expires_at: expiresAt,
+    });
+    return { ...allocated, qris_string, tip_fee: qrisTipFee(allocated.final_amount, tip.tip) ?? 0 };
+  });
+  if (!reserved) {
+    return fail(
+      409,
+      'AMOUNT_EXHAUSTED',
+      `No unique amount left for this account (strategy ${amountStrategy}). Wait for pending invoices to settle or expire, or change the amount strategy.`
+    );
+  }
+  const suffix = reserved.unique_suffix;
+  const finalAmount = reserved.final_amount;
+  const qrisString = reserved.qris_string;
+  const tipFee = reserved.tip_fee;
+
+  await createInvoiceRecord({
+    id: invoiceId,
+    merchant_id: merchantId,
+    env,
+    account_id: accountId,
+    username,
+    reference_id: referenceId,
+    base_amount: baseAmount,
+    unique_suffix: suffix,
+    final_amount: finalAmount,
+    status: 'pending',
+    qris_string: qrisString,
+    qris_bill_number: qrisBillNumber,
+    qris_reference_label: qrisReferenceLabel,
+    tip_fee: tipFee,
+    amount_strategy: amountStrategy,
+    provider: provider.name,
+    checkout_token: checkoutToken,
+    success_url: successUrl.url,
+    failure_url: failureUrl.url,
+    payment_link_id: input.payment_link_id ?? null,
+    created_at: now,
+    expires_at: expiresAt,
+    metadata: metadata ?? null,
+  });
+
+  const linkField = input.payment_link_id ? { payment_link_id: input.payment_link_id } : {};
+  await createInvoiceEvent({
+    id: randomUUID(),
+    invoice_id: invoiceId,
+    merchant_id: merchantId,
+    event_type: 'payment.created',
+    payload: { invoice_id: invoiceId, reference_id: referenceId, amount: baseAmount, final_amount: finalAmount, ...linkField },
+    created_at: now,
+  });
+
+  // One delivery per endpoint subscribed to payment.created
+  await enqueueWebhookDelivery({
+    merchant_id: merchantId,
+    env,
+    invoice_id: invoiceId,
+    event_type: 'payment.created',
+    payload: { event_type: 'payment.created', invoice_id: invoiceId, reference_id: referenceId, base_amount: baseAmount, final_amount: finalAmount, ...linkField, created_at: now },
+    run_at: now,
+  });
+
+  // Sandbox magic amounts schedule their outcome right away
+  let sandboxPlan: { outcome: string; run_at: number } | null = null;
+  const magicOutcome = env === 'sandbox' ? sandboxOutcomeForAmount(baseAmount) : null;
+  if (magicOutcome) {
+    const inv = await getInvoiceById(invoiceId, merchantId);
+    if (inv) {
+      const plan = await scheduleSandboxOutcome(inv, magicOutcome, { delay_seconds: sandboxDelay, source: 'magic_amount' });
+      sandboxPlan = { outcome: plan.outcome, run_at: plan.run_at };
+    }
+  }
+
+  return {
+    ok: true,
+    data: {
+      invoice_id: invoiceId,
+      account_id: accountId,
+      reference_id: referenceId,
+      base_amount: baseAmount,
+      unique_suffix: suffix,
+      final_amount: finalAmount,
+      amount_strategy: amountStrategy,
+      provider: provider.name,
+      qris_string: qrisString,
+      qris_bill_number: qrisBillNumber,
+      qris_reference_label: qrisReferenceLabel,
+      tip_fee: tipFee,
+      status: 'pending',
+      expires_at: expiresAt,
+      checkout_url: checkoutUrl({ id: invoiceId, checkout_token: checkoutToken }),
+      success_url: successUrl.url,
+      failure_url: failureUrl.url,
+      ...(env === 'sandbox' ? { sandbox_plan: sandboxPlan } : {}),
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { transitionInvoiceStatus, withTransaction, type Invoice, type InvoiceStatus } from './db';
+
+/**
+ * Invoice state machine. Every status change goes through transitionInvoice():
+ * the allowed-from check is part of the UPDATE (WHERE status IN (...)) and the
+ * side effects (pending/paid transaction rows, invoice_events, webhook
+ * delivery) are written in the same transaction, so the loser of a race (e.g.
+ * the check endpoint paying while the scheduler expires) changes nothing.
+ *
+ *   created -> pending
+ *   pending -> paid | expired | cancelled
+ *   expired -> paid                       (late funds accepted by an admin)
+ *   paid | partially_refunded -> partially_refunded | refunded
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, readonly InvoiceStatus[]> = {
+  created: ['pending'],
+  pending: ['paid', 'expired', 'cancelled'],
+  expired: ['paid'],
+  cancelled: [],
+  paid: ['partially_refunded', 'refunded'],
+  partially_refunded: ['partially_refunded', 'refunded'],
+  refunded: [],
+};
+
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+function statesLeadingTo(to: InvoiceStatus): InvoiceStatus[] {
+  return (Object.keys(INVOICE_TRANSITIONS) as InvoiceStatus[]).filter((from) => canTransition(from, to));
+}
+
+export type InvoiceTransitionOptions = {
+  // Narrow the source states further than the table (e.g. expired -> paid only for accepted late funds)
+  from?: readonly InvoiceStatus[];
+  paid_at?: number;
+  cancelled_at?: number;
+  // Only if expires_at <= due_by: an extension that raced the expiry wins
+  due_by?: number;
+  // Writes that belong to the transition; they run only if the status changed.
+  // Returning false undoes the transition (e.g. the paying mutation was already claimed).
+  apply?: () => Promise<void | false>;
+};
+
+// Thrown inside the transaction to roll it back when apply() returns false
+const VETOED = Symbol('transition vetoed');
+
+/** Returns false (and writes nothing) when the invoice is no longer in an allowed source state. */
+export async function transitionInvoice(
+  inv: Pick<Invoice, 'id' | 'merchant_id'>,
+  to: InvoiceStatus,
+  opts: InvoiceTransitionOptions = {}
+): Promise<boolean> {
+  const from = (opts.from ?? statesLeadingTo(to)).filter((s) => canTransition(s, to));
+  if (!from.length) return false;
+
+  try {
+    return await withTransaction(async () => {
+      const changed = await transitionInvoiceStatus({
+        invoice_id: inv.id,
+        merchant_id: inv.merchant_id,
+        from,
+        to,
+        paid_at: opts.paid_at,
+        cancelled_at: opts.cancelled_at,
+        due_by: opts.due_by,
+      });
+      if (!changed) return false;
+      if (opts.apply && (await opts.apply()) === false) throw VETOED;
+      return true;
+    });
+  } catch (e) {
+    if (e === VETOED) return false;
+    throw e;
+  }
+}
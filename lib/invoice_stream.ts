@@ -0,0 +1,107 @@
+import type express from 'express';
+import { listInvoiceEventsAfter } from './db';
+import { subscribeInvoiceEvents } from './event_bus';
+
+/**
+ * Server-Sent Events stream of one invoice's invoice_events.
+ *
+ * Each row goes out as `id: <event id>` + `data: <json>`; EventSource resends
+ * the last id as Last-Event-ID on reconnect and the stream resumes after it
+ * (no id: everything from the start). Rows are always read from the table, the
+ * event bus only wakes the stream up early.
+ */
+
+const HEARTBEAT_SECONDS = Number(process.env.SSE_HEARTBEAT_SECONDS || 15);
+// Streams are closed after this long; clients reconnect with Last-Event-ID
+const MAX_STREAM_SECONDS = Number(process.env.SSE_MAX_STREAM_SECONDS || 1800);
+const RECONNECT_MS = 3000;
+
+export type StreamedEvent = { id: string; event_type: string; payload: any; created_at: number };
+
+export function lastEventId(req: express.Request): string | null {
+  const v = String(req.header('last-event-id') || req.query.last_event_id || '').trim();
+  return v || null;
+}
+
+export function streamInvoiceEvents(
+  req: express.Request,
+  res: express.Response,
+  invoiceId: string,
+  opts: {
+    // Shape of the data line for one event (the public checkout sends its view instead of the payload)
+    serialize: (event: StreamedEvent) => Promise<unknown> | unknown;
+    // Runs on every heartbeat before re-reading events (e.g. due sandbox plans)
+    onTick?: () => Promise<unknown>;
+  }
+): void {
+  let cursor = lastEventId(req);
+  let closed = false;
+  let running = false;
+  let again = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Connection', 'keep-alive');
+  // nginx: do not buffer the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  // Serialized: a wake-up during a read schedules one more read instead of a parallel one
+  const drain = async () => {
+    if (running) {
+      again = true;
+      return;
+    }
+    running = true;
+    try {
+      do {
+        again = false;
+        const rows = await listInvoiceEventsAfter(invoiceId, cursor);
+        for (const r of rows) {
+          if (closed) return;
+          let payload: any = null;
+          try { payload = r.payload_json ? JSON.parse(r.payload_json) : null; } catch { payload = null; }
+          const data = await opts.serialize({ id: r.id, event_type: r.event_type, payload, created_at: r.created_at });
+          res.write(`id: ${r.id}\ndata: ${JSON.stringify(data)}\n\n`);
+          cursor = r.id;
+        }
+        // A full page means there may be more
+        if (rows.length >= 100) again = true;
+      } while (again && !closed);
+    } catch (e) {
+      console.error('invoice stream read failed', e);
+    } finally {
+      running = false;
+    }
+  };
+
+  const unsubscribe = subscribeInvoiceEvents(invoiceId, () => { drain(); });
+
+  const heartbeat = setInterval(async () => {
+    if (closed) return;
+    res.write(': ping\n\n');
+    try {
+      if (opts.onTick) await opts.onTick();
+    } catch (e) {
+      console.error('invoice stream tick failed', e);
+    }
+    drain();
+  }, HEARTBEAT_SECONDS * 1000);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    clearTimeout(maxAge);
+    unsubscribe();
+  };
+  const maxAge = setTimeout(() => {
+    close();
+    res.end();
+  }, MAX_STREAM_SECONDS * 1000);
+  req.on('close', close);
+
+  drain();
+}
@@ -0,0 +1,198 @@
+import {
+  closeMatchReview,
+  getInvoiceById,
+  listConsumedMutationIds,
+  listReviewedMutationIds,
+  listUnmatchedFundsMutationIds,
+  upsertMatchReview,
+  withTransaction,
+  type Invoice,
+  type MatchReviewItem,
+  type MatchReviewReason,
+} from './db';
+import { markInvoicePaid } from './invoice_lifecycle';
+import { getProvider, type PaymentMutation, type PaymentProvider, type ProviderAccount } from './providers';
+
+/**
+ * Matching engine: pairs incoming mutations with pending invoices.
+ *
+ * A mutation only counts for an invoice when the amounts are equal and the
+ * mutation time falls in [created_at - skew, expires_at + grace]. Every mutation
+ * that settles an invoice is recorded in consumed_mutations, in the same
+ * transaction as the payment, so the same transfer can never pay a second
+ * invoice on a later pass. Anything that has
+ * more than one plausible pairing goes to the admin review queue untouched.
+ */
+
+// Payments made right before expiry can show up in the history a bit later
+export const MATCH_GRACE_SECONDS = Number(process.env.MATCH_GRACE_SECONDS || 120);
+// Upstream clocks (OrderKuota, bank statements) are minute-precision at best
+export const MATCH_CLOCK_SKEW_SECONDS = Number(process.env.MATCH_CLOCK_SKEW_SECONDS || 60);
+// How long after expires_at a transfer is still attributed to the invoice (lib/unmatched_funds.ts)
+export const LATE_PAYMENT_WINDOW_SECONDS = Number(process.env.LATE_PAYMENT_WINDOW_SECONDS || 24 * 3600);
+
+// Bank statements often carry a date only, which parseCsvDate turns into 00:00 WIB
+const WIB_MIDNIGHT_UTC_OFFSET = 17 * 3600;
+
+export type MatchTarget = Pick<Invoice, 'id' | 'final_amount' | 'created_at' | 'expires_at'> & Partial<Pick<Invoice, 'tip_fee'>>;
+
+/** What the customer transfers: final_amount plus the QRIS convenience fee, if any. */
+export function payableAmount(t: MatchTarget): number {
+  return t.final_amount + (t.tip_fee ?? 0);
+}
+
+export type PlannedMatch<T extends MatchTarget> = { invoice: T; mutation: PaymentMutation };
+export type AmbiguousMutation<T extends MatchTarget> = { mutation: PaymentMutation; reason: MatchReviewReason; candidates: T[] };
+
+function mutationInWindow(m: PaymentMutation, t: MatchTarget, afterExpiry = MATCH_GRACE_SECONDS): boolean {
+  if (m.occurred_at == null) return false;
+  const from = t.created_at - MATCH_CLOCK_SKEW_SECONDS;
+  const to = t.expires_at + afterExpiry;
+  // Date-only rows cover the whole day: accept any overlap with the window
+  const span = m.occurred_at % 86400 === WIB_MIDNIGHT_UTC_OFFSET ? 86400 - 1 : 0;
+  return m.occurred_at + span >= from && m.occurred_at <= to;
+}
+
+/**
+ * Pure matching step. A pairing is only returned when the mutation fits exactly
+ * one invoice and that invoice has no other candidate mutation; everything else
+ * that fits at least one invoice comes back as ambiguous.
+ *
+ * `late` are expired invoices whose late-payment window is still open. Expiry
+ * frees the unique amount, so a newer invoice may carry the same amount:
+ * they are never paid here, but a mutation that also fits one of them is
+ * ambiguous instead of paying the newer invoice.
+ */
+export function planMatches<T extends MatchTarget>(
+  targets: T[],
+  mutations: PaymentMutation[],
+  late: T[] = []
+): { matches: PlannedMatch<T>[]; ambiguous: AmbiguousMutation<T>[] } {
+  const incoming = mutations.filter((m) => m.direction === 'in' && m.amount > 0);
+
+  const candidatesOf = new Map<string, T[]>();
+  const mutationsFor = new Map<string, PaymentMutation[]>();
+  const lateOf = new Map<string, T[]>();
+  for (const m of incoming) {
+    const cands = targets.filter((t) => payableAmount(t) === m.amount && mutationInWindow(m, t));
+    candidatesOf.set(m.id, cands);
+    lateOf.set(m.id, late.filter((t) => payableAmount(t) === m.amount && mutationInWindow(m, t, LATE_PAYMENT_WINDOW_SECONDS)));
+    for (const t of cands) mutationsFor.set(t.id, [...(mutationsFor.get(t.id) ?? []), m]);
+  }
+
+  const matches: PlannedMatch<T>[] = [];
+  const ambiguous: AmbiguousMutation<T>[] = [];
+  for (const m of incoming) {
+    const cands = candidatesOf.get(m.id) ?? [];
+    if (m.occurred_at == null) {
+      // No time to check the window against: only worth a look if the amount fits something
+      const byAmount = targets.filter((t) => payableAmount(t) === m.amount);
+      if (byAmount.length) ambiguous.push({ mutation: m, reason: 'NO_TIMESTAMP', candidates: byAmount });
+      continue;
+    }
+    if (!cands.length) continue;
+    const lateCands = lateOf.get(m.id) ?? [];
+    if (cands.length > 1 || lateCands.length) {
+      ambiguous.push({ mutation: m, reason: 'MULTIPLE_INVOICES', candidates: [...cands, ...lateCands] });
+      continue;
+    }
+    if ((mutationsFor.get(cands[0].id) ?? []).length > 1) {
+      ambiguous.push({ mutation: m, reason: 'MULTIPLE_MUTATIONS', candidates: cands });
+      continue;
+    }
+    matches.push({ invoice: cands[0], mutation: m });
+  }
+  return { matches, ambiguous };
+}
+
+/**
+ * Settle the pending ones among `invoices` (same provider account) from the
+ * provider's mutations. accountKey scopes mutation ids: the OrderKuota username,
+ * or the merchant id for static_qris_csv. Incoming mutations that were neither
+ * matched nor queued come back as `unmatched` (see lib/unmatched_funds.ts).
+ */
+export async function reconcileInvoices(
+  provider: PaymentProvider,
+  account: ProviderAccount,
+  accountKey: string,
+  invoices: Invoice[]
+): Promise<{ paid: string[]; flagged: number; unmatched: PaymentMutation[] }> {
+  if (!invoices.length) return { paid: [], flagged: 0, unmatched: [] };
+  const pending = invoices.filter((inv) => inv.status === 'pending');
+  const expired = invoices.filter((inv) => inv.status === 'expired');
+
+  const since = Math.min(...invoices.map((inv) => inv.created_at)) - MATCH_CLOCK_SKEW_SECONDS;
+  const fetched = await provider.fetchMutations(account, { since });
+
+  const consumed = await listConsumedMutationIds(provider.name, accountKey, fetched.map((m) => m.id));
+  const reviewed = await listReviewedMutationIds(provider.name, accountKey);
+  const recorded = await listUnmatchedFundsMutationIds(provider.name, accountKey);
+  const fresh = fetched.filter((m) => m.direction === 'in' && !consumed.has(m.id) && !reviewed.has(m.id) && !recorded.has(m.id));
+
+  const { matches, ambiguous } = planMatches(pending, fresh, expired);
+
+  const paid: string[] = [];
+  for (const { invoice, mutation } of matches) {
+    const claim = { provider: provider.name, account_key: accountKey, mutation_id: mutation.id, amount: mutation.amount, occurred_at: mutation.occurred_at };
+    // false: no longer pending, or a concurrent check claimed the mutation first
+    if (!(await markInvoicePaid(invoice, Math.floor(Date.now() / 1000), { mutation: claim }))) continue;
+    paid.push(invoice.id);
+    if (provider.markConsumed) await provider.markConsumed(mutation, invoice.id);
+  }
+
+  let flagged = 0;
+  for (const { mutation, reason, candidates } of ambiguous) {
+    const r = await upsertMatchReview({
+      merchant_id: candidates[0].merchant_id,
+      provider: provider.name,
+      account_key: accountKey,
+      mutation_id: mutation.id,
+      amount: mutation.amount,
+      occurred_at: mutation.occurred_at,
+      description: mutation.description,
+      reason,
+      candidate_invoice_ids: candidates.map((c) => c.id),
+    });
+    if (r.created) flagged += 1;
+  }
+
+  const handled = new Set([...matches.map((x) => x.mutation.id), ...ambiguous.map((x) => x.mutation.id)]);
+  return { paid, flagged, unmatched: fresh.filter((m) => !handled.has(m.id)) };
+}
+
+/**
+ * Admin decision on a queued mutation: settle one of its candidate invoices
+ * with it. The mutation is claimed first, so it still cannot pay twice.
+ */
+export async function resolveMatchReview(
+  item: MatchReviewItem,
+  invoiceId: string,
+  adminEmail: string,
+  note: string | null
+): Promise<{ ok: true; invoice: Invoice } | { ok: false; code: 'REVIEW_CLOSED' | 'NOT_A_CANDIDATE' | 'INVOICE_NOT_PENDING' | 'MUTATION_CONSUMED' }> {
+  if (item.status !== 'open') return { ok: false, code: 'REVIEW_CLOSED' };
+  if (!item.candidate_invoice_ids.includes(invoiceId)) return { ok: false, code: 'NOT_A_CANDIDATE' };
+  const inv = await getInvoiceById(invoiceId, item.merchant_id);
+  // Expired candidates come from the late-payment window (see planMatches)
+  if (!inv || (inv.status !== 'pending' && inv.status !== 'expired')) return { ok: false, code: 'INVOICE_NOT_PENDING' };
+
+  // Claim, payment and closing the review commit together
+  const now = Math.floor(Date.now() / 1000);
+  const claim = { provider: item.provider, account_key: item.account_key, mutation_id: item.mutation_id, amount: item.amount, occurred_at: item.occurred_at };
+  const paid = await withTransaction(async () => {
+    if (!(await markInvoicePaid(inv, now, { allow_expired: true, mutation: claim }))) return false;
+    await closeMatchReview(item.id, 'resolved', adminEmail, inv.id, note);
+    return true;
+  });
+  if (!paid) {
+    const cur = await getInvoiceById(inv.id, item.merchant_id);
+    return { ok: false, code: cur?.status === 'pending' || cur?.status === 'expired' ? 'MUTATION_CONSUMED' : 'INVOICE_NOT_PENDING' };
+  }
+
+  const provider = getProvider(item.provider);
+  if (provider.markConsumed) {
+    const mutation: PaymentMutation = { id: item.mutation_id, amount: item.amount, direction: 'in', occurred_at: item.occurred_at, description: item.description };
+    await provider.markConsumed(mutation, inv.id);
+  }
+  return { ok: true, invoice: { ...inv, status: 'paid', paid_at: now } };
+}
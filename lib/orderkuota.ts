@@ -1,5 +1,6 @@
 import axios, { AxiosError } from 'axios';
 import * as qs from 'qs';
+import { validateQris } from './qris';
 
 const OK_LOGIN_ENDPOINT = 'https://app.orderkuota.com/api/v2/login';
 const OK_GET_ENDPOINT = 'https://app.orderkuota.com/api/v2/get';
@@ -105,7 +106,8 @@ export async function generateQrisAjaib(
 export async function getQrisHistory(
   username: string,
   token: string,
-  historyType: string = 'qris_history'
+  historyType: string = 'qris_history',
+  page: number = 1
 ): Promise<unknown> {
   return requestWithRetry(async () => {
     const timestamp = Date.now().toString();
@@ -121,7 +123,7 @@ export async function getQrisHistory(
       phone_android_version: OK_CONSTANTS.phone_android_version,
       app_version_code: OK_CONSTANTS.app_version_code,
       auth_username: username,
-      [`requests[${historyType}][page]`]: '1',
+      [`requests[${historyType}][page]`]: String(page),
       auth_token: token,
       app_version_name: OK_CONSTANTS.app_version_name,
       ui_mode: OK_CONSTANTS.ui_mode,
@@ -175,3 +177,89 @@ export async function getBalance(username: string, token: string): Promise<unkno
     return response.data;
   });
 }
+
+/**
+ * Pull the mutation rows out of a qris_history / qris_ajaib_history response.
+ */
+export function extractQrisHistoryResults(historyResult: unknown): Array<Record<string, unknown>> {
+  const r = historyResult as Record<string, unknown> | null;
+  const historyData = (r?.qris_ajaib_history as Record<string, unknown>)?.results
+    || (r?.qris_history as Record<string, unknown>)?.results
+    || [];
+  return Array.isArray(historyData) ? historyData : [];
+}
+
+// kredit comes formatted with dot as thousand separator, e.g. "1.001"
+export function parseKreditAmount(kredit: unknown): number {
+  const kreditStr = String(kredit || '').replace(/\./g, '');
+  return parseInt(kreditStr, 10) || 0;
+}
+
+/**
+ * Token validity check via the qris_menu/account endpoint (same call as getBalance).
+ */
+export async function checkToken(
+  username: string,
+  token: string
+): Promise<{ valid: boolean; balance?: number; qris_balance?: number; qris_static?: string | null; error?: string }> {
+  try {
+    const result = await getBalance(username, token) as {
+      account?: { results?: { balance?: number; qris_balance?: number } };
+      message?: string;
+    };
+    const accountData = result?.account?.results;
+    if (!accountData) return { valid: false, error: result?.message ? String(result.message) : 'INVALID_TOKEN' };
+    return {
+      valid: true,
+      balance: accountData.balance || 0,
+      qris_balance: accountData.qris_balance || 0,
+      qris_static: extractStaticQris(result),
+    };
+  } catch (err) {
+    return { valid: false, error: err instanceof Error ? err.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Login responses (requestOtp / getToken) come back as
+ * { success, message, results: { otp?, otp_value?, token?, ... } }.
+ */
+export function parseLoginResult(loginResult: unknown): {
+  ok: boolean;
+  token: string | null;
+  otp_hint: string | null;
+  message: string | null;
+} {
+  const r = loginResult as { success?: unknown; message?: unknown; results?: Record<string, unknown> } | null;
+  const results = r?.results && typeof r.results === 'object' ? r.results : {};
+  const token = typeof results.token === 'string' && results.token.includes(':') ? results.token : null;
+  const hint = results.otp_value ?? results.otp;
+  return {
+    ok: r?.success === true || r?.success === 'true',
+    token,
+    otp_hint: typeof hint === 'string' && hint ? hint : null,
+    message: r?.message ? String(r.message) : null,
+  };
+}
+
+/**
+ * Find the merchant's static QRIS in a qris_menu response (getBalance).
+ * The field name has moved around between app versions, so look for any
+ * string that is a valid QRIS payload (starts with 000201 and passes CRC).
+ */
+export function extractStaticQris(menuResult: unknown): string | null {
+  const seen = new Set<unknown>();
+  const stack: unknown[] = [menuResult];
+  while (stack.length) {
+    const cur = stack.pop();
+    if (typeof cur === 'string') {
+      const v = cur.trim();
+      if (v.startsWith('000201') && validateQris(v)) return v;
+      continue;
+    }
+    if (!cur || typeof cur !== 'object' || seen.has(cur)) continue;
+    seen.add(cur);
+    for (const v of Object.values(cur as Record<string, unknown>)) stack.push(v);
+  }
+  return null;
+}
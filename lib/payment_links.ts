@@ -0,0 +1,208 @@
+import { randomBytes } from 'crypto';
+import {
+  countPendingPaymentLinkInvoices,
+  getOrderkuotaAccount,
+  getPaymentLinkUsage,
+  withTransaction,
+  type PaymentLink,
+  type PaymentLinkFields,
+} from './db';
+import { CHECKOUT_BASE_URL, parseRedirectUrl } from './checkout';
+import { createMerchantInvoice, type CreateInvoiceError, type CreatedInvoice } from './invoice_service';
+import { resolveProvider } from './providers';
+
+/**
+ * Payment links: a reusable page (/link/:slug) for donations, tip jars, fixed
+ * price items. Every visitor who pays gets a fresh child invoice (own unique
+ * amount + dynamic QRIS) through the normal invoice pipeline; the link only
+ * holds the template and the limits.
+ *
+ * - amount set: fixed price; otherwise the customer enters it (min/max bounds)
+ * - max_uses counts paid child invoices; open checkouts hold a slot while pending
+ * - active_from / active_until: validity window (unix seconds)
+ * - pending children are capped per link and per account: the page is public,
+ *   and every open checkout holds one of the account's unique amounts
+ */
+
+// Upper bound for customer-entered amounts when the link sets no max_amount
+const MAX_AMOUNT = Number(process.env.PAYMENT_LINK_MAX_AMOUNT || 10_000_000);
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_PENDING_PER_LINK = Number(process.env.PAYMENT_LINK_MAX_PENDING || 20);
+const MAX_PENDING_PER_ACCOUNT = Number(process.env.PAYMENT_LINK_MAX_PENDING_PER_ACCOUNT || 100);
+
+export type PaymentLinkUsage = { used: number; pending: number; paid_total: number };
+
+// Why a link cannot take a payment right now
+export type PaymentLinkUnavailable = 'INACTIVE' | 'NOT_STARTED' | 'ENDED' | 'SOLD_OUT' | 'BUSY';
+
+export function newPaymentLinkSlug(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+export function paymentLinkUrl(link: Pick<PaymentLink, 'slug'>): string {
+  return `${CHECKOUT_BASE_URL}/link/${encodeURIComponent(link.slug)}`;
+}
+
+function optionalInt(v: unknown, field: string, min: number): { value: number | null; error?: string } {
+  if (v == null || v === '') return { value: null };
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < min) return { value: null, error: `${field} must be an integer >= ${min}` };
+  return { value: n };
+}
+
+/**
+ * Validate create (existing = null) or update input. Only keys present in the
+ * body end up in fields; the merged link is checked as a whole.
+ */
+export function parsePaymentLinkInput(
+  body: any,
+  existing: PaymentLink | null
+): { fields: Partial<PaymentLinkFields>; error?: undefined } | { fields?: undefined; error: { code: string; message: string } } {
+  const b = body || {};
+  const fields: Partial<PaymentLinkFields> = {};
+  const bad = (code: string, message: string) => ({ error: { code, message } });
+
+  if (b.title !== undefined || !existing) {
+    const title = typeof b.title === 'string' ? b.title.trim() : '';
+    if (!title || title.length > MAX_TITLE_LENGTH) return bad('INVALID_TITLE', `title required (max ${MAX_TITLE_LENGTH} characters)`);
+    fields.title = title;
+  }
+  if (b.description !== undefined) {
+    const description = b.description == null ? '' : String(b.description).trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) return bad('INVALID_DESCRIPTION', `description max ${MAX_DESCRIPTION_LENGTH} characters`);
+    fields.description = description || null;
+  }
+
+  for (const [key, min] of [['amount', 1], ['min_amount', 1], ['max_amount', 1], ['max_uses', 1], ['active_from', 0], ['active_until', 0]] as const) {
+    if (b[key] === undefined) continue;
+    const r = optionalInt(b[key], key, min);
+    if (r.error) return bad(key === 'max_uses' ? 'INVALID_MAX_USES' : key.startsWith('active_') ? 'INVALID_WINDOW' : 'INVALID_AMOUNT', r.error);
+    fields[key] = r.value;
+  }
+
+  if (b.account_id !== undefined) fields.account_id = b.account_id ? String(b.account_id) : null;
+
+  for (const key of ['success_url', 'failure_url'] as const) {
+    if (b[key] === undefined) continue;
+    const r = parseRedirectUrl(b[key]);
+    if (r.error) return bad('INVALID_REDIRECT_URL', `${key} ${r.error}`);
+    fields[key] = r.url;
+  }
+
+  const merged = { ...existing, ...fields };
+  const amount = merged.amount ?? null;
+  const minAmount = merged.min_amount ?? null;
+  const maxAmount = merged.max_amount ?? null;
+  if (amount != null && amount > MAX_AMOUNT) return bad('INVALID_AMOUNT', `amount must be at most ${MAX_AMOUNT}`);
+  if (maxAmount != null && maxAmount > MAX_AMOUNT) return bad('INVALID_AMOUNT', `max_amount must be at most ${MAX_AMOUNT}`);
+  if (minAmount != null && maxAmount != null && minAmount > maxAmount) return bad('INVALID_AMOUNT', 'min_amount must not exceed max_amount');
+  if (merged.active_from != null && merged.active_until != null && merged.active_from >= merged.active_until) {
+    return bad('INVALID_WINDOW', 'active_from must be before active_until');
+  }
+  return { fields };
+}
+
+/** Links need settlement that works without a request body: vault account, CSV static QRIS or sandbox. */
+export async function checkPaymentLinkAccount(
+  merchantId: string,
+  env: 'production' | 'sandbox',
+  accountId: string | null
+): Promise<{ code: string; message: string } | null> {
+  if (accountId) {
+    if (!(await getOrderkuotaAccount(accountId, merchantId))) return { code: 'ACCOUNT_NOT_FOUND', message: 'OrderKuota account not found' };
+    return null;
+  }
+  if (env === 'production' && (await resolveProvider(merchantId, env)).name === 'orderkuota') {
+    return { code: 'ACCOUNT_REQUIRED', message: 'account_id required: payment links settle through a registered OrderKuota account' };
+  }
+  return null;
+}
+
+export function paymentLinkUnavailable(link: PaymentLink, usage: PaymentLinkUsage, now: number): PaymentLinkUnavailable | null {
+  if (link.status !== 'active') return 'INACTIVE';
+  if (link.active_from != null && now < link.active_from) return 'NOT_STARTED';
+  if (link.active_until != null && now >= link.active_until) return 'ENDED';
+  if (link.max_uses != null) {
+    if (usage.used >= link.max_uses) return 'SOLD_OUT';
+    if (usage.used + usage.pending >= link.max_uses) return 'BUSY';
+  }
+  if (usage.pending >= MAX_PENDING_PER_LINK) return 'BUSY';
+  return null;
+}
+
+/** Merchant-facing representation (gateway + dashboard). */
+export function toPaymentLinkView(link: PaymentLink, usage: PaymentLinkUsage) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    ...link,
+    url: paymentLinkUrl(link),
+    used: usage.used,
+    pending: usage.pending,
+    paid_total: usage.paid_total,
+    unavailable_reason: paymentLinkUnavailable(link, usage, now),
+  };
+}
+
+/** What the public page may see: no ids of accounts, redirect URLs or usage totals. */
+export function toPublicPaymentLinkView(link: PaymentLink, usage: PaymentLinkUsage) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    slug: link.slug,
+    title: link.title,
+    description: link.description,
+    amount: link.amount,
+    min_amount: link.amount == null ? link.min_amount ?? 1 : null,
+    max_amount: link.amount == null ? link.max_amount ?? MAX_AMOUNT : null,
+    remaining: link.max_uses == null ? null : Math.max(0, link.max_uses - usage.used),
+    active_until: link.active_until,
+    unavailable_reason: paymentLinkUnavailable(link, usage, now),
+    sandbox: link.env === 'sandbox',
+  };
+}
+
+function unavailableError(reason: PaymentLinkUnavailable): { ok: false; error: CreateInvoiceError } {
+  return { ok: false, error: { status: reason === 'INACTIVE' ? 404 : 409, code: `LINK_${reason}`, message: `Payment link is not available (${reason.toLowerCase()})` } };
+}
+
+/**
+ * One visitor pays: issue a child invoice for the fixed or entered amount.
+ * The limit checks and the insert share a transaction, so parallel visitors
+ * cannot all pass the same last free slot.
+ */
+export async function payPaymentLink(
+  link: PaymentLink,
+  rawAmount: unknown
+): Promise<{ ok: true; invoice: CreatedInvoice } | { ok: false; error: CreateInvoiceError }> {
+  return withTransaction(async () => {
+    const usage = await getPaymentLinkUsage(link.id);
+    const unavailable = paymentLinkUnavailable(link, usage, Math.floor(Date.now() / 1000));
+    if (unavailable) return unavailableError(unavailable);
+    if ((await countPendingPaymentLinkInvoices(link.merchant_id, link.env, link.account_id)) >= MAX_PENDING_PER_ACCOUNT) {
+      return unavailableError('BUSY');
+    }
+
+    let amount = link.amount;
+    if (amount == null) {
+      const n = Number(rawAmount);
+      const min = link.min_amount ?? 1;
+      const max = link.max_amount ?? MAX_AMOUNT;
+      if (!Number.isInteger(n) || n < min || n > max) {
+        return { ok: false as const, error: { status: 400, code: 'INVALID_AMOUNT', message: `amount must be an integer between ${min} and ${max}` } };
+      }
+      amount = n;
+    }
+
+    const r = await createMerchantInvoice({
+      merchant_id: link.merchant_id,
+      env: link.env,
+      account_id: link.account_id,
+      amount,
+      metadata: { payment_link_id: link.id },
+      success_url: link.success_url,
+      failure_url: link.failure_url,
+      payment_link_id: link.id,
+    });
+    return r.ok ? { ok: true as const, invoice: r.data } : r;
+  });
+}
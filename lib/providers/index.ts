@@ -0,0 +1,23 @@
+import { getMerchantPaymentProvider } from '../db';
+import { orderkuotaProvider } from './orderkuota';
+import { sandboxProvider } from './sandbox';
+import { staticQrisCsvProvider } from './static_qris_csv';
+import type { PaymentProvider, ProviderName } from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<ProviderName, PaymentProvider> = {
+  orderkuota: orderkuotaProvider,
+  sandbox: sandboxProvider,
+  static_qris_csv: staticQrisCsvProvider,
+};
+
+export function getProvider(name: ProviderName): PaymentProvider {
+  return PROVIDERS[name];
+}
+
+/** Sandbox keys always get the simulator; production uses the merchant's configured provider. */
+export async function resolveProvider(merchantId: string, env: 'production' | 'sandbox'): Promise<PaymentProvider> {
+  if (env === 'sandbox') return sandboxProvider;
+  return PROVIDERS[await getMerchantPaymentProvider(merchantId)];
+}
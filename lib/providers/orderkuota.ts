@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import { generateDynamicQris } from '../qris';
+import { getQrisHistory, getBalance, checkToken, extractQrisHistoryResults, parseKreditAmount } from '../orderkuota';
+import type { PaymentMutation, PaymentProvider, ProviderAccount } from './types';
+
+// Upper bound on history pages pulled per fetch (each page is one OrderKuota call)
+const MAX_HISTORY_PAGES = Number(process.env.ORDERKUOTA_HISTORY_MAX_PAGES || 5);
+
+function requireToken(account: ProviderAccount): string {
+  if (!account.token) throw new Error('OrderKuota token required');
+  return account.token;
+}
+
+function rowContent(row: Record<string, unknown>): string {
+  const base = [row.tanggal, row.kredit, row.debet, row.keterangan, row.brand];
+  return JSON.stringify(row.saldo_akhir != null ? [...base, row.saldo_akhir] : base);
+}
+
+// OrderKuota rows carry no stable id; derive one from the row content. Identical
+// rows (two equal transfers in the same minute) are told apart by `ordinal`, their
+// position among the identical rows counted from the oldest, so ids already seen
+// stay put when another identical row arrives.
+function mutationId(row: Record<string, unknown>, ordinal = 0): string {
+  const raw = row.id ?? (ordinal ? `${rowContent(row)}#${ordinal}` : rowContent(row));
+  return createHash('sha256').update(String(raw)).digest('hex').slice(0, 24);
+}
+
+// tanggal is "DD/MM/YYYY HH:mm" in WIB
+function parseTanggal(v: unknown): number | null {
+  const m = /^(\d{2})\/(\d{2})\/(\d{4})\s+(\d{2}):(\d{2})/.exec(String(v || '').trim());
+  if (!m) return null;
+  const ms = Date.UTC(Number(m[3]), Number(m[2]) - 1, Number(m[1]), Number(m[4]) - 7, Number(m[5]));
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+}
+
+export function toPaymentMutation(row: Record<string, unknown>, ordinal = 0): PaymentMutation {
+  return {
+    id: mutationId(row, ordinal),
+    amount: parseKreditAmount(row.status === 'IN' ? row.kredit : row.debet ?? row.kredit),
+    direction: row.status === 'IN' ? 'in' : 'out',
+    occurred_at: parseTanggal(row.tanggal),
+    description: row.keterangan ? String(row.keterangan) : null,
+  };
+}
+
+// `rows` newest first, as OrderKuota lists them
+export function toPaymentMutations(rows: Record<string, unknown>[]): PaymentMutation[] {
+  const count = new Map<string, number>();
+  const out: PaymentMutation[] = [];
+  for (let i = rows.length - 1; i >= 0; i--) {
+    const key = rowContent(rows[i]);
+    const ordinal = count.get(key) ?? 0;
+    count.set(key, ordinal + 1);
+    out.unshift(toPaymentMutation(rows[i], ordinal));
+  }
+  return out;
+}
+
+export const orderkuotaProvider: PaymentProvider = {
+  name: 'orderkuota',
+
+  async createPayment(input) {
+    return {
+      qris_string: generateDynamicQris(input.static_qris, input.amount, {
+        billNumber: input.bill_number ?? null,
+        referenceLabel: input.reference_label ?? null,
+        ...(input.tip !== undefined ? { tip: input.tip } : {}),
+      }),
+    };
+  },
+
+  async fetchMutations(account, opts = {}) {
+    const token = requireToken(account);
+    const rows: Record<string, unknown>[] = [];
+    const seenPages = new Set<string>();
+    for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+      const pageRows = extractQrisHistoryResults(await getQrisHistory(account.username, token, 'qris_history', page));
+      const signature = JSON.stringify(pageRows);
+      if (!pageRows.length || seenPages.has(signature)) break; // empty page, or upstream ignoring the page parameter
+      seenPages.add(signature);
+      rows.push(...pageRows);
+
+      // Pages are newest first: stop once this page already reaches back before `since`
+      if (opts.since == null) break;
+      const oldest = Math.min(...pageRows.map((r) => parseTanggal(r.tanggal) ?? Infinity));
+      if (oldest <= opts.since) break;
+    }
+    return toPaymentMutations(rows);
+  },
+
+  async getBalance(account) {
+    const result = await getBalance(account.username, requireToken(account)) as {
+      account?: { results?: { balance?: number; qris_balance?: number } };
+    };
+    const accountData = result?.account?.results;
+    if (!accountData) return null;
+    return { balance: accountData.balance || 0, qris_balance: accountData.qris_balance || 0 };
+  },
+
+  async health(account) {
+    if (!account.token) return { ok: false, error: 'MISSING_TOKEN' };
+    const r = await checkToken(account.username, account.token);
+    return r.valid ? { ok: true } : { ok: false, error: r.error || 'INVALID_TOKEN' };
+  },
+};
@@ -0,0 +1,32 @@
+import { generateDynamicQris } from '../qris';
+import type { PaymentProvider } from './types';
+
+/**
+ * Sandbox adapter: builds the QRIS locally and reports no mutations. Sandbox
+ * invoices settle through simulated outcomes (lib/sandbox.ts) instead.
+ */
+export const sandboxProvider: PaymentProvider = {
+  name: 'sandbox',
+
+  async createPayment(input) {
+    return {
+      qris_string: generateDynamicQris(input.static_qris, input.amount, {
+        billNumber: input.bill_number ?? null,
+        referenceLabel: input.reference_label ?? null,
+        ...(input.tip !== undefined ? { tip: input.tip } : {}),
+      }),
+    };
+  },
+
+  async fetchMutations() {
+    return [];
+  },
+
+  async getBalance() {
+    return { balance: 0, qris_balance: 0 };
+  },
+
+  async health() {
+    return { ok: true };
+  },
+};
@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import { generateDynamicQris, validateQris } from '../qris';
+import { getMerchantStaticQris, listUnmatchedBankMutations, markBankMutationMatched } from '../db';
+import type { PaymentProvider } from './types';
+
+/**
+ * Generic adapter: the merchant's own static QRIS (any acquirer) plus incoming
+ * mutations imported from a bank statement CSV (bank_mutations table).
+ */
+export const staticQrisCsvProvider: PaymentProvider = {
+  name: 'static_qris_csv',
+
+  async createPayment(input) {
+    return {
+      qris_string: generateDynamicQris(input.static_qris, input.amount, {
+        billNumber: input.bill_number ?? null,
+        referenceLabel: input.reference_label ?? null,
+        ...(input.tip !== undefined ? { tip: input.tip } : {}),
+      }),
+    };
+  },
+
+  async fetchMutations(account) {
+    if (!account.merchant_id) return [];
+    return listUnmatchedBankMutations(account.merchant_id, 1000);
+  },
+
+  async getBalance() {
+    return null;
+  },
+
+  async health(account) {
+    const qris = account.merchant_id ? await getMerchantStaticQris(account.merchant_id) : null;
+    if (!qris) return { ok: false, error: 'MISSING_STATIC_QRIS' };
+    return validateQris(qris) ? { ok: true } : { ok: false, error: 'INVALID_QRIS' };
+  },
+
+  async markConsumed(mutation, invoiceId) {
+    await markBankMutationMatched(mutation.id, invoiceId);
+  },
+};
+
+// -----------------
+// Bank statement CSV
+// -----------------
+export type ParsedBankMutation = {
+  dedupe_hash: string;
+  occurred_at: number | null;
+  amount: number;
+  direction: 'in' | 'out';
+  description: string | null;
+  reference: string | null;
+};
+
+export const MAX_CSV_ROWS = 5000;
+
+const COLUMN_ALIASES: Record<'date' | 'amount' | 'description' | 'type' | 'reference', string[]> = {
+  date: ['date', 'tanggal', 'tgl', 'transaction_date', 'waktu'],
+  amount: ['amount', 'jumlah', 'nominal', 'kredit', 'credit', 'mutasi'],
+  description: ['description', 'keterangan', 'remark', 'berita'],
+  type: ['type', 'tipe', 'jenis', 'cr_db', 'dk'],
+  reference: ['reference', 'ref', 'referensi', 'no_ref', 'transaction_id'],
+};
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      out.push(cur.trim());
+      cur = '';
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+// "10.000", "10,000.00", "10.000,00", "Rp 10.000", "-5000" -> integer rupiah (sign kept)
+export function parseCsvAmount(raw: string): number | null {
+  let s = String(raw || '').replace(/rp|idr|\s/gi, '');
+  const negative = /^-|^\(.*\)$|(db|d)$/i.test(s);
+  s = s.replace(/^[-+(]|\)$|(cr|db|c|d)$/gi, '');
+  s = s.replace(/[.,]\d{1,2}$/, ''); // drop decimals
+  s = s.replace(/[.,]/g, '');
+  if (!/^\d+$/.test(s)) return null;
+  const n = parseInt(s, 10);
+  return negative ? -n : n;
+}
+
+// Unix seconds, ISO, "YYYY-MM-DD HH:mm[:ss]" or "DD/MM/YYYY [HH:mm[:ss]]" (WIB)
+export function parseCsvDate(raw: string): number | null {
+  const s = String(raw || '').trim();
+  if (!s) return null;
+  if (/^\d{9,10}$/.test(s)) return Number(s);
+  let m = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(s);
+  if (m) {
+    const ms = Date.UTC(Number(m[3]), Number(m[2]) - 1, Number(m[1]), Number(m[4] || 0) - 7, Number(m[5] || 0), Number(m[6] || 0));
+    return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+  }
+  m = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(s);
+  if (m) {
+    const ms = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4] || 0) - 7, Number(m[5] || 0), Number(m[6] || 0));
+    return Number.isFinite(ms) ? Math.floor(ms / 1000) : null;
+  }
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? Math.floor(t / 1000) : null;
+}
+
+/**
+ * Parse a bank statement export. Needs a header row with at least a date and an
+ * amount column (see COLUMN_ALIASES); ";" or "," delimited. Identical rows get an
+ * ordinal in their dedupe hash, so importing the same file twice adds nothing.
+ */
+export function parseBankMutationCsv(text: string): { rows: ParsedBankMutation[]; errors: Array<{ line: number; message: string }> } {
+  const lines = String(text || '').replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIdx = lines.findIndex((l) => l.trim() !== '');
+  if (headerIdx === -1) return { rows: [], errors: [{ line: 1, message: 'CSV is empty' }] };
+
+  const headerLine = lines[headerIdx];
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+  const header = splitCsvLine(headerLine, delimiter).map((h) => h.toLowerCase().replace(/\s+/g, '_'));
+  const col = (key: keyof typeof COLUMN_ALIASES) => header.findIndex((h) => COLUMN_ALIASES[key].includes(h));
+  const idx = { date: col('date'), amount: col('amount'), description: col('description'), type: col('type'), reference: col('reference') };
+  if (idx.date === -1 || idx.amount === -1) {
+    return { rows: [], errors: [{ line: headerIdx + 1, message: 'Header must contain a date and an amount column' }] };
+  }
+
+  const rows: ParsedBankMutation[] = [];
+  const errors: Array<{ line: number; message: string }> = [];
+  const seen = new Map<string, number>();
+
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    if (rows.length >= MAX_CSV_ROWS) {
+      errors.push({ line: i + 1, message: `Only the first ${MAX_CSV_ROWS} rows are imported` });
+      break;
+    }
+    const cells = splitCsvLine(lines[i], delimiter);
+    const occurredAt = parseCsvDate(cells[idx.date] ?? '');
+    const signed = parseCsvAmount(cells[idx.amount] ?? '');
+    if (signed == null || signed === 0) {
+      errors.push({ line: i + 1, message: 'Invalid amount' });
+      continue;
+    }
+    const typeCell = idx.type === -1 ? '' : String(cells[idx.type] ?? '').trim().toUpperCase();
+    const direction: 'in' | 'out' = typeCell
+      ? (['CR', 'C', 'K', 'IN', 'KREDIT', 'CREDIT'].includes(typeCell) ? 'in' : 'out')
+      : (signed > 0 ? 'in' : 'out');
+    const description = idx.description === -1 ? null : (cells[idx.description] || null);
+    const reference = idx.reference === -1 ? null : (cells[idx.reference] || null);
+
+    const content = JSON.stringify([occurredAt, Math.abs(signed), direction, description, reference]);
+    const ordinal = (seen.get(content) ?? 0) + 1;
+    seen.set(content, ordinal);
+
+    rows.push({
+      dedupe_hash: createHash('sha256').update(reference ? `ref:${reference}` : `${content}#${ordinal}`).digest('hex'),
+      occurred_at: occurredAt,
+      amount: Math.abs(signed),
+      direction,
+      description,
+      reference,
+    });
+  }
+
+  return { rows, errors };
+}
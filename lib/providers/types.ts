@@ -0,0 +1,62 @@
+import type { QrisTipOption } from '../qris';
+
+/**
+ * Payment provider abstraction.
+ *
+ * Invoices are always paid by scanning a dynamic QRIS built from a static one;
+ * a provider decides where the matching incoming mutation is read from
+ * (OrderKuota history, imported bank statement, the sandbox simulator).
+ */
+
+export type ProviderName = 'orderkuota' | 'sandbox' | 'static_qris_csv';
+
+export const PROVIDER_NAMES: ProviderName[] = ['orderkuota', 'sandbox', 'static_qris_csv'];
+
+// Providers a merchant can pick for production invoices (sandbox keys always use 'sandbox')
+export const MERCHANT_PROVIDERS: ProviderName[] = ['orderkuota', 'static_qris_csv'];
+
+export const DEFAULT_PROVIDER: ProviderName = 'orderkuota';
+
+export function isProviderName(v: unknown): v is ProviderName {
+  return typeof v === 'string' && (PROVIDER_NAMES as string[]).includes(v);
+}
+
+/** Whose mutations to read: OrderKuota needs username + token, static_qris_csv the merchant. */
+export type ProviderAccount = {
+  merchant_id?: string | null;
+  username: string;
+  token?: string | null;
+};
+
+export type PaymentMutation = {
+  id: string; // provider-local id (bank_mutations.id, or a synthetic one for OrderKuota rows)
+  amount: number;
+  direction: 'in' | 'out';
+  occurred_at: number | null;
+  description: string | null;
+};
+
+export type CreatePaymentInput = {
+  static_qris: string;
+  amount: number; // final amount (after unique-amount strategy)
+  bill_number?: string | null;
+  reference_label?: string | null;
+  // Same as DynamicQrisOptions.tip: null strips a tip indicator from the static QRIS
+  tip?: QrisTipOption | null;
+};
+
+export interface PaymentProvider {
+  readonly name: ProviderName;
+  /** Build the payable QRIS for one invoice. */
+  createPayment(input: CreatePaymentInput): Promise<{ qris_string: string }>;
+  /**
+   * Recent mutations, newest first where the upstream exposes an order. With
+   * `since`, paged upstreams keep fetching until they reach older mutations.
+   */
+  fetchMutations(account: ProviderAccount, opts?: { since?: number }): Promise<PaymentMutation[]>;
+  /** null when the provider has no notion of balance. */
+  getBalance(account: ProviderAccount): Promise<{ balance: number; qris_balance?: number } | null>;
+  health(account: ProviderAccount): Promise<{ ok: boolean; error?: string }>;
+  /** Called after a mutation settled an invoice, for providers that track consumption. */
+  markConsumed?(mutation: PaymentMutation, invoiceId: string): Promise<void>;
+}
@@ -2,87 +2,87 @@
  * QRIS Dynamic Generator
  * Converts static QRIS to dynamic QRIS with specific amount
  */
+import { decodeQris, encodeQris, setTag, setSubTag, type QrisValidationError } from './qris_codec';
 
-// CRC16-CCITT calculation
-function crc16ccitt(str: string): string {
-  let crc = 0xFFFF;
-  for (let i = 0; i < str.length; i++) {
-    crc ^= str.charCodeAt(i) << 8;
-    for (let j = 0; j < 8; j++) {
-      if (crc & 0x8000) {
-        crc = (crc << 1) ^ 0x1021;
-      } else {
-        crc = crc << 1;
-      }
-    }
-    crc &= 0xFFFF;
-  }
-  return crc.toString(16).toUpperCase().padStart(4, '0');
+export type QrisTipOption =
+  | { indicator: 'prompt' }
+  | { indicator: 'fixed'; amount: number }
+  | { indicator: 'percentage'; percent: number };
+
+export type DynamicQrisOptions = {
+  // Tag 62 sub-tag 01, e.g. the invoice id
+  billNumber?: string | null;
+  // Tag 62 sub-tag 05, e.g. the merchant reference_id
+  referenceLabel?: string | null;
+  // Tag 55/56/57. null strips any tip indicator carried by the static QRIS
+  tip?: QrisTipOption | null;
+};
+
+/**
+ * Convenience fee the customer pays on top of `amount` (tag 54) for a fixed
+ * (55=02) or percentage (55=03) indicator. Percentages are rounded to whole
+ * rupiah. null for a customer-entered tip (55=01): its amount is unknown.
+ */
+export function qrisTipFee(amount: number, tip: QrisTipOption | null): number | null {
+  if (!tip) return 0;
+  if (tip.indicator === 'fixed') return tip.amount;
+  if (tip.indicator === 'percentage') return Math.round((amount * tip.percent) / 100);
+  return null;
 }
 
-// Parse TLV structure
-function parseTLV(qris: string): Map<string, string> {
-  const result = new Map<string, string>();
-  let i = 0;
-  while (i < qris.length - 4) { // -4 to exclude CRC
-    const tag = qris.substring(i, i + 2);
-    const len = parseInt(qris.substring(i + 2, i + 4), 10);
-    const value = qris.substring(i + 4, i + 4 + len);
-    result.set(tag, value);
-    i += 4 + len;
-  }
-  return result;
+// Additional data sub-tags are ans..25; keep printable ASCII only
+export function toQrisReference(value: string): string {
+  return value.replace(/[^\x20-\x7E]/g, '').trim().slice(0, 25);
 }
 
-// Build TLV string from map
-function buildTLV(tlvMap: Map<string, string>, tagOrder: string[]): string {
-  let result = '';
-  for (const tag of tagOrder) {
-    if (tlvMap.has(tag)) {
-      const value = tlvMap.get(tag)!;
-      result += tag + value.length.toString().padStart(2, '0') + value;
+/**
+ * Convert static QRIS to dynamic QRIS with amount.
+ * All other tags (including nested templates) are kept as-is; an existing
+ * amount (54) is replaced and the CRC (63) is recomputed.
+ */
+export function generateDynamicQris(staticQris: string, amount: number, options: DynamicQrisOptions = {}): string {
+  const decoded = decodeQris(staticQris);
+  if (!decoded.ok) {
+    throw new Error(`Invalid QRIS: ${decoded.errors.map((e) => e.message).join('; ')}`);
+  }
+
+  let objects = decoded.objects;
+
+  // Change Tag 01: 11 (static) -> 12 (dynamic)
+  objects = setTag(objects, '01', '12');
+
+  // Tag 54: Transaction Amount
+  objects = setTag(objects, '54', amount.toString());
+
+  if (options.tip !== undefined) {
+    objects = setTag(setTag(setTag(objects, '55', null), '56', null), '57', null);
+    if (options.tip?.indicator === 'prompt') {
+      objects = setTag(objects, '55', '01');
+    } else if (options.tip?.indicator === 'fixed') {
+      objects = setTag(setTag(objects, '55', '02'), '56', String(options.tip.amount));
+    } else if (options.tip?.indicator === 'percentage') {
+      objects = setTag(setTag(objects, '55', '03'), '57', String(options.tip.percent));
     }
   }
-  return result;
+
+  const billNumber = options.billNumber ? toQrisReference(options.billNumber) : '';
+  if (billNumber) objects = setSubTag(objects, '62', '01', billNumber);
+  const referenceLabel = options.referenceLabel ? toQrisReference(options.referenceLabel) : '';
+  if (referenceLabel) objects = setSubTag(objects, '62', '05', referenceLabel);
+
+  return encodeQris(objects);
 }
 
 /**
- * Convert static QRIS to dynamic QRIS with amount
+ * Structured validation errors for a QRIS payload (empty when valid)
  */
-export function generateDynamicQris(staticQris: string, amount: number): string {
-  // Standard QRIS tag order
-  const tagOrder = ['00', '01', '26', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63'];
-  
-  // Parse existing QRIS
-  const tlvMap = parseTLV(staticQris);
-  
-  // Change Tag 01: 11 (static) -> 12 (dynamic)
-  tlvMap.set('01', '12');
-  
-  // Add Tag 54: Transaction Amount
-  tlvMap.set('54', amount.toString());
-  
-  // Build string without CRC
-  let qrisWithoutCrc = buildTLV(tlvMap, tagOrder);
-  
-  // Add CRC placeholder
-  qrisWithoutCrc += '6304';
-  
-  // Calculate and append CRC
-  const crc = crc16ccitt(qrisWithoutCrc);
-  
-  return qrisWithoutCrc + crc;
+export function getQrisErrors(qris: string): QrisValidationError[] {
+  return decodeQris(qris).errors;
 }
 
 /**
- * Validate QRIS string by checking CRC
+ * Validate QRIS string: TLV structure, mandatory tags and CRC
  */
 export function validateQris(qris: string): boolean {
-  if (qris.length < 8) return false;
-  
-  const dataWithoutCrc = qris.slice(0, -4);
-  const providedCrc = qris.slice(-4);
-  const calculatedCrc = crc16ccitt(dataWithoutCrc);
-  
-  return providedCrc.toUpperCase() === calculatedCrc;
+  return decodeQris(qris).ok;
 }
@@ -0,0 +1,329 @@
+/**
+ * EMVCo MPM / QRIS codec.
+ *
+ * Parses a QRIS payload into an ordered list of data objects (nested templates
+ * included), validates it, and serialises it back. Unknown tags are kept as-is,
+ * so decode -> encode round-trips any valid payload byte for byte.
+ *
+ * Reference: EMVCo QRCPS-MPM v1.1 and the ASPI QRIS (Bank Indonesia) profile.
+ */
+
+export type QrisDataObject = {
+  tag: string;
+  value: string;
+  // Present for template tags (26-51, 62, 64, 80-99) whose value parsed as TLV
+  children?: QrisDataObject[];
+};
+
+export type QrisErrorCode =
+  | 'MALFORMED_TLV'
+  | 'DUPLICATE_TAG'
+  | 'MISSING_TAG'
+  | 'INVALID_VALUE'
+  | 'INVALID_CRC';
+
+export type QrisValidationError = {
+  code: QrisErrorCode;
+  // Dotted path for nested objects, e.g. "62.01"
+  tag?: string;
+  offset?: number;
+  message: string;
+};
+
+export type QrisMerchantAccount = {
+  tag: string;
+  gui: string | null; // 00: globally unique identifier / reverse domain
+  pan: string | null; // 01: merchant PAN
+  merchant_id: string | null; // 02
+  criteria: string | null; // 03: UMI / UKE / UME / UBE / URE
+};
+
+export type QrisAdditionalData = {
+  bill_number: string | null; // 01
+  mobile_number: string | null; // 02
+  store_label: string | null; // 03
+  loyalty_number: string | null; // 04
+  reference_label: string | null; // 05
+  customer_label: string | null; // 06
+  terminal_label: string | null; // 07
+  purpose: string | null; // 08
+  consumer_data_request: string | null; // 09
+};
+
+export type QrisFields = {
+  payload_format: string | null;
+  initiation: 'static' | 'dynamic' | null;
+  merchant_accounts: QrisMerchantAccount[];
+  // National Merchant ID from the ID.CO.QRIS.WWW domestic template (tag 51)
+  nmid: string | null;
+  mcc: string | null;
+  currency: string | null;
+  amount: string | null;
+  tip_indicator: 'prompt' | 'fixed' | 'percentage' | null;
+  tip_fixed: string | null;
+  tip_percentage: string | null;
+  country: string | null;
+  merchant_name: string | null;
+  merchant_city: string | null;
+  postal_code: string | null;
+  additional_data: QrisAdditionalData | null;
+  crc: string | null;
+};
+
+export type QrisDecodeResult = {
+  ok: boolean;
+  objects: QrisDataObject[];
+  fields: QrisFields;
+  errors: QrisValidationError[];
+};
+
+export const QRIS_DOMESTIC_GUI = 'ID.CO.QRIS.WWW';
+
+// CRC16-CCITT (poly 0x1021, init 0xFFFF), as required for tag 63
+export function crc16ccitt(str: string): string {
+  let crc = 0xFFFF;
+  for (let i = 0; i < str.length; i++) {
+    crc ^= str.charCodeAt(i) << 8;
+    for (let j = 0; j < 8; j++) {
+      if (crc & 0x8000) {
+        crc = (crc << 1) ^ 0x1021;
+      } else {
+        crc = crc << 1;
+      }
+    }
+    crc &= 0xFFFF;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function isTemplateTag(tag: string): boolean {
+  const n = Number(tag);
+  return (n >= 26 && n <= 51) || n === 62 || n === 64 || (n >= 80 && n <= 99);
+}
+
+// -----------------
+// TLV
+// -----------------
+function parseTlv(
+  input: string,
+  baseOffset: number,
+  pathPrefix: string,
+  errors: QrisValidationError[]
+): QrisDataObject[] | null {
+  const out: QrisDataObject[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const tag = input.substring(i, i + 2);
+    const lenStr = input.substring(i + 2, i + 4);
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(lenStr)) {
+      errors.push({ code: 'MALFORMED_TLV', tag: pathPrefix ? `${pathPrefix}.${tag}` : tag, offset: baseOffset + i, message: `Invalid tag/length header "${tag}${lenStr}"` });
+      return null;
+    }
+    const len = Number(lenStr);
+    if (i + 4 + len > input.length) {
+      errors.push({ code: 'MALFORMED_TLV', tag: pathPrefix ? `${pathPrefix}.${tag}` : tag, offset: baseOffset + i, message: `Tag ${tag} length ${len} runs past end of data` });
+      return null;
+    }
+    out.push({ tag, value: input.substring(i + 4, i + 4 + len) });
+    i += 4 + len;
+  }
+  return out;
+}
+
+function serialize(objects: QrisDataObject[]): string {
+  let s = '';
+  for (const o of objects) {
+    const value = o.children ? serialize(o.children) : o.value;
+    if (value.length > 99) throw new Error(`QRIS tag ${o.tag} value exceeds 99 chars`);
+    s += o.tag + String(value.length).padStart(2, '0') + value;
+  }
+  return s;
+}
+
+// -----------------
+// Decode / encode
+// -----------------
+export function decodeQris(payload: string): QrisDecodeResult {
+  const errors: QrisValidationError[] = [];
+  const input = String(payload || '').trim();
+  const objects = parseTlv(input, 0, '', errors) || [];
+
+  if (!errors.length) {
+    for (const o of objects) {
+      if (!isTemplateTag(o.tag)) continue;
+      const childErrors: QrisValidationError[] = [];
+      const children = parseTlv(o.value, 0, o.tag, childErrors);
+      if (children) {
+        o.children = children;
+      } else if (Number(o.tag) < 80) {
+        // 80-99 are unreserved and may carry non-TLV payloads; others must be templates
+        errors.push(...childErrors);
+      }
+    }
+    validate(input, objects, errors);
+  }
+
+  return { ok: errors.length === 0, objects, fields: readFields(objects), errors };
+}
+
+/**
+ * Serialise data objects back to a payload. Any tag 63 is dropped and a fresh
+ * CRC is appended as the last object.
+ */
+export function encodeQris(objects: QrisDataObject[]): string {
+  const body = serialize(objects.filter((o) => o.tag !== '63')) + '6304';
+  return body + crc16ccitt(body);
+}
+
+// -----------------
+// Field access / mutation
+// -----------------
+export function getTag(objects: QrisDataObject[], tag: string): QrisDataObject | undefined {
+  return objects.find((o) => o.tag === tag);
+}
+
+// Insert keeping ascending tag order; the CRC (63) always stays last
+function insertOrdered(objects: QrisDataObject[], obj: QrisDataObject): QrisDataObject[] {
+  const idx = objects.findIndex((o) => o.tag === '63' || o.tag > obj.tag);
+  if (idx === -1) return [...objects, obj];
+  return [...objects.slice(0, idx), obj, ...objects.slice(idx)];
+}
+
+/**
+ * Set (or remove, with null) a tag. An existing tag keeps its position, a new
+ * one is inserted in ascending tag order.
+ */
+export function setTag(objects: QrisDataObject[], tag: string, value: string | null): QrisDataObject[] {
+  if (value === null) return objects.filter((o) => o.tag !== tag);
+  if (getTag(objects, tag)) return objects.map((o) => (o.tag === tag ? { tag, value } : o));
+  return insertOrdered(objects, { tag, value });
+}
+
+/**
+ * Set (or remove) a sub-tag inside a template such as 62. The template is
+ * created when missing and dropped when its last sub-tag is removed.
+ */
+export function setSubTag(objects: QrisDataObject[], template: string, subTag: string, value: string | null): QrisDataObject[] {
+  const existing = getTag(objects, template);
+  const children = setTag(existing?.children ?? [], subTag, value);
+  if (!children.length) return setTag(objects, template, null);
+  const updated: QrisDataObject = { tag: template, value: serialize(children), children };
+  if (!existing) return insertOrdered(objects, updated);
+  return objects.map((o) => (o.tag === template ? updated : o));
+}
+
+function sub(o: QrisDataObject | undefined, tag: string): string | null {
+  const c = o?.children?.find((x) => x.tag === tag);
+  return c ? c.value : null;
+}
+
+function readFields(objects: QrisDataObject[]): QrisFields {
+  const val = (tag: string) => getTag(objects, tag)?.value ?? null;
+
+  const merchant_accounts: QrisMerchantAccount[] = objects
+    .filter((o) => Number(o.tag) >= 26 && Number(o.tag) <= 51)
+    .map((o) => ({ tag: o.tag, gui: sub(o, '00'), pan: sub(o, '01'), merchant_id: sub(o, '02'), criteria: sub(o, '03') }));
+  const domestic = merchant_accounts.find((a) => a.gui === QRIS_DOMESTIC_GUI);
+
+  const initiation = val('01');
+  const tip = val('55');
+  const ad = getTag(objects, '62');
+
+  return {
+    payload_format: val('00'),
+    initiation: initiation === '11' ? 'static' : initiation === '12' ? 'dynamic' : null,
+    merchant_accounts,
+    nmid: domestic?.merchant_id ?? null,
+    mcc: val('52'),
+    currency: val('53'),
+    amount: val('54'),
+    tip_indicator: tip === '01' ? 'prompt' : tip === '02' ? 'fixed' : tip === '03' ? 'percentage' : null,
+    tip_fixed: val('56'),
+    tip_percentage: val('57'),
+    country: val('58'),
+    merchant_name: val('59'),
+    merchant_city: val('60'),
+    postal_code: val('61'),
+    additional_data: ad
+      ? {
+          bill_number: sub(ad, '01'),
+          mobile_number: sub(ad, '02'),
+          store_label: sub(ad, '03'),
+          loyalty_number: sub(ad, '04'),
+          reference_label: sub(ad, '05'),
+          customer_label: sub(ad, '06'),
+          terminal_label: sub(ad, '07'),
+          purpose: sub(ad, '08'),
+          consumer_data_request: sub(ad, '09'),
+        }
+      : null,
+    crc: val('63'),
+  };
+}
+
+// -----------------
+// Validation
+// -----------------
+const REQUIRED_TAGS = ['00', '01', '52', '53', '58', '59', '60', '63'];
+
+const FORMAT_RULES: Record<string, { re: RegExp; message: string }> = {
+  '00': { re: /^01$/, message: 'Payload format indicator must be "01"' },
+  '01': { re: /^1[12]$/, message: 'Point of initiation must be 11 (static) or 12 (dynamic)' },
+  '52': { re: /^\d{4}$/, message: 'MCC must be 4 digits' },
+  '53': { re: /^\d{3}$/, message: 'Currency must be a 3-digit ISO 4217 code' },
+  '54': { re: /^(?=.{1,13}$)\d+(\.\d{1,2})?$/, message: 'Amount must be numeric, max 13 chars' },
+  '55': { re: /^0[123]$/, message: 'Tip indicator must be 01, 02 or 03' },
+  '56': { re: /^(?=.{1,13}$)\d+(\.\d{1,2})?$/, message: 'Fixed convenience fee must be numeric, max 13 chars' },
+  '57': { re: /^(?=.{1,5}$)\d+(\.\d{1,2})?$/, message: 'Percentage convenience fee must be numeric, max 5 chars' },
+  '58': { re: /^[A-Z]{2}$/, message: 'Country code must be 2 uppercase letters' },
+  '59': { re: /^.{1,25}$/, message: 'Merchant name must be 1-25 chars' },
+  '60': { re: /^.{1,15}$/, message: 'Merchant city must be 1-15 chars' },
+  '61': { re: /^.{1,10}$/, message: 'Postal code must be 1-10 chars' },
+  '63': { re: /^[0-9A-Fa-f]{4}$/, message: 'CRC must be 4 hex chars' },
+};
+
+function validate(input: string, objects: QrisDataObject[], errors: QrisValidationError[]): void {
+  const seen = new Set<string>();
+  for (const o of objects) {
+    if (seen.has(o.tag)) errors.push({ code: 'DUPLICATE_TAG', tag: o.tag, message: `Tag ${o.tag} appears more than once` });
+    seen.add(o.tag);
+
+    const rule = FORMAT_RULES[o.tag];
+    if (rule && !rule.re.test(o.value)) errors.push({ code: 'INVALID_VALUE', tag: o.tag, message: rule.message });
+
+    if (o.children) {
+      const seenSub = new Set<string>();
+      for (const c of o.children) {
+        if (seenSub.has(c.tag)) errors.push({ code: 'DUPLICATE_TAG', tag: `${o.tag}.${c.tag}`, message: `Sub-tag ${c.tag} appears more than once in ${o.tag}` });
+        seenSub.add(c.tag);
+      }
+      const isMerchantAccount = Number(o.tag) >= 26 && Number(o.tag) <= 51;
+      if ((isMerchantAccount || Number(o.tag) >= 80) && !seenSub.has('00')) {
+        errors.push({ code: 'MISSING_TAG', tag: `${o.tag}.00`, message: `Template ${o.tag} has no globally unique identifier (00)` });
+      }
+    }
+  }
+
+  for (const tag of REQUIRED_TAGS) {
+    if (!seen.has(tag)) errors.push({ code: 'MISSING_TAG', tag, message: `Required tag ${tag} is missing` });
+  }
+  if (!objects.some((o) => Number(o.tag) >= 26 && Number(o.tag) <= 51)) {
+    errors.push({ code: 'MISSING_TAG', tag: '26-51', message: 'At least one merchant account template (26-51) is required' });
+  }
+  if (objects.length && objects[0].tag !== '00') {
+    errors.push({ code: 'INVALID_VALUE', tag: '00', message: 'Payload format indicator must be the first object' });
+  }
+
+  const tip = getTag(objects, '55')?.value;
+  if (tip === '02' && !seen.has('56')) errors.push({ code: 'MISSING_TAG', tag: '56', message: 'Tip indicator 02 requires tag 56' });
+  if (tip === '03' && !seen.has('57')) errors.push({ code: 'MISSING_TAG', tag: '57', message: 'Tip indicator 03 requires tag 57' });
+
+  const last = objects[objects.length - 1];
+  if (seen.has('63')) {
+    if (last.tag !== '63') {
+      errors.push({ code: 'INVALID_VALUE', tag: '63', message: 'CRC must be the last object' });
+    } else if (input.slice(-4).toUpperCase() !== crc16ccitt(input.slice(0, -4))) {
+      errors.push({ code: 'INVALID_CRC', tag: '63', message: 'CRC mismatch' });
+    }
+  }
+}
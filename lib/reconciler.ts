@@ -0,0 +1,96 @@
+import {
+  listOrderkuotaAccountsWithPendingInvoices,
+  listOrderkuotaAccountsWithOnlyExpiredInvoices,
+  getOrderkuotaAccountCredentials,
+  listPendingInvoicesForUsername,
+  listRecentlyExpiredInvoicesForUsername,
+  listMerchantsWithPendingInvoicesForProvider,
+  listPendingInvoicesForMerchant,
+  listRecentlyExpiredInvoicesForMerchant,
+  markOrderkuotaAccountPolled,
+} from './db';
+import { getProvider } from './providers';
+import { LATE_PAYMENT_WINDOW_SECONDS, reconcileInvoices } from './matching';
+import { recordUnmatchedFunds } from './unmatched_funds';
+
+// Minimum gap between two history pulls for the same OrderKuota account
+const MIN_POLL_SECONDS = Number(process.env.RECONCILER_MIN_POLL_SECONDS || 30);
+// Accounts only watched for late payments are pulled less often
+const LATE_POLL_SECONDS = Number(process.env.RECONCILER_LATE_POLL_SECONDS || 300);
+
+let running = false;
+
+/**
+ * Background payment reconciler.
+ * Pulls mutations once per OrderKuota account (or static_qris_csv merchant) that
+ * has pending (or recently expired) invoices, hands them to the matching engine
+ * (lib/matching.ts) and records what is left as unmatched funds.
+ * Sandbox invoices are handled by lib/sandbox.ts.
+ */
+export async function runReconcilerOnce(): Promise<{ accounts: number; paid: number; unmatched: number }> {
+  // OrderKuota calls can be slow (retries); never overlap two passes
+  if (running) return { accounts: 0, paid: 0, unmatched: 0 };
+  running = true;
+
+  let polled = 0;
+  let paid = 0;
+  let unmatched = 0;
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const expiredSince = now - LATE_PAYMENT_WINDOW_SECONDS;
+    const accounts = [
+      ...(await listOrderkuotaAccountsWithPendingInvoices()).map((acc) => ({ acc, gap: MIN_POLL_SECONDS })),
+      ...(await listOrderkuotaAccountsWithOnlyExpiredInvoices(expiredSince)).map((acc) => ({ acc, gap: LATE_POLL_SECONDS })),
+    ];
+
+    for (const { acc, gap } of accounts) {
+      if (acc.last_polled_at && now - acc.last_polled_at < gap) continue;
+      polled += 1;
+
+      try {
+        const creds = await getOrderkuotaAccountCredentials(acc.id);
+        if (!creds) continue;
+
+        const provider = getProvider('orderkuota');
+        const invoices = [
+          ...(await listPendingInvoicesForUsername(acc.merchant_id, acc.username)),
+          ...(await listRecentlyExpiredInvoicesForUsername(acc.merchant_id, acc.username, expiredSince)),
+        ];
+        const r = await reconcileInvoices(
+          provider,
+          { merchant_id: acc.merchant_id, username: creds.username, token: creds.token },
+          creds.username,
+          invoices
+        );
+        paid += r.paid.length;
+        unmatched += await recordUnmatchedFunds(provider, creds.username, invoices, r.unmatched);
+
+        await markOrderkuotaAccountPolled(acc.id, null);
+      } catch (e: any) {
+        console.error('reconciler account error', acc.id, e?.message || e);
+        await markOrderkuotaAccountPolled(acc.id, String(e?.message || 'ERROR').slice(0, 500));
+      }
+    }
+
+    // Static QRIS + bank CSV: mutations are already local, no poll throttling needed
+    const csvProvider = getProvider('static_qris_csv');
+    for (const merchantId of await listMerchantsWithPendingInvoicesForProvider('static_qris_csv', expiredSince)) {
+      try {
+        polled += 1;
+        const invoices = [
+          ...(await listPendingInvoicesForMerchant(merchantId, 'static_qris_csv')),
+          ...(await listRecentlyExpiredInvoicesForMerchant(merchantId, 'static_qris_csv', expiredSince)),
+        ];
+        const r = await reconcileInvoices(csvProvider, { merchant_id: merchantId, username: '' }, merchantId, invoices);
+        paid += r.paid.length;
+        unmatched += await recordUnmatchedFunds(csvProvider, merchantId, invoices, r.unmatched);
+      } catch (e: any) {
+        console.error('reconciler csv merchant error', merchantId, e?.message || e);
+      }
+    }
+  } finally {
+    running = false;
+  }
+
+  return { accounts: polled, paid, unmatched };
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import {
+  getInvoiceById,
+  getSandboxPlan,
+  listDueSandboxPlans,
+  markSandboxPlanApplied,
+  upsertSandboxPlan,
+  type Invoice,
+  type SandboxInvoicePlan,
+  type SandboxOutcome,
+} from './db';
+import { markInvoiceExpired, markInvoicePaid } from './invoice_lifecycle';
+import { getProvider } from './providers';
+import { recordPlannedFunds } from './unmatched_funds';
+
+/**
+ * Sandbox payment simulator.
+ *
+ * Invoices created with a sandbox API key never touch OrderKuota: they settle
+ * through plans (sandbox_invoice_plans) that the scheduler, or a check call on
+ * the invoice, applies once run_at is due. Plans come from magic amounts at
+ * creation time or from POST /api/gw/sandbox/invoices/:id/simulate.
+ */
+
+export const SANDBOX_OUTCOMES: SandboxOutcome[] = ['paid', 'expired', 'partial'];
+
+// Default delay before a magic-amount outcome is applied (scheduler tick granularity applies)
+export const SANDBOX_AUTO_PAY_DELAY_SECONDS = Number(process.env.SANDBOX_AUTO_PAY_DELAY_SECONDS || 5);
+export const SANDBOX_MAX_DELAY_SECONDS = 24 * 3600;
+
+// Valid static QRIS (fake NMID) used when a sandbox invoice has no account / qris_static
+export const SANDBOX_STATIC_QRIS =
+  '00020101021126610014ID.CO.QRIS.WWW0118936000000000000001021000000000010303UMI51440014ID.CO.QRIS.WWW0215ID10200000000010303UMI5204599953033605802ID5910PG SANDBOX6007JAKARTA61051011063041026';
+
+/**
+ * Magic amounts, matched on the last three digits of the requested amount
+ * (before the unique suffix), e.g. 10001 -> paid, 25002 -> expired.
+ * Any other amount stays pending until simulated or expired.
+ */
+const MAGIC_SUFFIXES: Record<number, SandboxOutcome> = {
+  1: 'paid',
+  2: 'expired',
+  3: 'partial',
+};
+
+export function sandboxOutcomeForAmount(baseAmount: number): SandboxOutcome | null {
+  return MAGIC_SUFFIXES[baseAmount % 1000] ?? null;
+}
+
+export function isSandboxOutcome(v: unknown): v is SandboxOutcome {
+  return typeof v === 'string' && (SANDBOX_OUTCOMES as string[]).includes(v);
+}
+
+export function sandboxUsername(merchantId: string): string {
+  return `sandbox:${merchantId}`;
+}
+
+// Partial payments default to half of the final amount (customer underpaid)
+function partialAmount(inv: Invoice, requested: number | null): number {
+  if (requested != null && requested > 0 && requested < inv.final_amount) return requested;
+  return Math.max(1, Math.floor(inv.final_amount / 2));
+}
+
+export async function scheduleSandboxOutcome(
+  inv: Invoice,
+  outcome: SandboxOutcome,
+  opts: { delay_seconds: number; paid_amount?: number | null; source: SandboxInvoicePlan['source'] }
+): Promise<SandboxInvoicePlan> {
+  const now = Math.floor(Date.now() / 1000);
+  return upsertSandboxPlan({
+    invoice_id: inv.id,
+    merchant_id: inv.merchant_id,
+    outcome,
+    paid_amount: outcome === 'partial' ? partialAmount(inv, opts.paid_amount ?? null) : null,
+    source: opts.source,
+    run_at: now + Math.max(0, opts.delay_seconds),
+  });
+}
+
+/**
+ * Apply an outcome to a pending sandbox invoice right away.
+ * paid/expired follow the real lifecycle (events + webhooks on the sandbox
+ * endpoint). partial is a short transfer: like in production it is recorded
+ * as underpaid unmatched funds (payment.underpaid) and the invoice stays pending.
+ */
+export async function applySandboxOutcome(
+  inv: Invoice,
+  outcome: SandboxOutcome,
+  paidAmount: number | null = null
+): Promise<{ ok: true; status: Invoice['status'] } | { ok: false; code: 'NOT_SANDBOX' | 'INVOICE_NOT_PENDING' }> {
+  if (inv.env !== 'sandbox') return { ok: false, code: 'NOT_SANDBOX' };
+  if (inv.status !== 'pending') return { ok: false, code: 'INVOICE_NOT_PENDING' };
+
+  const now = Math.floor(Date.now() / 1000);
+  if (outcome === 'paid') {
+    if (!(await markInvoicePaid(inv, now))) return { ok: false, code: 'INVOICE_NOT_PENDING' };
+    return { ok: true, status: 'paid' };
+  }
+  if (outcome === 'expired') {
+    await markInvoiceExpired(inv, now);
+    return { ok: true, status: 'expired' };
+  }
+
+  const mutation = { id: randomUUID(), amount: partialAmount(inv, paidAmount), direction: 'in' as const, occurred_at: now, description: 'Sandbox partial payment' };
+  await recordPlannedFunds(getProvider('sandbox'), inv.username, { mutation, kind: 'underpaid', candidates: [inv] });
+  return { ok: true, status: 'pending' };
+}
+
+async function applyPlan(plan: SandboxInvoicePlan): Promise<boolean> {
+  // Claim first so the scheduler and a concurrent check never apply the same plan twice
+  if (!(await markSandboxPlanApplied(plan.invoice_id))) return false;
+  const inv = await getInvoiceById(plan.invoice_id, plan.merchant_id);
+  if (!inv) return false;
+  const r = await applySandboxOutcome(inv, plan.outcome, plan.paid_amount);
+  return r.ok;
+}
+
+/** Apply this invoice's plan if it is due (used by the check endpoint). */
+export async function applyDueSandboxPlan(invoiceId: string): Promise<boolean> {
+  const plan = await getSandboxPlan(invoiceId);
+  if (!plan || plan.applied_at != null) return false;
+  if (plan.run_at > Math.floor(Date.now() / 1000)) return false;
+  return applyPlan(plan);
+}
+
+export async function runSandboxPlansOnce(): Promise<{ applied: number }> {
+  let applied = 0;
+  for (const plan of await listDueSandboxPlans(100)) {
+    try {
+      if (await applyPlan(plan)) applied += 1;
+    } catch (e: any) {
+      console.error('sandbox plan error', plan.invoice_id, e?.message || e);
+    }
+  }
+  return { applied };
+}
@@ -1,13 +1,13 @@
-import { randomUUID } from 'crypto';
 import {
   initDb,
   listInvoicesDueForExpiry,
-  setInvoiceExpired,
-  createInvoiceEvent,
-  enqueueWebhookDelivery,
   cleanupExpiredRows,
 } from './db';
 import { runWebhookWorkerOnce } from './webhook_worker';
+import { runReconcilerOnce } from './reconciler';
+import { runSandboxPlansOnce } from './sandbox';
+import { markInvoiceExpired } from './invoice_lifecycle';
+import { MATCH_GRACE_SECONDS } from './matching';
 
 const INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS || 15000);
 
@@ -19,25 +19,16 @@ export function startScheduler() {
     try {
       const now = Math.floor(Date.now() / 1000);
 
-      // Expire due invoices
-      const due = await listInvoicesDueForExpiry(200);
+      // Settle paid invoices from OrderKuota history (server-side credentials)
+      await runReconcilerOnce();
+
+      // Sandbox invoices: apply simulated outcomes that are due (never calls OrderKuota)
+      await runSandboxPlansOnce();
+
+      // Expire due invoices (production ones after the matching grace period)
+      const due = await listInvoicesDueForExpiry(200, MATCH_GRACE_SECONDS);
       for (const inv of due) {
-        await setInvoiceExpired(inv.id, inv.merchant_id, now);
-        await createInvoiceEvent({
-          id: randomUUID(),
-          invoice_id: inv.id,
-          merchant_id: inv.merchant_id,
-          event_type: 'payment.expired',
-          payload: { invoice_id: inv.id },
-          created_at: now,
-        });
-        await enqueueWebhookDelivery({
-          merchant_id: inv.merchant_id,
-          invoice_id: inv.id,
-          event_type: 'payment.expired',
-          payload: { invoice_id: inv.id, event_type: 'payment.expired', created_at: now },
-          run_at: now,
-        });
+        await markInvoiceExpired(inv, now, { due_by: inv.env === 'sandbox' ? now : now - MATCH_GRACE_SECONDS });
       }
 
       // Cleanup
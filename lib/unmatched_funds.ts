@@ -0,0 +1,189 @@
+import {
+  closeUnmatchedFunds,
+  createUnmatchedFunds,
+  getInvoiceById,
+  withTransaction,
+  type Invoice,
+  type UnmatchedFunds,
+  type UnmatchedFundsKind,
+} from './db';
+import { emitInvoiceEvent, markInvoicePaid } from './invoice_lifecycle';
+import { LATE_PAYMENT_WINDOW_SECONDS, MATCH_CLOCK_SKEW_SECONDS, MATCH_GRACE_SECONDS, payableAmount } from './matching';
+import { getProvider, type PaymentMutation, type PaymentProvider } from './providers';
+
+/**
+ * Unmatched funds: incoming money that belongs to an invoice but could not
+ * settle it automatically.
+ *
+ * - late: exact amount (final_amount plus any tip fee), but the invoice had already expired
+ * - underpaid / overpaid: near-miss amount inside the invoice's window, e.g. the
+ *   customer typed the base amount without the unique suffix
+ *
+ * The reconciler records them (one row per mutation) and emits payment.late /
+ * payment.underpaid / payment.overpaid; the merchant then accepts the funds
+ * onto an invoice or marks them refunded.
+ */
+
+// Largest difference from the payable amount treated as a near miss (the unique suffix range)
+export const NEAR_MISS_MAX_DIFF = Number(process.env.NEAR_MISS_MAX_DIFF || 1000);
+
+const EVENT_TYPES: Record<UnmatchedFundsKind, string> = {
+  late: 'payment.late',
+  underpaid: 'payment.underpaid',
+  overpaid: 'payment.overpaid',
+};
+
+export type PlannedFunds = { mutation: PaymentMutation; kind: UnmatchedFundsKind; candidates: Invoice[] };
+
+/**
+ * Pure step over the mutations the matching engine left over. Candidates are
+ * ordered best first; a mutation that fits nothing is ignored (not a payment).
+ */
+export function planUnmatchedFunds(invoices: Invoice[], leftovers: PaymentMutation[]): PlannedFunds[] {
+  const out: PlannedFunds[] = [];
+  for (const m of leftovers) {
+    if (m.direction !== 'in' || m.amount <= 0 || m.occurred_at == null) continue;
+    const t = m.occurred_at;
+
+    const late = invoices.filter(
+      (inv) =>
+        inv.status === 'expired' &&
+        payableAmount(inv) === m.amount &&
+        t >= inv.created_at - MATCH_CLOCK_SKEW_SECONDS &&
+        t <= inv.expires_at + LATE_PAYMENT_WINDOW_SECONDS
+    );
+    if (late.length) {
+      out.push({ mutation: m, kind: 'late', candidates: late });
+      continue;
+    }
+
+    const inWindow = invoices.filter(
+      (inv) =>
+        (inv.status === 'pending' || inv.status === 'expired') &&
+        payableAmount(inv) !== m.amount &&
+        t >= inv.created_at - MATCH_CLOCK_SKEW_SECONDS &&
+        t <= inv.expires_at + MATCH_GRACE_SECONDS
+    );
+    // Paying the base amount without the suffix is the common mistake; rank it first
+    const exactBase = inWindow.filter((inv) => inv.base_amount === m.amount);
+    const near = (exactBase.length ? exactBase : inWindow.filter((inv) => Math.abs(payableAmount(inv) - m.amount) <= NEAR_MISS_MAX_DIFF))
+      .sort((a, b) => Math.abs(payableAmount(a) - m.amount) - Math.abs(payableAmount(b) - m.amount));
+    if (near.length) {
+      out.push({ mutation: m, kind: m.amount < payableAmount(near[0]) ? 'underpaid' : 'overpaid', candidates: near });
+    }
+  }
+  return out;
+}
+
+/** Record leftovers as unmatched funds; returns how many new entries were created. */
+export async function recordUnmatchedFunds(
+  provider: PaymentProvider,
+  accountKey: string,
+  invoices: Invoice[],
+  leftovers: PaymentMutation[]
+): Promise<number> {
+  let created = 0;
+  for (const planned of planUnmatchedFunds(invoices, leftovers)) {
+    if (await recordPlannedFunds(provider, accountKey, planned)) created += 1;
+  }
+  return created;
+}
+
+/**
+ * One entry (in the candidates' env) plus its payment.late / underpaid / overpaid
+ * event when a single invoice fits. Also the sandbox 'partial' outcome's path.
+ * Returns null when the mutation is already recorded.
+ */
+export async function recordPlannedFunds(
+  provider: PaymentProvider,
+  accountKey: string,
+  { mutation, kind, candidates }: PlannedFunds
+): Promise<UnmatchedFunds | null> {
+  const target = candidates.length === 1 ? candidates[0] : null;
+  const funds = await createUnmatchedFunds({
+    merchant_id: candidates[0].merchant_id,
+    env: candidates[0].env,
+    provider: provider.name,
+    account_key: accountKey,
+    mutation_id: mutation.id,
+    amount: mutation.amount,
+    occurred_at: mutation.occurred_at,
+    description: mutation.description,
+    kind,
+    invoice_id: target?.id ?? null,
+    expected_amount: target ? payableAmount(target) : null,
+    candidate_invoice_ids: candidates.map((c) => c.id),
+  });
+  if (!funds) return null;
+
+  // Webhooks hang off an invoice; several candidates are only visible via the endpoints
+  if (target) {
+    await emitInvoiceEvent({
+      invoice_id: target.id,
+      merchant_id: target.merchant_id,
+      env: target.env,
+      event_type: EVENT_TYPES[kind],
+      payload: {
+        invoice_id: target.id,
+        unmatched_funds_id: funds.id,
+        final_amount: target.final_amount,
+        paid_amount: mutation.amount,
+        difference: mutation.amount - payableAmount(target),
+        occurred_at: mutation.occurred_at,
+      },
+    });
+  }
+  return funds;
+}
+
+/**
+ * Merchant accepts the funds as payment for an invoice (pending or expired) of
+ * the funds' env: the mutation is claimed like an automatic match and the
+ * invoice goes to paid.
+ */
+export async function acceptUnmatchedFunds(
+  funds: UnmatchedFunds,
+  invoiceId: string | null,
+  note: string | null
+): Promise<
+  | { ok: true; invoice: Invoice }
+  | { ok: false; code: 'FUNDS_CLOSED' | 'INVOICE_REQUIRED' | 'INVOICE_NOT_FOUND' | 'INVOICE_NOT_PAYABLE' | 'MUTATION_CONSUMED' }
+> {
+  if (funds.status !== 'open') return { ok: false, code: 'FUNDS_CLOSED' };
+  const targetId = invoiceId || funds.invoice_id;
+  if (!targetId) return { ok: false, code: 'INVOICE_REQUIRED' };
+  const inv = await getInvoiceById(targetId, funds.merchant_id);
+  if (!inv || inv.env !== funds.env) return { ok: false, code: 'INVOICE_NOT_FOUND' };
+  if (inv.status !== 'pending' && inv.status !== 'expired') return { ok: false, code: 'INVOICE_NOT_PAYABLE' };
+
+  // Claim, payment and closing the funds commit together
+  const now = Math.floor(Date.now() / 1000);
+  const claim = { provider: funds.provider, account_key: funds.account_key, mutation_id: funds.mutation_id, amount: funds.amount, occurred_at: funds.occurred_at };
+  const paid = await withTransaction(async () => {
+    if (!(await markInvoicePaid(inv, now, { allow_expired: true, paid_amount: funds.amount, mutation: claim }))) return false;
+    await closeUnmatchedFunds(funds.id, 'accepted', { resolved_invoice_id: inv.id, note });
+    return true;
+  });
+  if (!paid) {
+    const cur = await getInvoiceById(inv.id, funds.merchant_id);
+    return { ok: false, code: cur?.status === 'pending' || cur?.status === 'expired' ? 'MUTATION_CONSUMED' : 'INVOICE_NOT_PAYABLE' };
+  }
+
+  const provider = getProvider(funds.provider);
+  if (provider.markConsumed) {
+    const mutation: PaymentMutation = { id: funds.mutation_id, amount: funds.amount, direction: 'in', occurred_at: funds.occurred_at, description: funds.description };
+    await provider.markConsumed(mutation, inv.id);
+  }
+  return { ok: true, invoice: { ...inv, status: 'paid', paid_at: now } };
+}
+
+/** The merchant sent the money back to the customer outside the gateway; record it. */
+export async function refundUnmatchedFunds(
+  funds: UnmatchedFunds,
+  reference: string | null,
+  note: string | null
+): Promise<{ ok: true } | { ok: false; code: 'FUNDS_CLOSED' }> {
+  if (funds.status !== 'open') return { ok: false, code: 'FUNDS_CLOSED' };
+  if (!(await closeUnmatchedFunds(funds.id, 'refunded', { refund_reference: reference, note }))) return { ok: false, code: 'FUNDS_CLOSED' };
+  return { ok: true };
+}
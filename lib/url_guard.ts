@@ -0,0 +1,119 @@
+import dns from 'dns';
+import ipaddr from 'ipaddr.js';
+import { listWebhookUrlAllowlist } from './db';
+
+/**
+ * SSRF guard for merchant webhook URLs. Checked when a URL is saved and again
+ * right before every delivery (DNS can change in between):
+ *
+ * - http/https only, no credentials in the URL; https required for production
+ *   endpoints (sandbox may use http)
+ * - the hostname is resolved and every address must be public unicast:
+ *   loopback, private, link-local (cloud metadata 169.254.169.254), CGNAT,
+ *   unique-local, multicast, reserved ... are refused
+ * - the delivery connects to the address checked here (pinned lookup), so a
+ *   second DNS answer cannot point somewhere else
+ *
+ * Redirects are never followed (lib/webhook_http.ts does not), and the
+ * response body is size-capped there.
+ *
+ * Admins can allowlist exceptions (webhook_url_allowlist): a hostname, an IP
+ * or a CIDR. A URL whose hostname is listed, or whose addresses all fall in
+ * listed IPs/CIDRs, skips the address and https checks.
+ */
+
+export type WebhookTarget = { url: URL; address: string; family: 4 | 6 };
+
+export type UrlGuardResult =
+  | { ok: true; target: WebhookTarget }
+  // retryable: DNS did not answer; the URL itself may be fine
+  | { ok: false; code: string; message: string; retryable: boolean };
+
+const HOSTNAME_RE = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+export function isPublicAddress(ip: string): boolean {
+  let addr: ipaddr.IPv4 | ipaddr.IPv6;
+  try {
+    // process() unwraps ::ffff:a.b.c.d so mapped private v4 is caught too
+    addr = ipaddr.process(ip);
+  } catch {
+    return false;
+  }
+  return addr.range() === 'unicast';
+}
+
+/** Normalized allowlist entry (hostname lowercased, IP/CIDR canonical) or null if invalid. */
+export function parseAllowlistEntry(v: unknown): string | null {
+  const raw = typeof v === 'string' ? v.trim().toLowerCase() : '';
+  if (!raw) return null;
+  if (raw.includes('/')) {
+    try {
+      const [range, bits] = ipaddr.parseCIDR(raw);
+      return `${range.toString()}/${bits}`;
+    } catch {
+      return null;
+    }
+  }
+  if (ipaddr.isValid(raw)) return ipaddr.parse(raw).toString();
+  return HOSTNAME_RE.test(raw) ? raw : null;
+}
+
+function addressAllowlisted(ip: string, entries: string[]): boolean {
+  let addr: ipaddr.IPv4 | ipaddr.IPv6;
+  try {
+    addr = ipaddr.process(ip);
+  } catch {
+    return false;
+  }
+  return entries.some((e) => {
+    try {
+      if (e.includes('/')) {
+        const [range, bits] = ipaddr.parseCIDR(e);
+        return addr.kind() === range.kind() && addr.match(range, bits);
+      }
+      if (!ipaddr.isValid(e)) return false;
+      return ipaddr.process(e).toNormalizedString() === addr.toNormalizedString();
+    } catch {
+      return false;
+    }
+  });
+}
+
+async function resolveHost(host: string): Promise<Array<{ address: string; family: number }>> {
+  if (ipaddr.isValid(host)) return [{ address: host, family: ipaddr.parse(host).kind() === 'ipv6' ? 6 : 4 }];
+  return dns.promises.lookup(host, { all: true, verbatim: true });
+}
+
+export async function checkWebhookUrl(rawUrl: string, env: 'production' | 'sandbox'): Promise<UrlGuardResult> {
+  const bad = (code: string, message: string, retryable = false): UrlGuardResult => ({ ok: false, code, message, retryable });
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return bad('INVALID_URL', 'url must be an absolute URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return bad('INVALID_URL', 'url must use http or https');
+  if (url.username || url.password) return bad('INVALID_URL', 'url must not contain credentials');
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await resolveHost(host);
+  } catch (e: any) {
+    return bad('DNS_FAILED', `cannot resolve ${host} (${e?.code || 'ERROR'})`, true);
+  }
+  if (!addresses.length) return bad('DNS_FAILED', `cannot resolve ${host}`, true);
+
+  const entries = (await listWebhookUrlAllowlist()).map((e) => e.entry);
+  const allowlisted = entries.includes(host) || addresses.every((a) => addressAllowlisted(a.address, entries));
+
+  if (!allowlisted) {
+    if (env === 'production' && url.protocol !== 'https:') return bad('HTTPS_REQUIRED', 'production webhook url must use https');
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked) return bad('UNSAFE_URL', `${host} resolves to a non-public address (${blocked.address})`);
+  }
+
+  const first = addresses[0];
+  return { ok: true, target: { url, address: first.address, family: first.family === 6 ? 6 : 4 } };
+}
@@ -0,0 +1,66 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for secrets stored in SQLite (OrderKuota tokens, etc).
+ *
+ * Every sealed value gets its own random data key (DEK). The value is encrypted
+ * with the DEK (AES-256-GCM) and the DEK itself is wrapped with the master key
+ * from VAULT_MASTER_KEY. The master key never touches the database.
+ *
+ * Sealed format: v1.<kid>.<wrapped_dek>.<ciphertext>  (base64url parts)
+ */
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function getMasterKey(): Buffer {
+  const raw = String(process.env.VAULT_MASTER_KEY || '').trim();
+  if (!raw) throw new Error('VAULT_MASTER_KEY is not set');
+  // Accept 32-byte hex/base64 keys as-is, otherwise derive from the passphrase
+  if (/^[0-9a-f]{64}$/i.test(raw)) return Buffer.from(raw, 'hex');
+  const b64 = Buffer.from(raw, 'base64');
+  if (b64.length === 32 && /^[A-Za-z0-9+/_-]+=*$/.test(raw)) return b64;
+  return createHash('sha256').update(raw, 'utf8').digest();
+}
+
+function keyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ct]);
+}
+
+function decrypt(key: Buffer, packed: Buffer): Buffer {
+  const iv = packed.subarray(0, IV_BYTES);
+  const tag = packed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES);
+  const ct = packed.subarray(IV_BYTES + TAG_BYTES);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
+
+export function isVaultConfigured(): boolean {
+  return !!String(process.env.VAULT_MASTER_KEY || '').trim();
+}
+
+export function sealSecret(plaintext: string): string {
+  const master = getMasterKey();
+  const dek = randomBytes(32);
+  const wrapped = encrypt(master, dek);
+  const body = encrypt(dek, Buffer.from(plaintext, 'utf8'));
+  return [VERSION, keyId(master), wrapped.toString('base64url'), body.toString('base64url')].join('.');
+}
+
+export function openSecret(sealed: string): string {
+  const [version, kid, wrapped, body] = String(sealed || '').split('.');
+  if (version !== VERSION || !kid || !wrapped || !body) throw new Error('Invalid sealed secret');
+  const master = getMasterKey();
+  if (keyId(master) !== kid) throw new Error('Sealed secret was encrypted with a different master key');
+  const dek = decrypt(master, Buffer.from(wrapped, 'base64url'));
+  return decrypt(dek, Buffer.from(body, 'base64url')).toString('utf8');
+}
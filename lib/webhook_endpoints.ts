@@ -0,0 +1,107 @@
+import type { WebhookEndpoint, WebhookEndpointFields } from './db';
+
+/**
+ * Webhook endpoints: a merchant can register several receivers per env (ERP,
+ * storefront, ...). Each endpoint has its own signing secret, enabled flag and
+ * event filter; enqueueWebhookDelivery writes one delivery per matching
+ * endpoint.
+ *
+ * Event filter patterns: exact (`payment.paid`), prefix wildcard (`refund.*`)
+ * or `*` for every event.
+ *
+ * The endpoint migrated from the old single webhook_url is flagged legacy: it
+ * is what GET/POST /api/app/webhook/config reads and writes, and it signs with
+ * the credentials webhook secret (secret = NULL) so existing receivers keep
+ * verifying.
+ */
+
+export const MAX_WEBHOOK_ENDPOINTS = Number(process.env.WEBHOOK_MAX_ENDPOINTS || 10);
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_EVENT_TYPES = 50;
+const EVENT_PATTERN_RE = /^(\*|[a-z_]+(\.[a-z_]+)*(\.\*)?)$/;
+export const MAX_SECRET_OVERLAP_SECONDS = 7 * 86400;
+
+export function webhookEventMatches(patterns: readonly string[], eventType: string): boolean {
+  return patterns.some((p) => {
+    if (p === '*') return true;
+    if (p.endsWith('.*')) return eventType.startsWith(p.slice(0, -1));
+    return p === eventType;
+  });
+}
+
+export function parseWebhookUrl(v: unknown): { url: string | null; error?: string } {
+  const raw = typeof v === 'string' ? v.trim() : '';
+  if (!raw) return { url: null, error: 'url required' };
+  let u: URL;
+  try {
+    u = new URL(raw);
+  } catch {
+    return { url: null, error: 'url must be an absolute URL' };
+  }
+  if (u.protocol !== 'https:' && u.protocol !== 'http:') return { url: null, error: 'url must use http or https' };
+  return { url: u.toString() };
+}
+
+/** overlap_seconds for a secret rotation: 0 drops the old secret at once, default from settings. */
+export function parseSecretOverlap(v: unknown, fallback: number): { seconds: number; error?: undefined } | { seconds?: undefined; error: { code: string; message: string } } {
+  if (v === undefined || v === null || v === '') return { seconds: Math.min(MAX_SECRET_OVERLAP_SECONDS, Math.max(0, fallback)) };
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_SECRET_OVERLAP_SECONDS) {
+    return { error: { code: 'INVALID_OVERLAP', message: `overlap_seconds must be an integer 0..${MAX_SECRET_OVERLAP_SECONDS}` } };
+  }
+  return { seconds: n };
+}
+
+/** Create (existing = null) or update input; only keys present in the body end up in fields. */
+export function parseWebhookEndpointInput(
+  body: any,
+  existing: WebhookEndpoint | null
+): { fields: Partial<WebhookEndpointFields>; error?: undefined } | { fields?: undefined; error: { code: string; message: string } } {
+  const b = body || {};
+  const fields: Partial<WebhookEndpointFields> = {};
+  const bad = (code: string, message: string) => ({ error: { code, message } });
+
+  if (b.url !== undefined || !existing) {
+    const r = parseWebhookUrl(b.url);
+    if (r.error) return bad('INVALID_URL', r.error);
+    fields.url = r.url!;
+  }
+  if (b.description !== undefined) {
+    const description = b.description == null ? '' : String(b.description).trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) return bad('INVALID_DESCRIPTION', `description max ${MAX_DESCRIPTION_LENGTH} characters`);
+    fields.description = description || null;
+  }
+  if (b.event_types !== undefined) {
+    const list = Array.isArray(b.event_types) ? b.event_types.map((x: unknown) => String(x).trim()).filter(Boolean) : null;
+    if (!list || !list.length || list.length > MAX_EVENT_TYPES) {
+      return bad('INVALID_EVENT_TYPES', `event_types must be a non-empty array (max ${MAX_EVENT_TYPES})`);
+    }
+    const invalid = list.find((p: string) => !EVENT_PATTERN_RE.test(p));
+    if (invalid) return bad('INVALID_EVENT_TYPES', `invalid event type pattern: ${invalid}`);
+    fields.event_types = Array.from(new Set<string>(list));
+  }
+  if (b.enabled !== undefined) {
+    if (typeof b.enabled !== 'boolean') return bad('INVALID_ENABLED', 'enabled must be a boolean');
+    fields.enabled = b.enabled;
+  }
+  return { fields };
+}
+
+/** Merchant-facing representation; legacy endpoints sign with the credentials webhook secret. */
+export function toWebhookEndpointView(e: WebhookEndpoint) {
+  return {
+    id: e.id,
+    env: e.env,
+    url: e.url,
+    description: e.description,
+    event_types: e.event_types,
+    enabled: e.enabled,
+    legacy: e.legacy,
+    secret: e.secret,
+    secret_source: e.secret ? 'endpoint' : 'credentials',
+    // The old secret still signs (second v1= entry) until then
+    previous_secret_expires_at: e.previous_secret && (e.previous_secret_expires_at ?? 0) > Math.floor(Date.now() / 1000) ? e.previous_secret_expires_at : null,
+    created_at: e.created_at,
+    updated_at: e.updated_at,
+  };
+}
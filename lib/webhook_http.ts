@@ -0,0 +1,123 @@
+import http from 'http';
+import https from 'https';
+import { isIP } from 'net';
+
+/**
+ * Webhook POST over node:http(s) instead of fetch, so an attempt can record
+ * what actually happened on the wire: the IP the hostname resolved to, the
+ * response headers and a size-capped body. Never throws; network failures and
+ * timeouts come back as `error` with status_code = null.
+ */
+
+export type WebhookHttpResult = {
+  status_code: number | null;
+  response_headers: Record<string, string>;
+  response_body: string;
+  response_truncated: boolean;
+  resolved_ip: string | null;
+  duration_ms: number;
+  error: string | null;
+};
+
+function flattenHeaders(h: http.IncomingHttpHeaders): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(h)) {
+    if (v === undefined) continue;
+    out[k] = Array.isArray(v) ? v.join(', ') : String(v);
+  }
+  return out;
+}
+
+export function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  opts: {
+    timeout_ms: number;
+    max_response_bytes: number;
+    // Connect to this address instead of resolving the hostname again (lib/url_guard.ts)
+    pinned?: { address: string; family: 4 | 6 };
+  }
+): Promise<WebhookHttpResult> {
+  const started = Date.now();
+  let resolvedIp: string | null = null;
+  let statusCode: number | null = null;
+  let responseHeaders: Record<string, string> = {};
+  const chunks: Buffer[] = [];
+  let received = 0;
+  let truncated = false;
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let timer: NodeJS.Timeout | undefined;
+    const finish = (error: string | null) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      resolve({
+        status_code: statusCode,
+        response_headers: responseHeaders,
+        response_body: Buffer.concat(chunks).toString('utf8'),
+        response_truncated: truncated,
+        resolved_ip: resolvedIp,
+        duration_ms: Date.now() - started,
+        error,
+      });
+    };
+
+    let u: URL;
+    try {
+      u = new URL(url);
+    } catch {
+      finish('INVALID_URL');
+      return;
+    }
+    const client = u.protocol === 'https:' ? https : http;
+    const host = u.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host)) resolvedIp = host;
+
+    const pinned = opts.pinned;
+    const lookup = pinned
+      ? (_host: string, o: any, cb: (...args: any[]) => void) =>
+          o?.all ? cb(null, [{ address: pinned.address, family: pinned.family }]) : cb(null, pinned.address, pinned.family)
+      : undefined;
+
+    // agent: false -> a fresh connection per attempt, so the resolved IP is always observed.
+    // 3xx responses are returned as-is: redirects are never followed.
+    const req = client.request(
+      u,
+      { method: 'POST', agent: false, lookup: lookup as any, headers: { ...headers, 'content-length': String(Buffer.byteLength(body)) } },
+      (res) => {
+        statusCode = res.statusCode ?? null;
+        responseHeaders = flattenHeaders(res.headers);
+        resolvedIp = resolvedIp || res.socket?.remoteAddress || null;
+        res.on('data', (chunk: Buffer) => {
+          const room = opts.max_response_bytes - received;
+          if (room > 0) chunks.push(chunk.subarray(0, room));
+          received += chunk.length;
+          if (received > opts.max_response_bytes) {
+            // The status is all that decides the outcome; stop reading
+            truncated = true;
+            res.destroy();
+          }
+        });
+        res.on('end', () => finish(null));
+        res.on('close', () => finish(null));
+        res.on('error', () => finish(null));
+      }
+    );
+    req.on('socket', (socket) => {
+      socket.on('lookup', (_err, address) => {
+        if (address) resolvedIp = String(address);
+      });
+    });
+    req.on('error', (e: any) => finish(e?.code || e?.message || 'ERROR'));
+
+    timer = setTimeout(() => {
+      finish('TIMEOUT');
+      req.destroy();
+    }, opts.timeout_ms);
+
+    req.end(body);
+  });
+}
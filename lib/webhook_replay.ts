@@ -0,0 +1,144 @@
+import {
+  getOriginalWebhookPayload,
+  getWebhookEndpoint,
+  insertWebhookDelivery,
+  listInvoiceEventsAfter,
+  listReplayableWebhookDeliveries,
+  listWebhookDeliveryAttempts,
+  type Invoice,
+  type WebhookDelivery,
+  type WebhookDeliveryAttempt,
+  type WebhookEndpoint,
+} from './db';
+
+/**
+ * Manual webhook redelivery. A resend never touches the original row: it
+ * queues a new delivery with replay_of = the original's id (always the root,
+ * so the whole history of one event is `id = root OR replay_of = root`) and
+ * the webhook worker sends it like any other delivery, signed with the current
+ * endpoint secret.
+ */
+
+export const MAX_REPLAY_BATCH = Number(process.env.WEBHOOK_MAX_REPLAY_BATCH || 500);
+const MAX_REPLAY_RANGE_SECONDS = 31 * 86400;
+
+type ReplayError = { code: string; message: string; status: number };
+type ReplayResult<T> = { ok: true; data: T } | { ok: false; error: ReplayError };
+
+function fail<T>(status: number, code: string, message: string): ReplayResult<T> {
+  return { ok: false, error: { status, code, message } };
+}
+
+export function webhookDeliveryRootId(d: Pick<WebhookDelivery, 'id' | 'replay_of'>): string {
+  return d.replay_of || d.id;
+}
+
+/** Resend history for the inspector: each delivery with its recorded attempts (oldest first). */
+export async function withWebhookAttempts(chain: WebhookDelivery[]): Promise<Array<WebhookDelivery & { attempts: WebhookDeliveryAttempt[] }>> {
+  const attempts = await listWebhookDeliveryAttempts(chain.map((d) => d.id));
+  return chain.map((d) => ({ ...d, attempts: attempts.filter((a) => a.delivery_id === d.id) }));
+}
+
+/** Queue a copy of `delivery` to its own endpoint, or to `endpointId` (same merchant + env). */
+export async function resendWebhookDelivery(
+  delivery: WebhookDelivery,
+  endpointId?: string | null
+): Promise<ReplayResult<{ delivery_id: string; replay_of: string; endpoint_id: string }>> {
+  const targetId = endpointId || delivery.endpoint_id;
+  const endpoint = targetId ? await getWebhookEndpoint(targetId, delivery.merchant_id) : null;
+  if (!endpoint) return fail(409, 'ENDPOINT_DELETED', 'Webhook endpoint sudah dihapus');
+  if (endpoint.env !== delivery.env) return fail(409, 'ENV_MISMATCH', 'Endpoint dan delivery beda env');
+
+  const replayOf = webhookDeliveryRootId(delivery);
+  const id = await insertWebhookDelivery({
+    merchant_id: delivery.merchant_id,
+    env: delivery.env,
+    endpoint_id: endpoint.id,
+    invoice_id: delivery.invoice_id,
+    event_type: delivery.event_type,
+    payload_json: delivery.payload_json,
+    replay_of: replayOf,
+  });
+  return { ok: true, data: { delivery_id: id, replay_of: replayOf, endpoint_id: endpoint.id } };
+}
+
+/**
+ * Resend every failed delivery created in [from, to] that has not been
+ * delivered or re-queued since (one resend per original event).
+ */
+export async function replayFailedWebhookDeliveries(input: {
+  merchant_id: string;
+  env: 'production' | 'sandbox';
+  from: unknown;
+  to: unknown;
+  endpoint_id?: string | null;
+}): Promise<ReplayResult<{ queued: number; skipped: number; delivery_ids: string[]; truncated: boolean }>> {
+  const from = Number(input.from);
+  const to = Number(input.to);
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < from) {
+    return fail(400, 'INVALID_RANGE', 'from dan to harus unix timestamp dengan from <= to');
+  }
+  if (to - from > MAX_REPLAY_RANGE_SECONDS) return fail(400, 'INVALID_RANGE', 'Rentang maksimal 31 hari');
+  if (input.endpoint_id) {
+    const endpoint = await getWebhookEndpoint(input.endpoint_id, input.merchant_id);
+    if (!endpoint || endpoint.env !== input.env) return fail(404, 'NOT_FOUND', 'Webhook endpoint tidak ditemukan');
+  }
+
+  const failed = await listReplayableWebhookDeliveries({
+    merchant_id: input.merchant_id,
+    env: input.env,
+    from_ts: from,
+    to_ts: to,
+    endpoint_id: input.endpoint_id ?? null,
+    limit: MAX_REPLAY_BATCH + 1,
+  });
+  const truncated = failed.length > MAX_REPLAY_BATCH;
+
+  const ids: string[] = [];
+  let skipped = 0;
+  for (const d of failed.slice(0, MAX_REPLAY_BATCH)) {
+    const r = await resendWebhookDelivery(d);
+    if (r.ok) ids.push(r.data.delivery_id);
+    else skipped++; // endpoint deleted since
+  }
+  return { ok: true, data: { queued: ids.length, skipped, delivery_ids: ids, truncated } };
+}
+
+/**
+ * Queue every invoice_events row of `invoice` (oldest first) to one endpoint,
+ * regardless of its event filter. The payload is the one originally sent for
+ * the event when it is still on record, otherwise rebuilt as
+ * { event_type, ...payload, created_at } like emitInvoiceEvent.
+ */
+export async function replayInvoiceWebhookEvents(
+  invoice: Invoice,
+  endpoint: WebhookEndpoint
+): Promise<ReplayResult<{ queued: number; delivery_ids: string[] }>> {
+  const env = invoice.env ?? 'production';
+  if (endpoint.merchant_id !== invoice.merchant_id) return fail(404, 'NOT_FOUND', 'Webhook endpoint tidak ditemukan');
+  if (endpoint.env !== env) return fail(409, 'ENV_MISMATCH', 'Endpoint dan invoice beda env');
+
+  const events = await listInvoiceEventsAfter(invoice.id, null, MAX_REPLAY_BATCH);
+  const ids: string[] = [];
+  for (const ev of events) {
+    let payloadJson = await getOriginalWebhookPayload(invoice.id, ev.event_type, ev.created_at);
+    if (!payloadJson) {
+      let payload: Record<string, unknown> = {};
+      try {
+        payload = ev.payload_json ? JSON.parse(ev.payload_json) : {};
+      } catch {}
+      payloadJson = JSON.stringify({ event_type: ev.event_type, ...payload, created_at: ev.created_at });
+    }
+    ids.push(
+      await insertWebhookDelivery({
+        merchant_id: invoice.merchant_id,
+        env,
+        endpoint_id: endpoint.id,
+        invoice_id: invoice.id,
+        event_type: ev.event_type,
+        payload_json: payloadJson,
+      })
+    );
+  }
+  return { ok: true, data: { queued: ids.length, delivery_ids: ids } };
+}
@@ -0,0 +1,56 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Webhook signatures. Two headers are sent on every delivery:
+ *
+ *   x-webhook-signature:  <hex>                     unchanged format, current secret only
+ *   x-webhook-signatures: v1=<hex>[,v1=<hex>...]    versioned list
+ *
+ * The list has one entry per active secret and scheme: during a secret
+ * rotation overlap it carries the new and the old secret's signature, so a
+ * receiver still holding the old secret keeps verifying until it deploys the
+ * new one. The version prefix lets a new scheme (e.g. ed25519) be added next
+ * to v1 without breaking receivers.
+ *
+ * v1 = hex(HMAC_SHA256(secret, `${timestamp}.${payload}`))
+ *
+ * The receiver side is verifyWebhookSignature in sdk/signing.js.
+ */
+
+export type WebhookSignatureScheme = {
+  version: string;
+  sign(secret: string, timestamp: number, payload: string): string;
+};
+
+export const WEBHOOK_SIGNATURE_SCHEMES: Record<string, WebhookSignatureScheme> = {
+  v1: {
+    version: 'v1',
+    sign: (secret, timestamp, payload) => createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex'),
+  },
+};
+
+export const DEFAULT_WEBHOOK_SIGNATURE_VERSIONS: readonly string[] = ['v1'];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_SIGNATURES_HEADER = 'x-webhook-signatures';
+
+/** x-webhook-signature value: bare v1 hex with the current secret, as receivers have always checked it. */
+export function signWebhookLegacy(secret: string, timestamp: number, payload: string): string {
+  return WEBHOOK_SIGNATURE_SCHEMES.v1.sign(secret, timestamp, payload);
+}
+
+/** x-webhook-signatures value for `secrets` (current first), e.g. `v1=<new>,v1=<old>`. */
+export function signWebhook(
+  secrets: readonly string[],
+  timestamp: number,
+  payload: string,
+  versions: readonly string[] = DEFAULT_WEBHOOK_SIGNATURE_VERSIONS
+): string {
+  const parts: string[] = [];
+  for (const version of versions) {
+    const scheme = WEBHOOK_SIGNATURE_SCHEMES[version];
+    if (!scheme) continue;
+    for (const secret of secrets) parts.push(`${scheme.version}=${scheme.sign(secret, timestamp, payload)}`);
+  }
+  return parts.join(',');
+}
@@ -1,16 +1,21 @@
-import { createHmac } from 'crypto';
 import {
   getDueWebhookDeliveries,
-  getMerchantWebhookConfigEnv,
-  getMerchantWebhookSecret,
+  getWebhookEndpoint,
+  getMerchantWebhookSecrets,
   createAlert,
   markWebhookDeliveryResult,
+  type WebhookAttemptDetail,
   type WebhookDelivery,
 } from './db';
+import { postWebhook, type WebhookHttpResult } from './webhook_http';
+import { checkWebhookUrl } from './url_guard';
+import { WEBHOOK_SIGNATURES_HEADER, WEBHOOK_SIGNATURE_HEADER, signWebhook, signWebhookLegacy } from './webhook_signing';
 
 const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS || 8);
 const BASE_BACKOFF_SECONDS = Number(process.env.WEBHOOK_BACKOFF_BASE_SECONDS || 60);
 const TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS || 8000);
+// Response body kept per attempt (webhook_delivery_attempts.response_body)
+const MAX_RESPONSE_BYTES = Number(process.env.WEBHOOK_MAX_RESPONSE_BYTES || 8192);
 
 function backoffSeconds(attempt: number): number {
   // attempt starts at 1
@@ -18,15 +23,14 @@ function backoffSeconds(attempt: number): number {
   return BASE_BACKOFF_SECONDS * Math.pow(2, pow);
 }
 
-function signWebhook(webhookSecret: string, timestamp: number, payloadJson: string): string {
-  // signature = HMAC_SHA256(secret, `${timestamp}.${payload}`)
-  return createHmac('sha256', webhookSecret).update(`${timestamp}.${payloadJson}`, 'utf8').digest('hex');
-}
-
 async function deliverOne(d: WebhookDelivery): Promise<void> {
   const now = Math.floor(Date.now() / 1000);
-  const cfg = await getMerchantWebhookConfigEnv(d.merchant_id, (d as any).env || 'production');
-  if (!cfg.webhook_enabled || !cfg.webhook_url) {
+  const endpoint = d.endpoint_id ? await getWebhookEndpoint(d.endpoint_id, d.merchant_id) : null;
+  if (!endpoint) {
+    await markWebhookDeliveryResult({ id: d.id, delivered: false, error: 'ENDPOINT_DELETED', next_retry_at: null });
+    return;
+  }
+  if (!endpoint.enabled) {
     await markWebhookDeliveryResult({
       id: d.id,
       delivered: false,
@@ -36,85 +40,100 @@ async function deliverOne(d: WebhookDelivery): Promise<void> {
     return;
   }
 
-  const whsec = await getMerchantWebhookSecret(d.merchant_id, (d as any).env || 'production');
-  if (!whsec) {
+  // Legacy endpoint (migrated webhook_url) signs with the credentials webhook secret.
+  // A rotated-out secret still signs until its overlap window ends.
+  const secrets = endpoint.secret
+    ? [endpoint.secret, (endpoint.previous_secret_expires_at ?? 0) > now ? endpoint.previous_secret : null].filter((x): x is string => !!x)
+    : await getMerchantWebhookSecrets(d.merchant_id, d.env, now);
+  if (!secrets.length) {
     await markWebhookDeliveryResult({ id: d.id, delivered: false, error: 'MISSING_CREDENTIALS', next_retry_at: null });
     return;
   }
 
   const payloadJson = d.payload_json;
-  const signature = signWebhook(whsec, now, payloadJson);
-
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-event-type': d.event_type,
+    'x-webhook-endpoint-id': endpoint.id,
+    'x-webhook-timestamp': String(now),
+    [WEBHOOK_SIGNATURE_HEADER]: signWebhookLegacy(secrets[0], now, payloadJson),
+    [WEBHOOK_SIGNATURES_HEADER]: signWebhook(secrets, now, payloadJson),
+  };
 
-  try {
-    const resp = await fetch(cfg.webhook_url, {
-      method: 'POST',
-      headers: {
-        'content-type': 'application/json',
-        'x-event-type': d.event_type,
-        'x-webhook-timestamp': String(now),
-        'x-webhook-signature': signature,
+  // SSRF guard again at send time: DNS may have changed since the URL was saved
+  const guard = await checkWebhookUrl(endpoint.url, d.env);
+  if (!guard.ok && !guard.retryable) {
+    await markWebhookDeliveryResult({
+      id: d.id,
+      delivered: false,
+      error: `${guard.code}: ${guard.message}`,
+      next_retry_at: null,
+      attempt: {
+        request_url: endpoint.url,
+        request_headers: headers,
+        request_body: payloadJson,
+        resolved_ip: null,
+        response_headers: {},
+        response_body: null,
+        response_truncated: false,
+        duration_ms: null,
       },
-      body: payloadJson,
-      signal: controller.signal,
-    } as any);
-
-    const status = resp.status;
-    const text = await resp.text().catch(() => '');
-    const snippet = text ? text.slice(0, 500) : null;
+    });
+    await createAlert({ merchant_id: d.merchant_id, type: 'WEBHOOK_FAILED', message: `Webhook blocked for event ${d.event_type} (${guard.code})` });
+    return;
+  }
 
-    if (status >= 200 && status < 300) {
-      await markWebhookDeliveryResult({ id: d.id, delivered: true, status_code: status, response_snippet: snippet });
-      return;
-    }
+  const r: WebhookHttpResult = guard.ok
+    ? await postWebhook(endpoint.url, headers, payloadJson, {
+        timeout_ms: TIMEOUT_MS,
+        max_response_bytes: MAX_RESPONSE_BYTES,
+        pinned: { address: guard.target.address, family: guard.target.family },
+      })
+    : { status_code: null, response_headers: {}, response_body: '', response_truncated: false, resolved_ip: null, duration_ms: 0, error: guard.code };
+  const attempt: WebhookAttemptDetail = {
+    request_url: endpoint.url,
+    request_headers: headers,
+    request_body: payloadJson,
+    resolved_ip: r.resolved_ip,
+    response_headers: r.response_headers,
+    response_body: r.response_body || null,
+    response_truncated: r.response_truncated,
+    duration_ms: r.duration_ms,
+  };
+  const status = r.status_code;
+  const snippet = r.response_body ? r.response_body.slice(0, 500) : null;
 
-    const nextAttempt = d.attempt_count + 1;
-    if (nextAttempt >= MAX_ATTEMPTS) {
-      await markWebhookDeliveryResult({
-        id: d.id,
-        delivered: false,
-        status_code: status,
-        error: `HTTP_${status}`,
-        response_snippet: snippet,
-        next_retry_at: null,
-      });
-      await createAlert({ merchant_id: d.merchant_id, type: 'WEBHOOK_FAILED', message: `Webhook failed permanently for event ${d.event_type} (HTTP ${status})` });
-      return;
-    }
+  if (status != null && status >= 200 && status < 300) {
+    await markWebhookDeliveryResult({ id: d.id, delivered: true, status_code: status, response_snippet: snippet, attempt });
+    return;
+  }
 
-    const nextRetry = now + backoffSeconds(nextAttempt);
+  const error = status != null ? `HTTP_${status}` : (r.error || 'ERROR');
+  const nextAttempt = d.attempt_count + 1;
+  if (nextAttempt >= MAX_ATTEMPTS) {
     await markWebhookDeliveryResult({
       id: d.id,
       delivered: false,
       status_code: status,
-      error: `HTTP_${status}`,
+      error,
       response_snippet: snippet,
-      next_retry_at: nextRetry,
-    });
-  } catch (e: any) {
-    const nextAttempt = d.attempt_count + 1;
-    if (nextAttempt >= MAX_ATTEMPTS) {
-      await markWebhookDeliveryResult({
-        id: d.id,
-        delivered: false,
-        error: e?.name === 'AbortError' ? 'TIMEOUT' : (e?.message || 'ERROR'),
-        next_retry_at: null,
-      });
-      await createAlert({ merchant_id: d.merchant_id, type: 'WEBHOOK_FAILED', message: `Webhook failed permanently for event ${d.event_type} (${e?.name === 'AbortError' ? 'TIMEOUT' : (e?.message || 'ERROR')})` });
-      return;
-    }
-    const nextRetry = now + backoffSeconds(nextAttempt);
-    await markWebhookDeliveryResult({
-      id: d.id,
-      delivered: false,
-      error: e?.name === 'AbortError' ? 'TIMEOUT' : (e?.message || 'ERROR'),
-      next_retry_at: nextRetry,
+      next_retry_at: null,
+      attempt,
     });
-  } finally {
-    clearTimeout(t);
+    await createAlert({ merchant_id: d.merchant_id, type: 'WEBHOOK_FAILED', message: `Webhook failed permanently for event ${d.event_type} (${status != null ? `HTTP ${status}` : error})` });
+    return;
   }
+
+  const nextRetry = now + backoffSeconds(nextAttempt);
+  await markWebhookDeliveryResult({
+    id: d.id,
+    delivered: false,
+    status_code: status,
+    error,
+    response_snippet: snippet,
+    next_retry_at: nextRetry,
+    attempt,
+  });
 }
 
 export async function runWebhookWorkerOnce(): Promise<{ processed: number }> {
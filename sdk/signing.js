@@ -40,6 +40,7 @@ export function signGatewayRequest({
   body, // object OR string OR undefined
   timestamp = Math.floor(Date.now() / 1000),
   nonce = makeNonce(),
+  idempotencyKey, // optional: reuse the same key when retrying a POST
 }) {
   if (!apiKey) throw new Error('apiKey is required');
   if (!apiSecret) throw new Error('apiSecret is required');
@@ -75,8 +76,48 @@ export function signGatewayRequest({
       'x-nonce': nonce,
       'x-signature': signature,
       ...(bodyRaw ? { 'content-type': 'application/json' } : {}),
+      ...(idempotencyKey ? { 'idempotency-key': String(idempotencyKey) } : {}),
     },
     bodyRaw,
     pathWithQuery,
   };
 }
+
+/**
+ * Verify an incoming webhook (receiver side).
+ *
+ * Pass `x-webhook-signatures` (`v1=<hex>[,v1=<hex>...]`, one entry per active
+ * secret during a rotation, so either the old or the new secret verifies);
+ * `x-webhook-signature` (bare hex, current secret only) is accepted as well.
+ * v1 = HMAC_SHA256(webhookSecret, `${x-webhook-timestamp}.${rawBody}`).
+ * Unknown versions are ignored.
+ *
+ * - rawBody MUST be the exact request body (not re-serialized JSON).
+ * - toleranceSeconds rejects old timestamps (replays); 0 disables the check.
+ */
+export function verifyWebhookSignature({
+  webhookSecret,
+  timestamp, // x-webhook-timestamp
+  signatureHeader, // x-webhook-signatures (or x-webhook-signature)
+  rawBody,
+  toleranceSeconds = 300,
+  now = Math.floor(Date.now() / 1000),
+}) {
+  if (!webhookSecret) throw new Error('webhookSecret is required');
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts)) return false;
+  if (toleranceSeconds > 0 && Math.abs(now - ts) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmacSha256Hex(webhookSecret, `${ts}.${rawBody || ''}`));
+  return String(signatureHeader || '')
+    .split(',')
+    .map((part) => part.trim())
+    .some((part) => {
+      const i = part.indexOf('=');
+      // Bare hex = x-webhook-signature
+      const [version, sig] = i > 0 ? [part.slice(0, i), part.slice(i + 1)] : ['v1', part];
+      if (version !== 'v1') return false;
+      const got = Buffer.from(sig);
+      return got.length === expected.length && crypto.timingSafeEqual(got, expected);
+    });
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects; a small suffix range keeps exhaustion cheap
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+process.env.AMOUNT_SUFFIX_MAX = '3';
+
+const db = await import('../lib/db');
+const { candidateAmounts } = await import('../lib/amount_strategy');
+const { createMerchantInvoice } = await import('../lib/invoice_service');
+const { default: generateQris } = await import('../api/qris/generate');
+const { SANDBOX_STATIC_QRIS } = await import('../lib/sandbox');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('amounts@example.com');
+
+function mockRes() {
+  const out: { status: number; body: any } = { status: 200, body: null };
+  const res: any = {
+    status(code: number) { out.status = code; return res; },
+    json(body: unknown) { out.body = body; return res; },
+    setHeader() { return res; },
+    end() { return res; },
+  };
+  return { res, out };
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('the suffix range follows AMOUNT_SUFFIX_MAX', () => {
+  assert.deepEqual([...candidateAmounts('add_suffix', 10000)], [10001, 10002, 10003]);
+  assert.deepEqual([...candidateAmounts('subtract_suffix', 10000)], [9999, 9998, 9997]);
+});
+
+test('AMOUNT_EXHAUSTED once every candidate amount is pending', async () => {
+  const finals: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 30000 });
+    assert.ok(r.ok);
+    finals.push(r.data.final_amount);
+  }
+  assert.deepEqual(finals.sort((a, b) => a - b), [30001, 30002, 30003]);
+
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 30000 });
+  assert.ok(!r.ok);
+  assert.equal(r.error.status, 409);
+  assert.equal(r.error.code, 'AMOUNT_EXHAUSTED');
+});
+
+test('the legacy generate endpoint reports exhaustion as AMOUNT_EXHAUSTED', async () => {
+  const statuses: number[] = [];
+  let last: any = null;
+  for (let i = 0; i < 4; i++) {
+    const { res, out } = mockRes();
+    await generateQris({ method: 'POST', body: { username: 'legacy-user', token: 'tok', amount: 5000, qris_static: SANDBOX_STATIC_QRIS } } as any, res);
+    statuses.push(out.status);
+    last = out.body;
+  }
+  assert.deepEqual(statuses, [200, 200, 200, 409]);
+  assert.equal(last.error.code, 'AMOUNT_EXHAUSTED');
+});
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+// lib/db.ts reads these when it first connects; the router reads NODE_ENV when it is built
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+process.env.NODE_ENV = 'production';
+
+const { default: express } = await import('express');
+const { default: appRouter } = await import('../api/app/router');
+const db = await import('../lib/db');
+
+const app = express();
+app.use(express.json());
+app.use('/api/app', appRouter);
+const server = app.listen(0);
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/app`;
+
+test.after(() => {
+  server.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('mock Google login does not exist in production', async () => {
+  const r = await fetch(`${base}/auth/mock-google`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ email: 'victim@example.com' }),
+  });
+  assert.equal(r.status, 404);
+  assert.equal(await db.getMerchantByEmail('victim@example.com'), null);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+
+const db = await import('../lib/db');
+const { requireIdempotency } = await import('../api/gw/security');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('idempotency@example.com');
+
+// Runs the middleware once; `passed` is true when it handed the request to the route.
+// The response is never closed, as if the process died while the route was running.
+async function attempt(middleware: ReturnType<typeof requireIdempotency>, key: string) {
+  const out = { passed: false, status: 200, body: null as any };
+  const res: any = Object.assign(new EventEmitter(), {
+    status(code: number) { out.status = code; return res; },
+    json(payload: unknown) { out.body = payload; return res; },
+    setHeader() { return res; },
+  });
+  const req: any = {
+    method: 'POST',
+    originalUrl: '/api/gw/invoices',
+    rawBody: '{"amount":10000}',
+    merchantId: merchant.id,
+    gwEnv: 'production',
+    header: (name: string) => (name.toLowerCase() === 'idempotency-key' ? key : undefined),
+  };
+  await middleware(req, res, () => { out.passed = true; });
+  return out;
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('a retry waits while the first request holds the key', async () => {
+  const middleware = requireIdempotency({ lockSeconds: 60 });
+  assert.equal((await attempt(middleware, 'key-live')).passed, true);
+  const retry = await attempt(middleware, 'key-live');
+  assert.equal(retry.passed, false);
+  assert.equal(retry.status, 409);
+  assert.equal(retry.body.error.code, 'IDEMPOTENCY_IN_PROGRESS');
+});
+
+test('a retry takes over a key left processing past its lock', async () => {
+  const middleware = requireIdempotency({ lockSeconds: 0 });
+  assert.equal((await attempt(middleware, 'key-crashed')).passed, true);
+  assert.equal((await attempt(middleware, 'key-crashed')).passed, true);
+  const rec = await db.getIdempotencyRecord(merchant.id, 'production', 'key-crashed');
+  assert.equal(rec?.status, 'processing');
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+
+const db = await import('../lib/db');
+const { createMerchantInvoice } = await import('../lib/invoice_service');
+const { markInvoicePaid, markInvoiceExpired } = await import('../lib/invoice_lifecycle');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('race@example.com');
+await db.createWebhookEndpoint({
+  merchant_id: merchant.id,
+  env: 'sandbox',
+  url: 'https://example.com/webhook',
+  description: null,
+  event_types: ['*'],
+  enabled: true,
+});
+
+async function newInvoice(amount: number) {
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount });
+  assert.ok(r.ok, 'invoice created');
+  const inv = await db.getInvoiceById(r.data.invoice_id, merchant.id);
+  assert.ok(inv);
+  return inv;
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('paid and expired racing on one invoice: exactly one wins', async () => {
+  for (let i = 0; i < 10; i++) {
+    const inv = await newInvoice(10000 + i);
+    const now = Math.floor(Date.now() / 1000);
+
+    const [paid, expired] = await Promise.all([markInvoicePaid(inv, now), markInvoiceExpired(inv, now)]);
+    assert.equal(Number(paid) + Number(expired), 1);
+
+    const after = await db.getInvoiceById(inv.id, merchant.id);
+    assert.equal(after?.status, paid ? 'paid' : 'expired');
+
+    const settled = (eventType: string) => eventType === 'payment.paid' || eventType === 'payment.expired';
+    const events = (await db.listInvoiceEvents(inv.id, merchant.id)).filter((e) => settled(e.event_type));
+    assert.deepEqual(events.map((e) => e.event_type), [paid ? 'payment.paid' : 'payment.expired']);
+
+    const deliveries = (await db.listWebhookDeliveries(merchant.id, 1000)).filter((d) => d.invoice_id === inv.id && settled(d.event_type));
+    assert.equal(deliveries.length, 1);
+  }
+});
+
+test('writes outside a transaction survive its rollback', async () => {
+  const inv = await newInvoice(20000);
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  const tx = db.withTransaction(async () => {
+    await markInvoiceExpired(inv, Math.floor(Date.now() / 1000));
+    await sleep(50);
+    throw new Error('abort');
+  });
+  const aborted = assert.rejects(tx, /abort/);
+  // Another request writing while the transaction is open
+  await sleep(10);
+  await db.setSetting('race_probe', { v: 1 });
+  await aborted;
+
+  assert.equal((await db.getInvoiceById(inv.id, merchant.id))?.status, 'pending');
+  assert.deepEqual(await db.getSettingRaw('race_probe'), { v: 1 });
+});
+
+test('concurrent invoices for one account get distinct final amounts', async () => {
+  const created = await Promise.all(
+    Array.from({ length: 8 }, () => createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 30000 }))
+  );
+  const finals = created.map((r) => {
+    assert.ok(r.ok, r.ok ? '' : r.error.code);
+    return r.data.final_amount;
+  });
+  assert.equal(new Set(finals).size, finals.length);
+});
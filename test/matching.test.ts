@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+
+const db = await import('../lib/db');
+const { createMerchantInvoice } = await import('../lib/invoice_service');
+const { markInvoicePaid } = await import('../lib/invoice_lifecycle');
+const { planMatches } = await import('../lib/matching');
+const { planUnmatchedFunds } = await import('../lib/unmatched_funds');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('matching@example.com');
+
+async function newInvoice(amount: number) {
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount });
+  assert.ok(r.ok, 'invoice created');
+  const inv = await db.getInvoiceById(r.data.invoice_id, merchant.id);
+  assert.ok(inv);
+  return inv;
+}
+
+function mutation(amount: number) {
+  return { provider: 'orderkuota' as const, account_key: 'okuser', mutation_id: randomUUID(), amount, occurred_at: Math.floor(Date.now() / 1000) };
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('a mutation already claimed by another invoice leaves the invoice pending', async () => {
+  const inv = await newInvoice(11000);
+  const m = mutation(inv.final_amount);
+  assert.ok(await db.claimMutation({ ...m, merchant_id: merchant.id, invoice_id: randomUUID() }));
+
+  assert.equal(await markInvoicePaid(inv, m.occurred_at, { mutation: m }), false);
+  assert.equal((await db.getInvoiceById(inv.id, merchant.id))?.status, 'pending');
+  const events = await db.listInvoiceEvents(inv.id, merchant.id);
+  assert.ok(!events.some((e) => e.event_type === 'payment.paid'));
+});
+
+test('claim and payment commit together', async () => {
+  const inv = await newInvoice(12000);
+  const m = mutation(inv.final_amount);
+
+  assert.equal(await markInvoicePaid(inv, m.occurred_at, { mutation: m }), true);
+  assert.equal((await db.getInvoiceById(inv.id, merchant.id))?.status, 'paid');
+  assert.deepEqual([...(await db.listConsumedMutationIds('orderkuota', 'okuser', [m.mutation_id]))], [m.mutation_id]);
+
+  // The same mutation cannot pay a second invoice
+  const other = await newInvoice(12000);
+  assert.equal(await markInvoicePaid(other, m.occurred_at, { mutation: { ...m, amount: other.final_amount } }), false);
+  assert.equal((await db.getInvoiceById(other.id, merchant.id))?.status, 'pending');
+});
+
+test('a failing nested transaction only undoes its own writes', async () => {
+  await db.withTransaction(async () => {
+    await db.setSetting('outer_probe', { v: 1 });
+    await assert.rejects(
+      db.withTransaction(async () => {
+        await db.setSetting('inner_probe', { v: 1 });
+        throw new Error('inner');
+      }),
+      /inner/
+    );
+  });
+  assert.deepEqual(await db.getSettingRaw('outer_probe'), { v: 1 });
+  assert.equal(await db.getSettingRaw('inner_probe'), null);
+});
+
+test('an expired invoice in its late window competes for the same amount', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const old = { id: 'old', final_amount: 15000, created_at: now - 3600, expires_at: now - 1800 };
+  const fresh = { id: 'new', final_amount: 15000, created_at: now - 600, expires_at: now + 600 };
+  const m = { id: 'mut-1', amount: 15000, direction: 'in' as const, occurred_at: now - 60, description: null };
+
+  const r = planMatches([fresh], [m], [old]);
+  assert.equal(r.matches.length, 0);
+  assert.equal(r.ambiguous[0].reason, 'MULTIPLE_INVOICES');
+  assert.deepEqual(r.ambiguous[0].candidates.map((c) => c.id), ['new', 'old']);
+
+  // Without a pending fit the transfer is left for unmatched funds
+  assert.equal(planMatches([], [m], [old]).ambiguous.length, 0);
+});
+
+test('invoices with a convenience fee are matched on final_amount + fee', async () => {
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 16000, tip: { indicator: 'fixed', amount: 500 } });
+  assert.ok(r.ok);
+  assert.equal(r.data.tip_fee, 500);
+  const fixed = await db.getInvoiceById(r.data.invoice_id, merchant.id);
+  assert.equal(fixed?.tip_fee, 500);
+
+  const p = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 20000, tip: { indicator: 'percentage', percent: 10 } });
+  assert.ok(p.ok);
+  assert.equal(p.data.tip_fee, Math.round(p.data.final_amount / 10));
+  const pct = await db.getInvoiceById(p.data.invoice_id, merchant.id);
+  assert.ok(fixed && pct);
+
+  const now = Math.floor(Date.now() / 1000);
+  const pay = (id: string, amount: number) => ({ id, amount, direction: 'in' as const, occurred_at: now, description: null });
+  const { matches } = planMatches([fixed, pct], [pay('fixed', fixed.final_amount + 500), pay('pct', pct.final_amount + pct.tip_fee)]);
+  assert.deepEqual(matches.map((x) => [x.mutation.id, x.invoice.id]), [['fixed', fixed.id], ['pct', pct.id]]);
+
+  // Without the fee the transfer is short: not a match, an underpayment
+  assert.equal(planMatches([fixed], [pay('short', fixed.final_amount)]).matches.length, 0);
+  assert.equal(planUnmatchedFunds([fixed], [pay('short', fixed.final_amount)])[0]?.kind, 'underpaid');
+});
+
+test('a customer-entered tip is rejected', async () => {
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 17000, tip: { indicator: 'prompt' } });
+  assert.ok(!r.ok);
+  assert.equal(r.error.code, 'TIP_NOT_SUPPORTED');
+
+  const bad = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 17000, tip: { indicator: 'percentage', percent: 150 } });
+  assert.ok(!bad.ok);
+  assert.equal(bad.error.code, 'INVALID_TIP');
+});
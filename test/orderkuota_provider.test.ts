@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { toPaymentMutation, toPaymentMutations } from '../lib/providers/orderkuota';
+
+function row(tanggal: string, kredit: string, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return { tanggal, kredit, debet: '0', status: 'IN', keterangan: 'QRIS PAYMENT', brand: { name: 'DANA' }, ...extra };
+}
+
+test('identical rows get distinct mutation ids', () => {
+  const rows = [row('19/10/2026 10:15', '25.000'), row('19/10/2026 10:15', '25.000')];
+  const ids = toPaymentMutations(rows).map((m) => m.id);
+  assert.equal(new Set(ids).size, 2);
+  assert.ok(toPaymentMutations(rows).every((m) => m.amount === 25000 && m.direction === 'in'));
+});
+
+test('ids already seen stay stable when a newer identical row arrives', () => {
+  const first = toPaymentMutations([row('19/10/2026 10:15', '25.000')]);
+  // Newest first: the new transfer is listed above the one fetched earlier
+  const later = toPaymentMutations([row('19/10/2026 10:15', '25.000'), row('19/10/2026 10:15', '25.000')]);
+  assert.equal(later[1].id, first[0].id);
+  assert.equal(first[0].id, toPaymentMutation(row('19/10/2026 10:15', '25.000')).id);
+});
+
+test('saldo_akhir tells identical transfers apart when OrderKuota sends it', () => {
+  const a = toPaymentMutation(row('19/10/2026 10:15', '25.000', { saldo_akhir: '125.000' }));
+  const b = toPaymentMutation(row('19/10/2026 10:15', '25.000', { saldo_akhir: '150.000' }));
+  assert.notEqual(a.id, b.id);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects; the pending cap is read on import
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+process.env.PAYMENT_LINK_MAX_PENDING = '3';
+
+const db = await import('../lib/db');
+const { newPaymentLinkSlug, payPaymentLink } = await import('../lib/payment_links');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('links@example.com');
+
+function newLink(fields: Partial<import('../lib/db').PaymentLinkFields>) {
+  return db.createPaymentLink({
+    merchant_id: merchant.id,
+    env: 'sandbox',
+    slug: newPaymentLinkSlug(),
+    title: 'Donasi',
+    description: null,
+    amount: 15000,
+    min_amount: null,
+    max_amount: null,
+    max_uses: null,
+    account_id: null,
+    success_url: null,
+    failure_url: null,
+    active_from: null,
+    active_until: null,
+    ...fields,
+  });
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('parallel visitors cannot pass the last max_uses slot', async () => {
+  const link = await newLink({ max_uses: 1 });
+  const results = await Promise.all(Array.from({ length: 5 }, () => payPaymentLink(link, null)));
+
+  assert.equal(results.filter((r) => r.ok).length, 1);
+  for (const r of results) if (!r.ok) assert.equal(r.error.code, 'LINK_BUSY');
+  assert.equal((await db.getPaymentLinkUsage(link.id)).pending, 1);
+});
+
+test('pending children are capped per link', async () => {
+  const link = await newLink({ amount: null });
+  const results = await Promise.all(Array.from({ length: 6 }, (_, i) => payPaymentLink(link, 20000 + i)));
+
+  assert.equal(results.filter((r) => r.ok).length, 3);
+  assert.deepEqual(
+    results.filter((r) => !r.ok).map((r) => (r.ok ? null : r.error.code)),
+    ['LINK_BUSY', 'LINK_BUSY', 'LINK_BUSY']
+  );
+});
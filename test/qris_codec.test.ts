@@ -0,0 +1,147 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc16ccitt, decodeQris, encodeQris, getTag, setSubTag, setTag, type QrisErrorCode } from '../lib/qris_codec';
+import { SANDBOX_STATIC_QRIS } from '../lib/sandbox';
+import { generateDynamicQris, qrisTipFee } from '../lib/qris';
+
+// Static merchant QRIS as printed on stickers: acquirer template in 26, domestic NMID in 51, terminal label in 62
+const WARUNG =
+  '00020101021126610014COM.GO-JEK.WWW01189360091400123456780210G0123456780303UMI51440014ID.CO.QRIS.WWW0215ID10231234567890303UMI5204581253033605802ID5919WARUNG MAKAN BU SRI6008SURABAYA61056011162070703A0163049FA0';
+
+// Vendor tags the codec does not interpret: 02 (card scheme), 27 (second acquirer), 64 (alternate language); fixed tip
+const TOKO =
+  '0002010102110216400012345678901226620016ID.CO.SHOPEE.WWW011893600918000000012302091234567890303UMI27660021ID.CO.BANKMANDIRI.WWW01189360000800000004560208712345670303UMI51440014ID.CO.QRIS.WWW0215ID10229876543210303UMI520454115303360550202560410005802ID5914TOKO SEJAHTERA6007BANDUNG61054011562150503***0704T00164240002ID0114TOKO SEJAHTERA63042768';
+
+const PAYLOADS = { SANDBOX_STATIC_QRIS, WARUNG, TOKO };
+
+function codes(payload: string): QrisErrorCode[] {
+  return decodeQris(payload).errors.map((e) => e.code);
+}
+
+test('decode -> encode round-trips byte for byte', () => {
+  for (const [name, payload] of Object.entries(PAYLOADS)) {
+    const r = decodeQris(payload);
+    assert.deepEqual(r.errors, [], name);
+    assert.equal(encodeQris(r.objects), payload, name);
+  }
+});
+
+test('reads nested merchant account and additional data templates', () => {
+  const { fields } = decodeQris(WARUNG);
+  assert.equal(fields.initiation, 'static');
+  assert.deepEqual(fields.merchant_accounts, [
+    { tag: '26', gui: 'COM.GO-JEK.WWW', pan: '936009140012345678', merchant_id: 'G012345678', criteria: 'UMI' },
+    { tag: '51', gui: 'ID.CO.QRIS.WWW', pan: null, merchant_id: 'ID1023123456789', criteria: 'UMI' },
+  ]);
+  assert.equal(fields.nmid, 'ID1023123456789');
+  assert.equal(fields.merchant_name, 'WARUNG MAKAN BU SRI');
+  assert.equal(fields.additional_data?.terminal_label, 'A01');
+  assert.equal(fields.amount, null);
+
+  const toko = decodeQris(TOKO).fields;
+  assert.equal(toko.tip_indicator, 'fixed');
+  assert.equal(toko.tip_fixed, '1000');
+  assert.equal(toko.additional_data?.reference_label, '***');
+});
+
+test('setting an amount keeps unknown tags and recomputes the CRC', () => {
+  const r = decodeQris(TOKO);
+  const out = encodeQris(setTag(setTag(r.objects, '01', '12'), '54', '25000'));
+
+  const d = decodeQris(out);
+  assert.deepEqual(d.errors, []);
+  assert.equal(d.fields.initiation, 'dynamic');
+  assert.equal(d.fields.amount, '25000');
+  assert.equal(d.fields.crc, crc16ccitt(out.slice(0, -4)));
+  for (const tag of ['02', '27', '64']) assert.equal(getTag(d.objects, tag)?.value, getTag(r.objects, tag)?.value, tag);
+  // 54 goes in tag order, between 53 and 55
+  assert.deepEqual(d.objects.map((o) => o.tag), ['00', '01', '02', '26', '27', '51', '52', '53', '54', '55', '56', '58', '59', '60', '61', '62', '64', '63']);
+});
+
+test('replacing an existing amount keeps its position', () => {
+  const withAmount = encodeQris(setTag(decodeQris(WARUNG).objects, '54', '10000'));
+  const objects = setTag(decodeQris(withAmount).objects, '54', '10123');
+  const out = encodeQris(objects);
+
+  const d = decodeQris(out);
+  assert.deepEqual(d.errors, []);
+  assert.equal(d.fields.amount, '10123');
+  assert.equal(d.objects.filter((o) => o.tag === '54').length, 1);
+  assert.equal(out.replace('540510123', '540510000').slice(0, -4), withAmount.slice(0, -4));
+});
+
+test('sub-tags in 62 are set without touching the others', () => {
+  const objects = setSubTag(decodeQris(WARUNG).objects, '62', '01', 'INV-0001');
+  const d = decodeQris(encodeQris(objects));
+  assert.deepEqual(d.errors, []);
+  assert.equal(d.fields.additional_data?.bill_number, 'INV-0001');
+  assert.equal(d.fields.additional_data?.terminal_label, 'A01');
+
+  // Removing the last sub-tag drops the template
+  const bare = setSubTag(setSubTag(objects, '62', '01', null), '62', '07', null);
+  assert.equal(getTag(bare, '62'), undefined);
+});
+
+test('fixed and percentage convenience fees are written to tag 55/56/57', () => {
+  const fixed = decodeQris(generateDynamicQris(WARUNG, 10013, { tip: { indicator: 'fixed', amount: 2500 } }));
+  assert.deepEqual(fixed.errors, []);
+  assert.equal(fixed.fields.tip_indicator, 'fixed');
+  assert.equal(fixed.fields.tip_fixed, '2500');
+  assert.equal(qrisTipFee(10013, { indicator: 'fixed', amount: 2500 }), 2500);
+
+  // Replaces the static fixed tip: 56 goes away with it
+  const pct = decodeQris(generateDynamicQris(TOKO, 10013, { tip: { indicator: 'percentage', percent: 2.5 } }));
+  assert.deepEqual(pct.errors, []);
+  assert.equal(pct.fields.tip_indicator, 'percentage');
+  assert.equal(pct.fields.tip_percentage, '2.5');
+  assert.equal(pct.fields.tip_fixed, null);
+  assert.equal(qrisTipFee(10013, { indicator: 'percentage', percent: 2.5 }), 250);
+
+  // null strips the static tip; a customer-entered tip has no known fee
+  assert.equal(decodeQris(generateDynamicQris(TOKO, 10013, { tip: null })).fields.tip_indicator, null);
+  assert.equal(qrisTipFee(10013, { indicator: 'prompt' }), null);
+});
+
+test('MALFORMED_TLV: truncated payload and bad headers', () => {
+  assert.deepEqual(codes(WARUNG.slice(0, -10)), ['MALFORMED_TLV']);
+  assert.deepEqual(codes('0002010102112A04ABCD'), ['MALFORMED_TLV']);
+
+  // A merchant account template whose value is not TLV
+  const objects = setTag(decodeQris(WARUNG).objects, '26', 'NOT TLV');
+  assert.ok(codes(encodeQris(objects)).includes('MALFORMED_TLV'));
+});
+
+test('DUPLICATE_TAG', () => {
+  const objects = decodeQris(WARUNG).objects;
+  const i = objects.findIndex((o) => o.tag === '59');
+  const dup = [...objects.slice(0, i + 1), objects[i], ...objects.slice(i + 1)];
+  assert.deepEqual(codes(encodeQris(dup)), ['DUPLICATE_TAG']);
+
+  const nested = setTag(objects, '62', '0703A010703A02');
+  assert.deepEqual(codes(encodeQris(nested)), ['DUPLICATE_TAG']);
+});
+
+test('MISSING_TAG', () => {
+  const objects = decodeQris(TOKO).objects;
+  assert.deepEqual(codes(encodeQris(setTag(objects, '59', null))), ['MISSING_TAG']);
+  // Tip indicator 02 without the fixed fee
+  assert.deepEqual(codes(encodeQris(setTag(objects, '56', null))), ['MISSING_TAG']);
+  // No merchant account at all
+  const noAccounts = objects.filter((o) => Number(o.tag) < 26 || Number(o.tag) > 51);
+  assert.deepEqual(codes(encodeQris(noAccounts)), ['MISSING_TAG']);
+});
+
+test('INVALID_VALUE', () => {
+  const objects = decodeQris(WARUNG).objects;
+  assert.deepEqual(codes(encodeQris(setTag(objects, '53', 'IDR'))), ['INVALID_VALUE']);
+  assert.deepEqual(codes(encodeQris(setTag(objects, '54', '10.000'))), ['INVALID_VALUE']);
+  assert.deepEqual(codes(encodeQris(setTag(objects, '58', 'id'))), ['INVALID_VALUE']);
+});
+
+test('INVALID_CRC', () => {
+  const bad = WARUNG.slice(0, -4) + (WARUNG.endsWith('0000') ? 'FFFF' : '0000');
+  const r = decodeQris(bad);
+  assert.deepEqual(r.errors.map((e) => [e.code, e.tag]), [['INVALID_CRC', '63']]);
+  // Lowercase hex is the same CRC
+  assert.deepEqual(codes(WARUNG.slice(0, -4) + WARUNG.slice(-4).toLowerCase()), []);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+
+const db = await import('../lib/db');
+const { createMerchantInvoice } = await import('../lib/invoice_service');
+const { markInvoicePaid, transitionRefund } = await import('../lib/invoice_lifecycle');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('refunds@example.com');
+
+async function paidInvoice(amount: number) {
+  const r = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount });
+  assert.ok(r.ok);
+  const inv = await db.getInvoiceById(r.data.invoice_id, merchant.id);
+  assert.ok(inv && (await markInvoicePaid(inv, Math.floor(Date.now() / 1000))));
+  return inv;
+}
+
+async function processedRefund(invoiceId: string, amount: number) {
+  const id = await db.createRefundRequest({ invoice_id: invoiceId, merchant_id: merchant.id, amount });
+  assert.ok(id);
+  assert.ok((await transitionRefund(id, 'approve', 'ops@example.com')).ok);
+  return transitionRefund(id, 'process', 'ops@example.com');
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('processing refunds moves the invoice along with the refund', async () => {
+  const inv = await paidInvoice(50000);
+
+  const first = await processedRefund(inv.id, 20000);
+  assert.ok(first.ok);
+  assert.equal(first.invoice_status, 'partially_refunded');
+  assert.equal(first.refund.status, 'processed');
+  assert.equal((await db.getInvoiceById(inv.id, merchant.id))?.status, 'partially_refunded');
+
+  const rest = await processedRefund(inv.id, inv.final_amount - 20000);
+  assert.ok(rest.ok);
+  assert.equal(rest.invoice_status, 'refunded');
+  assert.equal((await db.getInvoiceById(inv.id, merchant.id))?.status, 'refunded');
+
+  // Processing twice is rejected and changes nothing
+  assert.deepEqual(await transitionRefund(rest.refund.id, 'process', 'ops@example.com'), { ok: false, code: 'INVALID_STATE' });
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// lib/db.ts reads these when it first connects
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'okp-test-'));
+process.env.SQLITE_PATH = path.join(tmpDir, 'test.sqlite');
+process.env.VAULT_MASTER_KEY = 'test-master-key';
+
+const db = await import('../lib/db');
+const { getMyUnmatchedFunds, listMyUnmatchedFunds, acceptFunds, refundFunds } = await import('../api/gw/unmatched_funds');
+const { createMerchantInvoice } = await import('../lib/invoice_service');
+const { applySandboxOutcome } = await import('../lib/sandbox');
+
+await db.initDb();
+const merchant = await db.getOrCreateMerchantByEmail('funds@example.com');
+
+// Minimal express stand-ins: the handlers only use params/body and status().json()
+function call(handler: (req: any, res: any) => Promise<unknown>, gwEnv: 'production' | 'sandbox', id: string, body: any = {}) {
+  const out = { status: 200, body: null as any };
+  const res = {
+    status(code: number) {
+      out.status = code;
+      return res;
+    },
+    json(payload: unknown) {
+      out.body = payload;
+      return res;
+    },
+  };
+  return handler({ merchantId: merchant.id, gwEnv, params: { id }, body, query: {} }, res).then(() => out);
+}
+
+async function productionFunds() {
+  const now = Math.floor(Date.now() / 1000);
+  const invoiceId = randomUUID();
+  await db.createInvoiceRecord({
+    id: invoiceId,
+    merchant_id: merchant.id,
+    env: 'production',
+    username: 'okuser',
+    base_amount: 10000,
+    unique_suffix: 12,
+    final_amount: 10012,
+    status: 'expired',
+    qris_string: 'x',
+    created_at: now - 3600,
+    expires_at: now - 3000,
+  });
+  const funds = await db.createUnmatchedFunds({
+    merchant_id: merchant.id,
+    provider: 'orderkuota',
+    account_key: 'okuser',
+    mutation_id: randomUUID(),
+    amount: 10012,
+    occurred_at: now - 2000,
+    description: null,
+    kind: 'late',
+    invoice_id: invoiceId,
+    expected_amount: 10012,
+    candidate_invoice_ids: [invoiceId],
+  });
+  assert.ok(funds);
+  return funds;
+}
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+test('a sandbox key gets 404 on production unmatched funds', async () => {
+  const funds = await productionFunds();
+
+  for (const handler of [getMyUnmatchedFunds, acceptFunds, refundFunds]) {
+    const r = await call(handler, 'sandbox', funds.id);
+    assert.equal(r.status, 404, handler.name);
+    assert.equal(r.body.error.code, 'NOT_FOUND');
+  }
+  assert.equal((await db.getUnmatchedFunds(funds.id, merchant.id))?.status, 'open');
+
+  const own = await call(getMyUnmatchedFunds, 'production', funds.id);
+  assert.equal(own.status, 200);
+});
+
+test('a sandbox partial payment is recorded as underpaid sandbox funds', async () => {
+  const created = await createMerchantInvoice({ merchant_id: merchant.id, env: 'sandbox', amount: 40000 });
+  assert.ok(created.ok);
+  const inv = await db.getInvoiceById(created.data.invoice_id, merchant.id);
+  assert.ok(inv);
+
+  assert.deepEqual(await applySandboxOutcome(inv, 'partial', 15000), { ok: true, status: 'pending' });
+  const events = await db.listInvoiceEvents(inv.id, merchant.id);
+  const underpaid = events.find((e) => e.event_type === 'payment.underpaid');
+  assert.ok(underpaid);
+  assert.equal(JSON.parse(underpaid.payload_json || '{}').paid_amount, 15000);
+
+  const list = await call(listMyUnmatchedFunds, 'sandbox', '');
+  const funds = list.body.data.items.find((f: any) => f.invoice_id === inv.id);
+  assert.ok(funds);
+  assert.equal(funds.env, 'sandbox');
+  assert.equal(funds.kind, 'underpaid');
+  assert.equal((await call(getMyUnmatchedFunds, 'production', funds.id)).status, 404);
+
+  const accepted = await call(acceptFunds, 'sandbox', funds.id);
+  assert.equal(accepted.status, 200);
+  assert.equal(accepted.body.data.invoice_status, 'paid');
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { signWebhook, signWebhookLegacy } from '../lib/webhook_signing';
+import { verifyWebhookSignature } from '../sdk/signing.js';
+
+const NOW = 1_790_000_000;
+const BODY = '{"event_type":"payment.paid","invoice_id":"inv_1"}';
+
+function verify(webhookSecret: string, signatureHeader: string, overrides: Record<string, unknown> = {}) {
+  return verifyWebhookSignature({ webhookSecret, timestamp: NOW, signatureHeader, rawBody: BODY, now: NOW, ...overrides });
+}
+
+test('the SDK verifier accepts what the worker signs, with either secret during a rotation', () => {
+  const header = signWebhook(['new-secret', 'old-secret'], NOW, BODY);
+  assert.equal(verify('new-secret', header), true);
+  assert.equal(verify('old-secret', header), true);
+  assert.equal(verify('other-secret', header), false);
+  // x-webhook-signature: bare hex, current secret only
+  assert.equal(verify('new-secret', signWebhookLegacy('new-secret', NOW, BODY)), true);
+});
+
+test('the SDK verifier rejects tampering, replays and unknown versions', () => {
+  const header = signWebhook(['secret'], NOW, BODY);
+  assert.equal(verify('secret', header, { rawBody: BODY.replace('inv_1', 'inv_2') }), false);
+  assert.equal(verify('secret', header, { now: NOW + 301 }), false);
+  assert.equal(verify('secret', header.replace('v1=', 'v2=')), false);
+});
@@ -9,13 +9,20 @@ import { Transactions } from './pages/Transactions';
 import { Channels } from './pages/Channels';
 import { ApiDocs } from './pages/ApiDocs';
 import { Settings } from './pages/Settings';
+import { LinkOrderKuota } from './pages/LinkOrderKuota';
 import AdminOverview from './pages/AdminOverview';
 import AdminVerifications from './pages/AdminVerifications';
 import AdminOrderKuota from './pages/AdminOrderKuota';
 import AdminExports from './pages/AdminExports';
+import AdminUsers from './pages/AdminUsers';
+import AdminAudit from './pages/AdminAudit';
+import AdminMatchReviews from './pages/AdminMatchReviews';
+import { Checkout } from './pages/Checkout';
+import { PaymentLinks } from './pages/PaymentLinks';
+import { PaymentLinkPage } from './pages/PaymentLinkPage';
 import { Toaster } from 'react-hot-toast';
 
-type Page = 'landing' | 'login' | 'register' | 'dashboard' | 'transactions' | 'channels' | 'docs' | 'settings' | 'admin_overview' | 'admin_verifications' | 'admin_orderkuota' | 'admin_exports';
+type Page = 'landing' | 'login' | 'register' | 'dashboard' | 'transactions' | 'channels' | 'docs' | 'settings' | 'orderkuota_link' | 'payment_links' | 'admin_overview' | 'admin_verifications' | 'admin_orderkuota' | 'admin_exports' | 'admin_users' | 'admin_audit' | 'admin_match_reviews';
 
 function AppContent() {
   const { user } = useAuth();
@@ -37,17 +44,32 @@ function AppContent() {
       {currentPage === 'transactions' && <Transactions />}
       {currentPage === 'channels' && <Channels />}
       {currentPage === 'docs' && <ApiDocs />}
-      {currentPage === 'settings' && <Settings />}
+      {currentPage === 'settings' && <Settings onNavigate={handleNavigate} />}
+      {currentPage === 'orderkuota_link' && <LinkOrderKuota onNavigate={handleNavigate} />}
+      {currentPage === 'payment_links' && <PaymentLinks onNavigate={handleNavigate} />}
 
       {currentPage === 'admin_overview' && <AdminOverview onNavigate={handleNavigate} />}
       {currentPage === 'admin_verifications' && <AdminVerifications onNavigate={handleNavigate} />}
       {currentPage === 'admin_orderkuota' && <AdminOrderKuota onNavigate={handleNavigate} />}
       {currentPage === 'admin_exports' && <AdminExports onNavigate={handleNavigate} />}
+      {currentPage === 'admin_users' && <AdminUsers onNavigate={handleNavigate} />}
+      {currentPage === 'admin_audit' && <AdminAudit onNavigate={handleNavigate} />}
+      {currentPage === 'admin_match_reviews' && <AdminMatchReviews onNavigate={handleNavigate} />}
     </div>
   );
 }
 
 function App() {
+  // Hosted checkout (/pay/:invoice_id?t=token) is public and renders without the dashboard chrome
+  const pay = /^\/pay\/([^/]+)\/?$/.exec(window.location.pathname);
+  if (pay) {
+    return <Checkout invoiceId={decodeURIComponent(pay[1])} token={new URLSearchParams(window.location.search).get('t') || ''} />;
+  }
+  // Payment links (/link/:slug) are public too; paying continues on /pay
+  const link = /^\/link\/([^/]+)\/?$/.exec(window.location.pathname);
+  if (link) {
+    return <PaymentLinkPage slug={decodeURIComponent(link[1])} />;
+  }
   return <AppContent />;
 }
 
@@ -1,7 +1,8 @@
 import { ReactNode } from 'react';
-import { Shield, Settings, ClipboardList, BarChart3, Download } from 'lucide-react';
+import { Shield, Settings, ClipboardList, BarChart3, Download, Users, ScrollText, GitCompare } from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
 
-type AdminPage = 'admin_overview' | 'admin_verifications' | 'admin_orderkuota' | 'admin_exports';
+type AdminPage = 'admin_overview' | 'admin_verifications' | 'admin_orderkuota' | 'admin_exports' | 'admin_users' | 'admin_audit' | 'admin_match_reviews';
 
 export function AdminLayout({
   title,
@@ -16,12 +17,19 @@ export function AdminLayout({
   onNavigate: (page: AdminPage) => void;
   children: ReactNode;
 }) {
-  const tabs: Array<{ key: AdminPage; label: string; icon: any }> = [
-    { key: 'admin_overview', label: 'Overview', icon: BarChart3 },
-    { key: 'admin_verifications', label: 'Verifikasi', icon: ClipboardList },
-    { key: 'admin_orderkuota', label: 'OrderKuota', icon: Settings },
-    { key: 'admin_exports', label: 'Exports', icon: Download },
+  const { user } = useAuth();
+  const permissions = user?.admin_permissions || [];
+  // Hide tabs the role cannot open (the API enforces the same permissions)
+  const allTabs: Array<{ key: AdminPage; label: string; icon: any; permission: string }> = [
+    { key: 'admin_overview', label: 'Overview', icon: BarChart3, permission: 'stats.read' },
+    { key: 'admin_verifications', label: 'Verifikasi', icon: ClipboardList, permission: 'verification.read' },
+    { key: 'admin_orderkuota', label: 'OrderKuota', icon: Settings, permission: 'operator.read' },
+    { key: 'admin_exports', label: 'Exports', icon: Download, permission: 'exports.read' },
+    { key: 'admin_match_reviews', label: 'Review Mutasi', icon: GitCompare, permission: 'matching.read' },
+    { key: 'admin_audit', label: 'Audit Log', icon: ScrollText, permission: 'audit.read' },
+    { key: 'admin_users', label: 'Admin Users', icon: Users, permission: 'admins.manage' },
   ];
+  const tabs = allTabs.filter(t => permissions.includes(t.permission));
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
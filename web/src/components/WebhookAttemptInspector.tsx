@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { WebhookDeliveryAttempt } from '../lib/api';
+
+function prettyBody(body: string | null) {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+}
+
+function Headers({ headers }: { headers: Record<string, string> }) {
+  const entries = Object.entries(headers);
+  if (!entries.length) return <div className="text-xs text-gray-500">-</div>;
+  return (
+    <div className="font-mono text-xs text-gray-700 break-all">
+      {entries.map(([k, v]) => (
+        <div key={k}>
+          <span className="text-gray-500">{k}:</span> {v}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Body({ body, truncated }: { body: string | null; truncated?: boolean }) {
+  if (!body) return <div className="text-xs text-gray-500">(kosong)</div>;
+  return (
+    <>
+      <pre className="max-h-48 overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-100 whitespace-pre-wrap">{prettyBody(body)}</pre>
+      {truncated ? <div className="text-xs text-gray-500">Body dipotong</div> : null}
+    </>
+  );
+}
+
+/** One recorded delivery attempt: what we sent and what the receiver answered. */
+export const WebhookAttemptInspector = ({ attempt }: { attempt: WebhookDeliveryAttempt }) => {
+  const [open, setOpen] = useState(false);
+  const ok = attempt.status_code != null && attempt.status_code >= 200 && attempt.status_code < 300;
+
+  return (
+    <div className="rounded border border-gray-200">
+      <button onClick={() => setOpen(!open)} className="flex w-full flex-wrap items-center gap-3 px-3 py-2 text-left text-xs">
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span className="font-medium text-gray-900">Percobaan #{attempt.attempt_number}</span>
+        <span className={`px-2 py-0.5 rounded font-semibold ${ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+          {attempt.status_code ?? attempt.error ?? '-'}
+        </span>
+        {attempt.duration_ms != null ? <span className="text-gray-600">{attempt.duration_ms} ms</span> : null}
+        {attempt.resolved_ip ? <span className="font-mono text-gray-600">{attempt.resolved_ip}</span> : null}
+        <span className="text-gray-500">{new Date(attempt.created_at * 1000).toLocaleString('id-ID')}</span>
+      </button>
+      {open ? (
+        <div className="grid gap-4 border-t border-gray-200 p-3 md:grid-cols-2">
+          <div className="space-y-2 min-w-0">
+            <div className="text-xs font-semibold uppercase text-gray-500">Request</div>
+            {attempt.request_url ? <div className="font-mono text-xs break-all">POST {attempt.request_url}</div> : null}
+            <Headers headers={attempt.request_headers} />
+            <Body body={attempt.request_body} />
+          </div>
+          <div className="space-y-2 min-w-0">
+            <div className="text-xs font-semibold uppercase text-gray-500">Response</div>
+            {attempt.error ? <div className="text-xs text-red-700">{attempt.error}</div> : null}
+            <Headers headers={attempt.response_headers} />
+            <Body body={attempt.response_body} truncated={attempt.response_truncated} />
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
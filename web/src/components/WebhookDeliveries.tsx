@@ -0,0 +1,255 @@
+import { Fragment, useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookEndpoint,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  replayFailedWebhooks,
+  replayInvoiceWebhooks,
+  resendWebhookDelivery,
+} from '../lib/api';
+import { WebhookAttemptInspector } from './WebhookAttemptInspector';
+
+type Env = 'production' | 'sandbox';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const statusClass: Record<WebhookDelivery['status'], string> = {
+  delivered: 'bg-green-100 text-green-800',
+  queued: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function formatTime(ts: number) {
+  return new Date(ts * 1000).toLocaleString('id-ID');
+}
+
+// <input type="datetime-local"> value -> unix seconds
+function toUnix(v: string): number {
+  return Math.floor(new Date(v).getTime() / 1000);
+}
+
+function StatusBadge({ d }: { d: WebhookDelivery }) {
+  return (
+    <span className={`px-2 py-1 text-xs font-semibold rounded ${statusClass[d.status]}`}>
+      {d.last_status_code ? `${d.last_status_code} ` : ''}
+      {d.status}
+    </span>
+  );
+}
+
+export const WebhookDeliveries = () => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [history, setHistory] = useState<Array<WebhookDelivery & { attempts: WebhookDeliveryAttempt[] }>>([]);
+  const [busy, setBusy] = useState(false);
+
+  const [replayEnv, setReplayEnv] = useState<Env>('production');
+  const [replayFrom, setReplayFrom] = useState('');
+  const [replayTo, setReplayTo] = useState('');
+  const [invoiceId, setInvoiceId] = useState('');
+  const [invoiceEndpointId, setInvoiceEndpointId] = useState('');
+
+  async function load() {
+    const r = await listWebhookDeliveries();
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal memuat webhook deliveries');
+      return;
+    }
+    setDeliveries(r.data.deliveries);
+  }
+
+  async function loadEndpoints(env: Env) {
+    const r = await listWebhookEndpoints(env);
+    if (r?.success) {
+      setEndpoints(r.data.items);
+      setInvoiceEndpointId(r.data.items[0]?.id || '');
+    }
+  }
+
+  useEffect(() => { load(); loadEndpoints('production'); }, []);
+
+  async function toggleHistory(d: WebhookDelivery) {
+    if (openId === d.id) {
+      setOpenId(null);
+      return;
+    }
+    const r = await getWebhookDelivery(d.id);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal memuat riwayat');
+      return;
+    }
+    setHistory(r.data.history);
+    setOpenId(d.id);
+  }
+
+  async function resend(d: WebhookDelivery) {
+    const r = await resendWebhookDelivery(d.id);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengirim ulang');
+      return;
+    }
+    toast.success('Delivery masuk antrean');
+    setOpenId(null);
+    load();
+  }
+
+  async function replayFailed(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    const r = await replayFailedWebhooks({ env: replayEnv, from: toUnix(replayFrom), to: toUnix(replayTo) });
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal replay');
+      return;
+    }
+    toast.success(`${r.data.queued} delivery dikirim ulang${r.data.truncated ? ' (sebagian, ulangi untuk sisanya)' : ''}`);
+    load();
+  }
+
+  async function replayInvoice(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    const r = await replayInvoiceWebhooks(invoiceId.trim(), invoiceEndpointId);
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal replay invoice');
+      return;
+    }
+    toast.success(`${r.data.queued} event dikirim ulang`);
+    setInvoiceId('');
+    load();
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Recent Webhook Deliveries</h3>
+        <button onClick={() => load()} title="Muat ulang" className="p-2 rounded-lg text-gray-600 hover:bg-gray-100">
+          <RefreshCw className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Event</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Attempts</th>
+              <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Time</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {deliveries.map((d) => (
+              <Fragment key={d.id}>
+                <tr>
+                  <td className="px-4 py-3 text-sm text-gray-900">
+                    <button onClick={() => toggleHistory(d)} className="inline-flex items-center gap-1 hover:underline">
+                      {openId === d.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      <span className="font-mono">{d.event_type}</span>
+                    </button>
+                    {d.replay_of ? <span className="ml-2 text-xs text-gray-500">kirim ulang</span> : null}
+                    {d.env === 'sandbox' ? <span className="ml-2 text-xs text-gray-500">sandbox</span> : null}
+                  </td>
+                  <td className="px-4 py-3"><StatusBadge d={d} /></td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{d.attempt_count}</td>
+                  <td className="px-4 py-3 text-sm text-gray-600">{formatTime(d.created_at)}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => resend(d)}
+                      disabled={d.status === 'queued'}
+                      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline disabled:opacity-40 disabled:no-underline"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      Resend
+                    </button>
+                  </td>
+                </tr>
+                {openId === d.id ? (
+                  <tr>
+                    <td colSpan={5} className="bg-gray-50 px-4 py-3">
+                      <div className="space-y-2">
+                        {history.map((h, i) => (
+                          <div key={h.id} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                            <div className="flex flex-wrap items-center gap-3">
+                              <span className="font-medium text-gray-900">{i === 0 ? 'Asli' : `Kirim ulang #${i}`}</span>
+                              <StatusBadge d={h} />
+                              <span className="text-gray-600">{h.attempt_count} percobaan</span>
+                              <span className="text-gray-500">{formatTime(h.updated_at)}</span>
+                            </div>
+                            {h.last_error ? <div className="mt-1 text-red-700">{h.last_error}</div> : null}
+                            {h.attempts.length ? (
+                              <div className="mt-2 space-y-1">
+                                {h.attempts.map((a) => <WebhookAttemptInspector key={a.id} attempt={a} />)}
+                              </div>
+                            ) : h.response_snippet ? (
+                              // Attempts from before per-attempt logging only have the last response
+                              <pre className="mt-2 max-h-32 overflow-auto rounded bg-gray-900 p-2 text-xs text-gray-100 whitespace-pre-wrap">{h.response_snippet}</pre>
+                            ) : null}
+                          </div>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ) : null}
+              </Fragment>
+            ))}
+            {!deliveries.length ? (
+              <tr>
+                <td colSpan={5} className="py-6 text-center text-sm text-gray-500">Belum ada webhook delivery.</td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <form onSubmit={replayFailed} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">Kirim ulang yang gagal</h3>
+          <select
+            value={replayEnv}
+            onChange={(e) => {
+              const next = e.target.value as Env;
+              setReplayEnv(next);
+              loadEndpoints(next);
+            }}
+            className={inputClass}
+          >
+            <option value="production">Production</option>
+            <option value="sandbox">Sandbox</option>
+          </select>
+          <input className={inputClass} type="datetime-local" value={replayFrom} onChange={(e) => setReplayFrom(e.target.value)} required />
+          <input className={inputClass} type="datetime-local" value={replayTo} onChange={(e) => setReplayTo(e.target.value)} required />
+          <button type="submit" disabled={busy} className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50">
+            Replay
+          </button>
+        </form>
+
+        <form onSubmit={replayInvoice} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">Kirim ulang semua event invoice</h3>
+          <input className={inputClass} placeholder="Invoice ID" value={invoiceId} onChange={(e) => setInvoiceId(e.target.value)} required />
+          <select value={invoiceEndpointId} onChange={(e) => setInvoiceEndpointId(e.target.value)} className={inputClass} required>
+            {endpoints.map((ep) => (
+              <option key={ep.id} value={ep.id}>{ep.description || ep.url}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={busy || !endpoints.length}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Replay invoice
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
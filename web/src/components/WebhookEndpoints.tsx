@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { Copy, KeyRound, Pencil, Plus, Power, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  WebhookEndpoint,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  listWebhookEndpoints,
+  rotateWebhookEndpointSecret,
+  updateWebhookEndpoint,
+} from '../lib/api';
+
+type Env = 'production' | 'sandbox';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// "payment.paid, refund.*" -> ['payment.paid', 'refund.*']
+function parseEventTypes(v: string): string[] {
+  return v.split(/[\s,]+/).map((x) => x.trim()).filter(Boolean);
+}
+
+export const WebhookEndpoints = () => {
+  const [env, setEnv] = useState<Env>('production');
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [maxEndpoints, setMaxEndpoints] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [eventTypes, setEventTypes] = useState('*');
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingEvents, setEditingEvents] = useState('');
+
+  async function load(next: Env = env) {
+    const r = await listWebhookEndpoints(next);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal memuat webhook endpoint');
+      return;
+    }
+    setEndpoints(r.data.items);
+    setMaxEndpoints(r.data.max_endpoints);
+  }
+
+  // Initial load only; the env switch reloads explicitly.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { load(); }, []);
+
+  async function create(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    const r = await createWebhookEndpoint({
+      env,
+      url: url.trim(),
+      description: description.trim() || null,
+      event_types: parseEventTypes(eventTypes),
+    });
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal menambah endpoint');
+      return;
+    }
+    setUrl('');
+    setDescription('');
+    setEventTypes('*');
+    toast.success('Endpoint ditambahkan');
+    load();
+  }
+
+  async function toggle(endpoint: WebhookEndpoint) {
+    const r = await updateWebhookEndpoint(endpoint.id, { enabled: !endpoint.enabled });
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengubah endpoint');
+      return;
+    }
+    load();
+  }
+
+  async function saveEvents(endpoint: WebhookEndpoint) {
+    const r = await updateWebhookEndpoint(endpoint.id, { event_types: parseEventTypes(editingEvents) });
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengubah event');
+      return;
+    }
+    setEditingId(null);
+    load();
+  }
+
+  async function rotate(endpoint: WebhookEndpoint) {
+    const hours = prompt('Secret lama tetap ikut menandatangani selama berapa jam? (0 = langsung tidak berlaku)', '24');
+    if (hours === null) return;
+    const r = await rotateWebhookEndpointSecret(endpoint.id, Math.round(Number(hours) * 3600));
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal merotasi secret');
+      return;
+    }
+    const secret = r.data.webhook_secret || r.data.secret;
+    if (secret) {
+      navigator.clipboard.writeText(secret);
+      toast.success('Secret baru dibuat dan disalin');
+    }
+    load();
+  }
+
+  async function remove(endpoint: WebhookEndpoint) {
+    if (!confirm(`Hapus endpoint ${endpoint.url}? Pengiriman yang masih antre akan dibatalkan.`)) return;
+    const r = await deleteWebhookEndpoint(endpoint.id);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal menghapus endpoint');
+      return;
+    }
+    load();
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Setiap endpoint punya secret sendiri dan hanya menerima event yang cocok dengan filternya
+          (mis. <code>payment.paid</code>, <code>refund.*</code>, atau <code>*</code> untuk semua).
+        </p>
+        <select
+          value={env}
+          onChange={(e) => {
+            const next = e.target.value as Env;
+            setEnv(next);
+            setEditingId(null);
+            load(next);
+          }}
+          className="rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="production">Production</option>
+          <option value="sandbox">Sandbox</option>
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {endpoints.map((ep) => (
+          <div key={ep.id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <div className="font-medium text-gray-900 break-all">{ep.url}</div>
+                {ep.description ? <div className="text-sm text-gray-600">{ep.description}</div> : null}
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`px-2 py-1 rounded font-semibold ${ep.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                    {ep.enabled ? 'Aktif' : 'Nonaktif'}
+                  </span>
+                  {ep.legacy ? <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">webhook_url lama</span> : null}
+                  {editingId === ep.id ? null : ep.event_types.map((t) => (
+                    <span key={t} className="px-2 py-1 rounded bg-blue-50 text-blue-700 font-mono">{t}</span>
+                  ))}
+                </div>
+                {editingId === ep.id ? (
+                  <div className="mt-2 flex gap-2">
+                    <input className={inputClass} value={editingEvents} onChange={(e) => setEditingEvents(e.target.value)} />
+                    <button onClick={() => saveEvents(ep)} className="px-4 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700">Simpan</button>
+                    <button onClick={() => setEditingId(null)} className="px-4 rounded-lg border border-gray-300 text-sm">Batal</button>
+                  </div>
+                ) : null}
+                <div className="mt-2 text-xs text-gray-500">
+                  {ep.secret ? (
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(ep.secret!);
+                        toast.success('Secret disalin');
+                      }}
+                      className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      <Copy className="h-3 w-3" />
+                      Salin signing secret
+                    </button>
+                  ) : (
+                    'Ditandatangani dengan webhook secret di halaman API Keys'
+                  )}
+                  {ep.previous_secret_expires_at ? (
+                    <span className="ml-2 text-yellow-700">
+                      Secret lama masih berlaku sampai {new Date(ep.previous_secret_expires_at * 1000).toLocaleString('id-ID')}
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <button
+                  onClick={() => {
+                    setEditingId(ep.id);
+                    setEditingEvents(ep.event_types.join(', '));
+                  }}
+                  title="Ubah event"
+                  className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button onClick={() => rotate(ep)} title="Rotasi signing secret" className="p-2 rounded-lg text-gray-600 hover:bg-gray-100">
+                  <KeyRound className="h-4 w-4" />
+                </button>
+                <button onClick={() => toggle(ep)} title={ep.enabled ? 'Nonaktifkan' : 'Aktifkan'} className="p-2 rounded-lg text-gray-600 hover:bg-gray-100">
+                  <Power className="h-4 w-4" />
+                </button>
+                <button onClick={() => remove(ep)} title="Hapus" className="p-2 rounded-lg text-red-600 hover:bg-red-50">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {!endpoints.length ? <div className="py-6 text-center text-sm text-gray-500">Belum ada webhook endpoint.</div> : null}
+      </div>
+
+      {endpoints.length < maxEndpoints ? (
+        <form onSubmit={create} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <h3 className="font-semibold text-gray-900">Tambah endpoint</h3>
+          <input className={inputClass} type="url" placeholder="https://erp.example.com/webhook" value={url} onChange={(e) => setUrl(e.target.value)} required />
+          <input className={inputClass} placeholder="Deskripsi (opsional, mis. ERP)" value={description} onChange={(e) => setDescription(e.target.value)} />
+          <input className={inputClass} placeholder="Event, pisahkan dengan koma (payment.paid, refund.*)" value={eventTypes} onChange={(e) => setEventTypes(e.target.value)} required />
+          <button
+            type="submit"
+            disabled={busy}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Tambah
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+};
@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
-import { clearEmail, fetchMe, getEmail, setEmail, registerWithEmail, loginWithEmail } from '../lib/api';
+import { fetchMe, registerWithEmail, loginWithEmail, logoutSession } from '../lib/api';
 
 export type User = {
   email: string;
   name: string;
   is_admin: boolean;
+  admin_role: string | null;
+  admin_permissions: string[];
   merchant: { id: string; status: string };
 };
 
@@ -13,7 +15,7 @@ type AuthCtx = {
   loading: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   refresh: () => Promise<void>;
 };
 
@@ -24,12 +26,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   async function refresh() {
-    const email = getEmail();
-    if (!email) {
-      setUser(null);
-      setLoading(false);
-      return;
-    }
     const me = await fetchMe();
     if (me?.success) {
       const name = me.data.email.split('@')[0];
@@ -47,10 +43,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   async function login(email: string, password: string) {
     setLoading(true);
-    setEmail(email);
     const res = await loginWithEmail(email, password);
     if (!res.success) {
-      clearEmail();
       setLoading(false);
       throw new Error(res.error.message);
     }
@@ -59,18 +53,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   async function register(email: string, password: string) {
     setLoading(true);
-    setEmail(email);
     const res = await registerWithEmail(email, password);
     if (!res.success) {
-      clearEmail();
       setLoading(false);
       throw new Error(res.error.message);
     }
     await refresh();
   }
 
-  function logout() {
-    clearEmail();
+  async function logout() {
+    await logoutSession();
     setUser(null);
   }
 
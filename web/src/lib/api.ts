@@ -2,28 +2,22 @@ export type ApiResponse<T> =
   | { success: true; data: T }
   | { success: false; error: { code: string; message: string; details?: any } };
 
-export const LS_EMAIL_KEY = 'pg_email';
+// Session lives in an httpOnly cookie; the CSRF token is mirrored in a readable cookie
+export const CSRF_COOKIE = 'pg_csrf';
 
-export function getEmail(): string | null {
-  const v = localStorage.getItem(LS_EMAIL_KEY);
-  return v && v.trim() ? v.trim() : null;
-}
-
-export function setEmail(email: string) {
-  localStorage.setItem(LS_EMAIL_KEY, email.trim());
-}
-
-export function clearEmail() {
-  localStorage.removeItem(LS_EMAIL_KEY);
+function getCsrfToken(): string | null {
+  const hit = document.cookie.split(';').map((c) => c.trim()).find((c) => c.startsWith(`${CSRF_COOKIE}=`));
+  return hit ? decodeURIComponent(hit.slice(CSRF_COOKIE.length + 1)) : null;
 }
 
 async function apiFetch<T>(path: string, init?: RequestInit): Promise<ApiResponse<T>> {
-  const email = getEmail();
   const headers = new Headers(init?.headers || {});
   headers.set('content-type', 'application/json');
-  if (email) headers.set('x-user-email', email);
+  const method = (init?.method || 'GET').toUpperCase();
+  const csrf = getCsrfToken();
+  if (csrf && method !== 'GET' && method !== 'HEAD') headers.set('x-csrf-token', csrf);
 
-  const res = await fetch(path, { ...init, headers });
+  const res = await fetch(path, { ...init, headers, credentials: 'same-origin' });
   const txt = await res.text();
   let json: any = null;
   try { json = txt ? JSON.parse(txt) : null; } catch { json = null; }
@@ -45,10 +39,23 @@ export async function loginWithEmail(email: string, password: string) {
   });
 }
 
+export async function logoutSession() {
+  return apiFetch<{ ok: true }>('/api/app/auth/logout', { method: 'POST' });
+}
+
+export async function changePassword(currentPassword: string, newPassword: string) {
+  return apiFetch<{ email: string }>('/api/app/auth/password', {
+    method: 'POST',
+    body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+  });
+}
+
 export async function fetchMe() {
   return apiFetch<{
     email: string;
     is_admin: boolean;
+    admin_role: string | null;
+    admin_permissions: string[];
     merchant: { id: string; status: string };
   }>('/api/app/me');
 }
@@ -67,6 +74,69 @@ export async function submitVerification(payload: {
 }
 
 
+// =====================
+// OrderKuota accounts (merchant)
+// =====================
+
+export type OrderkuotaAccount = {
+  id: string;
+  label: string | null;
+  username: string;
+  qris_static: string | null;
+  token_status: 'unchecked' | 'valid' | 'invalid';
+  token_checked_at: number | null;
+  created_at: number;
+  updated_at: number;
+  last_polled_at: number | null;
+  last_error: string | null;
+};
+
+export type OrderkuotaLinkSession = {
+  id: string;
+  username: string;
+  status: 'otp_sent' | 'verified' | 'linked';
+  qris_static: string | null;
+  balance: number | null;
+  qris_balance: number | null;
+  account_id: string | null;
+  expires_at: number;
+};
+
+export async function listOrderkuotaAccounts() {
+  return apiFetch<{ accounts: OrderkuotaAccount[] }>('/api/app/orderkuota-accounts');
+}
+
+export async function deleteOrderkuotaAccount(id: string) {
+  return apiFetch<{ ok: true }>(`/api/app/orderkuota-accounts/${id}`, { method: 'DELETE' });
+}
+
+export async function checkOrderkuotaAccount(id: string) {
+  return apiFetch<{ account: OrderkuotaAccount; valid: boolean; error: string | null }>(`/api/app/orderkuota-accounts/${id}/check`, {
+    method: 'POST',
+  });
+}
+
+export async function startOrderkuotaLink(username: string, password: string) {
+  return apiFetch<{ session: OrderkuotaLinkSession; otp_hint: string | null }>('/api/app/orderkuota-accounts/link/start', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+}
+
+export async function submitOrderkuotaLinkOtp(sessionId: string, otp: string) {
+  return apiFetch<{ session: OrderkuotaLinkSession; existing_account_id: string | null }>(`/api/app/orderkuota-accounts/link/${sessionId}/otp`, {
+    method: 'POST',
+    body: JSON.stringify({ otp }),
+  });
+}
+
+export async function confirmOrderkuotaLink(sessionId: string, payload: { label?: string; qris_static?: string }) {
+  return apiFetch<{ account: OrderkuotaAccount; relinked: boolean }>(`/api/app/orderkuota-accounts/link/${sessionId}/confirm`, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
 // =====================
 // Admin API helpers
 // =====================
@@ -141,6 +211,349 @@ export async function adminResolveAlert(id: string) {
   return apiFetch<any>(`/api/admin/alerts/${id}/resolve`, { method: 'POST' });
 }
 
+export type AdminUser = {
+  email: string;
+  role: string;
+  status: 'active' | 'disabled';
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type AdminRole = {
+  name: string;
+  description: string | null;
+  permissions: string[];
+  built_in: boolean;
+};
+
+export async function adminListAdminUsers() {
+  return apiFetch<{ items: AdminUser[]; roles: AdminRole[]; permissions: string[] }>('/api/admin/admin-users');
+}
+
+export async function adminSaveAdminUser(email: string, payload: { role: string; status: 'active' | 'disabled' }) {
+  return apiFetch<AdminUser>(`/api/admin/admin-users/${encodeURIComponent(email)}`, {
+    method: 'PUT',
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function adminDeleteAdminUser(email: string) {
+  return apiFetch<{ ok: true }>(`/api/admin/admin-users/${encodeURIComponent(email)}`, { method: 'DELETE' });
+}
+
+export type AuditLogItem = {
+  seq: number;
+  id: string;
+  created_at: number;
+  actor_email: string;
+  actor_role: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  prev_hash: string;
+  hash: string;
+};
+
+export type AuditLogQuery = {
+  actor?: string;
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  q?: string;
+  from_ts?: number;
+  to_ts?: number;
+};
+
+function auditQueryString(query: AuditLogQuery, extra: Record<string, string | number | null | undefined> = {}) {
+  const params = new URLSearchParams();
+  for (const [k, v] of Object.entries({ ...query, ...extra })) {
+    if (v !== undefined && v !== null && v !== '') params.set(k, String(v));
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+export async function adminSearchAuditLog(query: AuditLogQuery, beforeSeq?: number | null) {
+  return apiFetch<{ items: AuditLogItem[]; next_before_seq: number | null }>(
+    `/api/admin/audit-log${auditQueryString(query, { before_seq: beforeSeq })}`
+  );
+}
+
+export async function adminVerifyAuditLog() {
+  return apiFetch<{ ok: boolean; checked: number; head_seq: number | null; head_hash: string | null; broken_at_seq?: number; reason?: string }>(
+    '/api/admin/audit-log/verify'
+  );
+}
+
+export function adminExportAuditLogCsvUrl(query: AuditLogQuery) {
+  return `/api/admin/audit-log/export.csv${auditQueryString(query)}`;
+}
+
+export type MatchReviewItem = {
+  id: string;
+  merchant_id: string;
+  provider: string;
+  account_key: string;
+  mutation_id: string;
+  amount: number;
+  occurred_at: number | null;
+  description: string | null;
+  reason: 'MULTIPLE_INVOICES' | 'MULTIPLE_MUTATIONS' | 'NO_TIMESTAMP';
+  candidate_invoice_ids: string[];
+  status: 'open' | 'resolved' | 'dismissed';
+  resolved_invoice_id: string | null;
+  resolved_by: string | null;
+  note: string | null;
+  created_at: number;
+  resolved_at: number | null;
+};
+
+export async function adminListMatchReviews(status: 'open' | 'resolved' | 'dismissed' | 'all' = 'open') {
+  return apiFetch<{ items: MatchReviewItem[] }>(`/api/admin/match-reviews?status=${status}`);
+}
+
+export async function adminResolveMatchReview(id: string, invoiceId: string, note?: string) {
+  return apiFetch<{ item: MatchReviewItem; invoice_id: string; invoice_status: string }>(`/api/admin/match-reviews/${id}/resolve`, {
+    method: 'POST',
+    body: JSON.stringify({ invoice_id: invoiceId, note: note || undefined }),
+  });
+}
+
+export async function adminDismissMatchReview(id: string, note?: string) {
+  return apiFetch<MatchReviewItem>(`/api/admin/match-reviews/${id}/dismiss`, {
+    method: 'POST',
+    body: JSON.stringify({ note: note || undefined }),
+  });
+}
+
+// Hosted checkout (public, token from the invoice's checkout_url)
+export type CheckoutView = {
+  invoice_id: string;
+  reference_id: string | null;
+  merchant_name: string | null;
+  base_amount: number;
+  unique_suffix: number;
+  final_amount: number;
+  tip_fee: number;
+  amount_strategy: string;
+  status: string;
+  qris_string: string | null;
+  created_at: number;
+  expires_at: number;
+  paid_at: number | null;
+  server_time: number;
+  redirect_url: string | null;
+  sandbox: boolean;
+};
+
+export async function getCheckout(invoiceId: string, token: string) {
+  return apiFetch<CheckoutView>(`/api/public/checkout/${encodeURIComponent(invoiceId)}?t=${encodeURIComponent(token)}`);
+}
+
+// Server-Sent Events: every message is { event_type, checkout }
+export type CheckoutStreamMessage = { event_type: string; checkout: CheckoutView };
+
+export function checkoutStreamUrl(invoiceId: string, token: string) {
+  return `/api/public/checkout/${encodeURIComponent(invoiceId)}/stream?t=${encodeURIComponent(token)}`;
+}
+
+export function checkoutQrUrl(invoiceId: string, token: string, download = false) {
+  return `/api/public/checkout/${encodeURIComponent(invoiceId)}/qr.png?t=${encodeURIComponent(token)}${download ? '&download=1' : ''}`;
+}
+
+// Payment links (dashboard CRUD + public /link/:slug page)
+export type PaymentLinkUnavailable = 'INACTIVE' | 'NOT_STARTED' | 'ENDED' | 'SOLD_OUT' | 'BUSY';
+
+export type PaymentLink = {
+  id: string;
+  env: 'production' | 'sandbox';
+  slug: string;
+  url: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  max_uses: number | null;
+  account_id: string | null;
+  success_url: string | null;
+  failure_url: string | null;
+  active_from: number | null;
+  active_until: number | null;
+  status: 'active' | 'inactive' | 'archived';
+  used: number;
+  pending: number;
+  paid_total: number;
+  unavailable_reason: PaymentLinkUnavailable | null;
+  created_at: number;
+};
+
+export type PaymentLinkInput = {
+  env?: 'production' | 'sandbox';
+  title?: string;
+  description?: string | null;
+  amount?: number | null;
+  min_amount?: number | null;
+  max_amount?: number | null;
+  max_uses?: number | null;
+  account_id?: string | null;
+  active_from?: number | null;
+  active_until?: number | null;
+  status?: 'active' | 'inactive' | 'archived';
+};
+
+export type PublicPaymentLink = {
+  slug: string;
+  title: string;
+  description: string | null;
+  amount: number | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  remaining: number | null;
+  active_until: number | null;
+  unavailable_reason: PaymentLinkUnavailable | null;
+  sandbox: boolean;
+};
+
+export async function listPaymentLinks(env: 'production' | 'sandbox') {
+  return apiFetch<{ items: PaymentLink[] }>(`/api/app/payment-links?env=${env}`);
+}
+
+export async function createPaymentLink(payload: PaymentLinkInput) {
+  return apiFetch<PaymentLink>('/api/app/payment-links', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function updatePaymentLink(id: string, payload: PaymentLinkInput) {
+  return apiFetch<PaymentLink>(`/api/app/payment-links/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+export async function getPublicPaymentLink(slug: string) {
+  return apiFetch<PublicPaymentLink>(`/api/public/links/${encodeURIComponent(slug)}`);
+}
+
+export async function payPaymentLink(slug: string, amount?: number) {
+  return apiFetch<{ invoice_id: string; final_amount: number; expires_at: number; checkout_url: string }>(
+    `/api/public/links/${encodeURIComponent(slug)}/pay`,
+    { method: 'POST', body: JSON.stringify({ amount }) }
+  );
+}
+
+export type WebhookEndpoint = {
+  id: string;
+  env: 'production' | 'sandbox';
+  url: string;
+  description: string | null;
+  event_types: string[];
+  enabled: boolean;
+  legacy: boolean;
+  secret: string | null;
+  secret_source: 'endpoint' | 'credentials';
+  previous_secret_expires_at: number | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type WebhookEndpointInput = {
+  env?: 'production' | 'sandbox';
+  url?: string;
+  description?: string | null;
+  event_types?: string[];
+  enabled?: boolean;
+};
+
+export async function listWebhookEndpoints(env: 'production' | 'sandbox') {
+  return apiFetch<{ items: WebhookEndpoint[]; max_endpoints: number }>(`/api/app/webhook/endpoints?env=${env}`);
+}
+
+export async function createWebhookEndpoint(payload: WebhookEndpointInput) {
+  return apiFetch<WebhookEndpoint>('/api/app/webhook/endpoints', { method: 'POST', body: JSON.stringify(payload) });
+}
+
+export async function updateWebhookEndpoint(id: string, payload: WebhookEndpointInput) {
+  return apiFetch<WebhookEndpoint>(`/api/app/webhook/endpoints/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(payload) });
+}
+
+// Legacy endpoints rotate the credentials secret: the new one comes back as webhook_secret
+export async function rotateWebhookEndpointSecret(id: string, overlapSeconds: number) {
+  return apiFetch<WebhookEndpoint & { webhook_secret?: string }>(`/api/app/webhook/endpoints/${encodeURIComponent(id)}/rotate-secret`, {
+    method: 'POST',
+    body: JSON.stringify({ overlap_seconds: overlapSeconds }),
+  });
+}
+
+export async function deleteWebhookEndpoint(id: string) {
+  return apiFetch<{ deleted: boolean }>(`/api/app/webhook/endpoints/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export type WebhookDelivery = {
+  id: string;
+  env: 'production' | 'sandbox';
+  endpoint_id: string | null;
+  replay_of: string | null;
+  invoice_id: string | null;
+  event_type: string;
+  payload_json: string;
+  status: 'queued' | 'delivered' | 'failed';
+  attempt_count: number;
+  next_retry_at: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  response_snippet: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export type WebhookDeliveryAttempt = {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  request_url: string | null;
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  resolved_ip: string | null;
+  status_code: number | null;
+  response_headers: Record<string, string>;
+  response_body: string | null;
+  response_truncated: boolean;
+  error: string | null;
+  duration_ms: number | null;
+  created_at: number;
+};
+
+export async function listWebhookDeliveries(limit = 50, offset = 0) {
+  return apiFetch<{ deliveries: WebhookDelivery[]; limit: number; offset: number }>(`/api/app/webhook/deliveries?limit=${limit}&offset=${offset}`);
+}
+
+export async function getWebhookDelivery(id: string) {
+  return apiFetch<{ delivery: WebhookDelivery; history: Array<WebhookDelivery & { attempts: WebhookDeliveryAttempt[] }> }>(`/api/app/webhook/deliveries/${encodeURIComponent(id)}`);
+}
+
+export async function resendWebhookDelivery(id: string, endpointId?: string) {
+  return apiFetch<{ delivery_id: string; replay_of: string; endpoint_id: string }>(
+    `/api/app/webhook/deliveries/${encodeURIComponent(id)}/resend`,
+    { method: 'POST', body: JSON.stringify({ endpoint_id: endpointId }) }
+  );
+}
+
+export async function replayFailedWebhooks(payload: { env: 'production' | 'sandbox'; from: number; to: number; endpoint_id?: string }) {
+  return apiFetch<{ queued: number; skipped: number; delivery_ids: string[]; truncated: boolean }>('/api/app/webhook/replay', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function replayInvoiceWebhooks(invoiceId: string, endpointId: string) {
+  return apiFetch<{ queued: number; delivery_ids: string[] }>('/api/app/webhook/replay-invoice', {
+    method: 'POST',
+    body: JSON.stringify({ invoice_id: invoiceId, endpoint_id: endpointId }),
+  });
+}
+
 export function adminExportInvoicesCsvUrl() {
   return '/api/admin/exports/invoices.csv';
 }
@@ -0,0 +1,204 @@
+import { Fragment, useEffect, useState } from 'react';
+import { AdminLayout } from '../components/AdminLayout';
+import {
+  adminExportAuditLogCsvUrl,
+  adminSearchAuditLog,
+  adminVerifyAuditLog,
+  AuditLogItem,
+  AuditLogQuery,
+} from '../lib/api';
+import { Download, RefreshCw, Search, ShieldCheck, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+function toTs(date: string, endOfDay = false): number | undefined {
+  if (!date) return undefined;
+  const d = new Date(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}`);
+  return Number.isNaN(d.getTime()) ? undefined : Math.floor(d.getTime() / 1000);
+}
+
+function prettyJson(v: string | null) {
+  if (!v) return '—';
+  try {
+    return JSON.stringify(JSON.parse(v), null, 2);
+  } catch {
+    return v;
+  }
+}
+
+export default function AdminAudit({ onNavigate }: { onNavigate: (page: string) => void }) {
+  const [filters, setFilters] = useState({ actor: '', action: '', target_type: '', target_id: '', q: '', from: '', to: '' });
+  const [items, setItems] = useState<AuditLogItem[]>([]);
+  const [nextBefore, setNextBefore] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [verify, setVerify] = useState<{ ok: boolean; checked: number; head_hash: string | null; broken_at_seq?: number } | null>(null);
+
+  const query: AuditLogQuery = {
+    actor: filters.actor.trim() || undefined,
+    action: filters.action.trim() || undefined,
+    target_type: filters.target_type.trim() || undefined,
+    target_id: filters.target_id.trim() || undefined,
+    q: filters.q.trim() || undefined,
+    from_ts: toTs(filters.from),
+    to_ts: toTs(filters.to, true),
+  };
+
+  async function load(more = false) {
+    setLoading(true);
+    const r = await adminSearchAuditLog(query, more ? nextBefore : null);
+    setLoading(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal memuat audit log');
+      return;
+    }
+    setItems(prev => (more ? [...prev, ...r.data.items] : r.data.items));
+    setNextBefore(r.data.next_before_seq);
+  }
+
+  async function runVerify() {
+    const r = await adminVerifyAuditLog();
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal verifikasi audit log');
+      return;
+    }
+    setVerify(r.data);
+    if (r.data.ok) toast.success(`Hash chain valid (${r.data.checked} entri)`);
+    else toast.error(`Hash chain rusak di seq ${r.data.broken_at_seq}`);
+  }
+
+  // Initial load only; later searches run from the Cari button.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { load(); }, []);
+
+  const input = (key: keyof typeof filters, placeholder: string, type = 'text') => (
+    <input
+      type={type}
+      value={filters[key]}
+      onChange={e => setFilters({ ...filters, [key]: e.target.value })}
+      placeholder={placeholder}
+      className="rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+    />
+  );
+
+  return (
+    <AdminLayout
+      title="Audit Log"
+      subtitle="Jejak semua aksi admin (append-only, hash-chained)."
+      current="admin_audit"
+      onNavigate={onNavigate}
+    >
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          {input('actor', 'Actor email')}
+          {input('action', 'Action, mis. payout.mark_paid')}
+          {input('target_type', 'Target type')}
+          {input('target_id', 'Target id')}
+          {input('q', 'Cari di before/after')}
+          {input('from', 'Dari', 'date')}
+          {input('to', 'Sampai', 'date')}
+          <button
+            onClick={() => load()}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 text-sm"
+          >
+            <Search className="h-4 w-4" />
+            Cari
+          </button>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <a
+            href={adminExportAuditLogCsvUrl(query)}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm"
+          >
+            <Download className="h-4 w-4" />
+            Export CSV
+          </a>
+          <button
+            onClick={runVerify}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm"
+          >
+            <ShieldCheck className="h-4 w-4" />
+            Verifikasi hash chain
+          </button>
+          {verify ? (
+            <span className={`inline-flex items-center gap-1 text-sm ${verify.ok ? 'text-green-700' : 'text-red-700'}`}>
+              {verify.ok ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+              {verify.ok
+                ? `Valid, ${verify.checked} entri. Head: ${verify.head_hash ? verify.head_hash.slice(0, 16) + '…' : '-'}`
+                : `Rusak di seq ${verify.broken_at_seq}`}
+            </span>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="mt-6 bg-white border border-gray-200 rounded-xl p-6 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">Waktu</th>
+              <th className="py-2 pr-4">Actor</th>
+              <th className="py-2 pr-4">Action</th>
+              <th className="py-2 pr-4">Target</th>
+              <th className="py-2 pr-4">IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(it => (
+              <Fragment key={it.seq}>
+                <tr
+                  onClick={() => setExpanded(expanded === it.seq ? null : it.seq)}
+                  className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                >
+                  <td className="py-2 pr-4 text-gray-500">{it.seq}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{new Date(it.created_at * 1000).toLocaleString()}</td>
+                  <td className="py-2 pr-4">
+                    {it.actor_email}
+                    {it.actor_role ? <span className="ml-1 text-xs text-gray-500">({it.actor_role})</span> : null}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-gray-900">{it.action}</td>
+                  <td className="py-2 pr-4">{it.target_type}{it.target_id ? `:${it.target_id}` : ''}</td>
+                  <td className="py-2 pr-4 text-gray-600">{it.ip || '-'}</td>
+                </tr>
+                {expanded === it.seq ? (
+                  <tr className="border-b border-gray-100 bg-gray-50">
+                    <td colSpan={6} className="p-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                          <div className="text-xs text-gray-500">Before</div>
+                          <pre className="mt-1 text-xs overflow-auto max-h-64">{prettyJson(it.before_json)}</pre>
+                        </div>
+                        <div>
+                          <div className="text-xs text-gray-500">After</div>
+                          <pre className="mt-1 text-xs overflow-auto max-h-64">{prettyJson(it.after_json)}</pre>
+                        </div>
+                      </div>
+                      <div className="mt-3 text-xs text-gray-500 break-all">
+                        UA: {it.user_agent || '-'} · hash: {it.hash}
+                      </div>
+                    </td>
+                  </tr>
+                ) : null}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+
+        {!items.length && !loading ? <div className="py-8 text-center text-sm text-gray-500">Belum ada entri.</div> : null}
+
+        <div className="mt-4 flex justify-center">
+          {nextBefore ? (
+            <button
+              onClick={() => load(true)}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Muat lebih banyak
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
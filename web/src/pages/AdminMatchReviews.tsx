@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { AdminLayout } from '../components/AdminLayout';
+import { adminDismissMatchReview, adminListMatchReviews, adminResolveMatchReview, MatchReviewItem } from '../lib/api';
+import { Check, RefreshCw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+type StatusFilter = 'open' | 'resolved' | 'dismissed' | 'all';
+
+const REASON_LABELS: Record<MatchReviewItem['reason'], string> = {
+  MULTIPLE_INVOICES: 'Cocok ke beberapa invoice',
+  MULTIPLE_MUTATIONS: 'Beberapa mutasi untuk satu invoice',
+  NO_TIMESTAMP: 'Mutasi tanpa waktu',
+};
+
+function formatRupiah(n: number) {
+  return `Rp ${n.toLocaleString('id-ID')}`;
+}
+
+export default function AdminMatchReviews({ onNavigate }: { onNavigate: (page: string) => void }) {
+  const [status, setStatus] = useState<StatusFilter>('open');
+  const [items, setItems] = useState<MatchReviewItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function load(next: StatusFilter = status) {
+    setLoading(true);
+    const r = await adminListMatchReviews(next);
+    setLoading(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal memuat antrean review');
+      return;
+    }
+    setItems(r.data.items);
+  }
+
+  async function resolve(item: MatchReviewItem, invoiceId: string) {
+    if (!confirm(`Tandai invoice ${invoiceId} lunas dengan mutasi ${formatRupiah(item.amount)}?`)) return;
+    setBusyId(item.id);
+    const r = await adminResolveMatchReview(item.id, invoiceId);
+    setBusyId(null);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal menyelesaikan review');
+      return;
+    }
+    toast.success('Invoice ditandai lunas');
+    load();
+  }
+
+  async function dismiss(item: MatchReviewItem) {
+    const note = prompt('Alasan (opsional)') ?? undefined;
+    setBusyId(item.id);
+    const r = await adminDismissMatchReview(item.id, note);
+    setBusyId(null);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengabaikan review');
+      return;
+    }
+    toast.success('Mutasi diabaikan');
+    load();
+  }
+
+  // Initial load only; the status filter reloads explicitly.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { load(); }, []);
+
+  return (
+    <AdminLayout
+      title="Review Mutasi"
+      subtitle="Mutasi masuk yang cocok ke lebih dari satu kemungkinan dan tidak dicocokkan otomatis."
+      current="admin_match_reviews"
+      onNavigate={onNavigate}
+    >
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={status}
+            onChange={e => {
+              const next = e.target.value as StatusFilter;
+              setStatus(next);
+              load(next);
+            }}
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+            <option value="dismissed">Dismissed</option>
+            <option value="all">Semua</option>
+          </select>
+          <button
+            onClick={() => load()}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Muat ulang
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Waktu mutasi</th>
+                <th className="py-2 pr-4">Nominal</th>
+                <th className="py-2 pr-4">Provider</th>
+                <th className="py-2 pr-4">Alasan</th>
+                <th className="py-2 pr-4">Kandidat invoice</th>
+                <th className="py-2 pr-4">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(it => (
+                <tr key={it.id} className="border-b border-gray-100 align-top">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {it.occurred_at ? new Date(it.occurred_at * 1000).toLocaleString() : '-'}
+                    {it.description ? <div className="text-xs text-gray-500">{it.description}</div> : null}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-gray-900">{formatRupiah(it.amount)}</td>
+                  <td className="py-2 pr-4">
+                    {it.provider}
+                    <div className="text-xs text-gray-500">{it.account_key}</div>
+                  </td>
+                  <td className="py-2 pr-4">{REASON_LABELS[it.reason] || it.reason}</td>
+                  <td className="py-2 pr-4">
+                    <div className="space-y-1">
+                      {it.candidate_invoice_ids.map(invId => (
+                        <div key={invId} className="flex items-center gap-2">
+                          <span className="font-mono text-xs">{invId}</span>
+                          {it.status === 'open' ? (
+                            <button
+                              onClick={() => resolve(it, invId)}
+                              disabled={busyId === it.id}
+                              className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-green-600 text-white hover:bg-green-700 text-xs disabled:opacity-50"
+                            >
+                              <Check className="h-3 w-3" />
+                              Lunas
+                            </button>
+                          ) : null}
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {it.status === 'open' ? (
+                      <button
+                        onClick={() => dismiss(it)}
+                        disabled={busyId === it.id}
+                        className="inline-flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-xs disabled:opacity-50"
+                      >
+                        <X className="h-3 w-3" />
+                        Abaikan
+                      </button>
+                    ) : (
+                      <div>
+                        <span className="font-medium">{it.status}</span>
+                        <div className="text-xs text-gray-500">
+                          {it.resolved_by || '-'}
+                          {it.resolved_invoice_id ? ` → ${it.resolved_invoice_id}` : ''}
+                        </div>
+                        {it.note ? <div className="text-xs text-gray-500">{it.note}</div> : null}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!items.length && !loading ? <div className="py-8 text-center text-sm text-gray-500">Tidak ada item.</div> : null}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
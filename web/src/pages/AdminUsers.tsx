@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { AdminLayout } from '../components/AdminLayout';
+import { adminDeleteAdminUser, adminListAdminUsers, adminSaveAdminUser, AdminRole, AdminUser } from '../lib/api';
+import { useAuth } from '../context/AuthContext';
+import { RefreshCw, Trash2, UserPlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+export default function AdminUsers({ onNavigate }: { onNavigate: (page: string) => void }) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<AdminUser[]>([]);
+  const [roles, setRoles] = useState<AdminRole[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [newRole, setNewRole] = useState('support');
+
+  async function load() {
+    setLoading(true);
+    const r = await adminListAdminUsers();
+    setLoading(false);
+    if (r?.success) {
+      setItems(r.data.items);
+      setRoles(r.data.roles);
+    } else {
+      toast.error(r?.error?.message || 'Gagal memuat admin users');
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function save(email: string, payload: { role: string; status: 'active' | 'disabled' }) {
+    const r = await adminSaveAdminUser(email, payload);
+    if (r?.success) {
+      toast.success('Admin user tersimpan');
+      await load();
+      return true;
+    }
+    toast.error(r?.error?.message || 'Gagal menyimpan admin user');
+    return false;
+  }
+
+  async function add() {
+    const email = newEmail.trim().toLowerCase();
+    if (!email) return;
+    if (await save(email, { role: newRole, status: 'active' })) setNewEmail('');
+  }
+
+  async function remove(email: string) {
+    if (!confirm(`Hapus akses admin ${email}?`)) return;
+    const r = await adminDeleteAdminUser(email);
+    if (r?.success) {
+      toast.success('Akses admin dihapus');
+      setItems(prev => prev.filter(x => x.email !== email));
+    } else {
+      toast.error(r?.error?.message || 'Gagal menghapus admin user');
+    }
+  }
+
+  return (
+    <AdminLayout
+      title="Admin Users"
+      subtitle="Atur siapa saja yang bisa masuk console admin dan role-nya."
+      current="admin_users"
+      onNavigate={onNavigate}
+    >
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-gray-900">Tambah admin</h2>
+        <p className="text-sm text-gray-600 mt-1">Email harus sudah punya akun (register) supaya bisa login.</p>
+        <div className="mt-4 flex flex-col sm:flex-row gap-3">
+          <input
+            type="email"
+            value={newEmail}
+            onChange={e => setNewEmail(e.target.value)}
+            placeholder="email@domain.com"
+            className="flex-1 rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={newRole}
+            onChange={e => setNewRole(e.target.value)}
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm"
+          >
+            {roles.map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
+          </select>
+          <button
+            onClick={add}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-blue-600 text-white hover:bg-blue-700 text-sm"
+          >
+            <UserPlus className="h-4 w-4" />
+            Tambah
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-6 bg-white border border-gray-200 rounded-xl p-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Daftar admin</h2>
+          <button
+            onClick={load}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4">Email</th>
+                <th className="py-2 pr-4">Role</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Ditambahkan oleh</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(a => (
+                <tr key={a.email} className="border-b border-gray-100">
+                  <td className="py-3 pr-4 font-medium text-gray-900">
+                    {a.email}
+                    {a.email === user?.email ? <span className="ml-2 text-xs text-gray-500">(kamu)</span> : null}
+                  </td>
+                  <td className="py-3 pr-4">
+                    <select
+                      value={a.role}
+                      onChange={e => save(a.email, { role: e.target.value, status: a.status })}
+                      className="rounded-lg border border-gray-200 px-2 py-1 text-sm"
+                    >
+                      {roles.map(r => <option key={r.name} value={r.name}>{r.name}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <button
+                      onClick={() => save(a.email, { role: a.role, status: a.status === 'active' ? 'disabled' : 'active' })}
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        a.status === 'active' ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {a.status}
+                    </button>
+                  </td>
+                  <td className="py-3 pr-4 text-gray-600">{a.created_by || '-'}</td>
+                  <td className="py-3 text-right">
+                    <button onClick={() => remove(a.email)} className="p-2 rounded-lg text-red-600 hover:bg-red-50">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+          {roles.map(r => (
+            <div key={r.name} className="rounded-xl border border-gray-200 p-4 bg-gray-50">
+              <div className="font-semibold text-gray-900">{r.name}</div>
+              {r.description ? <div className="text-xs text-gray-600 mt-1">{r.description}</div> : null}
+              <div className="mt-2 flex flex-wrap gap-1">
+                {r.permissions.map(p => (
+                  <span key={p} className="px-2 py-0.5 rounded bg-white border border-gray-200 text-xs text-gray-700">{p}</span>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
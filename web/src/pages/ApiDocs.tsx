@@ -242,11 +242,18 @@ export const ApiDocs = () => {
                     <li>payment.success - Payment successfully completed</li>
                     <li>payment.failed - Payment failed or cancelled</li>
                     <li>payment.expired - Payment expired without completion</li>
+                    <li>payment.cancelled - Invoice cancelled by the merchant (POST /invoices/:id/cancel)</li>
+                    <li>payment.extended - Invoice expiry pushed back (POST /invoices/:id/extend)</li>
+                    <li>payment.late - Exact amount received after the invoice expired (unmatched funds)</li>
+                    <li>payment.underpaid / payment.overpaid - Near-miss amount received, e.g. without the unique suffix</li>
                   </ul>
                   <CodeBlock title="Webhook Payload Example" code={codeExamples.webhook} />
                   <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <p className="text-sm text-blue-800">
                       Always verify the webhook signature to ensure the request is from PayGateway.
+                      x-webhook-signature is the hex HMAC with the current secret. x-webhook-signatures is a list like
+                      v1=&lt;hex&gt;,v1=&lt;hex&gt;: while a secret rotation overlaps it carries one signature per active
+                      secret, so accept the request if any v1 entry matches (verifyWebhookSignature in sdk/signing.js).
                     </p>
                   </div>
                 </div>
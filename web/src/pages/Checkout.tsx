@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, Clock, Download, QrCode, XCircle } from 'lucide-react';
+import { checkoutQrUrl, checkoutStreamUrl, getCheckout, CheckoutStreamMessage, CheckoutView } from '../lib/api';
+
+const POLL_MS = 3000;
+const REDIRECT_DELAY_MS = 3000;
+
+function formatCountdown(seconds: number) {
+  const s = Math.max(0, seconds);
+  const m = Math.floor(s / 60);
+  return `${String(m).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+}
+
+// "Rp 10.013" with the unique suffix (last three digits) highlighted
+function Amount({ view }: { view: CheckoutView }) {
+  const formatted = view.final_amount.toLocaleString('id-ID');
+  const cut = view.final_amount !== view.base_amount ? Math.max(0, formatted.length - 3) : formatted.length;
+  return (
+    <div className="text-4xl font-bold text-gray-900 tracking-tight">
+      Rp {formatted.slice(0, cut)}
+      {cut < formatted.length ? <span className="text-blue-600 bg-blue-50 rounded px-1">{formatted.slice(cut)}</span> : null}
+    </div>
+  );
+}
+
+export const Checkout = ({ invoiceId, token }: { invoiceId: string; token: string }) => {
+  const [view, setView] = useState<CheckoutView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // The token is in the URL: never leak it to the merchant's redirect target
+  useEffect(() => {
+    const meta = document.createElement('meta');
+    meta.name = 'referrer';
+    meta.content = 'no-referrer';
+    document.head.appendChild(meta);
+    return () => { document.head.removeChild(meta); };
+  }, []);
+
+  // Live updates over Server-Sent Events; polling only when the stream is unavailable
+  useEffect(() => {
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let source: EventSource | undefined;
+
+    const apply = (data: CheckoutView) => {
+      setView(data);
+      setClockOffset(data.server_time - Math.floor(Date.now() / 1000));
+      if (data.status !== 'pending') source?.close();
+    };
+
+    const poll = async () => {
+      const r = await getCheckout(invoiceId, token);
+      if (stopped) return;
+      if (!r?.success) {
+        setError(r?.error?.message || 'Checkout tidak ditemukan');
+        return;
+      }
+      apply(r.data);
+      if (r.data.status === 'pending') timer = setTimeout(poll, POLL_MS);
+    };
+
+    (async () => {
+      const r = await getCheckout(invoiceId, token);
+      if (stopped) return;
+      if (!r?.success) {
+        setError(r?.error?.message || 'Checkout tidak ditemukan');
+        return;
+      }
+      apply(r.data);
+      if (r.data.status !== 'pending') return;
+      if (typeof EventSource === 'undefined') {
+        timer = setTimeout(poll, POLL_MS);
+        return;
+      }
+      source = new EventSource(checkoutStreamUrl(invoiceId, token));
+      source.onmessage = (ev) => {
+        try {
+          apply((JSON.parse(ev.data) as CheckoutStreamMessage).checkout);
+        } catch {
+          // ignore malformed messages
+        }
+      };
+      // EventSource retries on its own; CLOSED means it gave up (e.g. proxy without streaming)
+      source.onerror = () => {
+        if (stopped || source?.readyState !== EventSource.CLOSED) return;
+        timer = setTimeout(poll, POLL_MS);
+      };
+    })();
+
+    return () => {
+      stopped = true;
+      source?.close();
+      if (timer) clearTimeout(timer);
+    };
+  }, [invoiceId, token]);
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  useEffect(() => {
+    if (!view?.redirect_url) return;
+    const target = view.redirect_url;
+    const t = setTimeout(() => window.location.replace(target), REDIRECT_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [view?.redirect_url]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white border border-gray-200 rounded-xl p-8 max-w-md w-full text-center">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+          <h1 className="mt-4 text-xl font-semibold text-gray-900">Link pembayaran tidak valid</h1>
+          <p className="mt-2 text-sm text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-500">Memuat…</div>;
+  }
+
+  const remaining = view.expires_at - (now + clockOffset);
+  const paid = view.status === 'paid' || view.status === 'partially_refunded' || view.status === 'refunded';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-8 max-w-md w-full">
+        {view.sandbox ? (
+          <div className="mb-4 rounded-lg bg-yellow-50 border border-yellow-200 px-3 py-2 text-xs text-yellow-800">
+            Mode sandbox: tidak ada uang sungguhan yang diproses.
+          </div>
+        ) : null}
+
+        <div className="text-center">
+          <div className="text-sm text-gray-500">Pembayaran ke</div>
+          <div className="text-lg font-semibold text-gray-900">{view.merchant_name || 'Merchant'}</div>
+          {view.reference_id ? <div className="text-xs text-gray-500 mt-1">Order {view.reference_id}</div> : null}
+        </div>
+
+        <div className="mt-6 text-center">
+          <Amount view={view} />
+          {view.tip_fee ? (
+            <p className="mt-1 text-sm text-gray-600">+ biaya layanan Rp {view.tip_fee.toLocaleString('id-ID')} (ditambahkan otomatis oleh aplikasi pembayaran)</p>
+          ) : null}
+          {view.final_amount !== view.base_amount ? (
+            <p className="mt-2 text-xs text-gray-600">Bayar tepat sampai digit terakhir agar pembayaran terdeteksi otomatis.</p>
+          ) : null}
+        </div>
+
+        {view.status === 'pending' ? (
+          <>
+            <div className="mt-6 flex justify-center">
+              {view.qris_string ? (
+                <img src={checkoutQrUrl(view.invoice_id, token)} alt="QRIS" className="w-64 h-64 border border-gray-200 rounded-lg" />
+              ) : (
+                <QrCode className="w-64 h-64 text-gray-200" />
+              )}
+            </div>
+            <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-700">
+              <Clock className="h-4 w-4" />
+              {remaining > 0 ? <span>Berlaku {formatCountdown(remaining)}</span> : <span>Memeriksa pembayaran terakhir…</span>}
+            </div>
+            <div className="mt-4 flex justify-center">
+              <a
+                href={checkoutQrUrl(view.invoice_id, token, true)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 text-sm"
+              >
+                <Download className="h-4 w-4" />
+                Unduh QR
+              </a>
+            </div>
+            <p className="mt-4 text-center text-xs text-gray-500">
+              Scan dengan aplikasi bank atau e-wallet yang mendukung QRIS. Halaman ini diperbarui otomatis.
+            </p>
+          </>
+        ) : paid ? (
+          <div className="mt-6 text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+            <div className="mt-2 text-lg font-semibold text-gray-900">Pembayaran berhasil</div>
+            {view.paid_at ? <div className="text-xs text-gray-500">{new Date(view.paid_at * 1000).toLocaleString()}</div> : null}
+          </div>
+        ) : (
+          <div className="mt-6 text-center">
+            <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+            <div className="mt-2 text-lg font-semibold text-gray-900">
+              {view.status === 'cancelled' ? 'Pembayaran dibatalkan' : 'Pembayaran kedaluwarsa'}
+            </div>
+            <div className="text-xs text-gray-500">Jangan transfer ke QR ini lagi; minta link pembayaran baru ke merchant.</div>
+          </div>
+        )}
+
+        {view.redirect_url ? (
+          <div className="mt-6 text-center text-xs text-gray-500">
+            Mengalihkan kembali ke merchant…{' '}
+            <a href={view.redirect_url} className="text-blue-600 hover:underline">Lanjut</a>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+};
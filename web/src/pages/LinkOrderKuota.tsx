@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, KeyRound, Link2, QrCode, RefreshCw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  OrderkuotaAccount,
+  OrderkuotaLinkSession,
+  checkOrderkuotaAccount,
+  confirmOrderkuotaLink,
+  deleteOrderkuotaAccount,
+  listOrderkuotaAccounts,
+  startOrderkuotaLink,
+  submitOrderkuotaLinkOtp,
+} from '../lib/api';
+
+type Step = 'credentials' | 'otp' | 'confirm' | 'done';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const LinkOrderKuota = ({ onNavigate }: { onNavigate: (page: string) => void }) => {
+  const [accounts, setAccounts] = useState<OrderkuotaAccount[]>([]);
+  const [step, setStep] = useState<Step>('credentials');
+  const [busy, setBusy] = useState(false);
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [otp, setOtp] = useState('');
+  const [otpHint, setOtpHint] = useState<string | null>(null);
+  const [session, setSession] = useState<OrderkuotaLinkSession | null>(null);
+  const [relink, setRelink] = useState(false);
+  const [label, setLabel] = useState('');
+  const [qrisStatic, setQrisStatic] = useState('');
+
+  async function loadAccounts() {
+    const r = await listOrderkuotaAccounts();
+    if (r?.success) setAccounts(r.data.accounts);
+    else toast.error(r?.error?.message || 'Gagal memuat akun OrderKuota');
+  }
+
+  useEffect(() => { loadAccounts(); }, []);
+
+  function reset() {
+    setStep('credentials');
+    setUsername('');
+    setPassword('');
+    setOtp('');
+    setOtpHint(null);
+    setSession(null);
+    setRelink(false);
+    setLabel('');
+    setQrisStatic('');
+  }
+
+  function onVerified(s: OrderkuotaLinkSession) {
+    setSession(s);
+    setQrisStatic(s.qris_static || '');
+    setStep('confirm');
+  }
+
+  async function start() {
+    setBusy(true);
+    const r = await startOrderkuotaLink(username.trim(), password);
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal meminta OTP');
+      return;
+    }
+    setPassword('');
+    setOtpHint(r.data.otp_hint);
+    if (r.data.session.status === 'verified') {
+      onVerified(r.data.session);
+      return;
+    }
+    setSession(r.data.session);
+    setStep('otp');
+    toast.success('OTP dikirim');
+  }
+
+  async function verifyOtp() {
+    if (!session) return;
+    setBusy(true);
+    const r = await submitOrderkuotaLinkOtp(session.id, otp.trim());
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'OTP tidak valid');
+      return;
+    }
+    setRelink(!!r.data.existing_account_id);
+    onVerified(r.data.session);
+  }
+
+  async function confirmLink() {
+    if (!session) return;
+    setBusy(true);
+    const r = await confirmOrderkuotaLink(session.id, {
+      label: label.trim() || undefined,
+      qris_static: qrisStatic.trim() || undefined,
+    });
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal menyimpan akun');
+      return;
+    }
+    toast.success(r.data.relinked ? 'Token akun diperbarui' : 'Akun OrderKuota terhubung');
+    setStep('done');
+    loadAccounts();
+  }
+
+  async function recheck(id: string) {
+    const r = await checkOrderkuotaAccount(id);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal cek token');
+      return;
+    }
+    if (r.data.valid) toast.success('Token valid');
+    else toast.error(r.data.error || 'Token tidak valid, hubungkan ulang akun ini');
+    loadAccounts();
+  }
+
+  async function remove(id: string) {
+    if (!confirm('Hapus akun OrderKuota ini? Invoice baru tidak bisa memakai akun ini lagi.')) return;
+    const r = await deleteOrderkuotaAccount(id);
+    if (r?.success) {
+      toast.success('Akun dihapus');
+      loadAccounts();
+    } else {
+      toast.error(r?.error?.message || 'Gagal menghapus akun');
+    }
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div>
+          <button
+            onClick={() => onNavigate('settings')}
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center space-x-1 mb-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Settings</span>
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Hubungkan OrderKuota</h1>
+          <p className="text-gray-600 mt-1">
+            Login dengan akun OrderKuota, masukkan OTP, lalu token disimpan terenkripsi di server.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          {step === 'credentials' && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-gray-900 font-semibold">
+                <KeyRound className="h-5 w-5 text-blue-600" />
+                <span>1. Login OrderKuota</span>
+              </div>
+              <input className={inputClass} placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+              <input
+                className={inputClass}
+                type="password"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Password hanya diteruskan ke OrderKuota untuk meminta OTP dan tidak disimpan.</p>
+              <button
+                onClick={start}
+                disabled={busy || !username.trim() || !password}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy ? 'Meminta OTP...' : 'Kirim OTP'}
+              </button>
+            </div>
+          )}
+
+          {step === 'otp' && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-gray-900 font-semibold">
+                <Link2 className="h-5 w-5 text-blue-600" />
+                <span>2. Masukkan OTP</span>
+              </div>
+              <p className="text-sm text-gray-600">
+                OTP dikirim{otpHint ? <> ke <span className="font-mono">{otpHint}</span></> : null}. Sesi berlaku 10 menit.
+              </p>
+              <input className={inputClass} placeholder="Kode OTP" value={otp} onChange={(e) => setOtp(e.target.value)} />
+              <div className="flex space-x-3">
+                <button
+                  onClick={verifyOtp}
+                  disabled={busy || !otp.trim()}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {busy ? 'Memverifikasi...' : 'Verifikasi'}
+                </button>
+                <button onClick={reset} className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+                  Batal
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'confirm' && session && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-gray-900 font-semibold">
+                <QrCode className="h-5 w-5 text-blue-600" />
+                <span>3. Konfirmasi akun {session.username}</span>
+              </div>
+              {relink && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                  Akun ini sudah terdaftar. Konfirmasi akan mengganti token lama.
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-gray-500">Saldo</div>
+                  <div className="font-semibold text-gray-900">Rp {(session.balance ?? 0).toLocaleString('id-ID')}</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <div className="text-gray-500">Saldo QRIS</div>
+                  <div className="font-semibold text-gray-900">Rp {(session.qris_balance ?? 0).toLocaleString('id-ID')}</div>
+                </div>
+              </div>
+              <input className={inputClass} placeholder="Label (opsional), mis. Toko Utama" value={label} onChange={(e) => setLabel(e.target.value)} />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">QRIS statis</label>
+                <textarea
+                  className={`${inputClass} font-mono text-xs`}
+                  rows={4}
+                  placeholder="000201010211..."
+                  value={qrisStatic}
+                  onChange={(e) => setQrisStatic(e.target.value)}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {session.qris_static
+                    ? 'Diambil otomatis dari menu QRIS OrderKuota.'
+                    : 'QRIS statis tidak ditemukan di akun ini, tempel manual jika ada.'}
+                </p>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={confirmLink}
+                  disabled={busy}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {busy ? 'Menyimpan...' : 'Simpan akun'}
+                </button>
+                <button onClick={reset} className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+                  Batal
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="text-center space-y-4">
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+              <p className="text-gray-900 font-semibold">Akun OrderKuota terhubung.</p>
+              <button onClick={reset} className="px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50">
+                Hubungkan akun lain
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Akun terhubung</h2>
+          {accounts.length === 0 ? (
+            <p className="text-sm text-gray-600">Belum ada akun.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {accounts.map((a) => (
+                <div key={a.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">{a.label || a.username}</div>
+                    <div className="text-xs text-gray-500 font-mono">
+                      {a.username} · {a.id}
+                    </div>
+                    <div className="text-xs mt-1">
+                      <span
+                        className={
+                          a.token_status === 'valid'
+                            ? 'text-green-700'
+                            : a.token_status === 'invalid'
+                              ? 'text-red-700'
+                              : 'text-gray-500'
+                        }
+                      >
+                        token {a.token_status}
+                      </span>
+                      {!a.qris_static && <span className="text-yellow-700"> · tanpa QRIS statis</span>}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button onClick={() => recheck(a.id)} className="p-2 text-gray-500 hover:text-blue-600" title="Cek token">
+                      <RefreshCw className="h-4 w-4" />
+                    </button>
+                    <button onClick={() => remove(a.id)} className="p-2 text-gray-500 hover:text-red-600" title="Hapus">
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
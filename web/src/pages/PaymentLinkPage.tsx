@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { QrCode, XCircle } from 'lucide-react';
+import { getPublicPaymentLink, payPaymentLink, PaymentLinkUnavailable, PublicPaymentLink } from '../lib/api';
+
+const UNAVAILABLE_LABELS: Record<PaymentLinkUnavailable, string> = {
+  INACTIVE: 'Link pembayaran ini sedang tidak aktif.',
+  NOT_STARTED: 'Link pembayaran ini belum dibuka.',
+  ENDED: 'Link pembayaran ini sudah berakhir.',
+  SOLD_OUT: 'Kuota pembayaran untuk link ini sudah habis.',
+  BUSY: 'Semua kuota sedang dalam proses pembayaran. Coba lagi beberapa menit lagi.',
+};
+
+export const PaymentLinkPage = ({ slug }: { slug: string }) => {
+  const [link, setLink] = useState<PublicPaymentLink | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const r = await getPublicPaymentLink(slug);
+      if (!r?.success) {
+        setError(r?.error?.message || 'Link pembayaran tidak ditemukan');
+        return;
+      }
+      setLink(r.data);
+    })();
+  }, [slug]);
+
+  // Every visitor gets a fresh invoice (own QR + unique amount) on the hosted checkout
+  const pay = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!link) return;
+    setBusy(true);
+    const r = await payPaymentLink(slug, link.amount == null ? Number(amount) : undefined);
+    if (!r?.success) {
+      setBusy(false);
+      setError(r?.error?.message || 'Gagal membuat pembayaran');
+      return;
+    }
+    window.location.assign(r.data.checkout_url);
+  };
+
+  if (error && !link) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="bg-white border border-gray-200 rounded-xl p-8 max-w-md w-full text-center">
+          <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+          <h1 className="mt-4 text-xl font-semibold text-gray-900">Link pembayaran tidak valid</h1>
+          <p className="mt-2 text-sm text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!link) {
+    return <div className="min-h-screen bg-gray-50 flex items-center justify-center text-gray-500">Memuat…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-8 max-w-md w-full">
+        {link.sandbox ? (
+          <div className="mb-4 rounded-lg bg-yellow-50 border border-yellow-200 px-3 py-2 text-xs text-yellow-800">
+            Mode sandbox: tidak ada uang sungguhan yang diproses.
+          </div>
+        ) : null}
+
+        <div className="text-center">
+          <QrCode className="h-10 w-10 text-blue-600 mx-auto" />
+          <h1 className="mt-3 text-xl font-semibold text-gray-900">{link.title}</h1>
+          {link.description ? <p className="mt-2 text-sm text-gray-600 whitespace-pre-line">{link.description}</p> : null}
+        </div>
+
+        {link.unavailable_reason ? (
+          <div className="mt-6 rounded-lg bg-gray-50 border border-gray-200 px-4 py-3 text-sm text-gray-700 text-center">
+            {UNAVAILABLE_LABELS[link.unavailable_reason]}
+          </div>
+        ) : (
+          <form onSubmit={pay} className="mt-6 space-y-4">
+            {link.amount != null ? (
+              <div className="text-center text-3xl font-bold text-gray-900">Rp {link.amount.toLocaleString('id-ID')}</div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nominal (Rp)</label>
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={link.min_amount ?? 1}
+                  max={link.max_amount ?? undefined}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Rp {(link.min_amount ?? 1).toLocaleString('id-ID')} – Rp {(link.max_amount ?? 0).toLocaleString('id-ID')}
+                </p>
+              </div>
+            )}
+            {link.remaining != null ? <p className="text-xs text-gray-500 text-center">Sisa kuota: {link.remaining}</p> : null}
+            {error ? <p className="text-sm text-red-600 text-center">{error}</p> : null}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy ? 'Membuat QR…' : 'Bayar dengan QRIS'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent } from 'react';
+import { ArrowLeft, Archive, Copy, Plus, Power } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  OrderkuotaAccount,
+  PaymentLink,
+  PaymentLinkUnavailable,
+  createPaymentLink,
+  listOrderkuotaAccounts,
+  listPaymentLinks,
+  updatePaymentLink,
+} from '../lib/api';
+
+type Env = 'production' | 'sandbox';
+
+const inputClass =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const UNAVAILABLE_LABELS: Record<PaymentLinkUnavailable, string> = {
+  INACTIVE: 'Nonaktif',
+  NOT_STARTED: 'Belum dibuka',
+  ENDED: 'Berakhir',
+  SOLD_OUT: 'Kuota habis',
+  BUSY: 'Kuota sedang diproses',
+};
+
+function formatRupiah(n: number) {
+  return `Rp ${n.toLocaleString('id-ID')}`;
+}
+
+function toUnix(v: string): number | null {
+  return v ? Math.floor(new Date(v).getTime() / 1000) : null;
+}
+
+export const PaymentLinks = ({ onNavigate }: { onNavigate: (page: string) => void }) => {
+  const [env, setEnv] = useState<Env>('production');
+  const [links, setLinks] = useState<PaymentLink[]>([]);
+  const [accounts, setAccounts] = useState<OrderkuotaAccount[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [fixed, setFixed] = useState(true);
+  const [amount, setAmount] = useState('');
+  const [minAmount, setMinAmount] = useState('');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [maxUses, setMaxUses] = useState('');
+  const [activeUntil, setActiveUntil] = useState('');
+  const [accountId, setAccountId] = useState('');
+
+  async function load(next: Env = env) {
+    const r = await listPaymentLinks(next);
+    if (r?.success) setLinks(r.data.items);
+    else toast.error(r?.error?.message || 'Gagal memuat payment link');
+  }
+
+  // Initial load only; the env switch reloads explicitly.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { load(); }, []);
+
+  useEffect(() => {
+    listOrderkuotaAccounts().then((r) => {
+      if (r?.success) setAccounts(r.data.accounts);
+    });
+  }, []);
+
+  async function create(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    const r = await createPaymentLink({
+      env,
+      title: title.trim(),
+      description: description.trim() || null,
+      amount: fixed ? Number(amount) : null,
+      min_amount: !fixed && minAmount ? Number(minAmount) : null,
+      max_amount: !fixed && maxAmount ? Number(maxAmount) : null,
+      max_uses: maxUses ? Number(maxUses) : null,
+      active_until: toUnix(activeUntil),
+      account_id: env === 'production' && accountId ? accountId : null,
+    });
+    setBusy(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal membuat payment link');
+      return;
+    }
+    setTitle('');
+    setDescription('');
+    setAmount('');
+    setMinAmount('');
+    setMaxAmount('');
+    setMaxUses('');
+    setActiveUntil('');
+    toast.success('Payment link dibuat');
+    load();
+  }
+
+  async function setStatus(link: PaymentLink, status: PaymentLink['status']) {
+    if (status === 'archived' && !confirm(`Arsipkan "${link.title}"? Link tidak bisa dibuka lagi.`)) return;
+    const r = await updatePaymentLink(link.id, { status });
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengubah payment link');
+      return;
+    }
+    load();
+  }
+
+  function fullUrl(link: PaymentLink) {
+    return link.url.startsWith('http') ? link.url : `${window.location.origin}${link.url}`;
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)] bg-gray-50 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <button onClick={() => onNavigate('settings')} className="inline-flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4" />
+          Kembali ke Settings
+        </button>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Payment Links</h1>
+            <p className="text-gray-600 mt-1">Link yang bisa dibayar berkali-kali; setiap pembayaran membuat invoice + QR baru.</p>
+          </div>
+          <select
+            value={env}
+            onChange={(e) => {
+              const next = e.target.value as Env;
+              setEnv(next);
+              load(next);
+            }}
+            className="rounded-xl border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="production">Production</option>
+            <option value="sandbox">Sandbox</option>
+          </select>
+        </div>
+
+        <form onSubmit={create} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Buat payment link</h2>
+          <input className={inputClass} placeholder="Judul (mis. Donasi Masjid)" value={title} onChange={(e) => setTitle(e.target.value)} required />
+          <textarea className={inputClass} placeholder="Deskripsi (opsional)" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+          <div className="flex gap-4 text-sm">
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" checked={fixed} onChange={() => setFixed(true)} />
+              Nominal tetap
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" checked={!fixed} onChange={() => setFixed(false)} />
+              Diisi pembayar
+            </label>
+          </div>
+          {fixed ? (
+            <input className={inputClass} type="number" min={1} placeholder="Nominal (Rp)" value={amount} onChange={(e) => setAmount(e.target.value)} required />
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <input className={inputClass} type="number" min={1} placeholder="Minimal (opsional)" value={minAmount} onChange={(e) => setMinAmount(e.target.value)} />
+              <input className={inputClass} type="number" min={1} placeholder="Maksimal (opsional)" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} />
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <input className={inputClass} type="number" min={1} placeholder="Maks. pembayaran (kosong = tanpa batas)" value={maxUses} onChange={(e) => setMaxUses(e.target.value)} />
+            <input className={inputClass} type="datetime-local" title="Berlaku sampai (opsional)" value={activeUntil} onChange={(e) => setActiveUntil(e.target.value)} />
+          </div>
+          {env === 'production' ? (
+            <select className={inputClass} value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+              <option value="">Provider default merchant</option>
+              {accounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  OrderKuota {a.label || a.username}
+                </option>
+              ))}
+            </select>
+          ) : null}
+          <button
+            type="submit"
+            disabled={busy}
+            className="inline-flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Buat link
+          </button>
+        </form>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4">Judul</th>
+                  <th className="py-2 pr-4">Nominal</th>
+                  <th className="py-2 pr-4">Terpakai</th>
+                  <th className="py-2 pr-4">Terkumpul</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {links.map((l) => (
+                  <tr key={l.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900">{l.title}</div>
+                      <button
+                        onClick={() => {
+                          navigator.clipboard.writeText(fullUrl(l));
+                          toast.success('Link disalin');
+                        }}
+                        className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                      >
+                        <Copy className="h-3 w-3" />
+                        {l.url}
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {l.amount != null ? formatRupiah(l.amount) : 'Diisi pembayar'}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {l.used}
+                      {l.max_uses != null ? ` / ${l.max_uses}` : ''}
+                      {l.pending ? <div className="text-xs text-gray-500">{l.pending} menunggu</div> : null}
+                    </td>
+                    <td className="py-2 pr-4">{formatRupiah(l.paid_total)}</td>
+                    <td className="py-2 pr-4">{l.unavailable_reason ? UNAVAILABLE_LABELS[l.unavailable_reason] : 'Aktif'}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <button
+                        onClick={() => setStatus(l, l.status === 'active' ? 'inactive' : 'active')}
+                        title={l.status === 'active' ? 'Nonaktifkan' : 'Aktifkan'}
+                        className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+                      >
+                        <Power className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setStatus(l, 'archived')} title="Arsipkan" className="p-2 rounded-lg text-gray-600 hover:bg-gray-100">
+                        <Archive className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {!links.length ? <div className="py-8 text-center text-sm text-gray-500">Belum ada payment link.</div> : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
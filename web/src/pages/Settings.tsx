@@ -1,7 +1,12 @@
 import { useState } from 'react';
-import { Key, Webhook, User, Building, Eye, EyeOff, Copy, Plus, Trash2 } from 'lucide-react';
+import type { FormEvent } from 'react';
+import { Key, Webhook, User, Building, Eye, EyeOff, Copy, Plus, Trash2, Link2, QrCode } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
+import { changePassword } from '../lib/api';
 import { ApiKey } from '../types';
+import { WebhookEndpoints } from '../components/WebhookEndpoints';
+import { WebhookDeliveries } from '../components/WebhookDeliveries';
 
 const mockApiKeys: ApiKey[] = [
   {
@@ -22,12 +27,36 @@ const mockApiKeys: ApiKey[] = [
   },
 ];
 
-export const Settings = () => {
+export const Settings = ({ onNavigate }: { onNavigate?: (page: string) => void }) => {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<'profile' | 'api-keys' | 'webhooks'>('profile');
   const [apiKeys, setApiKeys] = useState(mockApiKeys);
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({});
-  const [webhookUrl, setWebhookUrl] = useState('https://yoursite.com/webhook');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  // Changing the password signs out every other session
+  const submitProfile = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!currentPassword && !newPassword) return;
+    if (newPassword !== confirmPassword) {
+      toast.error('Konfirmasi password tidak sama');
+      return;
+    }
+    setSavingPassword(true);
+    const r = await changePassword(currentPassword, newPassword);
+    setSavingPassword(false);
+    if (!r?.success) {
+      toast.error(r?.error?.message || 'Gagal mengganti password');
+      return;
+    }
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    toast.success('Password diganti. Sesi lain sudah dikeluarkan.');
+  };
 
   const toggleKeyVisibility = (id: string) => {
     setShowKeys({ ...showKeys, [id]: !showKeys[id] });
@@ -86,6 +115,20 @@ export const Settings = () => {
                   <Webhook className="h-5 w-5" />
                   <span>Webhooks</span>
                 </button>
+                <button
+                  onClick={() => onNavigate?.('orderkuota_link')}
+                  className="w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors text-gray-600 hover:bg-gray-50"
+                >
+                  <Link2 className="h-5 w-5" />
+                  <span>OrderKuota</span>
+                </button>
+                <button
+                  onClick={() => onNavigate?.('payment_links')}
+                  className="w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-sm font-medium transition-colors text-gray-600 hover:bg-gray-50"
+                >
+                  <QrCode className="h-5 w-5" />
+                  <span>Payment Links</span>
+                </button>
               </nav>
             </div>
           </div>
@@ -94,7 +137,7 @@ export const Settings = () => {
             {activeTab === 'profile' && (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
                 <h2 className="text-2xl font-bold text-gray-900 mb-6">Profile Information</h2>
-                <form className="space-y-6">
+                <form className="space-y-6" onSubmit={submitProfile}>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -144,6 +187,8 @@ export const Settings = () => {
                         </label>
                         <input
                           type="password"
+                          value={currentPassword}
+                          onChange={(e) => setCurrentPassword(e.target.value)}
                           className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
@@ -154,6 +199,8 @@ export const Settings = () => {
                           </label>
                           <input
                             type="password"
+                            value={newPassword}
+                            onChange={(e) => setNewPassword(e.target.value)}
                             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           />
                         </div>
@@ -163,6 +210,8 @@ export const Settings = () => {
                           </label>
                           <input
                             type="password"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
                             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                           />
                         </div>
@@ -173,7 +222,8 @@ export const Settings = () => {
                   <div className="flex justify-end pt-4">
                     <button
                       type="submit"
-                      className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                      disabled={savingPassword}
+                      className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50"
                     >
                       Save Changes
                     </button>
@@ -271,19 +321,7 @@ export const Settings = () => {
                 <h2 className="text-2xl font-bold text-gray-900 mb-6">Webhook Configuration</h2>
 
                 <div className="mb-6">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Webhook URL
-                  </label>
-                  <input
-                    type="url"
-                    value={webhookUrl}
-                    onChange={(e) => setWebhookUrl(e.target.value)}
-                    placeholder="https://yoursite.com/webhook"
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                  <p className="text-sm text-gray-500 mt-2">
-                    This URL will receive payment notifications from PayGateway
-                  </p>
+                  <WebhookEndpoints />
                 </div>
 
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-6">
@@ -308,49 +346,7 @@ export const Settings = () => {
                   </ul>
                 </div>
 
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold text-gray-900">Recent Webhook Deliveries</h3>
-                  <div className="border border-gray-200 rounded-lg overflow-hidden">
-                    <table className="w-full">
-                      <thead className="bg-gray-50">
-                        <tr>
-                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Event</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Response</th>
-                          <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Time</th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-gray-200">
-                        <tr>
-                          <td className="px-4 py-3 text-sm text-gray-900">payment.success</td>
-                          <td className="px-4 py-3">
-                            <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-semibold rounded">
-                              200 OK
-                            </span>
-                          </td>
-                          <td className="px-4 py-3 text-sm text-gray-600">1.2s</td>
-                          <td className="px-4 py-3 text-sm text-gray-600">2 min ago</td>
-                        </tr>
-                        <tr>
-                          <td className="px-4 py-3 text-sm text-gray-900">payment.pending</td>
-                          <td className="px-4 py-3">
-                            <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-semibold rounded">
-                              200 OK
-                            </span>
-                          </td>
-                          <td className="px-4 py-3 text-sm text-gray-600">0.8s</td>
-                          <td className="px-4 py-3 text-sm text-gray-600">5 min ago</td>
-                        </tr>
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
-
-                <div className="flex justify-end pt-6">
-                  <button className="px-6 py-3 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors">
-                    Save Webhook Settings
-                  </button>
-                </div>
+                <WebhookDeliveries />
               </div>
             )}
           </div>